@@ -0,0 +1,181 @@
+import { CompactionSchema, type CompactionConfig } from '../config/schema';
+import type { LLMResponse, Message } from '../types';
+import { logger } from '../utils/logger';
+import { turnBoundary, type Memory } from './memory';
+
+/**
+ * Token-budgeted history compaction.
+ *
+ * A session's history may fill `historyShare` of the model's context window.
+ * Past that, the oldest turns are cut off and folded, together with the
+ * previous summary, into a rolling summary written by a (preferably cheap)
+ * model; the newest turns, up to `keepShare` of the window, stay verbatim.
+ * The same shares apply to the session's message cap (see Memory.addMessage),
+ * so a long run of short messages is summarized before the cap would drop it.
+ * Cuts fall on user messages only, so a tool call is never separated from its
+ * results. The summary is rendered into the system prompt below the cache
+ * marker (see ContextBuilder.buildSystemPrompt).
+ *
+ * Token counts are estimates (about four characters per token). They only
+ * decide when to compact, so being roughly right is enough.
+ */
+
+/** Context windows by model-id substring; the first match wins. */
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+  ['ollama/', 8192],
+  ['claude', 200_000],
+  ['gemini', 1_000_000],
+  ['grok', 256_000],
+  ['gpt-4o', 128_000],
+  ['gpt-oss', 128_000],
+  ['deepseek', 128_000],
+  ['llama', 128_000],
+  ['qwen', 128_000],
+];
+
+const DEFAULT_CONTEXT_WINDOW = 32_000;
+
+/** Longest single message, in characters, handed to the summarizer. */
+const MAX_SUMMARIZED_CHARS = 4000;
+
+const SUMMARY_PROMPT =
+  'You maintain the running summary of a conversation between a user and an assistant. ' +
+  'Fold the earlier summary (if any) and the transcript below into one updated summary. ' +
+  'Keep facts, names, numbers, decisions, user preferences, tool results that later ' +
+  'turns may rely on, and questions still open. Drop pleasantries and repetition. ' +
+  'Write plain prose in the third person, at most a few short paragraphs, and reply ' +
+  'with the summary only.';
+
+export type CompactionComplete = (
+  messages: Message[],
+  model: string,
+  maxTokens: number
+) => Promise<LLMResponse>;
+
+export interface CompactionResult {
+  /** Messages folded into the summary. */
+  compactedCount: number;
+  /** Model that wrote the summary (as served). */
+  model: string;
+  usage?: LLMResponse['usage'];
+}
+
+export function contextWindowFor(model: string, overrides: Record<string, number> = {}): number {
+  if (overrides[model]) return overrides[model];
+  const lower = model.toLowerCase();
+  return CONTEXT_WINDOWS.find(([needle]) => lower.includes(needle))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+export function estimateTokens(message: Message): number {
+  let chars = message.content.length;
+  for (const call of message.tool_calls ?? []) {
+    chars += call.function.name.length + call.function.arguments.length;
+  }
+  return Math.ceil(chars / 4) + 4;
+}
+
+/**
+ * How many leading messages to compact so that what is left fits in
+ * `keepTokens`: the first turn boundary at or after the point where the tail
+ * fits. When only the last turn would fit (or not even that), everything
+ * before the last turn goes. 0 means there is nothing that can be cut.
+ */
+export function compactionCut(messages: readonly Message[], keepTokens: number): number {
+  let kept = 0;
+  let fitFrom = messages.length;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    kept += estimateTokens(messages[i]);
+    if (kept > keepTokens) break;
+    fitFrom = i;
+  }
+  return turnCut(messages, fitFrom);
+}
+
+/** Like compactionCut, but keeping at most `keepMessages` messages. */
+export function messageCountCut(messages: readonly Message[], keepMessages: number): number {
+  return turnCut(messages, messages.length - keepMessages);
+}
+
+/** The first turn boundary at or after `from`, else the start of the last turn (0: none). */
+function turnCut(messages: readonly Message[], from: number): number {
+  const cut = turnBoundary(messages, from);
+  if (cut < messages.length) return cut;
+  // No turn starts inside the part that fits: keep the last turn whole.
+  for (let i = messages.length - 1; i > 0; i--) {
+    if (messages[i].role === 'user') return i;
+  }
+  return 0;
+}
+
+function transcript(messages: readonly Message[]): string {
+  const clip = (text: string) =>
+    text.length > MAX_SUMMARIZED_CHARS ? `${text.slice(0, MAX_SUMMARIZED_CHARS)} […]` : text;
+  return messages
+    .filter((m) => m.role !== 'system')
+    .map((m) => {
+      if (m.role === 'tool') return `Tool result (${m.name ?? 'tool'}): ${clip(m.content)}`;
+      const calls = (m.tool_calls ?? []).map(
+        (call) => `\n[called ${call.function.name}(${clip(call.function.arguments)})]`
+      );
+      return `${m.role === 'user' ? 'User' : 'Assistant'}: ${clip(m.content)}${calls.join('')}`;
+    })
+    .join('\n\n');
+}
+
+/**
+ * Compact `memory` when its history is over budget for `model`. Summarizer
+ * failures are logged and the history is left as it was; the turn goes on
+ * and compaction is tried again on the next one.
+ */
+export async function compactHistory(
+  memory: Memory,
+  model: string,
+  settings: CompactionConfig | undefined,
+  complete: CompactionComplete
+): Promise<CompactionResult | undefined> {
+  const options = settings ?? CompactionSchema.parse({});
+  if (!options.enabled) return undefined;
+  const messages = memory.getMessages();
+  const window = contextWindowFor(model, options.contextTokens);
+  const used = messages.reduce((sum, m) => sum + estimateTokens(m), 0);
+  const overTokens = used > window * options.historyShare;
+  const messageCap = memory.getMaxMessages();
+  const overCount = messages.length > messageCap * options.historyShare;
+  if (!overTokens && !overCount) return undefined;
+
+  let cut = overTokens ? compactionCut(messages, window * options.keepShare) : 0;
+  if (overCount) {
+    cut = Math.max(cut, messageCountCut(messages, Math.floor(messageCap * options.keepShare)));
+  }
+  if (cut === 0) return undefined;
+
+  const previous = memory.getSummary();
+  const summaryModel = options.summaryModel ?? model;
+  const input =
+    (previous ? `Earlier summary:\n${previous}\n\n` : '') +
+    `Transcript to fold in:\n${transcript(messages.slice(0, cut))}`;
+  try {
+    const response = await complete(
+      [
+        { role: 'system', content: SUMMARY_PROMPT },
+        { role: 'user', content: input },
+      ],
+      summaryModel,
+      options.summaryMaxTokens
+    );
+    const summary = response.content.trim();
+    if (!summary) throw new Error('empty summary');
+    memory.compact(cut, summary);
+    logger.info(
+      { sessionId: memory.getSessionId(), compacted: cut, estimatedTokens: used, window },
+      'Compacted conversation history'
+    );
+    return { compactedCount: cut, model: response.model ?? summaryModel, usage: response.usage };
+  } catch (error) {
+    logger.warn(
+      { error, sessionId: memory.getSessionId(), model: summaryModel },
+      'History compaction failed; keeping full history'
+    );
+    return undefined;
+  }
+}
@@ -59,7 +59,9 @@ export class ContextBuilder {
     skills: Skill[],
     tools: ToolDefinition[],
     turnEvidence?: TurnEvidence,
-    deepResult?: DeepReasoningResult
+    deepResult?: DeepReasoningResult,
+    summary?: string,
+    userFacts?: string[]
   ): string {
     const parts: string[] = [];
 
@@ -156,6 +158,28 @@ export class ContextBuilder {
       );
     }
 
+    // Rolling summary of turns compacted out of the history (agent/compaction.ts).
+    // Below the marker: it is rewritten every time the history is compacted.
+    if (summary) {
+      parts.push('\n## Earlier in this conversation');
+      parts.push(
+        'Older turns of this conversation were condensed into the summary below. ' +
+          'Treat it as what was said before the messages that follow; do not mention ' +
+          'that it is a summary.\n'
+      );
+      parts.push(summary);
+    }
+
+    // Long-term facts recalled for this turn (agent/long-term-memory.ts).
+    if (userFacts?.length) {
+      parts.push('\n## What you remember about this user');
+      parts.push(
+        'Saved from earlier conversations. Use them where relevant without announcing ' +
+          'that you remembered; if the user corrects one, save the correction.\n'
+      );
+      parts.push(userFacts.map((fact) => `- ${fact}`).join('\n'));
+    }
+
     if (this.config.responseMode === 'voice') {
       parts.push('\n## Spoken response contract');
       parts.push(
@@ -464,12 +488,21 @@ Guidelines:
     skills: Skill[],
     tools: ToolDefinition[],
     turnEvidence?: TurnEvidence,
-    deepResult?: DeepReasoningResult
+    deepResult?: DeepReasoningResult,
+    summary?: string,
+    userFacts?: string[]
   ): Message[] {
     const messages: Message[] = [];
 
     // Add system message with full context
-    const systemPrompt = this.buildSystemPrompt(skills, tools, turnEvidence, deepResult);
+    const systemPrompt = this.buildSystemPrompt(
+      skills,
+      tools,
+      turnEvidence,
+      deepResult,
+      summary,
+      userFacts
+    );
     messages.push({
       role: 'system',
       content: systemPrompt,
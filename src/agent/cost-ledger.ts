@@ -0,0 +1,255 @@
+import { statSync } from 'fs';
+import { join } from 'path';
+import type { BudgetLimit, CostsConfig } from '../config/schema';
+import { getHomeDir } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { readJsonFile, writeJsonFile } from '../utils/persist';
+import { PRICING_AS_OF, priceUsage, type CallCost, type Usage } from './pricing';
+
+/**
+ * Running spend per session, per profile per day, and per day.
+ *
+ * Every priced call adds to three buckets: its session (all time), its
+ * profile's share of today, and today's total (days are UTC). Totals are kept
+ * in memory and rewritten to `~/.nano-claw/costs.json` after each call, so
+ * budgets survive a restart. An instance re-reads the file when another one
+ * (the gateway, a cron job, the API server) has written it since, so every
+ * surface adds to the same totals. Budgets are checked when a turn starts:
+ * past a soft limit the turn runs on `downgradeModel`; past a hard limit it
+ * is refused. A turn that is already running is never cut off mid-way.
+ */
+
+export interface ModelTotals {
+  usd: number;
+  calls: number;
+}
+
+export interface CostTotals extends ModelTotals {
+  /** Calls to a model with no known price (counted at $0). */
+  unpricedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  models: Record<string, ModelTotals>;
+  /** ISO time of the latest call. */
+  lastAt: string;
+}
+
+export interface DayTotals extends CostTotals {
+  profiles: Record<string, CostTotals>;
+}
+
+interface LedgerFile {
+  version: number;
+  sessions: Record<string, CostTotals>;
+  days: Record<string, DayTotals>;
+}
+
+export type BudgetScope = 'session' | 'profile' | 'day';
+
+export interface BudgetCheck {
+  level: 'ok' | 'soft' | 'hard';
+  /** The budget that set the level (the first hard one, else the first soft one). */
+  scope?: BudgetScope;
+  spentUsd?: number;
+  limitUsd?: number;
+}
+
+export interface CostCall {
+  sessionId: string;
+  profile: string;
+  model: string;
+  usage: Usage;
+}
+
+export interface CostSnapshot {
+  pricingAsOf: string;
+  budgets: CostsConfig['budgets'];
+  downgradeModel?: string;
+  sessions: Record<string, CostTotals>;
+  /** Per-day totals; only the per-profile part for a scoped API key. */
+  days: Record<string, DayTotals | Pick<DayTotals, 'profiles'>>;
+}
+
+/** Limits a snapshot to what an API key may see (see api/auth.ts). */
+export interface CostSnapshotFilter {
+  sessionPrefixes?: string[];
+  profiles?: string[];
+}
+
+const LEDGER_VERSION = 1;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function defaultCostLedgerPath(): string {
+  return join(getHomeDir(), 'costs.json');
+}
+
+function emptyTotals(): CostTotals {
+  return {
+    usd: 0,
+    calls: 0,
+    unpricedCalls: 0,
+    promptTokens: 0,
+    completionTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    models: {},
+    lastAt: new Date(0).toISOString(),
+  };
+}
+
+function addCall(totals: CostTotals, call: CostCall, cost: CallCost, at: string): void {
+  totals.usd += cost.usd;
+  totals.calls++;
+  if (cost.unpriced) totals.unpricedCalls++;
+  totals.promptTokens += call.usage.promptTokens;
+  totals.completionTokens += call.usage.completionTokens;
+  totals.cacheReadTokens += call.usage.cacheReadTokens ?? 0;
+  totals.cacheWriteTokens += call.usage.cacheWriteTokens ?? 0;
+  const model = (totals.models[call.model] ??= { usd: 0, calls: 0 });
+  model.usd += cost.usd;
+  model.calls++;
+  totals.lastAt = at;
+}
+
+/** Round for display; the ledger itself keeps full precision. */
+function rounded<T extends ModelTotals>(totals: T): T {
+  const round = (usd: number) => Math.round(usd * 1e6) / 1e6;
+  const copy = JSON.parse(JSON.stringify(totals)) as T & { models?: Record<string, ModelTotals> };
+  copy.usd = round(copy.usd);
+  for (const model of Object.values(copy.models ?? {})) model.usd = round(model.usd);
+  return copy;
+}
+
+/** What a turn past its hard budget is told. */
+export function budgetExceededMessage(budget: BudgetCheck): string {
+  return `The ${budget.scope} budget of $${budget.limitUsd} has been spent`;
+}
+
+export class CostLedger {
+  private data: LedgerFile | undefined;
+  /** mtime and size of the file as last read or written; a change means another writer. */
+  private loadedStamp = '';
+
+  constructor(
+    private options: CostsConfig,
+    private path: string = defaultCostLedgerPath(),
+    private now: () => number = Date.now
+  ) {}
+
+  private day(): string {
+    return new Date(this.now()).toISOString().slice(0, 10);
+  }
+
+  private stamp(): string {
+    try {
+      const stat = statSync(this.path);
+      return `${stat.mtimeMs}:${stat.size}`;
+    } catch {
+      /* health-ok: no ledger file yet */
+      return '';
+    }
+  }
+
+  private load(): LedgerFile {
+    const stamp = this.stamp();
+    if (this.data && stamp === this.loadedStamp) return this.data;
+    this.loadedStamp = stamp;
+    this.data = { version: LEDGER_VERSION, sessions: {}, days: {} };
+    try {
+      const raw = readJsonFile<Partial<LedgerFile>>(this.path);
+      if (!raw) return this.data;
+      if (raw.version !== LEDGER_VERSION) throw new Error('unrecognized cost ledger version');
+      this.data.sessions = raw.sessions ?? {};
+      this.data.days = raw.days ?? {};
+    } catch (error) {
+      logger.warn({ error, path: this.path }, 'Failed to load cost ledger; starting empty');
+    }
+    return this.data;
+  }
+
+  private save(): void {
+    try {
+      writeJsonFile(this.path, this.load());
+      this.loadedStamp = this.stamp();
+    } catch (error) {
+      logger.error({ error, path: this.path }, 'Failed to save cost ledger');
+    }
+  }
+
+  /** Drop days, and sessions idle for longer than `retentionDays`. */
+  private prune(data: LedgerFile): void {
+    const cutoff = this.now() - this.options.retentionDays * DAY_MS;
+    const cutoffDay = new Date(cutoff).toISOString().slice(0, 10);
+    for (const day of Object.keys(data.days)) {
+      if (day < cutoffDay) delete data.days[day];
+    }
+    for (const [id, totals] of Object.entries(data.sessions)) {
+      if (Date.parse(totals.lastAt) < cutoff) delete data.sessions[id];
+    }
+  }
+
+  /** Price one call and add it to its session, profile and day. */
+  record(call: CostCall): CallCost {
+    const cost = priceUsage(call.model, call.usage, this.options.pricing);
+    const data = this.load();
+    const at = new Date(this.now()).toISOString();
+    const day = (data.days[this.day()] ??= { ...emptyTotals(), profiles: {} });
+    addCall(day, call, cost, at);
+    addCall((day.profiles[call.profile] ??= emptyTotals()), call, cost, at);
+    addCall((data.sessions[call.sessionId] ??= emptyTotals()), call, cost, at);
+    if (cost.unpriced) {
+      logger.warn({ model: call.model }, 'No price for model; cost recorded as $0');
+    }
+    this.prune(data);
+    this.save();
+    return cost;
+  }
+
+  /** The most severe budget state for a turn about to start. */
+  check(sessionId: string, profile: string): BudgetCheck {
+    const data = this.load();
+    const today = data.days[this.day()];
+    const spent: Array<[BudgetScope, BudgetLimit | undefined, number]> = [
+      ['session', this.options.budgets.session, data.sessions[sessionId]?.usd ?? 0],
+      ['profile', this.options.budgets.profile, today?.profiles[profile]?.usd ?? 0],
+      ['day', this.options.budgets.day, today?.usd ?? 0],
+    ];
+    let soft: BudgetCheck | undefined;
+    for (const [scope, limit, spentUsd] of spent) {
+      if (limit?.hardUsd !== undefined && spentUsd >= limit.hardUsd) {
+        return { level: 'hard', scope, spentUsd, limitUsd: limit.hardUsd };
+      }
+      if (!soft && limit?.softUsd !== undefined && spentUsd >= limit.softUsd) {
+        soft = { level: 'soft', scope, spentUsd, limitUsd: limit.softUsd };
+      }
+    }
+    return soft ?? { level: 'ok' };
+  }
+
+  snapshot(filter: CostSnapshotFilter = {}): CostSnapshot {
+    const data = this.load();
+    const sessions = Object.entries(data.sessions).filter(
+      ([id]) => !filter.sessionPrefixes || filter.sessionPrefixes.some((p) => id.startsWith(p))
+    );
+    const days = Object.entries(data.days).map(([day, totals]): [string, DayTotals] => {
+      const profiles = Object.entries(totals.profiles)
+        .filter(([id]) => !filter.profiles || filter.profiles.includes(id))
+        .map(([id, profileTotals]): [string, CostTotals] => [id, rounded(profileTotals)]);
+      return [day, { ...rounded(totals), profiles: Object.fromEntries(profiles) }];
+    });
+    // A key bound to some sessions or profiles sees only those; the all-traffic
+    // day totals would leak other tenants' spend.
+    const scoped = !!(filter.sessionPrefixes || filter.profiles);
+    return {
+      pricingAsOf: PRICING_AS_OF,
+      budgets: this.options.budgets,
+      ...(this.options.downgradeModel && { downgradeModel: this.options.downgradeModel }),
+      sessions: Object.fromEntries(sessions.map(([id, totals]) => [id, rounded(totals)])),
+      days: Object.fromEntries(
+        scoped ? days.map(([day, totals]) => [day, { profiles: totals.profiles }]) : days
+      ),
+    };
+  }
+}
@@ -0,0 +1,226 @@
+import { appendFileSync, existsSync, mkdirSync, readFileSync, statSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { dirname, join } from 'path';
+import type { LongTermMemoryConfig } from '../config/schema';
+import { getHomeDir } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { writeFileAtomic } from '../utils/persist';
+
+/**
+ * Long-term memory: facts about a user that outlive any one session.
+ *
+ * The agent saves facts with the `remember` tool; each turn the facts most
+ * relevant to the latest user message are recalled into the system prompt.
+ * Facts belong to a user id and a profile, so the sales persona never sees
+ * what a caller told the support persona. Storage is one JSON object per line
+ * in `~/.nano-claw/long-term-memory.jsonl`: saving appends a line, forgetting
+ * rewrites the file. Every instance re-reads the file when it changes on disk,
+ * so the API server and channel agents can share it.
+ *
+ * Recall is lexical (BM25 over word tokens); it needs no embedding model and
+ * is plenty for the few hundred short facts a user accumulates.
+ */
+
+export interface MemoryFact {
+  id: string;
+  userId: string;
+  profile: string;
+  text: string;
+  createdAt: string;
+  /** Session the fact was saved from. */
+  sessionId?: string;
+}
+
+export interface FactScope {
+  userId: string;
+  profile: string;
+}
+
+const STOPWORDS = new Set(
+  (
+    'a an and are as at be but by do does for from has have he her his i in is it its ' +
+    'me my of on or our she so that the their them they this to was we were what when ' +
+    'where which who why will with you your'
+  ).split(' ')
+);
+
+// Standard BM25 parameters.
+const K1 = 1.2;
+const B = 0.75;
+
+const USER_ID_RE = /^(?:[A-Za-z0-9_-]{1,32}:)?[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Whether a user id is well formed: a session-safe id, optionally behind a
+ * channel prefix such as `telegram:42`, which is how the gateway keys users.
+ */
+export function isValidUserId(userId: unknown): userId is string {
+  return typeof userId === 'string' && USER_ID_RE.test(userId);
+}
+
+export function defaultLongTermMemoryPath(): string {
+  return join(getHomeDir(), 'long-term-memory.jsonl');
+}
+
+function terms(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter(
+    (term) => term.length > 1 && !STOPWORDS.has(term)
+  );
+}
+
+function normalize(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function inScope(fact: MemoryFact, scope: FactScope): boolean {
+  return fact.userId === scope.userId && fact.profile === scope.profile;
+}
+
+export class LongTermMemory {
+  private facts: MemoryFact[] = [];
+  /** mtime and size of the file as last read; a change means another writer. */
+  private loadedStamp = '';
+
+  constructor(
+    private options: LongTermMemoryConfig,
+    private path: string = defaultLongTermMemoryPath()
+  ) {}
+
+  get enabled(): boolean {
+    return this.options.enabled;
+  }
+
+  private stamp(): string {
+    if (!existsSync(this.path)) return '';
+    const stat = statSync(this.path);
+    return `${stat.mtimeMs}:${stat.size}`;
+  }
+
+  private load(): MemoryFact[] {
+    const stamp = this.stamp();
+    if (stamp === this.loadedStamp) return this.facts;
+    this.facts = [];
+    this.loadedStamp = stamp;
+    if (!stamp) return this.facts;
+    const lines = readFileSync(this.path, 'utf-8').split('\n');
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      try {
+        const fact = JSON.parse(line) as MemoryFact;
+        if (typeof fact.id === 'string' && typeof fact.text === 'string') this.facts.push(fact);
+      } catch (error) {
+        // A torn last line from a crashed append loses only that fact.
+        logger.warn({ error, path: this.path }, 'Skipping unreadable long-term memory line');
+      }
+    }
+    return this.facts;
+  }
+
+  private rewrite(facts: MemoryFact[]): void {
+    writeFileAtomic(this.path, facts.map((fact) => `${JSON.stringify(fact)}\n`).join(''));
+    this.facts = facts;
+    this.loadedStamp = this.stamp();
+  }
+
+  /**
+   * Save a fact. Saving the same text again in the same scope returns the
+   * existing fact; past `maxFactsPerUser` the user's oldest facts are dropped.
+   */
+  remember(scope: FactScope, text: string, sessionId?: string): MemoryFact {
+    const clean = normalize(text);
+    if (!clean) throw new Error('Fact is empty');
+    if (clean.length > this.options.maxFactChars) {
+      throw new Error(`Fact is longer than ${this.options.maxFactChars} characters`);
+    }
+    const facts = this.load();
+    const key = clean.toLowerCase();
+    const existing = facts.find((f) => inScope(f, scope) && f.text.toLowerCase() === key);
+    if (existing) return existing;
+
+    const fact: MemoryFact = {
+      id: randomUUID(),
+      userId: scope.userId,
+      profile: scope.profile,
+      text: clean,
+      createdAt: new Date().toISOString(),
+      ...(sessionId && { sessionId }),
+    };
+    const owned = facts.filter((f) => f.userId === scope.userId).length;
+    if (owned >= this.options.maxFactsPerUser) {
+      const oldest = new Set(
+        facts
+          .filter((f) => f.userId === scope.userId)
+          .slice(0, owned - this.options.maxFactsPerUser + 1)
+          .map((f) => f.id)
+      );
+      this.rewrite([...facts.filter((f) => !oldest.has(f.id)), fact]);
+    } else {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, `${JSON.stringify(fact)}\n`, 'utf-8');
+      facts.push(fact);
+      this.loadedStamp = this.stamp();
+    }
+    logger.info({ userId: scope.userId, profile: scope.profile, factId: fact.id }, 'Fact saved');
+    return fact;
+  }
+
+  /** The `topK` facts in scope most relevant to `query`, best first. */
+  recall(scope: FactScope, query: string, limit: number = this.options.topK): MemoryFact[] {
+    const facts = this.load().filter((f) => inScope(f, scope));
+    const queryTerms = [...new Set(terms(query))];
+    if (!facts.length || !queryTerms.length) return [];
+
+    const docs = facts.map((fact) => terms(fact.text));
+    const avgLength = docs.reduce((sum, doc) => sum + doc.length, 0) / docs.length || 1;
+    const idf = new Map(
+      queryTerms.map((term) => {
+        const n = docs.filter((doc) => doc.includes(term)).length;
+        return [term, Math.log(1 + (docs.length - n + 0.5) / (n + 0.5))];
+      })
+    );
+    return facts
+      .map((fact, i) => {
+        const doc = docs[i];
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = doc.filter((t) => t === term).length;
+          if (!tf) continue;
+          score +=
+            (idf.get(term) ?? 0) *
+            ((tf * (K1 + 1)) / (tf + K1 * (1 - B + (B * doc.length) / avgLength)));
+        }
+        return { fact, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score || b.fact.createdAt.localeCompare(a.fact.createdAt))
+      .slice(0, limit)
+      .map(({ fact }) => fact);
+  }
+
+  /** A user's facts, oldest first; all profiles unless `profiles` is given. */
+  list(userId: string, profiles?: string[]): MemoryFact[] {
+    return this.load().filter(
+      (f) => f.userId === userId && (!profiles || profiles.includes(f.profile))
+    );
+  }
+
+  /**
+   * Delete facts of `userId` (one by id, else all of them) within `profiles`
+   * when given. Returns how many were removed.
+   */
+  forget(userId: string, id?: string, profiles?: string[]): number {
+    const facts = this.load();
+    const kept = facts.filter(
+      (f) =>
+        f.userId !== userId ||
+        (id !== undefined && f.id !== id) ||
+        (profiles !== undefined && !profiles.includes(f.profile))
+    );
+    const removed = facts.length - kept.length;
+    if (removed) {
+      this.rewrite(kept);
+      logger.info({ userId, factId: id, removed }, 'Facts forgotten');
+    }
+    return removed;
+  }
+}
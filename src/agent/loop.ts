@@ -1,17 +1,41 @@
-import { AgentConfig, Message, ToolCall } from '../types';
+import { AgentConfig, LLMResponse, Message, ToolCall } from '../types';
 import { ProviderManager } from '../providers/index';
 import { Memory } from './memory';
 import { ContextBuilder } from './context';
+import { compactHistory } from './compaction';
+import { CostLedger, budgetExceededMessage } from './cost-ledger';
+import { FactScope, LongTermMemory } from './long-term-memory';
+import { RememberTool } from './tools/remember';
 import { resolveKnowledgeFiles } from './knowledge';
 import { SkillsLoader } from './skills';
-import { ToolRegistry } from './tools/registry';
+import { ToolRegistry, toolCallErrorMessage } from './tools/registry';
+import { executeToolCalls, ToolExecutionOptions, toolExecutionOptions } from './tools/executor';
+import { registerMcpTools } from './tools/mcp';
 import { ShellTool } from './tools/shell';
-import { ReadFileTool, WriteFileTool } from './tools/file';
-import { Config } from '../config/schema';
+import { ReadFileTool, WriteFileTool, fileToolOptions } from './tools/file';
+import { ApplyPatchTool, EditFileTool } from './tools/file-edit';
+import { GlobTool, GrepFilesTool, ListDirTool } from './tools/file-search';
+import { resolveWorkspaceRoots } from './tools/workspace';
+import { CheckSubagentTool, SpawnSubagentTool } from './tools/subagent';
+import {
+  POLICY_DENIED_MESSAGE,
+  UNATTENDED_APPROVAL_MESSAGE,
+  resolveToolPolicy,
+} from './tools/policy';
+import {
+  CompactionConfig,
+  Config,
+  CostsConfigSchema,
+  LongTermMemorySchema,
+  McpServerConfig,
+  ToolApprovalConfig,
+} from '../config/schema';
 import { logger } from '../utils/logger';
+import { getSessionManager } from '../session/index';
 import { configureDecisionShadow, shadowDecide } from './decision-shadow';
 import { retrieveTurnEvidence } from './intelligence';
 import { collectionScopeKey, prepareCollectionScopeTurn } from './knowledge-scope';
+import { prepareUndoTurn } from './rewind';
 import {
   analysisStateFromResult,
   detectDeepQuestion,
@@ -21,6 +45,10 @@ import {
   runDeepReasoning,
 } from './deep-reasoning';
 
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Agent loop aborted');
+}
+
 /**
  * Agent response
  */
@@ -41,6 +69,18 @@ export class AgentLoop {
   private toolRegistry: ToolRegistry;
   private maxIterations: number;
   private sessionId: string;
+  private toolApproval?: ToolApprovalConfig;
+  private workspaceRoot: string;
+  private toolExecution: ToolExecutionOptions;
+  private mcpServers?: Record<string, McpServerConfig>;
+  private allowedTools?: Set<string>;
+  private unattended = false;
+  private compaction?: CompactionConfig;
+  private longTermMemory: LongTermMemory;
+  private costLedger: CostLedger;
+  private downgradeModel?: string;
+  /** Session whose budget this loop's model calls count against. */
+  private budgetSessionId: string;
 
   constructor(
     sessionId: string,
@@ -65,10 +105,22 @@ export class AgentLoop {
     this.sessionId = sessionId;
     configureDecisionShadow(config.decisionCore);
     this.providerManager = new ProviderManager(config);
-    this.memory = new Memory(sessionId);
+    this.memory = getSessionManager().getMemory(sessionId);
     this.skillsLoader = new SkillsLoader();
     this.toolRegistry = new ToolRegistry();
     this.maxIterations = maxIterations;
+    this.toolApproval = config.tools?.approval;
+    this.compaction = config.agents?.defaults?.compaction;
+    this.costLedger = new CostLedger(config.costs ?? CostsConfigSchema.parse({}));
+    this.downgradeModel = config.costs?.downgradeModel;
+    this.budgetSessionId = sessionId;
+    this.longTermMemory = new LongTermMemory(
+      config.longTermMemory ?? LongTermMemorySchema.parse({})
+    );
+    this.workspaceRoot = resolveWorkspaceRoots(config.tools?.workspaceRoots)[0];
+    this.toolExecution = toolExecutionOptions(config.tools);
+    // Same fail-closed gate as the built-ins: no MCP tools unless tools are on.
+    this.mcpServers = config.tools?.enabled === true ? config.tools.mcpServers : undefined;
 
     // Register built-in tools
     this.registerBuiltInTools(config);
@@ -87,17 +139,89 @@ export class AgentLoop {
       new ShellTool(
         toolsConfig?.restrictToWorkspace,
         toolsConfig?.allowedCommands,
-        toolsConfig?.deniedCommands
+        toolsConfig?.deniedCommands,
+        {
+          ...toolsConfig?.shell,
+          workspaceRoots: toolsConfig?.workspaceRoots,
+          deniedPaths: toolsConfig?.deniedPaths,
+        }
       )
     );
-    this.toolRegistry.register(new ReadFileTool());
-    this.toolRegistry.register(new WriteFileTool());
+    const fileOptions = fileToolOptions(toolsConfig);
+    for (const tool of [
+      new ReadFileTool(fileOptions),
+      new WriteFileTool(fileOptions),
+      new EditFileTool(fileOptions),
+      new ApplyPatchTool(fileOptions),
+      new ListDirTool(fileOptions),
+      new GlobTool(fileOptions),
+      new GrepFilesTool(fileOptions),
+    ]) {
+      this.toolRegistry.register(tool);
+    }
+    const parent = {
+      memory: this.memory,
+      agentConfig: this.config,
+      getTools: () => this.toolRegistry.getDefinitions(),
+    };
+    this.toolRegistry.register(new SpawnSubagentTool(parent));
+    this.toolRegistry.register(new CheckSubagentTool(parent));
+    const factScope = this.factScope();
+    if (factScope) {
+      this.toolRegistry.register(new RememberTool(this.longTermMemory, factScope, this.sessionId));
+    }
+  }
+
+  /** Whose long-term facts this loop reads and writes, if anyone's. */
+  private factScope(): FactScope | undefined {
+    if (!this.config.userId || !this.longTermMemory.enabled) return undefined;
+    return { userId: this.config.userId, profile: this.config.profileId ?? 'default' };
+  }
+
+  /** Add one model call to the cost ledger under this loop's budget session. */
+  private recordCost(model: string, usage: LLMResponse['usage']): void {
+    if (!usage) return;
+    this.costLedger.record({
+      sessionId: this.budgetSessionId,
+      profile: this.config.profileId ?? 'default',
+      model,
+      usage,
+    });
+  }
+
+  /** Long-term facts relevant to the latest user message. */
+  private recallFacts(messages: Message[]): string[] | undefined {
+    const scope = this.factScope();
+    if (!scope) return undefined;
+    const query = messages.filter((m) => m.role === 'user').pop()?.content ?? '';
+    return this.longTermMemory.recall(scope, query).map((fact) => fact.text);
   }
 
   /**
-   * Process a user message and generate response
+   * Process a user message and generate response. An aborted `signal` stops
+   * the loop at the next iteration boundary; an in-flight model or tool call
+   * is allowed to finish, but nothing after it runs.
    */
-  async processMessage(userMessage: string): Promise<AgentResponse> {
+  async processMessage(userMessage: string, signal?: AbortSignal): Promise<AgentResponse> {
+    const profile = this.config.profileId ?? 'default';
+    getSessionManager().recordActivity(this.sessionId, {
+      profile,
+      userId: this.config.userId,
+      model: this.config.model,
+    });
+
+    // Budgets as on /api/chat: past the hard one the turn is refused, past the
+    // soft one it runs on the cheaper model.
+    const budget = this.costLedger.check(this.budgetSessionId, profile);
+    if (budget.level === 'hard') {
+      logger.warn({ ...budget, sessionId: this.sessionId }, 'Hard budget reached; refusing turn');
+      return { content: budgetExceededMessage(budget), finishReason: 'budget_exceeded' };
+    }
+    const baseConfig =
+      budget.level === 'soft' && this.downgradeModel
+        ? { ...this.config, model: this.downgradeModel }
+        : this.config;
+
     // Add user message to memory
     this.memory.addMessage({
       role: 'user',
@@ -108,16 +232,33 @@ export class AgentLoop {
     // No-op unless decisionCore.shadowEnabled; never affects this turn.
     shadowDecide(this.sessionId, userMessage);
 
+    // "Undo" rewinds the conversation instead of starting a turn.
+    const undo = prepareUndoTurn(this.memory);
+    if (undo) return { content: undo.reply, finishReason: 'undo' };
+
+    // Picks up MCP servers that connected (or reconnected) since the last turn.
+    await registerMcpTools(this.toolRegistry, this.mcpServers);
+    if (this.allowedTools) this.applyToolRestriction(this.allowedTools);
+
     // Start agent loop
     let iteration = 0;
     let continueLoop = true;
     let finalResponse: AgentResponse | null = null;
 
     while (continueLoop && iteration < this.maxIterations) {
+      if (signal?.aborted) throw abortReason(signal);
       iteration++;
       logger.debug({ iteration, maxIterations: this.maxIterations }, 'Agent loop iteration');
 
       try {
+        const compacted = await compactHistory(
+          this.memory,
+          baseConfig.model,
+          this.compaction,
+          (m, model, max) => this.providerManager.complete(m, model, 0, max, [])
+        );
+        if (compacted) this.recordCost(compacted.model, compacted.usage);
+
         // Build context with skills and tools
         const skills = this.skillsLoader.getSkills();
         const tools = this.toolRegistry.getDefinitions();
@@ -128,8 +269,8 @@ export class AgentLoop {
           this.config
         );
         const turnConfig = preparedScope
-          ? { ...this.config, intelligence: preparedScope.intelligence }
-          : this.config;
+          ? { ...baseConfig, intelligence: preparedScope.intelligence }
+          : baseConfig;
         const scopeKey = preparedScope?.scopeKey || this.config.intelligenceScopeKey || 'default';
         if (iteration === 1 && preparedScope?.reply) {
           this.memory.addMessage({ role: 'assistant', content: preparedScope.reply });
@@ -187,7 +328,9 @@ export class AgentLoop {
           skills,
           modelTools,
           turnEvidence,
-          deepResult
+          deepResult,
+          this.memory.getSummary(),
+          this.recallFacts(conversationMessages)
         );
 
         // Call LLM
@@ -198,6 +341,8 @@ export class AgentLoop {
           turnConfig.maxTokens,
           modelTools
         );
+        this.recordCost(response.model ?? turnConfig.model, response.usage);
+        if (signal?.aborted) throw abortReason(signal);
         const voiceGuard = guardAnalysisVoiceResponse(response.content, deepResult);
 
         logger.debug(
@@ -219,20 +364,51 @@ export class AgentLoop {
             tool_calls: response.toolCalls,
           });
 
-          // Execute each tool call
+          // Settle invalid and denied calls, then run the rest as one batch.
+          // Channels have no approval card, so `ask` runs as it always has
+          // here and only an explicit `deny` is enforced; an unattended loop
+          // (a background subagent) refuses `ask` too.
+          const refusals = new Map<string, string>();
+          const runnable: ToolCall[] = [];
           for (const toolCall of response.toolCalls) {
-            const toolName = toolCall.function.name;
-            const toolArgs = JSON.parse(toolCall.function.arguments) as Record<string, unknown>;
-
-            logger.info({ tool: toolName, args: toolArgs }, 'Executing tool');
-
-            const toolResult = await this.toolRegistry.execute(toolName, toolArgs);
+            const check = this.toolRegistry.checkToolCall(toolCall);
+            if (!check.ok) {
+              // Answer the model with the problem; the next iteration retries.
+              refusals.set(toolCall.id, toolCallErrorMessage(toolCall.function.name, check));
+              continue;
+            }
+            const action = resolveToolPolicy(
+              toolCall.function.name,
+              check.args,
+              this.toolApproval,
+              this.workspaceRoot
+            );
+            if (action === 'deny') {
+              refusals.set(toolCall.id, POLICY_DENIED_MESSAGE);
+            } else if (action === 'ask' && this.unattended) {
+              refusals.set(toolCall.id, UNATTENDED_APPROVAL_MESSAGE);
+            } else {
+              runnable.push(toolCall);
+            }
+          }
+          const executions = await executeToolCalls(
+            this.toolRegistry,
+            runnable,
+            this.toolExecution
+          );
+          const executed = new Map(executions.map((e) => [e.toolCall.id, e.result]));
 
-            // Add tool result to memory
+          // Add tool results to memory in call order
+          for (const toolCall of response.toolCalls) {
+            const toolResult = executed.get(toolCall.id);
+            let content = refusals.get(toolCall.id) ?? '';
+            if (toolResult) {
+              content = toolResult.success ? toolResult.output : `Error: ${toolResult.error}`;
+            }
             this.memory.addMessage({
               role: 'tool',
-              content: toolResult.success ? toolResult.output : `Error: ${toolResult.error}`,
-              name: toolName,
+              content,
+              name: toolCall.function.name,
               tool_call_id: toolCall.id,
             });
           }
@@ -303,6 +479,38 @@ export class AgentLoop {
     return this.toolRegistry;
   }
 
+  /**
+   * Limit this loop to the named tools, including MCP tools registered on
+   * later turns.
+   */
+  restrictTools(names: Iterable<string>): void {
+    this.allowedTools = new Set(names);
+    this.applyToolRestriction(this.allowedTools);
+  }
+
+  /**
+   * Count this loop's model calls, and check its budget, against another
+   * session: a subagent's spend belongs to the session that spawned it.
+   */
+  billTo(sessionId: string): void {
+    this.budgetSessionId = sessionId;
+  }
+
+  /**
+   * Run without anyone to approve tool calls: calls the policy rates `ask`
+   * are refused instead of run, so only `auto` tools execute.
+   */
+  runUnattended(): void {
+    this.unattended = true;
+  }
+
+  private applyToolRestriction(allowed: Set<string>): void {
+    for (const definition of this.toolRegistry.getDefinitions()) {
+      const name = definition.function.name;
+      if (!allowed.has(name)) this.toolRegistry.unregister(name);
+    }
+  }
+
   /**
    * Get skills loader
    */
@@ -1,16 +1,12 @@
-import {
-  existsSync,
-  mkdirSync,
-  readFileSync,
-  readdirSync,
-  statSync,
-  unlinkSync,
-  writeFileSync,
-} from 'fs';
-import { join } from 'path';
 import { Message } from '../types';
-import { getMemoryDir } from '../utils/helpers';
+import { SessionError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import {
+  assertValidSessionId,
+  getSessionStore,
+  type SessionStateKind,
+  type SessionStore,
+} from '../storage/index';
 import type { PendingDeepRequest } from './deep-reasoning';
 import {
   AnalysisConversationState,
@@ -18,10 +14,9 @@ import {
   parseAnalysisConversationState,
 } from './analysis-navigation';
 
+export { assertValidSessionId, isValidSessionId } from '../storage/index';
+
 const EPHEMERAL_SESSION_RE = /^voice-[0-9a-f]{32}$/;
-const SAFE_SESSION_RE = /^[A-Za-z0-9_-]{1,64}$/;
-const ANALYSIS_SUFFIX = '.analysis.json';
-const KNOWLEDGE_SCOPE_SUFFIX = '.scope.json';
 const DEFAULT_ANALYSIS_SCOPE_KEY = 'default';
 const COLLECTION_ID_RE = /^[A-Za-z0-9][A-Za-z0-9._:@/-]{0,239}$/;
 
@@ -37,14 +32,33 @@ interface PersistedCollectionScope {
   collectionIds: string[];
 }
 
-/** Whether a session id is safe to use as a memory filename. */
-export function isValidSessionId(sessionId: unknown): sessionId is string {
-  return typeof sessionId === 'string' && SAFE_SESSION_RE.test(sessionId);
+/** Who a session belongs to, recorded when its first turn arrives. */
+export interface SessionMetadata {
+  createdAt: string;
+  profile?: string;
+  /** Where the conversation happens (`web`, `phone`, `api`, ...). */
+  channel?: string;
+  userId?: string;
+  /** Model that answered the latest turn. */
+  model?: string;
+  /** The session this one was forked from. */
+  forkedFrom?: string;
+}
+
+/** A stored session as seen from the store, without loading it into a Memory. */
+export interface StoredSessionInfo {
+  sessionId: string;
+  metadata?: SessionMetadata;
+  /** Last write to the transcript. */
+  updatedAt: string;
 }
 
-/** Reject unsafe ids before any memory path or filesystem operation occurs. */
-export function assertValidSessionId(sessionId: string): void {
-  if (!isValidSessionId(sessionId)) throw new Error('Invalid session id');
+/** Raw sidecar state of a stored session, for inspection. */
+export interface StoredSessionState {
+  summary?: string;
+  analysis?: unknown;
+  collectionScopes?: unknown;
+  pendingApprovals?: unknown;
 }
 
 /** Whether a session id belongs to a server-generated browser conversation. */
@@ -52,19 +66,37 @@ export function isEphemeralSessionId(sessionId: string): boolean {
   return EPHEMERAL_SESSION_RE.test(sessionId);
 }
 
-function memoryPathFor(sessionId: string): string {
-  assertValidSessionId(sessionId);
-  return join(getMemoryDir(), `${sessionId}.json`);
+function parseMetadata(raw: unknown): SessionMetadata | undefined {
+  if (raw === undefined) return undefined;
+  const envelope = (raw ?? {}) as Record<string, unknown>;
+  if (envelope.version !== 1 || typeof envelope.createdAt !== 'string') {
+    throw new Error('invalid session metadata sidecar');
+  }
+  const metadata: SessionMetadata = { createdAt: envelope.createdAt };
+  for (const key of ['profile', 'channel', 'userId', 'model', 'forkedFrom'] as const) {
+    const value = envelope[key];
+    if (typeof value === 'string') metadata[key] = value;
+  }
+  return metadata;
 }
 
-function analysisPathFor(sessionId: string): string {
-  assertValidSessionId(sessionId);
-  return join(getMemoryDir(), `${sessionId}${ANALYSIS_SUFFIX}`);
+/**
+ * Where history may be cut so the kept part still starts a turn: the first
+ * user message at or after `from`. Cutting anywhere else could separate an
+ * assistant `tool_calls` message from its `tool` results, and most providers
+ * reject a transcript that does not open with a user message. Returns
+ * `messages.length` when no turn starts at or after `from`.
+ */
+export function turnBoundary(messages: readonly Message[], from: number): number {
+  for (let i = Math.max(0, from); i < messages.length; i++) {
+    if (messages[i].role === 'user') return i;
+  }
+  return messages.length;
 }
 
-function collectionScopePathFor(sessionId: string): string {
-  assertValidSessionId(sessionId);
-  return join(getMemoryDir(), `${sessionId}${KNOWLEDGE_SCOPE_SUFFIX}`);
+/** Session ids with stored tool calls awaiting approval (owned by the API). */
+export function listPendingApprovalSessions(): string[] {
+  return getSessionStore().listSessionsWithState('pending');
 }
 
 function normalizedCollectionIds(value: unknown): string[] | undefined {
@@ -79,20 +111,61 @@ function normalizedCollectionIds(value: unknown): string[] | undefined {
   return normalized.sort();
 }
 
-/** Delete one persisted memory file without constructing/loading the memory. */
-export function deleteMemoryFile(sessionId: string): boolean {
-  const memoryPath = memoryPathFor(sessionId);
-  const analysisPath = analysisPathFor(sessionId);
-  const collectionScopePath = collectionScopePathFor(sessionId);
-  let deleted = false;
-  for (const path of [memoryPath, analysisPath, collectionScopePath]) {
-    if (!existsSync(path)) continue;
+/** Sessions with a stored transcript, newest activity first. */
+export function listStoredSessions(): StoredSessionInfo[] {
+  const store = getSessionStore();
+  const sessions = store.listSessions().map(({ sessionId, updatedAt }): StoredSessionInfo => {
+    let metadata: SessionMetadata | undefined;
     try {
-      unlinkSync(path);
-      deleted = true;
+      metadata = parseMetadata(store.readState(sessionId, 'meta'));
     } catch (error) {
-      logger.error({ error, sessionId }, 'Failed to delete memory');
+      logger.warn({ error, sessionId }, 'Failed to load session metadata');
     }
+    return {
+      sessionId,
+      updatedAt: new Date(updatedAt).toISOString(),
+      ...(metadata && { metadata }),
+    };
+  });
+  return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+}
+
+/** The stored transcript of a session, or undefined when it has none. */
+export function readStoredTranscript(sessionId: string): Message[] | undefined {
+  return getSessionStore().loadMessages(sessionId);
+}
+
+/** The sidecar state of one stored session; unreadable sidecars are omitted. */
+export function readStoredSessionState(sessionId: string): StoredSessionState {
+  const store = getSessionStore();
+  const state: StoredSessionState = {};
+  const read = (kind: SessionStateKind): unknown => {
+    try {
+      return store.readState(sessionId, kind);
+    } catch (error) {
+      logger.warn({ error, sessionId, kind }, 'Failed to read session sidecar');
+      return undefined;
+    }
+  };
+  const summary = read('summary') as { summary?: unknown } | undefined;
+  if (typeof summary?.summary === 'string') state.summary = summary.summary;
+  const analysis = read('analysis');
+  if (analysis !== undefined) state.analysis = analysis;
+  const scopes = read('scope') as { scopes?: unknown } | undefined;
+  if (scopes?.scopes !== undefined) state.collectionScopes = scopes.scopes;
+  const pending = read('pending') as { approvals?: unknown } | undefined;
+  if (pending?.approvals !== undefined) state.pendingApprovals = pending.approvals;
+  return state;
+}
+
+/** Delete one stored session without constructing/loading the memory. */
+export function deleteMemoryFile(sessionId: string): boolean {
+  assertValidSessionId(sessionId);
+  let deleted = false;
+  try {
+    deleted = getSessionStore().deleteSession(sessionId);
+  } catch (error) {
+    logger.error({ error, sessionId }, 'Failed to delete memory');
   }
   if (deleted) logger.debug({ sessionId }, 'Memory deleted');
   return deleted;
@@ -110,25 +183,13 @@ export function sweepEphemeralMemory(
   maxAgeMs: number,
   now = Date.now()
 ): number {
-  const memoryDir = getMemoryDir();
-  if (!existsSync(memoryDir)) return 0;
-
+  const store = getSessionStore();
   let deleted = 0;
-  for (const filename of readdirSync(memoryDir)) {
-    if (!filename.endsWith('.json')) continue;
-    const suffix = filename.endsWith(ANALYSIS_SUFFIX)
-      ? ANALYSIS_SUFFIX
-      : filename.endsWith(KNOWLEDGE_SCOPE_SUFFIX)
-        ? KNOWLEDGE_SCOPE_SUFFIX
-        : '.json';
-    const sessionId = filename.slice(0, -suffix.length);
+  for (const { sessionId, updatedAt } of store.listAllSessions()) {
     if (!isEphemeralSessionId(sessionId) || activeSessionIds.has(sessionId)) continue;
-
-    const memoryPath = join(memoryDir, filename);
+    if (now - updatedAt < maxAgeMs) continue;
     try {
-      if (now - statSync(memoryPath).mtimeMs < maxAgeMs) continue;
-      unlinkSync(memoryPath);
-      deleted++;
+      if (store.deleteSession(sessionId)) deleted++;
     } catch (error) {
       logger.warn({ error, sessionId }, 'Failed to sweep orphaned memory');
     }
@@ -143,10 +204,11 @@ export function sweepEphemeralMemory(
  */
 export class Memory {
   private sessionId: string;
-  private memoryPath: string;
-  private analysisPath: string;
-  private collectionScopePath: string;
+  private store: SessionStore;
   private messages: Message[] = [];
+  /** Rolling summary of the turns compacted out of `messages`. */
+  private summary?: string;
+  private metadata?: SessionMetadata;
   private analysisState?: AnalysisConversationState;
   private analysisScopeKey = DEFAULT_ANALYSIS_SCOPE_KEY;
   private pendingDeepRequest?: PendingDeepRequest;
@@ -154,60 +216,105 @@ export class Memory {
   private collectionScopes = new Map<string, PersistedCollectionScope>();
   private maxMessages: number;
   private deleted = false;
+  /** The store's transcript stamp as of this copy's last load or save. */
+  private stamp?: number;
 
   constructor(sessionId: string, maxMessages = 100) {
     this.sessionId = sessionId;
     this.maxMessages = maxMessages;
-    this.memoryPath = memoryPathFor(sessionId);
-    this.analysisPath = analysisPathFor(sessionId);
-    this.collectionScopePath = collectionScopePathFor(sessionId);
-
-    const memoryDir = getMemoryDir();
-    if (!existsSync(memoryDir)) {
-      mkdirSync(memoryDir, { recursive: true });
-    }
+    assertValidSessionId(sessionId);
+    this.store = getSessionStore();
 
     this.load();
     this.loadAnalysisState();
     this.loadCollectionScopes();
+    this.loadSummary();
+    this.loadMetadata();
   }
 
   /**
-   * Load messages from disk
+   * Load messages from the store
    */
   private load(): void {
-    if (existsSync(this.memoryPath)) {
-      try {
-        const data = readFileSync(this.memoryPath, 'utf-8');
-        const parsed = JSON.parse(data) as Message[];
-        this.messages = parsed;
-        logger.debug({ sessionId: this.sessionId, count: this.messages.length }, 'Memory loaded');
-      } catch (error) {
-        logger.error({ error, sessionId: this.sessionId }, 'Failed to load memory');
-        this.messages = [];
-      }
+    try {
+      this.stamp = this.store.transcriptStamp(this.sessionId);
+      const stored = this.store.loadMessages(this.sessionId);
+      if (!stored) return;
+      this.messages = stored;
+      logger.debug({ sessionId: this.sessionId, count: this.messages.length }, 'Memory loaded');
+    } catch (error) {
+      logger.error({ error, sessionId: this.sessionId }, 'Failed to load memory');
+      this.messages = [];
     }
   }
 
   /**
-   * Save messages to disk
+   * Save messages to the store. `appended` says only the last message is new,
+   * which lets a per-message store skip rewriting the rest.
    */
-  private save(): void {
+  private save(appended = false): void {
     if (this.deleted) return;
     try {
-      const data = JSON.stringify(this.messages, null, 2);
-      writeFileSync(this.memoryPath, data, 'utf-8');
+      if (appended) this.store.appendMessage(this.sessionId, this.messages);
+      else this.store.saveMessages(this.sessionId, this.messages);
+      this.stamp = this.store.transcriptStamp(this.sessionId);
       logger.debug({ sessionId: this.sessionId, count: this.messages.length }, 'Memory saved');
     } catch (error) {
       logger.error({ error, sessionId: this.sessionId }, 'Failed to save memory');
     }
   }
 
+  /** Whether the stored transcript changed since this copy last loaded or saved it. */
+  isStale(): boolean {
+    if (this.deleted) return false;
+    try {
+      return this.store.transcriptStamp(this.sessionId) !== this.stamp;
+    } catch (error) {
+      logger.warn({ error, sessionId: this.sessionId }, 'Failed to read transcript stamp');
+      return false;
+    }
+  }
+
+  private loadSummary(): void {
+    try {
+      const raw = this.store.readState(this.sessionId, 'summary') as
+        { version?: unknown; summary?: unknown } | undefined;
+      if (raw === undefined) return;
+      if (raw.version !== 1 || typeof raw.summary !== 'string') {
+        throw new Error('invalid summary sidecar');
+      }
+      this.summary = raw.summary;
+    } catch (error) {
+      logger.warn({ error, sessionId: this.sessionId }, 'Failed to load conversation summary');
+    }
+  }
+
+  private saveSummary(): void {
+    if (this.deleted) return;
+    try {
+      this.store.writeState(
+        this.sessionId,
+        'summary',
+        this.summary === undefined ? undefined : { version: 1, summary: this.summary }
+      );
+    } catch (error) {
+      logger.error({ error, sessionId: this.sessionId }, 'Failed to save conversation summary');
+    }
+  }
+
+  private loadMetadata(): void {
+    try {
+      this.metadata = parseMetadata(this.store.readState(this.sessionId, 'meta'));
+    } catch (error) {
+      logger.warn({ error, sessionId: this.sessionId }, 'Failed to load session metadata');
+    }
+  }
+
   /** Load the generated-analysis sidecar without mixing it into the LLM transcript. */
   private loadAnalysisState(): void {
-    if (!existsSync(this.analysisPath)) return;
     try {
-      const raw = JSON.parse(readFileSync(this.analysisPath, 'utf-8')) as unknown;
+      const raw = this.store.readState(this.sessionId, 'analysis');
+      if (raw === undefined) return;
       const envelope =
         typeof raw === 'object' &&
         raw !== null &&
@@ -232,26 +339,18 @@ export class Memory {
     if (this.deleted) return;
     if (!this.analysisState) {
       try {
-        if (existsSync(this.analysisPath)) unlinkSync(this.analysisPath);
+        this.store.writeState(this.sessionId, 'analysis', undefined);
       } catch (error) {
         logger.error({ error, sessionId: this.sessionId }, 'Failed to clear analysis state');
       }
       return;
     }
     try {
-      writeFileSync(
-        this.analysisPath,
-        JSON.stringify(
-          {
-            version: 2,
-            scopeKey: this.analysisScopeKey,
-            state: analysisConversationStateForStorage(this.analysisState),
-          },
-          null,
-          2
-        ),
-        'utf-8'
-      );
+      this.store.writeState(this.sessionId, 'analysis', {
+        version: 2,
+        scopeKey: this.analysisScopeKey,
+        state: analysisConversationStateForStorage(this.analysisState),
+      });
     } catch (error) {
       logger.error({ error, sessionId: this.sessionId }, 'Failed to save analysis state');
     }
@@ -259,9 +358,9 @@ export class Memory {
 
   /** Load persisted per-tenant/profile collection choices. */
   private loadCollectionScopes(): void {
-    if (!existsSync(this.collectionScopePath)) return;
     try {
-      const raw = JSON.parse(readFileSync(this.collectionScopePath, 'utf-8')) as unknown;
+      const raw = this.store.readState(this.sessionId, 'scope');
+      if (raw === undefined) return;
       if (
         typeof raw !== 'object' ||
         raw === null ||
@@ -302,29 +401,19 @@ export class Memory {
     if (this.deleted) return;
     if (this.collectionScopes.size === 0) {
       try {
-        if (existsSync(this.collectionScopePath)) unlinkSync(this.collectionScopePath);
+        this.store.writeState(this.sessionId, 'scope', undefined);
       } catch (error) {
         logger.error({ error, sessionId: this.sessionId }, 'Failed to clear collection scopes');
       }
       return;
     }
     try {
-      writeFileSync(
-        this.collectionScopePath,
-        JSON.stringify(
-          {
-            version: 1,
-            scopes: Object.fromEntries(
-              [...this.collectionScopes.entries()].sort(([left], [right]) =>
-                left.localeCompare(right)
-              )
-            ),
-          },
-          null,
-          2
+      this.store.writeState(this.sessionId, 'scope', {
+        version: 1,
+        scopes: Object.fromEntries(
+          [...this.collectionScopes.entries()].sort(([left], [right]) => left.localeCompare(right))
         ),
-        'utf-8'
-      );
+      });
     } catch (error) {
       logger.error({ error, sessionId: this.sessionId }, 'Failed to save collection scopes');
     }
@@ -337,17 +426,22 @@ export class Memory {
     if (this.deleted) return;
     this.messages.push(message);
 
-    // Trim old messages if exceeding max
-    if (this.messages.length > this.maxMessages) {
-      // Keep system messages and trim from user/assistant messages
-      const systemMessages = this.messages.filter((m) => m.role === 'system');
-      const otherMessages = this.messages
-        .filter((m) => m.role !== 'system')
-        .slice(-this.maxMessages);
-      this.messages = [...systemMessages, ...otherMessages];
+    // Hard cap on stored history. Compaction summarizes turns once history
+    // passes `historyShare` of this cap, so turns are only dropped unsummarized
+    // when compaction is off or failing. Keep system messages and trim whole turns.
+    const systemMessages = this.messages.filter((m) => m.role === 'system');
+    const otherMessages = this.messages.filter((m) => m.role !== 'system');
+    let trimmed = false;
+    if (otherMessages.length > this.maxMessages) {
+      const cut = turnBoundary(otherMessages, otherMessages.length - this.maxMessages);
+      // A single turn longer than the cap is kept whole rather than split.
+      if (cut < otherMessages.length) {
+        this.messages = [...systemMessages, ...otherMessages.slice(cut)];
+        trimmed = true;
+      }
     }
 
-    this.save();
+    this.save(!trimmed);
   }
 
   /**
@@ -357,6 +451,137 @@ export class Memory {
     return [...this.messages];
   }
 
+  /** Most messages kept before the oldest turns are dropped (see addMessage). */
+  getMaxMessages(): number {
+    return this.maxMessages;
+  }
+
+  getMetadata(): SessionMetadata | undefined {
+    return this.metadata ? { ...this.metadata } : undefined;
+  }
+
+  /**
+   * Record the session's profile, channel, user and model. The creation time is
+   * stamped on first call; the file is only rewritten when something changed.
+   */
+  setMetadata(details: Omit<SessionMetadata, 'createdAt'>): void {
+    if (this.deleted) return;
+    const next: SessionMetadata = {
+      createdAt: this.metadata?.createdAt ?? new Date().toISOString(),
+      ...this.metadata,
+    };
+    for (const [key, value] of Object.entries(details) as Array<[keyof typeof details, string]>) {
+      if (value !== undefined) next[key] = value;
+    }
+    if (JSON.stringify(next) === JSON.stringify(this.metadata)) return;
+    this.metadata = next;
+    try {
+      this.store.writeState(this.sessionId, 'meta', { version: 1, ...next });
+    } catch (error) {
+      logger.error({ error, sessionId: this.sessionId }, 'Failed to save session metadata');
+    }
+  }
+
+  /** Rolling summary of compacted turns, if any have been compacted. */
+  getSummary(): string | undefined {
+    return this.summary;
+  }
+
+  /**
+   * Replace the first `count` messages with `summary`, which already folds in
+   * any earlier summary. System messages among them are kept.
+   */
+  compact(count: number, summary: string): void {
+    if (this.deleted || count <= 0) return;
+    const compacted = this.messages.slice(0, count);
+    this.messages = [
+      ...compacted.filter((m) => m.role === 'system'),
+      ...this.messages.slice(count),
+    ];
+    this.summary = summary;
+    this.save();
+    this.saveSummary();
+  }
+
+  /**
+   * Cut the transcript back to its first `index` messages. The cut must fall
+   * before a user message, or at the end, so no tool call loses its results.
+   * Analysis and pending deep-reasoning state may rest on the dropped turns
+   * and go with them; the summary and collection scopes stay. Returns how many
+   * messages were removed.
+   */
+  rewind(index: number): number {
+    this.assertTurnStart(index);
+    const removed = this.messages.length - index;
+    if (this.deleted || removed === 0) return 0;
+    this.messages = this.messages.slice(0, index);
+    this.analysisState = undefined;
+    this.pendingDeepRequest = undefined;
+    this.save();
+    this.saveAnalysisState();
+    return removed;
+  }
+
+  /**
+   * Write the first `index` messages into another session id, with the
+   * summary, collection scopes and metadata. Analysis state is copied only
+   * for a fork at the end, where it still matches the transcript. A session
+   * paused on tool calls cannot be forked at its end, since the copy would
+   * hold calls nobody answers. The caller makes sure the target is free (see
+   * SessionManager.forkSession).
+   */
+  forkTo(targetSessionId: string, index = this.messages.length): void {
+    assertValidSessionId(targetSessionId);
+    this.assertTurnStart(index);
+    if (index === this.messages.length && this.hasUnansweredToolCalls()) {
+      throw new SessionError('Session is waiting on tool calls; fork it at an earlier turn');
+    }
+    this.store.saveMessages(targetSessionId, this.messages.slice(0, index));
+    this.store.writeState(targetSessionId, 'meta', {
+      version: 1,
+      ...this.metadata,
+      createdAt: new Date().toISOString(),
+      forkedFrom: this.sessionId,
+    });
+    if (this.summary !== undefined) {
+      this.store.writeState(targetSessionId, 'summary', { version: 1, summary: this.summary });
+    }
+    if (this.collectionScopes.size > 0) {
+      this.store.writeState(targetSessionId, 'scope', {
+        version: 1,
+        scopes: Object.fromEntries(this.collectionScopes),
+      });
+    }
+    if (this.analysisState && index === this.messages.length) {
+      this.store.writeState(targetSessionId, 'analysis', {
+        version: 2,
+        scopeKey: this.analysisScopeKey,
+        state: analysisConversationStateForStorage(this.analysisState),
+      });
+    }
+  }
+
+  /** Whether the current turn has tool calls still without a result. */
+  private hasUnansweredToolCalls(): boolean {
+    let turnStart = this.messages.length - 1;
+    while (turnStart >= 0 && this.messages[turnStart].role !== 'user') turnStart--;
+    const pending = new Set<string>();
+    for (const message of this.messages.slice(turnStart + 1)) {
+      for (const call of message.tool_calls ?? []) pending.add(call.id);
+      if (message.role === 'tool' && message.tool_call_id) pending.delete(message.tool_call_id);
+    }
+    return pending.size > 0;
+  }
+
+  private assertTurnStart(index: number): void {
+    if (!Number.isInteger(index) || index < 0 || index > this.messages.length) {
+      throw new SessionError(`Message index must be between 0 and ${this.messages.length}`);
+    }
+    if (index < this.messages.length && this.messages[index].role !== 'user') {
+      throw new SessionError(`Message ${index} does not start a turn`);
+    }
+  }
+
   /**
    * Get recent messages
    */
@@ -369,10 +594,12 @@ export class Memory {
    */
   clear(): void {
     this.messages = [];
+    this.summary = undefined;
     this.analysisState = undefined;
     this.pendingDeepRequest = undefined;
     this.collectionScopes.clear();
     this.save();
+    this.saveSummary();
     this.saveAnalysisState();
     this.saveCollectionScopes();
   }
@@ -384,6 +611,8 @@ export class Memory {
    */
   delete(): void {
     this.messages = [];
+    this.summary = undefined;
+    this.metadata = undefined;
     this.analysisState = undefined;
     this.pendingDeepRequest = undefined;
     this.collectionScopes.clear();
@@ -522,6 +751,29 @@ export class Memory {
     }
   }
 
+  /**
+   * Rewrite the arguments of a tool call already recorded on an assistant
+   * message, so the transcript shows what actually ran. Returns false when no
+   * stored call has that id.
+   */
+  replaceToolCallArguments(toolCallId: string, argumentsJson: string): boolean {
+    if (this.deleted) return false;
+    for (let i = this.messages.length - 1; i >= 0; i--) {
+      const message = this.messages[i];
+      const index = message.tool_calls?.findIndex((toolCall) => toolCall.id === toolCallId) ?? -1;
+      if (message.role !== 'assistant' || !message.tool_calls || index === -1) continue;
+      const toolCalls = [...message.tool_calls];
+      toolCalls[index] = {
+        ...toolCalls[index],
+        function: { ...toolCalls[index].function, arguments: argumentsJson },
+      };
+      this.messages[i] = { ...message, tool_calls: toolCalls };
+      this.save();
+      return true;
+    }
+    return false;
+  }
+
   /**
    * Get message count
    */
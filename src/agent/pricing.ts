@@ -0,0 +1,86 @@
+import type { ModelPrice } from '../config/schema';
+import type { LLMResponse } from '../types';
+
+/**
+ * Token prices for cost accounting.
+ *
+ * Built-in rates mirror voice/pricing.json (as of 2026-07-18) so the Node API
+ * and the voice ledger price a call the same way; `costs.pricing` in config
+ * adds models or overrides these. Self-hosted providers are free. A model
+ * with no known price is reported as unpriced rather than guessed.
+ */
+
+export const PRICING_AS_OF = '2026-07-18';
+
+export const DEFAULT_PRICING: Record<string, ModelPrice> = {
+  'anthropic/claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'anthropic/claude-sonnet-4-5': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'anthropic/claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'gemini/gemini-flash-lite-latest': { input: 0.1, output: 0.4 },
+  'gemini/gemini-flash-latest': { input: 0.3, output: 2.5 },
+  'deepseek/deepseek-v4-flash': { input: 0.07, output: 0.28, cacheRead: 0.014 },
+  'deepseek/deepseek-chat': { input: 0.28, output: 1.1 },
+  'groq/llama-3.3-70b-versatile': { input: 0.59, output: 0.79 },
+  'meta-llama/llama-4-scout': { input: 0.08, output: 0.3 },
+  'dashscope/qwen-plus': { input: 0.4, output: 1.2 },
+  'qwen/qwen-flash': { input: 0.05, output: 0.4 },
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-oss-20b': { input: 0.03, output: 0.14 },
+  'xai/grok-4.20-0309-non-reasoning': { input: 2, output: 6 },
+};
+
+/** Providers that run on our own hardware (or not at all). */
+const FREE_PREFIXES = ['ollama/', 'vllm/', 'mock/'];
+
+const FREE: ModelPrice = { input: 0, output: 0 };
+
+export type Usage = NonNullable<LLMResponse['usage']>;
+
+export interface CallCost {
+  usd: number;
+  /** No price is known for the model; `usd` is 0. */
+  unpriced?: true;
+}
+
+/**
+ * The price for `model`: an exact entry, else the id with leading provider
+ * segments dropped (`openrouter/anthropic/x` finds `anthropic/x`), else an
+ * entry ending in the bare name (`claude-haiku-4-5`).
+ */
+export function priceFor(
+  model: string,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+  if (FREE_PREFIXES.some((prefix) => model.startsWith(prefix))) return FREE;
+  const table = { ...DEFAULT_PRICING, ...overrides };
+  const parts = model.split('/');
+  for (let i = 0; i < parts.length; i++) {
+    const candidate = parts.slice(i).join('/');
+    if (table[candidate]) return table[candidate];
+  }
+  const suffix = `/${model}`;
+  const key = Object.keys(table).find((k) => k.endsWith(suffix));
+  return key ? table[key] : undefined;
+}
+
+/**
+ * USD for one call. `promptTokens` includes cache reads and writes (see the
+ * Anthropic usage mapping), so those are taken out of the full-price input.
+ */
+export function priceUsage(
+  model: string,
+  usage: Usage,
+  overrides?: Record<string, ModelPrice>
+): CallCost {
+  const price = priceFor(model, overrides);
+  if (!price) return { usd: 0, unpriced: true };
+  const cacheRead = usage.cacheReadTokens ?? 0;
+  const cacheWrite = usage.cacheWriteTokens ?? 0;
+  const input = Math.max(0, usage.promptTokens - cacheRead - cacheWrite);
+  const micros =
+    input * price.input +
+    cacheRead * (price.cacheRead ?? price.input) +
+    cacheWrite * (price.cacheWrite ?? price.input) +
+    usage.completionTokens * price.output;
+  return { usd: micros / 1_000_000 };
+}
@@ -0,0 +1,41 @@
+import type { Memory } from './memory';
+
+export interface PreparedUndo {
+  /** Messages removed, including the undo command itself. */
+  removed: number;
+  reply: string;
+}
+
+/** Deterministic undo-command parser, in the style of the scope commands (knowledge-scope.ts). */
+export function matchUndoIntent(text: string): boolean {
+  const normalized = text
+    .trim()
+    .replace(/[.!?]+$/, '')
+    .trim();
+  return /^(?:please\s+)?(?:undo(?: that| (?:the )?last (?:message|exchange|turn|one))?|scratch that|strike that|take that back)$/i.test(
+    normalized
+  );
+}
+
+/**
+ * Resolve an undo command before the turn reaches routing or the model. When
+ * the latest user message is one, the transcript is rewound to before the
+ * previous user message, so the command and the exchange it undoes are both
+ * gone and the reply is not stored either.
+ */
+export function prepareUndoTurn(memory: Memory): PreparedUndo | undefined {
+  const messages = memory.getMessages();
+  const last = messages.length - 1;
+  if (last < 0 || messages[last].role !== 'user' || !matchUndoIntent(messages[last].content)) {
+    return undefined;
+  }
+  let previous = last - 1;
+  while (previous >= 0 && messages[previous].role !== 'user') previous--;
+  if (previous < 0) {
+    return { removed: memory.rewind(last), reply: "There's nothing to undo." };
+  }
+  return {
+    removed: memory.rewind(previous),
+    reply: 'Okay, I took back your last message and my answer.',
+  };
+}
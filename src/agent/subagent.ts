@@ -1,16 +1,42 @@
 /**
  * Subagent - Background Task Execution
- * Handles background tasks and spawning of sub-agents
+ *
+ * Each task runs in its own AgentLoop under a dedicated `subagent-<taskId>`
+ * session, so its tool calls and intermediate turns never land in the parent
+ * conversation. Task state is written to `~/.nano-claw/subagents/<taskId>.json`
+ * on every transition: pending tasks resume after a restart, and a task that
+ * was mid-run when the process died is reported as failed rather than re-run,
+ * because its tools may already have had side effects. Cleaning up a task
+ * deletes its session along with its state file.
  */
 
-import { AgentContext } from '../types';
+import { existsSync, readdirSync } from 'fs';
+import { join } from 'path';
+import { AgentContext, Message } from '../types';
+import { getConfig } from '../config/index';
+import { getSessionManager } from '../session/index';
+import { getSubagentsDir } from '../utils/helpers';
 import { logger } from '../utils/logger';
+import { readJsonFile, removeJsonFile, writeJsonFile } from '../utils/persist';
+import { AgentLoop } from './loop';
+import { Memory } from './memory';
+
+const DEFAULT_TASK_TIMEOUT_MS = 5 * 60 * 1000;
+const SUBAGENT_MAX_ITERATIONS = 10;
+const TASK_FILE_SUFFIX = '.json';
+
+export type SubagentTaskStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
 
 export interface SubagentTask {
   id: string;
   description: string;
   context: AgentContext;
-  status: 'pending' | 'running' | 'completed' | 'failed';
+  status: SubagentTaskStatus;
+  /** Session that spawned the task and should hear about its outcome. */
+  parentSessionId: string;
+  /** The isolated session the task's AgentLoop runs under. */
+  sessionId: string;
+  timeoutMs: number;
   result?: string;
   error?: string;
   createdAt: Date;
@@ -18,21 +44,114 @@ export interface SubagentTask {
   completedAt?: Date;
 }
 
+/**
+ * Runs one task to completion and returns its final answer. The signal aborts
+ * on cancellation or timeout; a runner that ignores it is abandoned, not
+ * awaited.
+ */
+export type SubagentRunner = (task: SubagentTask, signal: AbortSignal) => Promise<string>;
+
+export type SubagentTaskListener = (task: SubagentTask) => void;
+
+export interface SubagentOptions {
+  /** Per-task deadline unless spawn() overrides it. */
+  timeoutMs?: number;
+  /** Where task state is persisted. Defaults to `~/.nano-claw/subagents`. */
+  tasksDir?: string;
+  /** Replaces the AgentLoop runner (tests, alternative backends). */
+  runner?: SubagentRunner;
+}
+
+export interface SpawnOptions {
+  timeoutMs?: number;
+}
+
+function isTerminal(status: SubagentTaskStatus): boolean {
+  return status === 'completed' || status === 'failed' || status === 'cancelled';
+}
+
+/**
+ * Carry the parent's plain conversational turns into the subagent session.
+ * Tool-call turns are dropped: their `tool` results would reference calls the
+ * subagent never made, and providers reject such transcripts.
+ */
+function seedHistory(memory: Memory, messages: Message[]): void {
+  if (memory.getMessageCount() > 0) return;
+  for (const message of messages) {
+    if (message.role !== 'user' && message.role !== 'assistant') continue;
+    if (message.tool_calls?.length || !message.content) continue;
+    memory.addMessage({ role: message.role, content: message.content });
+  }
+}
+
+/** Default runner: a fresh AgentLoop on the task's own session. */
+const runInAgentLoop: SubagentRunner = async (task, signal) => {
+  const loop = new AgentLoop(
+    task.sessionId,
+    getConfig(),
+    // A background report is read back by the parent turn, never spoken as-is.
+    { ...task.context.config, responseMode: 'text' },
+    SUBAGENT_MAX_ITERATIONS
+  );
+  // Limit the subagent to the tools its context granted.
+  loop.restrictTools(task.context.tools.map((tool) => tool.function.name));
+  // Nobody is watching a background task, so tools that need approval are refused.
+  loop.runUnattended();
+  loop.billTo(task.parentSessionId);
+  seedHistory(loop.getMemory(), task.context.messages);
+  try {
+    const response = await loop.processMessage(task.description, signal);
+    if (response.finishReason === 'budget_exceeded') throw new Error(response.content);
+    return response.content;
+  } finally {
+    getSessionManager().release(task.sessionId);
+  }
+};
+
+function abortedPromise(signal: AbortSignal): Promise<never> {
+  return new Promise((_resolve, reject) => {
+    const fail = () =>
+      reject(signal.reason instanceof Error ? signal.reason : new Error('Task aborted'));
+    if (signal.aborted) fail();
+    else signal.addEventListener('abort', fail, { once: true });
+  });
+}
+
 export class Subagent {
   private tasks: Map<string, SubagentTask>;
   private runningTasks: Set<string>;
+  private controllers: Map<string, AbortController>;
+  private listeners: Set<SubagentTaskListener>;
+  /** Failed by loadTasks before anyone could listen; see takeInterruptedTasks. */
+  private interrupted: SubagentTask[];
   private maxConcurrent: number;
+  private timeoutMs: number;
+  private tasksDir: string;
+  private runner: SubagentRunner;
 
-  constructor(maxConcurrent: number = 3) {
+  constructor(maxConcurrent: number = 3, options: SubagentOptions = {}) {
     this.tasks = new Map();
     this.runningTasks = new Set();
+    this.controllers = new Map();
+    this.listeners = new Set();
+    this.interrupted = [];
     this.maxConcurrent = maxConcurrent;
+    this.timeoutMs = options.timeoutMs ?? DEFAULT_TASK_TIMEOUT_MS;
+    this.tasksDir = options.tasksDir ?? getSubagentsDir();
+    this.runner = options.runner ?? runInAgentLoop;
+
+    this.loadTasks();
+    this.fillCapacity();
   }
 
   /**
    * Spawn a background task
    */
-  async spawn(description: string, context: AgentContext): Promise<string> {
+  async spawn(
+    description: string,
+    context: AgentContext,
+    options: SpawnOptions = {}
+  ): Promise<string> {
     const taskId = `task-${Date.now()}-${Math.random().toString(36).substring(2, 11)}`;
 
     const task: SubagentTask = {
@@ -40,19 +159,20 @@ export class Subagent {
       description,
       context,
       status: 'pending',
+      parentSessionId: context.sessionId,
+      sessionId: `subagent-${taskId}`,
+      timeoutMs: options.timeoutMs ?? this.timeoutMs,
       createdAt: new Date(),
     };
 
     this.tasks.set(taskId, task);
-    logger.info(`Spawned subagent task: ${taskId} - ${description}`);
-
-    // Start task if we have capacity
-    if (this.runningTasks.size < this.maxConcurrent) {
-      this.executeTask(taskId).catch((error) => {
-        logger.error(`Subagent task failed: ${taskId}`, error);
-      });
-    }
+    this.saveTask(task);
+    logger.info(
+      { taskId, parentSessionId: task.parentSessionId, description },
+      'Spawned subagent task'
+    );
 
+    this.fillCapacity();
     return taskId;
   }
 
@@ -68,29 +188,32 @@ export class Subagent {
     this.runningTasks.add(taskId);
     task.status = 'running';
     task.startedAt = new Date();
+    this.saveTask(task);
 
-    try {
-      logger.info(`Executing subagent task: ${taskId}`);
-
-      // Note: For actual implementation, we would need to:
-      // 1. Load config
-      // 2. Create a new AgentLoop with the subagent session
-      // 3. Process the task description
-      // For now, we'll just set a placeholder result
-      const result = `Subagent task ${taskId} executed successfully`;
-
-      task.status = 'completed';
-      task.result = result;
-      task.completedAt = new Date();
+    const controller = new AbortController();
+    this.controllers.set(taskId, controller);
+    const timer = setTimeout(
+      () => controller.abort(new Error(`Timed out after ${task.timeoutMs}ms`)),
+      task.timeoutMs
+    );
 
-      logger.info(`Subagent task completed: ${taskId}`);
+    try {
+      logger.info({ taskId, sessionId: task.sessionId }, 'Executing subagent task');
+      const result = await Promise.race([
+        this.runner(task, controller.signal),
+        abortedPromise(controller.signal),
+      ]);
+      this.settle(task, 'completed', { result });
     } catch (error) {
-      task.status = 'failed';
-      task.error = error instanceof Error ? error.message : String(error);
-      task.completedAt = new Date();
-
-      logger.error(`Subagent task failed: ${taskId}`, error);
+      // cancelTask() has already settled the task; keep its status.
+      if (task.status === 'running') {
+        this.settle(task, 'failed', {
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
     } finally {
+      clearTimeout(timer);
+      this.controllers.delete(taskId);
       this.runningTasks.delete(taskId);
 
       // Start next pending task if available
@@ -98,6 +221,32 @@ export class Subagent {
     }
   }
 
+  private settle(
+    task: SubagentTask,
+    status: Exclude<SubagentTaskStatus, 'pending' | 'running'>,
+    outcome: { result?: string; error?: string }
+  ): void {
+    task.status = status;
+    task.result = outcome.result;
+    task.error = outcome.error;
+    task.completedAt = new Date();
+    this.saveTask(task);
+
+    if (status === 'completed') {
+      logger.info({ taskId: task.id }, 'Subagent task completed');
+    } else {
+      logger.warn({ taskId: task.id, status, error: task.error }, 'Subagent task did not complete');
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(task);
+      } catch (error) {
+        logger.error({ error, taskId: task.id }, 'Subagent task listener failed');
+      }
+    }
+  }
+
   /**
    * Start next pending task if available
    */
@@ -108,14 +257,40 @@ export class Subagent {
 
     for (const [taskId, task] of this.tasks.entries()) {
       if (task.status === 'pending') {
-        this.executeTask(taskId).catch((error) => {
-          logger.error(`Subagent task failed: ${taskId}`, error);
+        this.executeTask(taskId).catch((error: unknown) => {
+          logger.error({ error, taskId }, 'Subagent task failed');
         });
         break;
       }
     }
   }
 
+  private fillCapacity(): void {
+    const pending = this.getPendingTasks().length;
+    const slots = Math.min(pending, this.maxConcurrent - this.runningTasks.size);
+    for (let i = 0; i < slots; i++) this.startNextPendingTask();
+  }
+
+  /**
+   * Register a listener for tasks reaching a terminal state. This is how a
+   * parent session hears back; returns an unsubscribe function.
+   */
+  onTaskSettled(listener: SubagentTaskListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  /**
+   * Tasks the previous process left mid-run, which this one failed on load.
+   * They settled before any listener was registered, so the parent reporter
+   * collects them here; each is handed out once.
+   */
+  takeInterruptedTasks(): SubagentTask[] {
+    const tasks = this.interrupted;
+    this.interrupted = [];
+    return tasks;
+  }
+
   /**
    * Get task status
    */
@@ -145,64 +320,129 @@ export class Subagent {
   }
 
   /**
-   * Cancel a task
+   * Cancel a pending or running task. A running task's loop is signalled to
+   * stop and its eventual result, if any, is discarded.
    */
   cancelTask(taskId: string): boolean {
     const task = this.tasks.get(taskId);
-    if (task && task.status === 'pending') {
-      task.status = 'failed';
-      task.error = 'Cancelled by user';
-      task.completedAt = new Date();
-      logger.info(`Cancelled subagent task: ${taskId}`);
-      return true;
-    }
-    return false;
+    if (!task || isTerminal(task.status)) return false;
+
+    const wasRunning = task.status === 'running';
+    this.settle(task, 'cancelled', { error: 'Cancelled by user' });
+    if (wasRunning) this.controllers.get(taskId)?.abort(new Error('Cancelled by user'));
+    logger.info({ taskId, wasRunning }, 'Cancelled subagent task');
+    return true;
   }
 
   /**
-   * Clean up old tasks
+   * Clean up old tasks, with their sessions
    */
   cleanup(maxAge: number = 3600000): number {
     const now = Date.now();
-    const toDelete: string[] = [];
+    const toDelete: SubagentTask[] = [];
 
-    for (const [taskId, task] of this.tasks.entries()) {
+    for (const task of this.tasks.values()) {
       if (task.completedAt && now - task.completedAt.getTime() > maxAge) {
-        toDelete.push(taskId);
+        toDelete.push(task);
       }
     }
 
-    for (const taskId of toDelete) {
-      this.tasks.delete(taskId);
+    for (const task of toDelete) {
+      this.tasks.delete(task.id);
+      this.deleteTaskFile(task.id);
+      this.deleteTaskSession(task);
     }
 
-    logger.info(`Cleaned up ${toDelete.length} old subagent tasks`);
+    logger.info({ count: toDelete.length }, 'Cleaned up old subagent tasks');
     return toDelete.length;
   }
 
   /**
-   * Wait for a task to complete
+   * Wait for a task to reach a terminal state
    */
   async waitForTask(taskId: string, timeoutMs: number = 60000): Promise<SubagentTask> {
-    const startTime = Date.now();
+    const task = this.tasks.get(taskId);
+    if (!task) {
+      throw new Error(`Task not found: ${taskId}`);
+    }
+    if (isTerminal(task.status)) return task;
+
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        unsubscribe();
+        reject(new Error(`Task timeout: ${taskId}`));
+      }, timeoutMs);
+      const unsubscribe = this.onTaskSettled((settled) => {
+        if (settled.id !== taskId) return;
+        clearTimeout(timer);
+        unsubscribe();
+        resolve(settled);
+      });
+    });
+  }
 
-    // eslint-disable-next-line no-constant-condition
-    while (true) {
-      const task = this.tasks.get(taskId);
-      if (!task) {
-        throw new Error(`Task not found: ${taskId}`);
-      }
+  private taskPath(taskId: string): string {
+    return join(this.tasksDir, `${taskId}${TASK_FILE_SUFFIX}`);
+  }
 
-      if (task.status === 'completed' || task.status === 'failed') {
-        return task;
-      }
+  private saveTask(task: SubagentTask): void {
+    try {
+      writeJsonFile(this.taskPath(task.id), task);
+    } catch (error) {
+      logger.error({ error, taskId: task.id }, 'Failed to save subagent task');
+    }
+  }
+
+  private deleteTaskFile(taskId: string): void {
+    try {
+      removeJsonFile(this.taskPath(taskId));
+    } catch (error) {
+      logger.error({ error, taskId }, 'Failed to delete subagent task file');
+    }
+  }
 
-      if (Date.now() - startTime > timeoutMs) {
-        throw new Error(`Task timeout: ${taskId}`);
+  private deleteTaskSession(task: SubagentTask): void {
+    try {
+      getSessionManager().deleteSession(task.sessionId);
+    } catch (error) {
+      logger.error({ error, taskId: task.id }, 'Failed to delete subagent session');
+    }
+  }
+
+  /**
+   * Reload persisted tasks. Pending tasks are queued again; a task that was
+   * running when the previous process stopped is marked failed, since
+   * replaying it could repeat tool side effects.
+   */
+  private loadTasks(): void {
+    if (!existsSync(this.tasksDir)) return;
+
+    for (const file of readdirSync(this.tasksDir)) {
+      if (!file.endsWith(TASK_FILE_SUFFIX)) continue;
+      try {
+        const raw = readJsonFile<SubagentTask>(join(this.tasksDir, file));
+        if (!raw) continue;
+        const task: SubagentTask = {
+          ...raw,
+          createdAt: new Date(raw.createdAt),
+          startedAt: raw.startedAt ? new Date(raw.startedAt) : undefined,
+          completedAt: raw.completedAt ? new Date(raw.completedAt) : undefined,
+        };
+        if (task.status === 'running') {
+          task.status = 'failed';
+          task.error = 'Interrupted by restart';
+          task.completedAt = new Date();
+          this.saveTask(task);
+          this.interrupted.push(task);
+        }
+        this.tasks.set(task.id, task);
+      } catch (error) {
+        logger.warn({ error, file }, 'Skipping unreadable subagent task file');
       }
+    }
 
-      // Wait a bit before checking again
-      await new Promise((resolve) => setTimeout(resolve, 1000));
+    if (this.tasks.size > 0) {
+      logger.info({ count: this.tasks.size }, 'Loaded subagent tasks');
     }
   }
 }
@@ -216,3 +456,8 @@ export function getSubagent(): Subagent {
   }
   return subagent;
 }
+
+/** Test-only: replace the shared instance (e.g. one with a stub runner). */
+export function __setSubagentForTest(instance: Subagent | null): void {
+  subagent = instance;
+}
@@ -0,0 +1,127 @@
+import type { ToolsConfig } from '../../config/schema';
+import type { ToolCall, ToolResult } from '../../types';
+import { logger } from '../../utils/logger';
+import { ToolRegistry, toolCallErrorMessage } from './registry';
+
+/**
+ * Runs a batch of tool calls from one model turn.
+ *
+ * Consecutive read-only calls form a group that runs concurrently under a
+ * concurrency cap; a call with side effects waits for everything before it
+ * and runs alone, so a write is never reordered around the reads the model
+ * placed next to it. Results come back in call order, whatever order they
+ * finished in, so `tool` messages keep the model's tool_call_id ordering.
+ */
+
+export interface ToolExecutionOptions {
+  maxConcurrency?: number;
+  timeoutMs?: number;
+  /** Per-tool overrides of `timeoutMs`, keyed by tool name. */
+  toolTimeoutsMs?: Record<string, number>;
+}
+
+export interface ToolExecution {
+  toolCall: ToolCall;
+  result: ToolResult;
+  durationMs: number;
+}
+
+const DEFAULT_MAX_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 60000;
+
+/** The execution slice of the tools config. */
+export function toolExecutionOptions(toolsConfig?: Partial<ToolsConfig>): ToolExecutionOptions {
+  return { ...toolsConfig?.execution };
+}
+
+/**
+ * Settle with the tool's result, or a timeout error once `timeoutMs` passes.
+ * The timer can only fire while the tool awaits, which is why the built-in
+ * file tools read through fs/promises. The tool itself is not interrupted
+ * (the shell tool enforces its own limits); its late result is dropped.
+ */
+function withTimeout(
+  run: Promise<ToolResult>,
+  name: string,
+  timeoutMs: number
+): Promise<ToolResult> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<ToolResult>((resolve) => {
+    timer = setTimeout(
+      () =>
+        resolve({ success: false, output: '', error: `${name} timed out after ${timeoutMs}ms` }),
+      timeoutMs
+    );
+  });
+  return Promise.race([run, timeout]).finally(() => clearTimeout(timer));
+}
+
+async function executeOne(
+  registry: ToolRegistry,
+  toolCall: ToolCall,
+  options: ToolExecutionOptions
+): Promise<ToolExecution> {
+  const name = toolCall.function.name;
+  const start = Date.now();
+  const check = registry.checkToolCall(toolCall);
+  if (!check.ok) {
+    return {
+      toolCall,
+      result: { success: false, output: '', error: toolCallErrorMessage(name, check) },
+      durationMs: 0,
+    };
+  }
+  const timeoutMs = options.toolTimeoutsMs?.[name] ?? options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const result = await withTimeout(registry.execute(name, check.args), name, timeoutMs);
+  return { toolCall, result, durationMs: Date.now() - start };
+}
+
+/** Run `toolCalls` with at most `limit` in flight; results keep input order. */
+async function runPool(
+  registry: ToolRegistry,
+  toolCalls: ToolCall[],
+  options: ToolExecutionOptions,
+  limit: number
+): Promise<ToolExecution[]> {
+  const results: ToolExecution[] = [];
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < toolCalls.length) {
+      const index = next++;
+      results[index] = await executeOne(registry, toolCalls[index], options);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, toolCalls.length) }, worker));
+  return results;
+}
+
+/** Execute a batch of tool calls and return one result per call, in call order. */
+export async function executeToolCalls(
+  registry: ToolRegistry,
+  toolCalls: ToolCall[],
+  options: ToolExecutionOptions = {}
+): Promise<ToolExecution[]> {
+  const limit = Math.max(1, options.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+  const executions: ToolExecution[] = [];
+  let group: ToolCall[] = [];
+
+  const flush = async (): Promise<void> => {
+    if (group.length === 0) return;
+    if (group.length > 1) {
+      logger.debug({ calls: group.length, limit }, 'Running read-only tool calls concurrently');
+    }
+    executions.push(...(await runPool(registry, group, options, limit)));
+    group = [];
+  };
+
+  for (const toolCall of toolCalls) {
+    if (registry.isReadOnly(toolCall.function.name)) {
+      group.push(toolCall);
+      continue;
+    }
+    await flush();
+    executions.push(await executeOne(registry, toolCall, options));
+  }
+  await flush();
+  return executions;
+}
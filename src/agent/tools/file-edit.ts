@@ -0,0 +1,347 @@
+import {
+  chmodSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { randomBytes } from 'crypto';
+import { dirname } from 'path';
+import { BaseTool } from './registry';
+import { ToolDefinition, ToolResult } from '../../types';
+import { logger } from '../../utils/logger';
+import { FileToolOptions, isBinaryFileSync, resolveToolPath } from './file';
+import { PatchError, applyHunks, parsePatch, unifiedDiff } from './patch';
+
+/**
+ * In-place editing tools. Both return a unified diff of what they changed so
+ * the model (and the approval card) can see the effect without re-reading
+ * the file, and both refuse binary files.
+ */
+
+/** Current text of a confined path, or the reason it cannot be edited. */
+function readEditable(
+  rawPath: string,
+  options: FileToolOptions
+): { ok: true; path: string; content: string } | { ok: false; error: string } {
+  const resolved = resolveToolPath(rawPath, options);
+  if (!resolved.ok) return resolved;
+  if (!existsSync(resolved.path)) return { ok: false, error: `File not found: ${rawPath}` };
+  if (statSync(resolved.path).isDirectory()) {
+    return { ok: false, error: `Path is a directory: ${rawPath}` };
+  }
+  if (isBinaryFileSync(resolved.path)) return { ok: false, error: `Binary file: ${rawPath}` };
+  return { ok: true, path: resolved.path, content: readFileSync(resolved.path, 'utf-8') };
+}
+
+function countOccurrences(haystack: string, needle: string): number {
+  let count = 0;
+  for (
+    let at = haystack.indexOf(needle);
+    at !== -1;
+    at = haystack.indexOf(needle, at + needle.length)
+  ) {
+    count++;
+  }
+  return count;
+}
+
+/**
+ * Exact-string replacement tool
+ */
+export class EditFileTool extends BaseTool {
+  name = 'edit_file';
+  description =
+    'Replace an exact string in a file. old_string must match exactly once unless replace_all is set; include enough surrounding lines to make it unique.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Path to the file to edit',
+            },
+            old_string: {
+              type: 'string',
+              description: 'Exact text to replace, including whitespace',
+            },
+            new_string: {
+              type: 'string',
+              description: 'Replacement text',
+            },
+            replace_all: {
+              type: 'boolean',
+              description: 'Replace every occurrence instead of requiring a unique match',
+            },
+          },
+          required: ['path', 'old_string', 'new_string'],
+        },
+      },
+    };
+  }
+
+  execute(args: Record<string, unknown>): Promise<ToolResult> {
+    return Promise.resolve(this.edit(args));
+  }
+
+  private edit(args: Record<string, unknown>): ToolResult {
+    const rawPath = args.path as string;
+    const oldString = args.old_string;
+    const newString = args.new_string;
+
+    if (!rawPath) {
+      return this.error('Path is required');
+    }
+    if (typeof oldString !== 'string' || oldString === '') {
+      return this.error('old_string is required');
+    }
+    if (typeof newString !== 'string') {
+      return this.error('new_string is required');
+    }
+    if (oldString === newString) {
+      return this.error('old_string and new_string are identical');
+    }
+
+    try {
+      const file = readEditable(rawPath, this.options);
+      if (!file.ok) return this.error(file.error);
+
+      const occurrences = countOccurrences(file.content, oldString);
+      if (occurrences === 0) {
+        return this.error(`old_string not found in ${rawPath}`);
+      }
+      if (occurrences > 1 && args.replace_all !== true) {
+        return this.error(
+          `old_string appears ${occurrences} times in ${rawPath}; add surrounding context to make it unique or set replace_all`
+        );
+      }
+
+      const updated = file.content.split(oldString).join(newString);
+      writeFileSync(file.path, updated, 'utf-8');
+      return this.success(
+        JSON.stringify({
+          path: rawPath,
+          replacements: occurrences,
+          diff: unifiedDiff(rawPath, file.content, updated),
+        })
+      );
+    } catch (error) {
+      return this.error(`Failed to edit file: ${(error as Error).message}`);
+    }
+  }
+}
+
+type PlannedChange =
+  | { status: 'created' | 'modified'; rawPath: string; path: string; before: string; after: string }
+  | { status: 'deleted'; rawPath: string; path: string; before: string }
+  | {
+      status: 'renamed';
+      rawPath: string;
+      path: string;
+      from: string;
+      before: string;
+      after: string;
+    };
+
+/** Write `content` to a temp file beside `path`, with the mode of `modeFrom` if given. */
+function stageFile(path: string, content: string, modeFrom?: string): string {
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  writeFileSync(tempPath, content, 'utf-8');
+  if (modeFrom) chmodSync(tempPath, statSync(modeFrom).mode);
+  return tempPath;
+}
+
+/**
+ * Unified diff tool
+ */
+export class ApplyPatchTool extends BaseTool {
+  name = 'apply_patch';
+  description =
+    'Apply a unified diff (diff -u / git diff format) to one or more files. Use /dev/null as the old path to create a file or the new path to delete one. Either every file applies or nothing is written.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            patch: {
+              type: 'string',
+              description: 'The unified diff, with ---/+++ headers and @@ hunks',
+            },
+          },
+          required: ['patch'],
+        },
+      },
+    };
+  }
+
+  execute(args: Record<string, unknown>): Promise<ToolResult> {
+    return Promise.resolve(this.apply(args));
+  }
+
+  private apply(args: Record<string, unknown>): ToolResult {
+    const patch = args.patch;
+    if (typeof patch !== 'string' || !patch.trim()) {
+      return this.error('Patch is required');
+    }
+
+    try {
+      const changes = this.plan(patch);
+      if (typeof changes === 'string') return this.error(changes);
+
+      // Every hunk has been checked before the first write.
+      this.commit(changes);
+
+      return this.success(
+        JSON.stringify({
+          files: changes.map((change) => ({
+            path: change.rawPath,
+            status: change.status,
+            diff: unifiedDiff(
+              change.rawPath,
+              change.before,
+              change.status === 'deleted' ? '' : change.after
+            ),
+          })),
+        })
+      );
+    } catch (error) {
+      if (error instanceof PatchError) return this.error(`Patch not applied: ${error.message}`);
+      return this.error(`Failed to apply patch: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Write the planned changes all or nothing. New contents are staged in temp
+   * files beside their targets, then renamed into place; when any step fails,
+   * the steps already taken are undone in reverse.
+   */
+  private commit(changes: PlannedChange[]): void {
+    const staged = new Map<string, string>();
+    const undo: Array<() => void> = [];
+    try {
+      for (const change of changes) {
+        if (change.status === 'deleted') continue;
+        const madeDir = mkdirSync(dirname(change.path), { recursive: true });
+        if (madeDir) undo.push(() => rmSync(madeDir, { recursive: true, force: true }));
+        const modeFrom =
+          change.status === 'renamed'
+            ? change.from
+            : change.status === 'modified'
+              ? change.path
+              : undefined;
+        staged.set(change.path, stageFile(change.path, change.after, modeFrom));
+      }
+
+      for (const change of changes) {
+        const { path, before } = change;
+        if (change.status === 'deleted') {
+          unlinkSync(path);
+          undo.push(() => writeFileSync(path, before, 'utf-8'));
+          continue;
+        }
+        renameSync(staged.get(path) as string, path);
+        staged.delete(path);
+        undo.push(
+          change.status === 'modified'
+            ? () => writeFileSync(path, before, 'utf-8')
+            : () => unlinkSync(path)
+        );
+        if (change.status === 'renamed') {
+          const from = change.from;
+          unlinkSync(from);
+          undo.push(() => writeFileSync(from, before, 'utf-8'));
+        }
+      }
+    } catch (error) {
+      for (const tempPath of staged.values()) rmSync(tempPath, { force: true });
+      for (const step of undo.reverse()) {
+        try {
+          step();
+        } catch (undoError) {
+          /* health-ok: keep undoing the rest; the original error is what the model sees */
+          logger.warn({ error: undoError }, 'Failed to roll back part of a patch');
+        }
+      }
+      throw error;
+    }
+  }
+
+  /** Resolve and apply every file in memory; a string is the first failure. */
+  private plan(patch: string): PlannedChange[] | string {
+    const changes: PlannedChange[] = [];
+    const touched = new Set<string>();
+
+    for (const file of parsePatch(patch)) {
+      const rawPath = (file.newPath ?? file.oldPath) as string;
+
+      if (!file.oldPath) {
+        const target = resolveToolPath(rawPath, this.options);
+        if (!target.ok) return target.error;
+        if (existsSync(target.path)) return `Cannot create ${rawPath}: it already exists`;
+        changes.push({
+          status: 'created',
+          rawPath,
+          path: target.path,
+          before: '',
+          after: applyHunks('', file.hunks, rawPath),
+        });
+      } else {
+        const source = readEditable(file.oldPath, this.options);
+        if (!source.ok) return source.error;
+        const after = applyHunks(source.content, file.hunks, file.oldPath);
+
+        if (!file.newPath) {
+          changes.push({ status: 'deleted', rawPath, path: source.path, before: source.content });
+        } else if (file.newPath !== file.oldPath) {
+          const target = resolveToolPath(file.newPath, this.options);
+          if (!target.ok) return target.error;
+          if (existsSync(target.path)) return `Cannot rename to ${file.newPath}: it already exists`;
+          changes.push({
+            status: 'renamed',
+            rawPath,
+            path: target.path,
+            from: source.path,
+            before: source.content,
+            after,
+          });
+        } else {
+          changes.push({
+            status: 'modified',
+            rawPath,
+            path: source.path,
+            before: source.content,
+            after,
+          });
+        }
+      }
+
+      const path = changes[changes.length - 1].path;
+      if (touched.has(path)) return `${rawPath} appears more than once in the patch`;
+      touched.add(path);
+    }
+    return changes;
+  }
+}
@@ -0,0 +1,434 @@
+import type { Dirent } from 'fs';
+import { readFile, readdir, stat } from 'fs/promises';
+import { join, relative, sep } from 'path';
+import { BaseTool } from './registry';
+import { ToolDefinition, ToolResult } from '../../types';
+import { FileToolOptions, isBinaryFile, resolveToolPath } from './file';
+import { DEFAULT_DENIED_PATHS, deniedPathMatch, globToRegExp } from './workspace';
+
+/**
+ * Directory listing and search tools.
+ *
+ * Walks never follow symlinks (a link is reported, not entered), so nothing
+ * below a confined root can lead outside it, and denied paths are left out
+ * of every result. Each tool caps both its output and the entries its walk
+ * may scan, and says when either cut it short. All fs work is asynchronous,
+ * so concurrent calls interleave and the executor's timeout can answer for a
+ * walk that runs long.
+ */
+
+/** Directories skipped by glob and grep unless named as the search root. */
+const SKIPPED_DIRS = new Set(['.git', 'node_modules']);
+const MAX_WALK_ENTRIES = 20000;
+const MAX_GREP_FILE_BYTES = 1024 * 1024;
+const MAX_GREP_LINE_CHARS = 200;
+
+interface WalkEntry {
+  path: string;
+  /** Relative to the walk root, with forward slashes. */
+  rel: string;
+  dirent: Dirent;
+  depth: number;
+}
+
+interface WalkOptions {
+  maxDepth: number;
+  includeHidden: boolean;
+  skipDirs: boolean;
+  deniedPaths: readonly string[];
+  /** Entries scanned before the walk gives up. */
+  maxEntries: number;
+}
+
+/**
+ * Depth-first, name-ordered walk. Returns false from `visit` to stop.
+ * Resolves true when the walk stopped at `maxEntries` rather than finishing.
+ */
+async function walk(
+  root: string,
+  options: WalkOptions,
+  visit: (entry: WalkEntry) => boolean | Promise<boolean>
+): Promise<boolean> {
+  let seen = 0;
+  let capped = false;
+  const descend = async (dir: string, depth: number): Promise<boolean> => {
+    let dirents: Dirent[];
+    try {
+      dirents = await readdir(dir, { withFileTypes: true });
+    } catch {
+      /* health-ok: an unreadable directory is left out of the results, not fatal */
+      return true;
+    }
+    dirents.sort((a, b) => a.name.localeCompare(b.name));
+    for (const dirent of dirents) {
+      if (++seen > options.maxEntries) {
+        capped = true;
+        return false;
+      }
+      if (!options.includeHidden && dirent.name.startsWith('.')) continue;
+      const path = join(dir, dirent.name);
+      if (deniedPathMatch(path, options.deniedPaths)) continue;
+      const rel = relative(root, path).split(sep).join('/');
+      if (!(await visit({ path, rel, dirent, depth }))) return false;
+      if (
+        dirent.isDirectory() &&
+        depth < options.maxDepth &&
+        !(options.skipDirs && SKIPPED_DIRS.has(dirent.name)) &&
+        !(await descend(path, depth + 1))
+      ) {
+        return false;
+      }
+    }
+    return true;
+  };
+  await descend(root, 1);
+  return capped;
+}
+
+/** Said alongside `truncated` when the walk, not the result limit, cut a search short. */
+function cappedNote(maxEntries: number): string {
+  return `Stopped after scanning ${maxEntries} entries; search a narrower path for the rest`;
+}
+
+function entryType(dirent: Dirent): 'file' | 'dir' | 'symlink' | 'other' {
+  if (dirent.isSymbolicLink()) return 'symlink';
+  if (dirent.isDirectory()) return 'dir';
+  if (dirent.isFile()) return 'file';
+  return 'other';
+}
+
+function positiveInt(value: unknown, fallback: number, max: number): number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0
+    ? Math.min(value, max)
+    : fallback;
+}
+
+/** The directory a search starts from, confined like any other path. */
+async function searchRoot(
+  rawPath: unknown,
+  options: FileToolOptions
+): Promise<{ ok: true; path: string } | { ok: false; error: string }> {
+  const resolved = resolveToolPath(typeof rawPath === 'string' && rawPath ? rawPath : '.', options);
+  if (!resolved.ok) return resolved;
+  try {
+    if (!(await stat(resolved.path)).isDirectory()) {
+      return { ok: false, error: `Not a directory: ${String(rawPath)}` };
+    }
+  } catch {
+    return { ok: false, error: `Directory not found: ${String(rawPath ?? '.')}` };
+  }
+  return resolved;
+}
+
+/** `**\/x` also matches `x` at the top level, as in most glob implementations. */
+function globMatcher(pattern: string): (rel: string) => boolean {
+  const full = globToRegExp(pattern);
+  const top = pattern.startsWith('**/') ? globToRegExp(pattern.slice(3)) : undefined;
+  return (rel) => full.test(rel) || (top?.test(rel) ?? false);
+}
+
+/**
+ * Directory listing tool
+ */
+export class ListDirTool extends BaseTool {
+  name = 'list_dir';
+  readonly readOnly = true;
+  description = 'List a directory. Set depth above 1 to include subdirectories.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            path: {
+              type: 'string',
+              description: 'Directory to list (default: the workspace root)',
+            },
+            depth: {
+              type: 'number',
+              description: 'Levels to descend, 1-5 (default 1)',
+            },
+            include_hidden: {
+              type: 'boolean',
+              description: 'Include dotfiles and dot-directories',
+            },
+            max_entries: {
+              type: 'number',
+              description: 'Maximum entries to return (default 200, max 1000)',
+            },
+          },
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const root = await searchRoot(args.path, this.options);
+    if (!root.ok) return this.error(root.error);
+
+    const maxEntries = positiveInt(args.max_entries, 200, 1000);
+    const entries: Array<{ path: string; type: string; size?: number }> = [];
+    let truncated = false;
+    const walkLimit = this.options.maxWalkEntries ?? MAX_WALK_ENTRIES;
+    const capped = await walk(
+      root.path,
+      {
+        maxDepth: positiveInt(args.depth, 1, 5),
+        includeHidden: args.include_hidden === true,
+        skipDirs: false,
+        deniedPaths: this.options.deniedPaths ?? DEFAULT_DENIED_PATHS,
+        maxEntries: walkLimit,
+      },
+      async ({ path, rel, dirent }) => {
+        if (entries.length >= maxEntries) {
+          truncated = true;
+          return false;
+        }
+        const type = entryType(dirent);
+        if (type !== 'file') {
+          entries.push({ path: rel, type });
+          return true;
+        }
+        try {
+          entries.push({ path: rel, type, size: (await stat(path)).size });
+        } catch {
+          /* health-ok: a file removed mid-walk is left out */
+        }
+        return true;
+      }
+    );
+
+    return this.success(
+      JSON.stringify({
+        path: String(args.path ?? '.'),
+        entries,
+        truncated: truncated || capped,
+        ...(capped && { note: cappedNote(walkLimit) }),
+      })
+    );
+  }
+}
+
+/**
+ * Glob search tool
+ */
+export class GlobTool extends BaseTool {
+  name = 'glob';
+  readonly readOnly = true;
+  description =
+    'Find files by glob pattern relative to a directory, e.g. "**/*.ts" or "src/*/index.ts". Skips .git and node_modules.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: {
+              type: 'string',
+              description: '"*" matches within a path segment, "**" across segments',
+            },
+            path: {
+              type: 'string',
+              description: 'Directory to search from (default: the workspace root)',
+            },
+            max_results: {
+              type: 'number',
+              description: 'Maximum matches to return (default 200, max 1000)',
+            },
+          },
+          required: ['pattern'],
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const pattern = args.pattern;
+    if (typeof pattern !== 'string' || !pattern) {
+      return this.error('Pattern is required');
+    }
+    const root = await searchRoot(args.path, this.options);
+    if (!root.ok) return this.error(root.error);
+
+    const matches = globMatcher(pattern);
+    const maxResults = positiveInt(args.max_results, 200, 1000);
+    const files: string[] = [];
+    let truncated = false;
+    const walkLimit = this.options.maxWalkEntries ?? MAX_WALK_ENTRIES;
+    const capped = await walk(
+      root.path,
+      {
+        maxDepth: Number.MAX_SAFE_INTEGER,
+        // A pattern that names a dotfile has to be able to see it.
+        includeHidden: /(^|\/)\./.test(pattern),
+        skipDirs: true,
+        deniedPaths: this.options.deniedPaths ?? DEFAULT_DENIED_PATHS,
+        maxEntries: walkLimit,
+      },
+      ({ rel, dirent }) => {
+        if (!dirent.isFile() || !matches(rel)) return true;
+        if (files.length >= maxResults) {
+          truncated = true;
+          return false;
+        }
+        files.push(rel);
+        return true;
+      }
+    );
+
+    return this.success(
+      JSON.stringify({
+        pattern,
+        files,
+        truncated: truncated || capped,
+        ...(capped && { note: cappedNote(walkLimit) }),
+      })
+    );
+  }
+}
+
+/** Lines of `path` matching `regex`; callers skip files over MAX_GREP_FILE_BYTES. */
+async function grepFile(
+  path: string,
+  regex: RegExp
+): Promise<Array<{ line: number; text: string }>> {
+  const content = await readFile(path, 'utf-8');
+  const hits: Array<{ line: number; text: string }> = [];
+  content.split('\n').forEach((text, index) => {
+    if (regex.test(text)) {
+      hits.push({
+        line: index + 1,
+        text: text.length > MAX_GREP_LINE_CHARS ? `${text.slice(0, MAX_GREP_LINE_CHARS)}…` : text,
+      });
+    }
+  });
+  return hits;
+}
+
+/**
+ * Content search tool
+ */
+export class GrepFilesTool extends BaseTool {
+  name = 'grep_files';
+  readonly readOnly = true;
+  description =
+    'Search file contents with a regular expression. Returns matching lines with their paths and line numbers. Skips binary files, files over 1 MB, .git and node_modules.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            pattern: {
+              type: 'string',
+              description: 'JavaScript regular expression',
+            },
+            path: {
+              type: 'string',
+              description: 'Directory to search (default: the workspace root)',
+            },
+            glob: {
+              type: 'string',
+              description: 'Only search files matching this glob, e.g. "**/*.ts"',
+            },
+            case_insensitive: {
+              type: 'boolean',
+              description: 'Ignore case',
+            },
+            max_results: {
+              type: 'number',
+              description: 'Maximum matching lines to return (default 100, max 500)',
+            },
+          },
+          required: ['pattern'],
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const pattern = args.pattern;
+    if (typeof pattern !== 'string' || !pattern) {
+      return this.error('Pattern is required');
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, args.case_insensitive === true ? 'i' : '');
+    } catch (error) {
+      return this.error(`Invalid pattern: ${(error as Error).message}`);
+    }
+    const root = await searchRoot(args.path, this.options);
+    if (!root.ok) return this.error(root.error);
+
+    const fileFilter =
+      typeof args.glob === 'string' && args.glob ? globMatcher(args.glob) : undefined;
+    const maxResults = positiveInt(args.max_results, 100, 500);
+    const matches: Array<{ path: string; line: number; text: string }> = [];
+    let filesSearched = 0;
+    let truncated = false;
+    const walkLimit = this.options.maxWalkEntries ?? MAX_WALK_ENTRIES;
+    const capped = await walk(
+      root.path,
+      {
+        maxDepth: Number.MAX_SAFE_INTEGER,
+        includeHidden: false,
+        skipDirs: true,
+        deniedPaths: this.options.deniedPaths ?? DEFAULT_DENIED_PATHS,
+        maxEntries: walkLimit,
+      },
+      async ({ path, rel, dirent }) => {
+        if (!dirent.isFile() || (fileFilter && !fileFilter(rel))) return true;
+        try {
+          if ((await stat(path)).size > MAX_GREP_FILE_BYTES || (await isBinaryFile(path))) {
+            return true;
+          }
+          filesSearched++;
+          for (const hit of await grepFile(path, regex)) {
+            if (matches.length >= maxResults) {
+              truncated = true;
+              return false;
+            }
+            matches.push({ path: rel, ...hit });
+          }
+        } catch {
+          /* health-ok: a file removed or unreadable mid-walk is skipped */
+        }
+        return true;
+      }
+    );
+
+    return this.success(
+      JSON.stringify({
+        pattern,
+        matches,
+        filesSearched,
+        truncated: truncated || capped,
+        ...(capped && { note: cappedNote(walkLimit) }),
+      })
+    );
+  }
+}
@@ -1,14 +1,187 @@
-import { readFileSync, writeFileSync, existsSync, mkdirSync } from 'fs';
-import { dirname } from 'path';
+import { closeSync, existsSync, mkdirSync, openSync, readSync, statSync, writeFileSync } from 'fs';
+import { open, stat } from 'fs/promises';
+import { dirname, isAbsolute, resolve } from 'path';
+import { StringDecoder } from 'string_decoder';
 import { BaseTool } from './registry';
 import { ToolDefinition, ToolResult } from '../../types';
+import type { ToolsConfig } from '../../config/schema';
+import {
+  DEFAULT_DENIED_PATHS,
+  deniedPathMatch,
+  expandHome,
+  isWithinRoots,
+  resolveWorkspaceRoots,
+} from './workspace';
+
+const DEFAULT_MAX_READ_BYTES = 256 * 1024;
+const BINARY_SNIFF_BYTES = 8000;
+const READ_CHUNK_BYTES = 64 * 1024;
+
+export interface FileToolOptions {
+  /** Refuse paths outside `workspaceRoots` (real paths, symlinks followed). */
+  restrictToWorkspace?: boolean;
+  workspaceRoots?: string[];
+  /** Always refused, confined or not. Defaults to DEFAULT_DENIED_PATHS. */
+  deniedPaths?: string[];
+  maxReadBytes?: number;
+  /** Entries list_dir, glob and grep_files scan before stopping. Defaults to 20000. */
+  maxWalkEntries?: number;
+}
+
+/** The file-tool slice of the tools config, shared by every file tool. */
+export function fileToolOptions(toolsConfig?: Partial<ToolsConfig>): FileToolOptions {
+  return {
+    restrictToWorkspace: toolsConfig?.restrictToWorkspace,
+    workspaceRoots: toolsConfig?.workspaceRoots,
+    deniedPaths: toolsConfig?.deniedPaths,
+    maxReadBytes: toolsConfig?.maxReadBytes,
+  };
+}
+
+export type ToolPathResult = { ok: true; path: string } | { ok: false; error: string };
+
+/**
+ * Resolve a model-supplied path (`~` expanded) and apply confinement. Relative paths are
+ * taken from the first workspace root when confined, else from the process
+ * working directory.
+ */
+export function resolveToolPath(rawPath: string, options: FileToolOptions): ToolPathResult {
+  const roots = resolveWorkspaceRoots(options.workspaceRoots);
+  const base = options.restrictToWorkspace ? roots[0] : process.cwd();
+  const expanded = expandHome(rawPath);
+  const path = isAbsolute(expanded) ? resolve(expanded) : resolve(base, expanded);
+
+  const denied = deniedPathMatch(path, options.deniedPaths ?? DEFAULT_DENIED_PATHS);
+  if (denied) return { ok: false, error: `Access denied: ${rawPath} matches ${denied}` };
+  if (options.restrictToWorkspace && !isWithinRoots(path, roots)) {
+    return { ok: false, error: `Path outside the workspace: ${rawPath}` };
+  }
+  return { ok: true, path };
+}
+
+/** NUL bytes in the head of a file are the same heuristic git and grep use. */
+export async function isBinaryFile(path: string): Promise<boolean> {
+  const file = await open(path, 'r');
+  try {
+    const head = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const { bytesRead } = await file.read(head, 0, head.length, 0);
+    return head.subarray(0, bytesRead).includes(0);
+  } finally {
+    await file.close();
+  }
+}
+
+/** `isBinaryFile` for the editing tools, which run alone and stay synchronous. */
+export function isBinaryFileSync(path: string): boolean {
+  const fd = openSync(path, 'r');
+  try {
+    const head = Buffer.alloc(BINARY_SNIFF_BYTES);
+    const read = readSync(fd, head, 0, head.length, 0);
+    return head.subarray(0, read).includes(0);
+  } finally {
+    closeSync(fd);
+  }
+}
+
+function optionalPositiveInt(value: unknown, name: string, min: number): number | string {
+  if (value === undefined) return NaN;
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    return `${name} must be an integer >= ${min}`;
+  }
+  return value;
+}
+
+interface LineWindow {
+  text: string;
+  lastLine: number;
+  totalLinesSeen: number;
+  more: boolean;
+}
+
+/**
+ * Read lines [startLine, startLine + maxLines) without loading the whole
+ * file, stopping early once `maxBytes` of output is collected.
+ */
+async function readLineWindow(
+  path: string,
+  startLine: number,
+  maxLines: number,
+  maxBytes: number
+): Promise<LineWindow> {
+  const file = await open(path, 'r');
+  const decoder = new StringDecoder('utf8');
+  const chunk = Buffer.alloc(READ_CHUNK_BYTES);
+  let pending = '';
+  let lineNo = 0;
+  let taken = 0;
+  let bytes = 0;
+  let text = '';
+
+  // Returns false once the window is full.
+  const take = (line: string): boolean => {
+    lineNo++;
+    if (lineNo < startLine) return true;
+    if (taken >= maxLines) return false;
+    const size = Buffer.byteLength(line);
+    if (bytes + size > maxBytes) {
+      // A single oversized first line still yields its head.
+      if (taken === 0) text = Buffer.from(line).subarray(0, maxBytes).toString('utf-8');
+      return false;
+    }
+    text += line;
+    bytes += size;
+    taken++;
+    return true;
+  };
+
+  try {
+    let position = 0;
+    for (;;) {
+      const { bytesRead: read } = await file.read(chunk, 0, chunk.length, position);
+      position += read;
+      pending += read > 0 ? decoder.write(chunk.subarray(0, read)) : decoder.end();
+      let newline = pending.indexOf('\n');
+      while (newline !== -1) {
+        if (!take(pending.slice(0, newline + 1))) {
+          return { text, lastLine: startLine + taken - 1, totalLinesSeen: lineNo, more: true };
+        }
+        pending = pending.slice(newline + 1);
+        newline = pending.indexOf('\n');
+      }
+      if (read === 0) break;
+    }
+    if (pending && !take(pending)) {
+      return { text, lastLine: startLine + taken - 1, totalLinesSeen: lineNo, more: true };
+    }
+    return { text, lastLine: startLine + taken - 1, totalLinesSeen: lineNo, more: false };
+  } finally {
+    await file.close();
+  }
+}
+
+async function readByteRange(path: string, offset: number, length: number): Promise<Buffer> {
+  const file = await open(path, 'r');
+  try {
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await file.read(buffer, 0, length, offset);
+    return buffer.subarray(0, bytesRead);
+  } finally {
+    await file.close();
+  }
+}
 
 /**
  * File read tool
  */
 export class ReadFileTool extends BaseTool {
   name = 'read_file';
-  description = 'Read contents of a file';
+  readonly readOnly = true;
+  description =
+    'Read contents of a file. Large files are returned in windows; use offset and limit to page through them.';
+
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
 
   getDefinition(): ToolDefinition {
     return {
@@ -23,6 +196,20 @@ export class ReadFileTool extends BaseTool {
               type: 'string',
               description: 'Path to the file to read',
             },
+            offset: {
+              type: 'number',
+              description:
+                'Text: first line to return (1-based). base64: first byte to return (0-based).',
+            },
+            limit: {
+              type: 'number',
+              description: 'Text: number of lines. base64: number of bytes.',
+            },
+            encoding: {
+              type: 'string',
+              enum: ['utf-8', 'base64'],
+              description: 'Use base64 to read a binary file',
+            },
           },
           required: ['path'],
         },
@@ -31,19 +218,71 @@ export class ReadFileTool extends BaseTool {
   }
 
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
-    const path = args.path as string;
+    const rawPath = args.path as string;
 
-    if (!path) {
+    if (!rawPath) {
       return this.error('Path is required');
     }
+    const base64 = args.encoding === 'base64';
+    if (args.encoding !== undefined && !base64 && args.encoding !== 'utf-8') {
+      return this.error('encoding must be "utf-8" or "base64"');
+    }
+    const offset = optionalPositiveInt(args.offset, 'offset', base64 ? 0 : 1);
+    const limit = optionalPositiveInt(args.limit, 'limit', 1);
+    if (typeof offset === 'string') return this.error(offset);
+    if (typeof limit === 'string') return this.error(limit);
+
+    const resolved = resolveToolPath(rawPath, this.options);
+    if (!resolved.ok) return this.error(resolved.error);
+    const path = resolved.path;
+    const maxBytes = this.options.maxReadBytes ?? DEFAULT_MAX_READ_BYTES;
 
     try {
-      if (!existsSync(path)) {
-        return this.error(`File not found: ${path}`);
+      const stats = await stat(path).catch(() => undefined);
+      if (!stats) {
+        return this.error(`File not found: ${rawPath}`);
+      }
+      if (stats.isDirectory()) {
+        return this.error(`Path is a directory: ${rawPath}`);
+      }
+
+      if (base64) {
+        const start = Number.isNaN(offset) ? 0 : offset;
+        const length = Math.min(Number.isNaN(limit) ? maxBytes : limit, maxBytes);
+        const bytes = await readByteRange(path, start, length);
+        const end = start + bytes.length;
+        const note =
+          end < stats.size
+            ? `\n[bytes ${start}-${end} of ${stats.size}; continue with offset ${end}]`
+            : '';
+        return this.success(bytes.toString('base64') + note);
+      }
+
+      if (await isBinaryFile(path)) {
+        return this.error(
+          `Binary file (${stats.size} bytes): ${rawPath}. Pass encoding "base64" to read raw bytes.`
+        );
       }
 
-      const content = readFileSync(path, 'utf-8');
-      return this.success(content);
+      const startLine = Number.isNaN(offset) ? 1 : offset;
+      const window = await readLineWindow(
+        path,
+        startLine,
+        Number.isNaN(limit) ? Number.MAX_SAFE_INTEGER : limit,
+        maxBytes
+      );
+      if (window.lastLine < startLine && !window.more && startLine > 1) {
+        return this.error(
+          `offset ${startLine} is past the end of the file (${window.totalLinesSeen} lines)`
+        );
+      }
+      if (!window.more) {
+        return this.success(window.text);
+      }
+      const next = window.lastLine + 1;
+      return this.success(
+        `${window.text}${window.text.endsWith('\n') ? '' : '\n'}[showing lines ${startLine}-${window.lastLine}; more follows, continue with offset ${next}]`
+      );
     } catch (error) {
       return this.error(`Failed to read file: ${(error as Error).message}`);
     }
@@ -57,6 +296,10 @@ export class WriteFileTool extends BaseTool {
   name = 'write_file';
   description = 'Write content to a file';
 
+  constructor(private options: FileToolOptions = {}) {
+    super();
+  }
+
   getDefinition(): ToolDefinition {
     return {
       type: 'function',
@@ -82,10 +325,10 @@ export class WriteFileTool extends BaseTool {
   }
 
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
-    const path = args.path as string;
+    const rawPath = args.path as string;
     const content = args.content as string;
 
-    if (!path) {
+    if (!rawPath) {
       return this.error('Path is required');
     }
 
@@ -93,7 +336,15 @@ export class WriteFileTool extends BaseTool {
       return this.error('Content is required');
     }
 
+    const resolved = resolveToolPath(rawPath, this.options);
+    if (!resolved.ok) return this.error(resolved.error);
+    const path = resolved.path;
+
     try {
+      if (existsSync(path) && statSync(path).isDirectory()) {
+        return this.error(`Path is a directory: ${rawPath}`);
+      }
+
       // Ensure directory exists
       const dir = dirname(path);
       if (!existsSync(dir)) {
@@ -101,7 +352,7 @@ export class WriteFileTool extends BaseTool {
       }
 
       writeFileSync(path, content, 'utf-8');
-      return this.success(`File written successfully: ${path}`);
+      return this.success(`File written successfully: ${rawPath}`);
     } catch (error) {
       return this.error(`Failed to write file: ${(error as Error).message}`);
     }
@@ -0,0 +1,152 @@
+/**
+ * JSON Schema checks for tool arguments.
+ *
+ * Covers the subset tool definitions actually use: `type` (including
+ * `integer` and type lists), `properties`, `required`,
+ * `additionalProperties`, `enum`, `const`, `items`, numeric and length
+ * bounds, `pattern`, and `anyOf`/`oneOf`/`allOf`. Unknown keywords are
+ * ignored rather than rejected, so a richer schema from an external tool
+ * still validates on the parts we understand.
+ */
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface SchemaIssue {
+  /** Dotted path to the offending value; empty for the root. */
+  path: string;
+  message: string;
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'object':
+      return typeOf(value) === 'object';
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+function asSchema(value: unknown): JsonSchema | undefined {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    ? (value as JsonSchema)
+    : undefined;
+}
+
+/** Every way `value` fails `schema`; empty when it conforms. */
+export function validateAgainstSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = ''
+): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  const fail = (message: string, at = path) => issues.push({ path: at, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? (schema.type as string[]) : [schema.type as string];
+    if (!types.some((type) => matchesType(value, type))) {
+      fail(`expected ${types.join(' or ')}, got ${typeOf(value)}`);
+      return issues; // further keywords would only repeat the mismatch
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option) => option === value)) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+  if ('const' in schema && schema.const !== value) {
+    fail(`must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      fail(`must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      fail(`must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      fail(`must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      fail(`must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      fail(`must match /${schema.pattern}/`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      fail(`must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      fail(`must have at most ${schema.maxItems} items`);
+    }
+    const items = asSchema(schema.items);
+    if (items) {
+      value.forEach((item, index) => {
+        issues.push(...validateAgainstSchema(item, items, join(path, index)));
+      });
+    }
+  }
+
+  if (typeOf(value) === 'object') {
+    const object = value as Record<string, unknown>;
+    const properties = asSchema(schema.properties) ?? {};
+    for (const name of Array.isArray(schema.required) ? (schema.required as string[]) : []) {
+      if (object[name] === undefined) fail('is required', join(path, name));
+    }
+    for (const [name, child] of Object.entries(object)) {
+      const propertySchema = asSchema(properties[name]);
+      if (propertySchema) {
+        issues.push(...validateAgainstSchema(child, propertySchema, join(path, name)));
+      } else if (schema.additionalProperties === false) {
+        fail('is not an allowed property', join(path, name));
+      } else {
+        const extra = asSchema(schema.additionalProperties);
+        if (extra) issues.push(...validateAgainstSchema(child, extra, join(path, name)));
+      }
+    }
+  }
+
+  const branches = (keyword: string): JsonSchema[] =>
+    Array.isArray(schema[keyword])
+      ? (schema[keyword] as unknown[]).map(asSchema).filter((s): s is JsonSchema => !!s)
+      : [];
+  for (const branch of branches('allOf')) {
+    issues.push(...validateAgainstSchema(value, branch, path));
+  }
+  const anyOf = branches('anyOf');
+  if (anyOf.length && !anyOf.some((b) => validateAgainstSchema(value, b, path).length === 0)) {
+    fail('does not match any allowed shape');
+  }
+  const oneOf = branches('oneOf');
+  if (oneOf.length) {
+    const matched = oneOf.filter((b) => validateAgainstSchema(value, b, path).length === 0).length;
+    if (matched !== 1) fail(`must match exactly one allowed shape (matched ${matched})`);
+  }
+
+  return issues;
+}
+
+/** Issues joined with `; `, e.g. `path: expected string, got number; mode: is required`. */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues.map((issue) => `${issue.path || '(arguments)'}: ${issue.message}`).join('; ');
+}
@@ -0,0 +1,488 @@
+import { spawn, type ChildProcessWithoutNullStreams } from 'node:child_process';
+import { createInterface } from 'node:readline';
+import axios from 'axios';
+import type { McpServerConfig } from '../../config/schema';
+import type { ToolDefinition, ToolResult } from '../../types';
+import { ToolError } from '../../utils/errors';
+import { logger } from '../../utils/logger';
+import { BaseTool, ToolRegistry } from './registry';
+
+/**
+ * MCP client: tools from external Model Context Protocol servers.
+ *
+ * Each configured server is connected once per process, either as a spawned
+ * child speaking newline-delimited JSON-RPC on stdio (the transport the
+ * Decision Core sidecar uses) or as an HTTP endpoint taking JSON-RPC POSTs.
+ * Its `tools/list` result is registered as BaseTool adapters named
+ * `mcp__<server>__<tool>`, and calls go out as `tools/call`. The adapters are
+ * ordinary registry tools, so schema validation, the approval policy and the
+ * executor treat them exactly like built-ins.
+ *
+ * A server that fails to start or drops its connection is logged and left
+ * out of the turn; the next turn after RECONNECT_AFTER_MS tries again.
+ */
+
+export class McpError extends ToolError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'McpError';
+  }
+}
+
+const PROTOCOL_VERSION = '2025-06-18';
+const CLIENT_INFO = { name: 'nano-claw', version: '0.4.x' };
+const RECONNECT_AFTER_MS = 60000;
+const MAX_LIST_PAGES = 20;
+/** Providers reject function names outside `^[A-Za-z0-9_-]{1,64}$`. */
+const MAX_TOOL_NAME_LENGTH = 64;
+/**
+ * What a stdio server inherits from our environment. Everything else,
+ * provider API keys included, stays here unless the server's `env` names it.
+ */
+const INHERITED_ENV = ['HOME', 'LOGNAME', 'PATH', 'SHELL', 'TERM', 'USER', 'LANG', 'TMPDIR'];
+
+interface JsonRpcMessage {
+  id?: number | string | null;
+  method?: string;
+  result?: unknown;
+  error?: { code?: number; message?: string };
+}
+
+interface McpTransport {
+  /** False once the peer is gone and the server must be reconnected. */
+  readonly alive: boolean;
+  request(method: string, params: unknown, timeoutMs: number): Promise<unknown>;
+  notify(method: string): Promise<void>;
+  close(): void;
+}
+
+function responseResult(message: JsonRpcMessage, method: string): unknown {
+  if (message.error) {
+    throw new McpError(`${method} failed: ${message.error.message ?? 'unknown error'}`);
+  }
+  return message.result;
+}
+
+class StdioTransport implements McpTransport {
+  alive = true;
+  private proc: ChildProcessWithoutNullStreams;
+  private nextId = 1;
+  private pending = new Map<
+    number,
+    { method: string; resolve: (value: unknown) => void; reject: (error: Error) => void }
+  >();
+
+  constructor(
+    private serverName: string,
+    config: McpServerConfig
+  ) {
+    const env: Record<string, string> = {};
+    for (const key of INHERITED_ENV) {
+      const value = process.env[key];
+      if (value !== undefined) env[key] = value;
+    }
+    this.proc = spawn(config.command ?? '', config.args, {
+      cwd: config.cwd,
+      env: { ...env, ...config.env },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    createInterface({ input: this.proc.stdout }).on('line', (line) => this.onLine(line));
+    // MCP servers log on stderr; keep it out of our output but findable.
+    createInterface({ input: this.proc.stderr }).on('line', (line) =>
+      logger.debug({ server: serverName, line }, 'MCP server stderr')
+    );
+    // Unhandled, a failed spawn or an EPIPE would crash the host process.
+    this.proc.on('error', (error) => this.fail(`failed to start: ${error.message}`));
+    this.proc.on('exit', (code, signal) => this.fail(`exited (${signal ?? `code ${code}`})`));
+    this.proc.stdin.on('error', () => this.fail('closed its input'));
+  }
+
+  request(method: string, params: unknown, timeoutMs: number): Promise<unknown> {
+    if (!this.alive) {
+      return Promise.reject(new McpError(`MCP server ${this.serverName} is not running`));
+    }
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        reject(new McpError(`${method} timed out after ${timeoutMs}ms`));
+      }, timeoutMs);
+      this.pending.set(id, {
+        method,
+        resolve: (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        reject: (error) => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      });
+      this.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  notify(method: string): Promise<void> {
+    if (this.alive) this.write({ jsonrpc: '2.0', method });
+    return Promise.resolve();
+  }
+
+  close(): void {
+    this.fail('connection closed');
+    this.proc.kill();
+  }
+
+  private write(message: Record<string, unknown>): void {
+    this.proc.stdin.write(JSON.stringify(message) + '\n');
+  }
+
+  private onLine(line: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(line) as JsonRpcMessage;
+    } catch {
+      /* health-ok: stray stdout noise must not kill the connection */
+      return;
+    }
+    if (message.method !== undefined) {
+      // A request from the server. We offer no client capabilities, so only
+      // ping gets a real answer.
+      if (message.id === undefined || message.id === null) return;
+      this.write(
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: -32601, message: 'Method not found' } }
+      );
+      return;
+    }
+    if (typeof message.id !== 'number') return;
+    const entry = this.pending.get(message.id);
+    if (!entry) return;
+    this.pending.delete(message.id);
+    try {
+      entry.resolve(responseResult(message, entry.method));
+    } catch (error) {
+      entry.reject(error as Error);
+    }
+  }
+
+  private fail(reason: string): void {
+    if (this.alive) logger.warn({ server: this.serverName, reason }, 'MCP server disconnected');
+    this.alive = false;
+    const error = new McpError(`MCP server ${this.serverName} ${reason}`);
+    for (const entry of this.pending.values()) entry.reject(error);
+    this.pending.clear();
+  }
+}
+
+/** JSON-RPC messages from an HTTP response body, plain JSON or an SSE stream. */
+function parseHttpMessages(contentType: string, body: string): JsonRpcMessage[] {
+  const payloads = contentType.includes('text/event-stream')
+    ? body.split(/\r?\n\r?\n/).map((event) =>
+        event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n')
+      )
+    : [body];
+  const messages: JsonRpcMessage[] = [];
+  for (const payload of payloads) {
+    if (!payload.trim()) continue;
+    try {
+      const parsed = JSON.parse(payload) as JsonRpcMessage | JsonRpcMessage[];
+      messages.push(...(Array.isArray(parsed) ? parsed : [parsed]));
+    } catch {
+      /* health-ok: a non-JSON event (e.g. a keep-alive comment) carries no message */
+    }
+  }
+  return messages;
+}
+
+class HttpTransport implements McpTransport {
+  alive = true;
+  private nextId = 1;
+  private sessionId?: string;
+
+  constructor(
+    private serverName: string,
+    private url: string,
+    private headers: Record<string, string>
+  ) {}
+
+  async request(method: string, params: unknown, timeoutMs: number): Promise<unknown> {
+    const id = this.nextId++;
+    const messages = await this.post({ jsonrpc: '2.0', id, method, params }, timeoutMs);
+    const response = messages.find((message) => message.id === id);
+    if (!response) throw new McpError(`${method} got no response from ${this.serverName}`);
+    return responseResult(response, method);
+  }
+
+  async notify(method: string): Promise<void> {
+    await this.post({ jsonrpc: '2.0', method }, 10000);
+  }
+
+  close(): void {
+    this.alive = false;
+  }
+
+  private async post(
+    message: Record<string, unknown>,
+    timeoutMs: number
+  ): Promise<JsonRpcMessage[]> {
+    try {
+      const response = await axios.post<string>(this.url, JSON.stringify(message), {
+        headers: {
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+          'MCP-Protocol-Version': PROTOCOL_VERSION,
+          ...(this.sessionId && { 'Mcp-Session-Id': this.sessionId }),
+          ...this.headers,
+        },
+        timeout: timeoutMs,
+        responseType: 'text',
+        transformResponse: (data: string) => data,
+      });
+      const sessionId: unknown = response.headers['mcp-session-id'];
+      if (typeof sessionId === 'string') this.sessionId = sessionId;
+      return parseHttpMessages(String(response.headers['content-type'] ?? ''), response.data ?? '');
+    } catch (error) {
+      if (axios.isAxiosError(error)) {
+        // 404 on a session means the server forgot it; reconnect next turn.
+        if (error.response?.status === 404 && this.sessionId) this.alive = false;
+        throw new McpError(
+          `${String(message.method)} to ${this.serverName} failed: ${
+            error.response ? `HTTP ${error.response.status}` : error.message
+          }`
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+interface McpToolInfo {
+  name: string;
+  description?: string;
+  inputSchema?: Record<string, unknown>;
+  annotations?: { readOnlyHint?: boolean };
+}
+
+interface McpContentBlock {
+  type: string;
+  text?: string;
+  mimeType?: string;
+  data?: string;
+  uri?: string;
+  resource?: { uri?: string; text?: string };
+}
+
+interface McpCallResult {
+  content?: McpContentBlock[];
+  structuredContent?: unknown;
+  isError?: boolean;
+}
+
+function contentText(block: McpContentBlock): string {
+  switch (block.type) {
+    case 'text':
+      return block.text ?? '';
+    case 'resource':
+      return block.resource?.text ?? `[resource ${block.resource?.uri ?? ''}]`;
+    case 'resource_link':
+      return `[resource ${block.uri ?? ''}]`;
+    default:
+      // Images and audio cannot go back to the model as a tool message.
+      return `[${block.type}${block.mimeType ? ` ${block.mimeType}` : ''}, ${
+        block.data?.length ?? 0
+      } base64 chars omitted]`;
+  }
+}
+
+function toolNamePart(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, '_');
+}
+
+/** The registry name for a server's tool: `mcp__<server>__<tool>`. */
+export function mcpToolName(serverName: string, toolName: string): string {
+  return `mcp__${toolNamePart(serverName)}__${toolNamePart(toolName)}`.slice(
+    0,
+    MAX_TOOL_NAME_LENGTH
+  );
+}
+
+/** A tool from an MCP server, called through whatever connection is current. */
+export class McpTool extends BaseTool {
+  name: string;
+  description: string;
+  readonly readOnly: boolean;
+
+  constructor(
+    private serverName: string,
+    private info: McpToolInfo
+  ) {
+    super();
+    this.name = mcpToolName(serverName, info.name);
+    this.description = info.description || `${info.name} from the ${serverName} MCP server`;
+    // Only a server's explicit hint lets its calls run concurrently.
+    this.readOnly = info.annotations?.readOnlyHint === true;
+  }
+
+  getDefinition(): ToolDefinition {
+    const schema = this.info.inputSchema ?? {};
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          ...schema,
+          type: 'object',
+          properties: (schema.properties as Record<string, unknown>) ?? {},
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const slot = servers.get(this.serverName);
+    if (!slot?.connection?.transport.alive) {
+      return this.error(`MCP server ${this.serverName} is not connected`);
+    }
+    try {
+      const result = (await slot.connection.transport.request(
+        'tools/call',
+        { name: this.info.name, arguments: args },
+        slot.connection.config.timeoutMs
+      )) as McpCallResult;
+      let text = (result?.content ?? []).map(contentText).join('\n');
+      if (!text && result?.structuredContent !== undefined) {
+        text = JSON.stringify(result.structuredContent);
+      }
+      return result?.isError
+        ? this.error(text || 'The tool reported an error')
+        : this.success(text);
+    } catch (error) {
+      return this.error((error as Error).message);
+    }
+  }
+}
+
+interface McpConnection {
+  config: McpServerConfig;
+  transport: McpTransport;
+  tools: McpTool[];
+}
+
+interface ServerSlot {
+  /** The config the connection was made with; a change reconnects. */
+  configKey: string;
+  connection?: McpConnection;
+  connecting?: Promise<void>;
+  failedAt?: number;
+}
+
+const servers = new Map<string, ServerSlot>();
+
+async function listTools(transport: McpTransport, timeoutMs: number): Promise<McpToolInfo[]> {
+  const tools: McpToolInfo[] = [];
+  let cursor: string | undefined;
+  for (let page = 0; page < MAX_LIST_PAGES; page++) {
+    const result = (await transport.request('tools/list', cursor ? { cursor } : {}, timeoutMs)) as {
+      tools?: McpToolInfo[];
+      nextCursor?: string;
+    };
+    tools.push(...(result?.tools ?? []).filter((tool) => typeof tool?.name === 'string'));
+    cursor = result?.nextCursor;
+    if (!cursor) break;
+  }
+  return tools;
+}
+
+async function connect(serverName: string, config: McpServerConfig): Promise<McpConnection> {
+  const transport: McpTransport = config.command
+    ? new StdioTransport(serverName, config)
+    : new HttpTransport(serverName, config.url ?? '', config.headers);
+  try {
+    await transport.request(
+      'initialize',
+      { protocolVersion: PROTOCOL_VERSION, capabilities: {}, clientInfo: CLIENT_INFO },
+      config.timeoutMs
+    );
+    await transport.notify('notifications/initialized');
+    const listed = await listTools(transport, config.timeoutMs);
+    const wanted = config.tools ? new Set(config.tools) : undefined;
+    const tools = listed
+      .filter((tool) => !wanted || wanted.has(tool.name))
+      .map((tool) => new McpTool(serverName, tool));
+    logger.info(
+      { server: serverName, tools: tools.map((tool) => tool.name) },
+      'MCP server connected'
+    );
+    return { config, transport, tools };
+  } catch (error) {
+    transport.close();
+    throw error;
+  }
+}
+
+async function ensureConnected(serverName: string, config: McpServerConfig): Promise<void> {
+  const configKey = JSON.stringify(config);
+  let slot = servers.get(serverName);
+  if (slot && slot.configKey !== configKey) {
+    slot.connection?.transport.close();
+    slot = undefined;
+  }
+  if (!slot) {
+    slot = { configKey };
+    servers.set(serverName, slot);
+  }
+  if (slot.connection?.transport.alive) return;
+  if (slot.connecting) return slot.connecting;
+  if (slot.failedAt !== undefined && Date.now() - slot.failedAt < RECONNECT_AFTER_MS) return;
+
+  const current = slot;
+  current.connection = undefined;
+  current.connecting = connect(serverName, config)
+    .then((connection) => {
+      current.connection = connection;
+      current.failedAt = undefined;
+    })
+    .catch((error: Error) => {
+      current.failedAt = Date.now();
+      logger.warn({ server: serverName, error: error.message }, 'MCP server unavailable');
+    })
+    .finally(() => {
+      current.connecting = undefined;
+    });
+  return current.connecting;
+}
+
+/**
+ * Connect any configured server not yet connected, then register every
+ * connected server's tools. Never throws: an unavailable server just
+ * contributes no tools this turn.
+ */
+export async function registerMcpTools(
+  registry: ToolRegistry,
+  mcpServers: Record<string, McpServerConfig> | undefined
+): Promise<void> {
+  const enabled = Object.entries(mcpServers ?? {}).filter(([, config]) => config.enabled);
+  await Promise.all(enabled.map(([name, config]) => ensureConnected(name, config)));
+  for (const [name] of enabled) {
+    for (const tool of servers.get(name)?.connection?.tools ?? []) {
+      const existing = registry.get(tool.name);
+      if (existing && !(existing instanceof McpTool)) {
+        logger.warn({ server: name, tool: tool.name }, 'MCP tool name taken by a built-in tool');
+        continue;
+      }
+      registry.register(tool);
+    }
+  }
+}
+
+/** Disconnect every MCP server (stdio children are killed). */
+export function closeMcpServers(): void {
+  for (const slot of servers.values()) slot.connection?.transport.close();
+  servers.clear();
+}
@@ -0,0 +1,220 @@
+import { ToolError } from '../../utils/errors';
+
+/**
+ * Unified diff parsing, application and generation for the editing tools.
+ *
+ * Patches use the `diff -u` / `git diff` layout: `--- a/path`, `+++ b/path`,
+ * then `@@ -start,count +start,count @@` hunks. `/dev/null` on the old side
+ * creates a file and on the new side deletes one. Hunks are located by their
+ * context, starting at the stated line and searching outward, so a patch
+ * written against a slightly stale view still lands as long as its context
+ * is unambiguous nearby.
+ */
+
+export class PatchError extends ToolError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PatchError';
+  }
+}
+
+export interface PatchHunk {
+  oldStart: number;
+  oldLines: string[];
+  newLines: string[];
+  /** The hunk ends the new file without a trailing newline. */
+  noNewlineAtEnd: boolean;
+}
+
+export interface FilePatch {
+  /** Undefined when the file is being created. */
+  oldPath?: string;
+  /** Undefined when the file is being deleted. */
+  newPath?: string;
+  hunks: PatchHunk[];
+}
+
+const HUNK_HEADER_RE = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+const DIFF_CONTEXT_LINES = 3;
+
+function headerPath(line: string, marker: '--- ' | '+++ '): string | undefined {
+  // Drop a trailing timestamp (`diff -u` separates it with a tab).
+  const path = line.slice(marker.length).split('\t')[0].trim();
+  if (path === '/dev/null') return undefined;
+  return path.replace(/^[ab]\//, '');
+}
+
+/** Parse a unified diff into per-file hunks. */
+export function parsePatch(patch: string): FilePatch[] {
+  const lines = patch.replace(/\r\n/g, '\n').split('\n');
+  const files: FilePatch[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (!lines[i].startsWith('--- ')) {
+      i++;
+      continue;
+    }
+    if (!lines[i + 1]?.startsWith('+++ ')) {
+      throw new PatchError(`Expected "+++" header after line ${i + 1}`);
+    }
+    const file: FilePatch = {
+      oldPath: headerPath(lines[i], '--- '),
+      newPath: headerPath(lines[i + 1], '+++ '),
+      hunks: [],
+    };
+    if (!file.oldPath && !file.newPath) {
+      throw new PatchError(`Both sides are /dev/null at line ${i + 1}`);
+    }
+    i += 2;
+
+    while (i < lines.length && !lines[i].startsWith('--- ')) {
+      const header = HUNK_HEADER_RE.exec(lines[i]);
+      if (!header) {
+        i++;
+        continue;
+      }
+      let oldCount = header[2] === undefined ? 1 : Number(header[2]);
+      let newCount = header[4] === undefined ? 1 : Number(header[4]);
+      const hunk: PatchHunk = {
+        oldStart: Number(header[1]),
+        oldLines: [],
+        newLines: [],
+        noNewlineAtEnd: false,
+      };
+      i++;
+      while (oldCount > 0 || newCount > 0) {
+        if (i >= lines.length) {
+          throw new PatchError(
+            `Hunk at line ${hunk.oldStart} of ${file.newPath ?? file.oldPath} is truncated`
+          );
+        }
+        const line = lines[i];
+        // Editors often strip the lone space of an empty context line.
+        const kind = line === '' ? ' ' : line[0];
+        const text = line.slice(1);
+        if (kind === ' ') {
+          hunk.oldLines.push(text);
+          hunk.newLines.push(text);
+          oldCount--;
+          newCount--;
+        } else if (kind === '-') {
+          hunk.oldLines.push(text);
+          oldCount--;
+        } else if (kind === '+') {
+          hunk.newLines.push(text);
+          newCount--;
+        } else if (kind !== '\\') {
+          throw new PatchError(`Unexpected line in hunk: ${line}`);
+        }
+        i++;
+        if (lines[i]?.startsWith('\\') && (kind === '+' || kind === ' ')) {
+          hunk.noNewlineAtEnd = true;
+        }
+      }
+      if (oldCount < 0 || newCount < 0) {
+        throw new PatchError(`Hunk line counts do not match its header: ${lines[i - 1]}`);
+      }
+      file.hunks.push(hunk);
+    }
+
+    if (file.hunks.length === 0 && file.oldPath && file.newPath) {
+      throw new PatchError(`No hunks for ${file.newPath}`);
+    }
+    files.push(file);
+  }
+
+  if (files.length === 0) throw new PatchError('No file headers ("--- a/…", "+++ b/…") found');
+  return files;
+}
+
+interface SplitText {
+  lines: string[];
+  trailingNewline: boolean;
+}
+
+function splitText(content: string): SplitText {
+  if (content === '') return { lines: [], trailingNewline: false };
+  const trailingNewline = content.endsWith('\n');
+  const lines = (trailingNewline ? content.slice(0, -1) : content).split('\n');
+  return { lines, trailingNewline };
+}
+
+function matchesAt(lines: string[], expected: string[], at: number): boolean {
+  if (at < 0 || at + expected.length > lines.length) return false;
+  return expected.every((line, k) => lines[at + k] === line);
+}
+
+/** Nearest index to `expected` where `needle` matches, or -1. */
+function locate(lines: string[], needle: string[], expected: number): number {
+  const maxDistance = Math.max(expected, lines.length - expected);
+  for (let distance = 0; distance <= maxDistance; distance++) {
+    if (matchesAt(lines, needle, expected - distance)) return expected - distance;
+    if (distance > 0 && matchesAt(lines, needle, expected + distance)) return expected + distance;
+  }
+  return -1;
+}
+
+/** Apply one file's hunks to its current content. Throws when a hunk does not fit. */
+export function applyHunks(content: string, hunks: PatchHunk[], path: string): string {
+  const { lines, trailingNewline } = splitText(content);
+  let eol = trailingNewline || lines.length === 0;
+  let shift = 0;
+
+  hunks.forEach((hunk, index) => {
+    // `-0,0` (insert into an empty file) starts at 0, everything else is 1-based.
+    const expected = Math.max(hunk.oldStart - 1, 0) + shift;
+    const at =
+      hunk.oldLines.length === 0
+        ? Math.min(Math.max(expected, 0), lines.length)
+        : locate(lines, hunk.oldLines, expected);
+    if (at === -1) {
+      throw new PatchError(
+        `Hunk ${index + 1} of ${path} does not apply: its context was not found near line ${hunk.oldStart}`
+      );
+    }
+    lines.splice(at, hunk.oldLines.length, ...hunk.newLines);
+    shift = at - Math.max(hunk.oldStart - 1, 0) + hunk.newLines.length - hunk.oldLines.length;
+    if (at + hunk.newLines.length === lines.length) eol = !hunk.noNewlineAtEnd;
+  });
+
+  if (lines.length === 0) return '';
+  return lines.join('\n') + (eol ? '\n' : '');
+}
+
+/**
+ * A one-hunk unified diff between two versions of a file: everything from
+ * the first to the last changed line, with three lines of context.
+ */
+export function unifiedDiff(path: string, before: string, after: string): string {
+  if (before === after) return '';
+  const a = splitText(before).lines;
+  const b = splitText(after).lines;
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const start = Math.max(prefix - DIFF_CONTEXT_LINES, 0);
+  const aEnd = Math.min(a.length - suffix + DIFF_CONTEXT_LINES, a.length);
+  const bEnd = Math.min(b.length - suffix + DIFF_CONTEXT_LINES, b.length);
+  const body = [
+    ...a.slice(start, prefix).map((line) => ` ${line}`),
+    ...a.slice(prefix, a.length - suffix).map((line) => `-${line}`),
+    ...b.slice(prefix, b.length - suffix).map((line) => `+${line}`),
+    ...a.slice(a.length - suffix, aEnd).map((line) => ` ${line}`),
+  ];
+  const range = (from: number, to: number) => `${to - from === 0 ? from : from + 1},${to - from}`;
+  return [
+    `--- a/${path}`,
+    `+++ b/${path}`,
+    `@@ -${range(start, aEnd)} +${range(start, bEnd)} @@`,
+    ...body,
+  ].join('\n');
+}
@@ -0,0 +1,80 @@
+import { isAbsolute, resolve } from 'path';
+import type { ToolApprovalConfig, ToolPolicyAction, ToolPolicyRule } from '../../config/schema';
+import { expandHome, globToRegExp, realpathLenient } from './workspace';
+
+/**
+ * Tool approval policy.
+ *
+ * Rules are checked in order and the first match decides; a call no rule
+ * matches gets `approval.default` (`ask`, the historical pause-for-every-call
+ * behaviour). A rule matches when its `tool` equals the call's name (or is
+ * a glob over it, such as `*` or `mcp__github__*`) and every pattern in `args` matches the corresponding string argument.
+ *
+ * Patterns are globs: `*` stays within one path segment, `**` crosses
+ * segments, `?` is one character. `{workspace}` expands to the workspace
+ * root. A path-shaped pattern (absolute after expansion) is matched against
+ * the argument resolved the way the file tools resolve it: `~` expanded,
+ * taken from the workspace, and with symlinks followed. So neither `../`,
+ * `~/` nor a link out of the workspace steps out of a `{workspace}/**` rule.
+ * An `auto` rule has to match both the written and the real path; an `ask`
+ * or `deny` rule matches either.
+ */
+
+const WORKSPACE_TOKEN = '{workspace}';
+
+/** A path argument as written and as followed through symlinks, each with its workspace. */
+function pathForms(value: string, workspace: string): Array<{ path: string; root: string }> {
+  const written = resolve(workspace, expandHome(value));
+  return [
+    { path: written, root: resolve(workspace) },
+    { path: realpathLenient(written), root: realpathLenient(workspace) },
+  ];
+}
+
+function argMatches(
+  value: unknown,
+  pattern: string,
+  workspace: string,
+  restrictive: boolean
+): boolean {
+  if (typeof value !== 'string') return false;
+  if (!isAbsolute(pattern.split(WORKSPACE_TOKEN).join(workspace))) {
+    return globToRegExp(pattern).test(value);
+  }
+  const matches = ({ path, root }: { path: string; root: string }) =>
+    globToRegExp(pattern.split(WORKSPACE_TOKEN).join(root)).test(path);
+  const forms = pathForms(value, workspace);
+  return restrictive ? forms.some(matches) : forms.every(matches);
+}
+
+function ruleMatches(
+  rule: ToolPolicyRule,
+  toolName: string,
+  args: Record<string, unknown>,
+  workspace: string
+): boolean {
+  if (rule.tool !== toolName && !globToRegExp(rule.tool).test(toolName)) return false;
+  return Object.entries(rule.args ?? {}).every(([name, pattern]) =>
+    argMatches(args[name], pattern, workspace, rule.action !== 'auto')
+  );
+}
+
+/** Decide whether one tool call runs unattended, waits for the user, or is refused. */
+export function resolveToolPolicy(
+  toolName: string,
+  args: Record<string, unknown>,
+  approval: ToolApprovalConfig | undefined,
+  workspace: string = process.cwd()
+): ToolPolicyAction {
+  for (const rule of approval?.rules ?? []) {
+    if (ruleMatches(rule, toolName, args, workspace)) return rule.action;
+  }
+  return approval?.default ?? 'ask';
+}
+
+/** Tool message recorded for a call the policy refused. */
+export const POLICY_DENIED_MESSAGE = 'Tool execution was denied by policy.';
+
+/** Tool message recorded for an `ask` call made where nobody can approve it. */
+export const UNATTENDED_APPROVAL_MESSAGE =
+  'Tool execution needs approval, which a background task cannot get.';
@@ -1,5 +1,33 @@
-import { ToolDefinition, ToolResult } from '../../types';
+import { ToolCall, ToolDefinition, ToolResult } from '../../types';
 import { logger } from '../../utils/logger';
+import { formatSchemaIssues, SchemaIssue, validateAgainstSchema } from './json-schema';
+
+/**
+ * Result of checking a model-issued tool call before it is run or shown for
+ * approval. A failed check is answered to the model, never to the user.
+ */
+export type ToolCallCheck =
+  | { ok: true; args: Record<string, unknown> }
+  | { ok: false; error: 'unknown_tool' | 'invalid_arguments'; issues: SchemaIssue[] };
+
+/**
+ * The `tool` message content for a call that failed its check. JSON so the
+ * model can see exactly which fields to fix before calling again.
+ */
+export function toolCallErrorMessage(
+  name: string,
+  check: Extract<ToolCallCheck, { ok: false }>
+): string {
+  return JSON.stringify({
+    error: check.error,
+    tool: name,
+    issues: check.issues,
+    message:
+      check.error === 'unknown_tool'
+        ? `There is no tool named ${name}. Use one of the tools you were given.`
+        : `The arguments do not match the ${name} parameter schema. Fix them and call the tool again.`,
+  });
+}
 
 /**
  * Base class for tools
@@ -8,6 +36,12 @@ export abstract class BaseTool {
   abstract name: string;
   abstract description: string;
 
+  /**
+   * True when the tool has no side effects, so calls to it may run
+   * concurrently with each other.
+   */
+  readonly readOnly: boolean = false;
+
   /**
    * Get tool definition for LLM
    */
@@ -54,6 +88,13 @@ export class ToolRegistry {
     logger.debug({ tool: tool.name }, 'Tool registered');
   }
 
+  /**
+   * Remove a tool by name
+   */
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
   /**
    * Get a tool by name
    */
@@ -61,6 +102,13 @@ export class ToolRegistry {
     return this.tools.get(name);
   }
 
+  /**
+   * Whether a registered tool is side-effect free; unknown tools are not.
+   */
+  isReadOnly(name: string): boolean {
+    return this.tools.get(name)?.readOnly ?? false;
+  }
+
   /**
    * Get all tool definitions
    */
@@ -68,6 +116,50 @@ export class ToolRegistry {
     return Array.from(this.tools.values()).map((tool) => tool.getDefinition());
   }
 
+  /**
+   * Check arguments against a tool's declared parameter schema. Returns a
+   * readable description of every problem, or undefined when they conform.
+   */
+  validateArgs(name: string, args: Record<string, unknown>): string | undefined {
+    const tool = this.tools.get(name);
+    if (!tool) return `Tool not found: ${name}`;
+    const issues = validateAgainstSchema(args, tool.getDefinition().function.parameters);
+    return issues.length ? formatSchemaIssues(issues) : undefined;
+  }
+
+  /**
+   * Parse and validate a tool call's raw JSON arguments against the tool's
+   * schema. Malformed JSON is reported as such instead of becoming `{}`.
+   */
+  checkToolCall(toolCall: ToolCall): ToolCallCheck {
+    const name = toolCall.function.name;
+    const tool = this.tools.get(name);
+    if (!tool) {
+      return { ok: false, error: 'unknown_tool', issues: [{ path: '', message: 'unknown tool' }] };
+    }
+    let args: unknown;
+    try {
+      // Some providers send an empty string for a call with no arguments.
+      args = toolCall.function.arguments.trim() ? JSON.parse(toolCall.function.arguments) : {};
+    } catch (error) {
+      return {
+        ok: false,
+        error: 'invalid_arguments',
+        issues: [{ path: '', message: `is not valid JSON (${(error as Error).message})` }],
+      };
+    }
+    if (typeof args !== 'object' || args === null || Array.isArray(args)) {
+      return {
+        ok: false,
+        error: 'invalid_arguments',
+        issues: [{ path: '', message: 'must be a JSON object' }],
+      };
+    }
+    const issues = validateAgainstSchema(args, tool.getDefinition().function.parameters);
+    if (issues.length) return { ok: false, error: 'invalid_arguments', issues };
+    return { ok: true, args: args as Record<string, unknown> };
+  }
+
   /**
    * Execute a tool
    */
@@ -81,6 +173,11 @@ export class ToolRegistry {
       };
     }
 
+    const problem = this.validateArgs(name, args);
+    if (problem) {
+      return { success: false, output: '', error: `Invalid arguments for ${name}: ${problem}` };
+    }
+
     try {
       logger.info({ tool: name, args }, 'Executing tool');
       return await tool.execute(args);
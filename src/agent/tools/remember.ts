@@ -0,0 +1,52 @@
+import { BaseTool } from './registry';
+import { ToolDefinition, ToolResult } from '../../types';
+import type { FactScope, LongTermMemory } from '../long-term-memory';
+
+export const REMEMBER_TOOL = 'remember';
+
+/** Saves a fact about the current user to long-term memory. */
+export class RememberTool extends BaseTool {
+  name = REMEMBER_TOOL;
+  description =
+    'Save a lasting fact about the user (a preference, their name, a standing instruction) so it is available in future conversations. Write one short, self-contained sentence. Do not save one-off details of the current task or anything the user asks you to keep private.';
+
+  constructor(
+    private store: LongTermMemory,
+    private scope: FactScope,
+    private sessionId?: string
+  ) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            fact: {
+              type: 'string',
+              description: 'The fact, e.g. "Prefers to be called Sam."',
+            },
+          },
+          required: ['fact'],
+        },
+      },
+    };
+  }
+
+  execute(args: Record<string, unknown>): Promise<ToolResult> {
+    if (typeof args.fact !== 'string') {
+      return Promise.resolve(this.error('Missing "fact"'));
+    }
+    try {
+      const fact = this.store.remember(this.scope, args.fact, this.sessionId);
+      return Promise.resolve(this.success(JSON.stringify({ saved: true, id: fact.id })));
+    } catch (error) {
+      return Promise.resolve(this.error((error as Error).message));
+    }
+  }
+}
@@ -0,0 +1,142 @@
+import { spawn } from 'child_process';
+
+/**
+ * Process runner for model-issued commands: no inherited secrets, a wall
+ * clock, a CPU and address-space ceiling, and an output cap.
+ *
+ * Limits are applied with `ulimit` in a `/bin/sh` wrapper that then `exec`s
+ * the real command, so argv-mode commands still never pass through shell
+ * parsing — their arguments travel as `"$@"`. If a limit cannot be set the
+ * wrapper exits instead of running unconfined. The child leads its own
+ * process group so a timeout kills everything it started.
+ */
+
+export interface SandboxLimits {
+  timeoutMs: number;
+  maxOutputBytes: number;
+  cpuSeconds?: number;
+  memoryMb?: number;
+}
+
+export type SandboxCommand = { argv: string[] } | { script: string };
+
+export interface SandboxOptions {
+  cwd?: string;
+  env: NodeJS.ProcessEnv;
+  limits: SandboxLimits;
+}
+
+export interface SandboxResult {
+  stdout: string;
+  stderr: string;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  timedOut: boolean;
+  truncated: boolean;
+}
+
+/** Variables every command may see; anything else must be allowlisted. */
+export const BASE_ENV_ALLOWLIST = [
+  'PATH',
+  'HOME',
+  'LANG',
+  'LC_ALL',
+  'TERM',
+  'TZ',
+  'USER',
+  'TMPDIR',
+];
+
+/** The subset of `source` named by the base allowlist plus `extra`. */
+export function scrubbedEnv(
+  extra: readonly string[] = [],
+  source: NodeJS.ProcessEnv = process.env
+): NodeJS.ProcessEnv {
+  const env: NodeJS.ProcessEnv = {};
+  for (const name of [...BASE_ENV_ALLOWLIST, ...extra]) {
+    if (source[name] !== undefined) env[name] = source[name];
+  }
+  return env;
+}
+
+function limitPrefix(limits: SandboxLimits): string {
+  const steps: string[] = [];
+  if (limits.cpuSeconds !== undefined) steps.push(`ulimit -t ${limits.cpuSeconds}`);
+  if (limits.memoryMb !== undefined) steps.push(`ulimit -v ${limits.memoryMb * 1024}`);
+  return steps.map((step) => `${step} || exit 125; `).join('');
+}
+
+function spawnArgs(command: SandboxCommand, limits: SandboxLimits): [string, string[]] {
+  const prefix = limitPrefix(limits);
+  if ('script' in command) return ['/bin/sh', ['-c', `${prefix}${command.script}`]];
+  if (!prefix) return [command.argv[0], command.argv.slice(1)];
+  return ['/bin/sh', ['-c', `${prefix}exec "$@"`, 'sh', ...command.argv]];
+}
+
+export function runSandboxed(
+  command: SandboxCommand,
+  options: SandboxOptions
+): Promise<SandboxResult> {
+  const { limits } = options;
+  const [file, args] = spawnArgs(command, limits);
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(file, args, {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    const stdout: Buffer[] = [];
+    const stderr: Buffer[] = [];
+    let bytes = 0;
+    let timedOut = false;
+    let truncated = false;
+
+    const killGroup = () => {
+      try {
+        if (child.pid !== undefined) process.kill(-child.pid, 'SIGKILL');
+      } catch {
+        /* health-ok: the group already exited between the check and the kill */
+      }
+    };
+
+    const collect = (sink: Buffer[]) => (chunk: Buffer) => {
+      if (truncated) return;
+      const room = limits.maxOutputBytes - bytes;
+      if (chunk.length > room) {
+        sink.push(chunk.subarray(0, room));
+        bytes = limits.maxOutputBytes;
+        truncated = true;
+        killGroup();
+        return;
+      }
+      sink.push(chunk);
+      bytes += chunk.length;
+    };
+    child.stdout.on('data', collect(stdout));
+    child.stderr.on('data', collect(stderr));
+
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup();
+    }, limits.timeoutMs);
+
+    child.on('error', (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      resolve({
+        stdout: Buffer.concat(stdout).toString('utf-8'),
+        stderr: Buffer.concat(stderr).toString('utf-8'),
+        exitCode,
+        signal,
+        timedOut,
+        truncated,
+      });
+    });
+  });
+}
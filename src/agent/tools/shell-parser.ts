@@ -0,0 +1,218 @@
+import { ToolError } from '../../utils/errors';
+
+/**
+ * A deliberately small POSIX-shell tokenizer for validating model-written
+ * commands before they run.
+ *
+ * It understands quoting, escapes, pipelines, `&&`, `||`, `;`, newlines,
+ * comments and file redirections — enough to see every command and every
+ * path a command line touches. Anything whose effect cannot be known without
+ * running a shell is refused outright: command or process substitution,
+ * variable expansion, subshells, brace expansion, here-documents, background
+ * jobs and leading `NAME=value` assignments. Globs and `~` pass through and
+ * are judged as paths by the caller.
+ */
+
+export type ShellOperator = '|' | '||' | '&&' | ';';
+
+export interface ShellRedirect {
+  op: '>' | '>>' | '<' | '&>' | '>|';
+  /** Source descriptor when written explicitly, e.g. 2 in `2>err.log`. */
+  fd?: number;
+  target: string;
+}
+
+export interface ShellSegment {
+  argv: string[];
+  redirects: ShellRedirect[];
+}
+
+export interface ParsedCommandLine {
+  segments: ShellSegment[];
+  /** operators[i] joins segments[i] and segments[i + 1]. */
+  operators: ShellOperator[];
+}
+
+export class ShellParseError extends ToolError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+type Token =
+  | { kind: 'word'; value: string; unquotedBrace: boolean }
+  | { kind: 'op'; value: ShellOperator }
+  | { kind: 'redirect'; op: ShellRedirect['op']; fd?: number; dupTarget?: string };
+
+const ASSIGNMENT_RE = /^[A-Za-z_][A-Za-z0-9_]*=/;
+const EXPANSION_START_RE = /[A-Za-z0-9_({@*#?$!-]/;
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let word = '';
+  let inWord = false;
+  let unquotedBrace = false;
+
+  const endWord = () => {
+    if (inWord) tokens.push({ kind: 'word', value: word, unquotedBrace });
+    word = '';
+    inWord = false;
+    unquotedBrace = false;
+  };
+  const pushOp = (value: ShellOperator) => {
+    endWord();
+    tokens.push({ kind: 'op', value });
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const next = input[i + 1];
+
+    if (char === "'") {
+      const close = input.indexOf("'", i + 1);
+      if (close === -1) throw new ShellParseError('Unterminated single quote');
+      word += input.slice(i + 1, close);
+      inWord = true;
+      i = close;
+    } else if (char === '"') {
+      inWord = true;
+      let j = i + 1;
+      for (; j < input.length && input[j] !== '"'; j++) {
+        const inner = input[j];
+        if (inner === '\\' && j + 1 < input.length && '"\\$`\n'.includes(input[j + 1])) {
+          word += input[++j];
+        } else if (inner === '`') {
+          throw new ShellParseError('Command substitution is not allowed');
+        } else if (inner === '$' && EXPANSION_START_RE.test(input[j + 1] ?? '')) {
+          throw new ShellParseError('Variable or command substitution is not allowed');
+        } else {
+          word += inner;
+        }
+      }
+      if (j >= input.length) throw new ShellParseError('Unterminated double quote');
+      i = j;
+    } else if (char === '\\') {
+      if (next === undefined) throw new ShellParseError('Trailing backslash');
+      if (next !== '\n') word += next; // backslash-newline is a line continuation
+      inWord = inWord || next !== '\n';
+      i++;
+    } else if (char === '`') {
+      throw new ShellParseError('Command substitution is not allowed');
+    } else if (char === '$' && EXPANSION_START_RE.test(next ?? '')) {
+      throw new ShellParseError('Variable or command substitution is not allowed');
+    } else if (char === ' ' || char === '\t') {
+      endWord();
+    } else if (char === '\n') {
+      pushOp(';');
+    } else if (char === '#' && !inWord) {
+      const eol = input.indexOf('\n', i);
+      i = eol === -1 ? input.length : eol - 1;
+    } else if (char === '|') {
+      if (next === '|') {
+        pushOp('||');
+        i++;
+      } else {
+        pushOp('|');
+      }
+    } else if (char === '&') {
+      if (next === '&') {
+        pushOp('&&');
+        i++;
+      } else if (next === '>') {
+        endWord();
+        tokens.push({ kind: 'redirect', op: '&>' });
+        i++;
+      } else {
+        throw new ShellParseError('Background jobs are not allowed');
+      }
+    } else if (char === ';') {
+      if (next === ';') throw new ShellParseError('Unexpected ";;"');
+      pushOp(';');
+    } else if (char === '>' || char === '<') {
+      if (next === '(') throw new ShellParseError('Process substitution is not allowed');
+      if (char === '<' && next === '<') throw new ShellParseError('Here-documents are not allowed');
+      // A bare digit word directly before the operator is its descriptor (2>x).
+      const fd = inWord && /^\d+$/.test(word) ? Number(word) : undefined;
+      if (fd !== undefined) {
+        word = '';
+        inWord = false;
+      }
+      endWord();
+      if (char === '>' && next === '&') {
+        // Descriptor duplication (2>&1, >&-): no file involved.
+        const dup = /^(\d+|-)/.exec(input.slice(i + 2));
+        if (!dup) throw new ShellParseError('Unsupported redirection');
+        tokens.push({ kind: 'redirect', op: '>', fd, dupTarget: dup[1] });
+        i += 1 + dup[1].length;
+      } else if (char === '>' && (next === '>' || next === '|')) {
+        tokens.push({ kind: 'redirect', op: next === '>' ? '>>' : '>|', fd });
+        i++;
+      } else {
+        tokens.push({ kind: 'redirect', op: char, fd });
+      }
+    } else if (char === '(' || char === ')') {
+      throw new ShellParseError('Subshells are not allowed');
+    } else {
+      if (char === '{' || char === '}') unquotedBrace = true;
+      word += char;
+      inWord = true;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+/** Parse a command line into validated segments, or throw ShellParseError. */
+export function parseCommandLine(input: string): ParsedCommandLine {
+  const tokens = tokenize(input);
+  const segments: ShellSegment[] = [];
+  const operators: ShellOperator[] = [];
+  let current: ShellSegment = { argv: [], redirects: [] };
+
+  const closeSegment = (operator?: ShellOperator) => {
+    if (current.argv.length === 0) {
+      // A trailing `;` (or newline) ends the line; any other empty side is an error.
+      if (operator === undefined && operators.at(-1) === ';') {
+        operators.pop();
+        return;
+      }
+      if (operator === ';' && segments.length === 0 && current.redirects.length === 0) return;
+      throw new ShellParseError('Empty command in pipeline or list');
+    }
+    segments.push(current);
+    if (operator) operators.push(operator);
+    current = { argv: [], redirects: [] };
+  };
+
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.kind === 'op') {
+      closeSegment(token.value);
+    } else if (token.kind === 'redirect') {
+      if (token.dupTarget !== undefined) continue;
+      const target = tokens[i + 1];
+      if (!target || target.kind !== 'word') {
+        throw new ShellParseError('Redirection is missing its target');
+      }
+      current.redirects.push({
+        op: token.op,
+        ...(token.fd !== undefined && { fd: token.fd }),
+        target: target.value,
+      });
+      i++;
+    } else {
+      if (token.unquotedBrace && token.value !== '{}') {
+        throw new ShellParseError('Brace expansion and command groups are not allowed');
+      }
+      if (current.argv.length === 0 && ASSIGNMENT_RE.test(token.value)) {
+        throw new ShellParseError('Environment assignments are not allowed');
+      }
+      current.argv.push(token.value);
+    }
+  }
+  closeSegment();
+
+  if (segments.length === 0) throw new ShellParseError('Command is empty');
+  return { segments, operators };
+}
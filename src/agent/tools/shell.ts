@@ -1,9 +1,96 @@
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { basename, isAbsolute, resolve } from 'path';
 import { BaseTool } from './registry';
 import { ToolDefinition, ToolResult } from '../../types';
+import { parseCommandLine, ShellParseError, ShellSegment } from './shell-parser';
+import { runSandboxed, scrubbedEnv, type SandboxCommand } from './sandbox';
+import {
+  DEFAULT_DENIED_PATHS,
+  deniedPathMatch,
+  expandHome,
+  isWithinRoots,
+  resolveWorkspaceRoots,
+} from './workspace';
 
-const execAsync = promisify(exec);
+const DEFAULT_TIMEOUT_MS = 30000; // 30 seconds
+const DEFAULT_MAX_OUTPUT_BYTES = 1024 * 1024; // 1MB
+/** Absolute executables that may be named even when confined to the workspace. */
+const SYSTEM_BIN_DIRS = ['/bin', '/usr/bin', '/usr/local/bin', '/sbin', '/usr/sbin'];
+const ALWAYS_ALLOWED_PATHS = new Set(['/dev/null']);
+const URL_RE = /^[A-Za-z][A-Za-z0-9+.-]*:\/\//;
+const GLOB_RE = /[*?[]/;
+const SHORT_FLAGS_RE = /^-[A-Za-z]+$/;
+
+export interface ShellSandboxOptions {
+  /** `shell` runs the validated line through /bin/sh; `argv` spawns one command with no shell. */
+  mode?: 'shell' | 'argv';
+  timeoutMs?: number;
+  maxOutputBytes?: number;
+  cpuSeconds?: number;
+  memoryMb?: number;
+  /** Environment variables passed through in addition to the base allowlist. */
+  envAllowlist?: string[];
+  /** Roots enforced by restrictToWorkspace; the first is the working directory and HOME. */
+  workspaceRoots?: string[];
+  /** Refused as operands, confined or not. Defaults to DEFAULT_DENIED_PATHS. */
+  deniedPaths?: string[];
+}
+
+/**
+ * The path a word refers to, if it looks like one. `~` and `~/` are expanded;
+ * `~user` forms come back unexpanded, since only the shell knows that home.
+ */
+function pathOperand(word: string): string | undefined {
+  if (URL_RE.test(word)) return undefined;
+  let candidate = word;
+  if (candidate.startsWith('-')) {
+    const eq = candidate.indexOf('=');
+    if (eq === -1) return undefined;
+    candidate = candidate.slice(eq + 1);
+  }
+  if (candidate.startsWith('~')) return expandHome(candidate);
+  if (candidate.startsWith('/') || candidate.startsWith('.') || candidate.includes('/')) {
+    return candidate;
+  }
+  return undefined;
+}
+
+/**
+ * Replace glob segments with a literal placeholder before resolving, so
+ * `*\/../../x` is judged by where it can lead rather than skipped.
+ */
+function resolveOperand(path: string, cwd: string): string {
+  const literal = path
+    .split('/')
+    .map((part) => (GLOB_RE.test(part) ? '_' : part))
+    .join('/');
+  return resolve(cwd, literal);
+}
+
+/** Deny entry `rm -rf` matches `rm -r -f`, `rm -fr` and `/bin/rm -rf x`. */
+function matchesDenied(entry: string, segment: ShellSegment): boolean {
+  const [name, ...required] = entry.trim().split(/\s+/);
+  if (!name || basename(segment.argv[0]) !== name) return false;
+  const args = segment.argv.slice(1);
+  const shortFlags = new Set(
+    args.filter((arg) => SHORT_FLAGS_RE.test(arg)).flatMap((arg) => arg.slice(1).split(''))
+  );
+  return required.every(
+    (token) =>
+      args.includes(token) ||
+      (SHORT_FLAGS_RE.test(token) &&
+        token
+          .slice(1)
+          .split('')
+          .every((flag) => shortFlags.has(flag)))
+  );
+}
+
+/** Allow entry `npm run` matches any segment whose argv starts with those words. */
+function matchesAllowed(entry: string, segment: ShellSegment): boolean {
+  const words = entry.trim().split(/\s+/);
+  const argv = [basename(segment.argv[0]), ...segment.argv.slice(1)];
+  return words.length > 0 && words.every((word, i) => argv[i] === word);
+}
 
 /**
  * Shell command execution tool
@@ -15,20 +102,30 @@ export class ShellTool extends BaseTool {
   private allowedCommands?: string[];
   private deniedCommands?: string[];
   private restrictToWorkspace: boolean;
+  private options: ShellSandboxOptions;
 
-  constructor(restrictToWorkspace = false, allowedCommands?: string[], deniedCommands?: string[]) {
+  constructor(
+    restrictToWorkspace = false,
+    allowedCommands?: string[],
+    deniedCommands?: string[],
+    options: ShellSandboxOptions = {}
+  ) {
     super();
     this.restrictToWorkspace = restrictToWorkspace;
     this.allowedCommands = allowedCommands;
     this.deniedCommands = deniedCommands;
+    this.options = options;
   }
 
   getDefinition(): ToolDefinition {
+    const argvMode = this.options.mode === 'argv';
     return {
       type: 'function',
       function: {
         name: this.name,
-        description: this.description,
+        description: argvMode
+          ? `${this.description}. Runs a single command without a shell: no pipes, redirections or operators.`
+          : this.description,
         parameters: {
           type: 'object',
           properties: {
@@ -43,6 +140,61 @@ export class ShellTool extends BaseTool {
     };
   }
 
+  private workspaceRoots(): string[] {
+    return resolveWorkspaceRoots(this.options.workspaceRoots);
+  }
+
+  /** Why a segment may not run, or undefined when it may. */
+  private checkSegment(segment: ShellSegment, roots: string[]): string | undefined {
+    const denied = this.deniedCommands?.find((entry) => matchesDenied(entry, segment));
+    if (denied) return `Command contains denied keyword: ${denied}`;
+
+    if (this.allowedCommands && this.allowedCommands.length > 0) {
+      if (!this.allowedCommands.some((entry) => matchesAllowed(entry, segment))) {
+        return `Command is not in the allowed list: ${basename(segment.argv[0])}`;
+      }
+    }
+
+    const cwd = this.restrictToWorkspace ? roots[0] : process.cwd();
+    const operands = [...segment.argv.slice(1), ...segment.redirects.map((r) => r.target)];
+    const deniedPaths = this.options.deniedPaths ?? DEFAULT_DENIED_PATHS;
+    for (const word of operands) {
+      const path = pathOperand(word);
+      if (path === undefined || path.startsWith('~')) continue;
+      const match = deniedPathMatch(resolveOperand(path, cwd), deniedPaths);
+      if (match) return `Access denied: ${word} matches ${match}`;
+    }
+
+    if (!this.restrictToWorkspace) return undefined;
+    const executable = segment.argv[0];
+    if (basename(executable) === 'cd') {
+      // A bare `cd` goes to $HOME and `cd -` to $OLDPWD, neither of which is checked here.
+      const targets = segment.argv.slice(1).filter((arg) => arg === '-' || !arg.startsWith('-'));
+      if (targets.length === 0 || targets.includes('-')) {
+        return 'cd needs a directory inside the workspace';
+      }
+    }
+    if (executable.startsWith('~') || executable.includes('/')) {
+      const expanded = pathOperand(executable) ?? executable;
+      if (expanded.startsWith('~')) return `Path outside the workspace: ${executable}`;
+      const resolved = resolve(cwd, expanded);
+      const isSystemBin =
+        isAbsolute(executable) && SYSTEM_BIN_DIRS.some((dir) => isWithinRoots(resolved, [dir]));
+      if (!isSystemBin && !isWithinRoots(resolved, roots)) {
+        return `Path outside the workspace: ${executable}`;
+      }
+    }
+    for (const word of operands) {
+      const path = pathOperand(word);
+      if (path === undefined || ALWAYS_ALLOWED_PATHS.has(path)) continue;
+      // `~user/...` is that user's home, wherever it is.
+      if (path.startsWith('~') || !isWithinRoots(resolveOperand(path, cwd), roots)) {
+        return `Path outside the workspace: ${word}`;
+      }
+    }
+    return undefined;
+  }
+
   async execute(args: Record<string, unknown>): Promise<ToolResult> {
     const command = args.command as string;
 
@@ -50,7 +202,9 @@ export class ShellTool extends BaseTool {
       return this.error('Command is required');
     }
 
-    // Check denied commands
+    // Raw substring screen, kept for patterns that do not tokenize into a
+    // command name (e.g. a fork bomb); the per-segment check below is the
+    // one that cannot be sidestepped with `;` or `&&`.
     if (this.deniedCommands) {
       for (const denied of this.deniedCommands) {
         if (command.includes(denied)) {
@@ -59,27 +213,63 @@ export class ShellTool extends BaseTool {
       }
     }
 
-    // Check allowed commands if specified
-    if (this.allowedCommands && this.allowedCommands.length > 0) {
-      const isAllowed = this.allowedCommands.some((allowed) => command.startsWith(allowed));
-      if (!isAllowed) {
-        return this.error('Command is not in the allowed list');
-      }
+    let segments: ShellSegment[];
+    try {
+      segments = parseCommandLine(command).segments;
+    } catch (error) {
+      if (error instanceof ShellParseError) return this.error(`Command rejected: ${error.message}`);
+      throw error;
+    }
+
+    const argvMode = this.options.mode === 'argv';
+    if (argvMode && (segments.length > 1 || segments[0].redirects.length > 0)) {
+      return this.error('Command rejected: pipelines, operators and redirections need shell mode');
+    }
+
+    const roots = this.workspaceRoots();
+    for (const segment of segments) {
+      const problem = this.checkSegment(segment, roots);
+      if (problem) return this.error(problem);
     }
 
+    const sandboxCommand: SandboxCommand = argvMode
+      ? { argv: segments[0].argv }
+      : { script: command };
+    const timeoutMs = this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const maxOutputBytes = this.options.maxOutputBytes ?? DEFAULT_MAX_OUTPUT_BYTES;
+
     try {
-      const { stdout, stderr } = await execAsync(command, {
-        timeout: 30000, // 30 seconds
-        maxBuffer: 1024 * 1024, // 1MB
-        cwd: this.restrictToWorkspace ? process.cwd() : undefined,
+      const result = await runSandboxed(sandboxCommand, {
+        cwd: this.restrictToWorkspace ? roots[0] : undefined,
+        // Confined, HOME is the workspace, so `~` and `$HOME` in the command stay inside it.
+        env: this.restrictToWorkspace
+          ? { ...scrubbedEnv(this.options.envAllowlist), HOME: roots[0] }
+          : scrubbedEnv(this.options.envAllowlist),
+        limits: {
+          timeoutMs,
+          maxOutputBytes,
+          cpuSeconds: this.options.cpuSeconds,
+          memoryMb: this.options.memoryMb,
+        },
       });
 
-      const output = stdout + (stderr ? `\nSTDERR:\n${stderr}` : '');
+      const output =
+        result.stdout +
+        (result.stderr ? `\nSTDERR:\n${result.stderr}` : '') +
+        (result.truncated ? `\n[output truncated at ${maxOutputBytes} bytes]` : '');
+      if (result.timedOut) {
+        return this.error(`Command timed out after ${timeoutMs}ms${output ? `: ${output}` : ''}`);
+      }
+      if (result.truncated) {
+        return this.success(output);
+      }
+      if (result.exitCode !== 0) {
+        const reason = result.signal ? `signal ${result.signal}` : `exit code ${result.exitCode}`;
+        return this.error(`Command failed (${reason}): ${output || 'no output'}`);
+      }
       return this.success(output || 'Command executed successfully (no output)');
     } catch (error) {
-      const err = error as { stdout?: string; stderr?: string; message: string };
-      const output = err.stdout || err.stderr || err.message;
-      return this.error(`Command failed: ${output}`);
+      return this.error(`Command failed: ${(error as Error).message}`);
     }
   }
 }
@@ -0,0 +1,241 @@
+import { BaseTool } from './registry';
+import { AgentConfig, Message, ToolDefinition, ToolResult } from '../../types';
+import { logger } from '../../utils/logger';
+import { getSessionManager } from '../../session/index';
+import { Memory } from '../memory';
+import { getSubagent, Subagent, SubagentTask } from '../subagent';
+
+export const SPAWN_SUBAGENT_TOOL = 'spawn_subagent';
+export const CHECK_SUBAGENT_TOOL = 'check_subagent';
+const SUBAGENT_TOOL_NAMES = new Set([SPAWN_SUBAGENT_TOOL, CHECK_SUBAGENT_TOOL]);
+
+const CONTEXT_MESSAGE_LIMIT = 20;
+const REPORT_RETRY_MS = 5000;
+const REPORT_MAX_ATTEMPTS = 120;
+
+/** The conversation a subagent tool acts on behalf of. */
+export interface SubagentParent {
+  memory: Memory;
+  agentConfig: AgentConfig;
+  /** Tools the parent holds; a spawned task inherits these minus the subagent tools. */
+  getTools: () => ToolDefinition[];
+  userId?: string;
+  channelType?: string;
+}
+
+/** The Memory instance each parent session spawned from, so reports land in the live copy. */
+const liveParentMemories = new Map<string, Memory>();
+let reporterFor: Subagent | undefined;
+
+/**
+ * True while the transcript ends in an assistant tool-call turn whose results
+ * have not all arrived (e.g. paused for approval). Inserting a message there
+ * would split the call from its results, which providers reject.
+ */
+function awaitingToolResults(messages: Message[]): boolean {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role === 'assistant' && message.tool_calls?.length) {
+      const answered = new Set(
+        messages
+          .slice(i + 1)
+          .filter((m) => m.role === 'tool')
+          .map((m) => m.tool_call_id)
+      );
+      return message.tool_calls.some((call) => !answered.has(call.id));
+    }
+    if (message.role !== 'tool') return false;
+  }
+  return false;
+}
+
+function reportText(task: SubagentTask): string {
+  if (task.status === 'completed') {
+    return `[Background task ${task.id} finished: ${task.description}]\n${task.result ?? ''}`;
+  }
+  return `[Background task ${task.id} ${task.status}: ${task.description}] ${task.error ?? ''}`.trim();
+}
+
+function reportToParent(task: SubagentTask, attempt = 1): void {
+  const memory =
+    liveParentMemories.get(task.parentSessionId) ??
+    getSessionManager().getMemory(task.parentSessionId);
+  if (awaitingToolResults(memory.getMessages())) {
+    if (attempt >= REPORT_MAX_ATTEMPTS) {
+      logger.warn(
+        { taskId: task.id, parentSessionId: task.parentSessionId },
+        'Parent session stayed mid tool call; subagent result left for check_subagent'
+      );
+      return;
+    }
+    setTimeout(() => reportToParent(task, attempt + 1), REPORT_RETRY_MS).unref();
+    return;
+  }
+  memory.addMessage({ role: 'assistant', content: reportText(task) });
+  const stillRunning = getSubagent()
+    .getAllTasks()
+    .some(
+      (other) =>
+        other.parentSessionId === task.parentSessionId &&
+        (other.status === 'pending' || other.status === 'running')
+    );
+  if (!stillRunning) liveParentMemories.delete(task.parentSessionId);
+  logger.info(
+    { taskId: task.id, parentSessionId: task.parentSessionId, status: task.status },
+    'Subagent result reported to parent session'
+  );
+}
+
+function installParentReporter(): void {
+  const subagent = getSubagent();
+  if (reporterFor === subagent) return;
+  reporterFor = subagent;
+  const report = (task: SubagentTask) => {
+    try {
+      reportToParent(task);
+    } catch (error) {
+      logger.error({ error, taskId: task.id }, 'Failed to report subagent result');
+    }
+  };
+  subagent.onTaskSettled(report);
+  // Tasks a restart cut short settled before this listener existed.
+  for (const task of subagent.takeInterruptedTasks()) report(task);
+}
+
+function describeTask(task: SubagentTask): Record<string, unknown> {
+  return {
+    taskId: task.id,
+    description: task.description,
+    status: task.status,
+    createdAt: task.createdAt.toISOString(),
+    ...(task.completedAt && { completedAt: task.completedAt.toISOString() }),
+    ...(task.result !== undefined && { result: task.result }),
+    ...(task.error !== undefined && { error: task.error }),
+  };
+}
+
+/**
+ * Queue a background task on the shared Subagent
+ */
+export class SpawnSubagentTool extends BaseTool {
+  name = SPAWN_SUBAGENT_TOOL;
+  description =
+    'Start a background task that runs on its own and reports back into this conversation when done. Use it for research that would otherwise keep the user waiting.';
+
+  constructor(private parent: SubagentParent) {
+    super();
+    installParentReporter();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            task: {
+              type: 'string',
+              description: 'Self-contained instructions for the background task',
+            },
+            timeout_seconds: {
+              type: 'number',
+              description: 'Optional deadline for the task in seconds',
+            },
+          },
+          required: ['task'],
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const description = typeof args.task === 'string' ? args.task.trim() : '';
+    if (!description) {
+      return this.error('Task is required');
+    }
+    const timeoutSeconds = args.timeout_seconds;
+    if (
+      timeoutSeconds !== undefined &&
+      (typeof timeoutSeconds !== 'number' || !(timeoutSeconds > 0))
+    ) {
+      return this.error('timeout_seconds must be a positive number');
+    }
+
+    const sessionId = this.parent.memory.getSessionId();
+    liveParentMemories.set(sessionId, this.parent.memory);
+    const taskId = await getSubagent().spawn(
+      description,
+      {
+        sessionId,
+        userId: this.parent.userId ?? sessionId,
+        channelType: this.parent.channelType ?? 'api',
+        messages: this.parent.memory.getRecentMessages(CONTEXT_MESSAGE_LIMIT),
+        skills: [],
+        tools: this.parent
+          .getTools()
+          .filter((tool) => !SUBAGENT_TOOL_NAMES.has(tool.function.name)),
+        config: this.parent.agentConfig,
+      },
+      { timeoutMs: typeof timeoutSeconds === 'number' ? timeoutSeconds * 1000 : undefined }
+    );
+    const task = getSubagent().getTask(taskId);
+    return this.success(JSON.stringify({ taskId, status: task?.status ?? 'pending' }));
+  }
+}
+
+/**
+ * Inspect the background tasks this conversation started
+ */
+export class CheckSubagentTool extends BaseTool {
+  name = CHECK_SUBAGENT_TOOL;
+  readonly readOnly = true;
+  description =
+    'Check the status and result of a background task started with spawn_subagent. Omit task_id to list every task from this conversation.';
+
+  constructor(private parent: SubagentParent) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: {
+            task_id: {
+              type: 'string',
+              description: 'Task id returned by spawn_subagent',
+            },
+          },
+        },
+      },
+    };
+  }
+
+  execute(args: Record<string, unknown>): Promise<ToolResult> {
+    const sessionId = this.parent.memory.getSessionId();
+    const subagent = getSubagent();
+
+    if (args.task_id === undefined) {
+      const tasks = subagent
+        .getAllTasks()
+        .filter((task) => task.parentSessionId === sessionId)
+        .map(describeTask);
+      return Promise.resolve(this.success(JSON.stringify({ tasks })));
+    }
+
+    // Another conversation's task is reported as unknown, not forbidden, so
+    // task ids cannot be probed across sessions.
+    const task = typeof args.task_id === 'string' ? subagent.getTask(args.task_id) : undefined;
+    if (!task || task.parentSessionId !== sessionId) {
+      return Promise.resolve(this.error(`Unknown task: ${String(args.task_id)}`));
+    }
+    return Promise.resolve(this.success(JSON.stringify(describeTask(task))));
+  }
+}
@@ -0,0 +1,106 @@
+import { realpathSync } from 'fs';
+import { homedir } from 'os';
+import { basename, dirname, join, resolve, sep } from 'path';
+
+/**
+ * Workspace confinement shared by the tools.
+ *
+ * Checks are made on real paths: a symlink inside the workspace that points
+ * out of it is outside. A path that does not exist yet (a file about to be
+ * written) is judged by its deepest existing ancestor, so a new file under a
+ * symlinked directory is caught too.
+ */
+
+/** Secret locations refused to the file tools unless `tools.deniedPaths` says otherwise. */
+export const DEFAULT_DENIED_PATHS = [
+  '~/.nano-claw/config.json',
+  '~/.ssh',
+  '~/.aws',
+  '~/.gnupg',
+  '~/.netrc',
+  '~/.docker/config.json',
+  '**/.env',
+  '**/.env.*',
+  '/etc/shadow',
+];
+
+/**
+ * Glob to anchored RegExp: `*` stays within one path segment, `**` crosses
+ * segments, `?` is one character.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/** Expand a leading `~` to the user's home directory. */
+export function expandHome(path: string): string {
+  return path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+}
+
+/** Configured roots as absolute paths; the process working directory when none are set. */
+export function resolveWorkspaceRoots(roots?: readonly string[]): string[] {
+  return roots?.length ? roots.map((root) => resolve(expandHome(root))) : [process.cwd()];
+}
+
+/** Real path of `path`, resolving symlinks through its deepest existing ancestor. */
+export function realpathLenient(path: string): string {
+  const absolute = resolve(path);
+  const missing: string[] = [];
+  let current = absolute;
+  for (;;) {
+    try {
+      return join(realpathSync(current), ...missing.reverse());
+    } catch {
+      const parent = dirname(current);
+      if (parent === current) return absolute;
+      missing.push(basename(current));
+      current = parent;
+    }
+  }
+}
+
+/** Whether `path` (already absolute) lies within one of `roots`. */
+export function isWithinRoots(path: string, roots: readonly string[]): boolean {
+  const real = realpathLenient(path);
+  return roots.some((root) => {
+    const realRoot = realpathLenient(root);
+    return real === realRoot || real.startsWith(realRoot.endsWith(sep) ? realRoot : realRoot + sep);
+  });
+}
+
+/**
+ * The denied pattern covering `path`, if any. Both the lexical and the real
+ * path are checked, and a pattern naming a directory covers everything in it.
+ */
+export function deniedPathMatch(path: string, patterns: readonly string[]): string | undefined {
+  const candidates = new Set<string>();
+  for (let current of [resolve(path), realpathLenient(path)]) {
+    for (;;) {
+      candidates.add(current);
+      const parent = dirname(current);
+      if (parent === current) break;
+      current = parent;
+    }
+  }
+  return patterns.find((pattern) => {
+    // `**/name` matches at any depth; other patterns are anchored like paths.
+    const matcher = globToRegExp(
+      pattern.startsWith('**/') ? pattern : resolve(expandHome(pattern))
+    );
+    return [...candidates].some((candidate) => matcher.test(candidate));
+  });
+}
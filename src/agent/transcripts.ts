@@ -0,0 +1,268 @@
+import type { Message } from '../types';
+import { logger } from '../utils/logger';
+import {
+  listStoredSessions,
+  readStoredSessionState,
+  readStoredTranscript,
+  type SessionMetadata,
+  type StoredSessionInfo,
+  type StoredSessionState,
+} from './memory';
+
+/**
+ * Read-only views over stored conversations: paged listing with filters,
+ * full-text search, a detail view with sidecar state, and transcript export.
+ *
+ * Everything is read from the memory directory, so sessions held by another
+ * process are included. Listing reads only the metadata sidecars until the
+ * page is known; a search has to read every transcript that passes the
+ * filters.
+ */
+
+export interface SessionFilter {
+  profile?: string;
+  channel?: string;
+  userId?: string;
+  /** Sessions active at or after this time (ms). */
+  from?: number;
+  /** Sessions started at or before this time (ms). */
+  to?: number;
+  /** Full-text query; every word must appear in one message. */
+  query?: string;
+  /** Bindings of the caller's API key (see api/auth.ts). */
+  sessionPrefixes?: string[];
+  profiles?: string[];
+}
+
+export interface SearchMatch {
+  /** Position of the message in the transcript. */
+  index: number;
+  role: Message['role'];
+  snippet: string;
+}
+
+export interface SessionSummary {
+  sessionId: string;
+  createdAt?: string;
+  updatedAt: string;
+  profile?: string;
+  channel?: string;
+  userId?: string;
+  model?: string;
+  messageCount: number;
+  /** Opening of the first user message. */
+  preview?: string;
+  /** Set for a search: the first few matching messages. */
+  matches?: SearchMatch[];
+  matchCount?: number;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  total: number;
+  offset: number;
+  limit: number;
+  nextOffset?: number;
+}
+
+export interface SessionDetail extends StoredSessionState {
+  sessionId: string;
+  updatedAt: string;
+  metadata?: SessionMetadata;
+  messages: Message[];
+}
+
+export type ExportFormat = 'json' | 'markdown' | 'text';
+
+export const EXPORT_FORMATS: readonly ExportFormat[] = ['json', 'markdown', 'text'];
+
+const PREVIEW_CHARS = 120;
+const SNIPPET_RADIUS = 60;
+const MATCHES_PER_SESSION = 5;
+
+/** Sessions recorded before metadata existed count as the `default` profile. */
+function profileOf(session: StoredSessionInfo): string {
+  return session.metadata?.profile ?? 'default';
+}
+
+function passesFilter(session: StoredSessionInfo, filter: SessionFilter): boolean {
+  const { metadata } = session;
+  if (
+    filter.sessionPrefixes &&
+    !filter.sessionPrefixes.some((p) => session.sessionId.startsWith(p))
+  ) {
+    return false;
+  }
+  if (filter.profiles && !filter.profiles.includes(profileOf(session))) return false;
+  if (filter.profile !== undefined && profileOf(session) !== filter.profile) return false;
+  if (filter.channel !== undefined && metadata?.channel !== filter.channel) return false;
+  if (filter.userId !== undefined && metadata?.userId !== filter.userId) return false;
+  if (filter.from !== undefined && Date.parse(session.updatedAt) < filter.from) return false;
+  const startedAt = Date.parse(metadata?.createdAt ?? session.updatedAt);
+  if (filter.to !== undefined && startedAt > filter.to) return false;
+  return true;
+}
+
+function transcriptOf(sessionId: string): Message[] {
+  try {
+    return readStoredTranscript(sessionId) ?? [];
+  } catch (error) {
+    logger.warn({ error, sessionId }, 'Failed to read stored transcript');
+    return [];
+  }
+}
+
+function snippet(content: string, at: number, length: number): string {
+  const start = Math.max(0, at - SNIPPET_RADIUS);
+  const end = Math.min(content.length, at + length + SNIPPET_RADIUS);
+  const text = content.slice(start, end).replace(/\s+/g, ' ').trim();
+  return `${start > 0 ? '…' : ''}${text}${end < content.length ? '…' : ''}`;
+}
+
+function searchTranscript(messages: Message[], words: string[]): SearchMatch[] {
+  const matches: SearchMatch[] = [];
+  messages.forEach((message, index) => {
+    const haystack = message.content.toLowerCase();
+    if (!words.every((word) => haystack.includes(word))) return;
+    matches.push({
+      index,
+      role: message.role,
+      snippet: snippet(message.content, haystack.indexOf(words[0]), words[0].length),
+    });
+  });
+  return matches;
+}
+
+function summarize(session: StoredSessionInfo, messages: Message[]): SessionSummary {
+  const { metadata } = session;
+  const firstUser = messages.find((m) => m.role === 'user')?.content.trim();
+  return {
+    sessionId: session.sessionId,
+    ...(metadata?.createdAt && { createdAt: metadata.createdAt }),
+    updatedAt: session.updatedAt,
+    ...(metadata?.profile && { profile: metadata.profile }),
+    ...(metadata?.channel && { channel: metadata.channel }),
+    ...(metadata?.userId && { userId: metadata.userId }),
+    ...(metadata?.model && { model: metadata.model }),
+    messageCount: messages.length,
+    ...(firstUser && {
+      preview:
+        firstUser.length > PREVIEW_CHARS ? `${firstUser.slice(0, PREVIEW_CHARS)}…` : firstUser,
+    }),
+  };
+}
+
+/** One page of stored sessions, newest activity first. */
+export function listSessions(filter: SessionFilter, offset = 0, limit = 50): SessionPage {
+  const candidates = listStoredSessions().filter((session) => passesFilter(session, filter));
+  const words = (filter.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  let summaries: SessionSummary[];
+  let total: number;
+  if (words.length) {
+    const hits: SessionSummary[] = [];
+    for (const session of candidates) {
+      const messages = transcriptOf(session.sessionId);
+      const matches = searchTranscript(messages, words);
+      if (!matches.length) continue;
+      hits.push({
+        ...summarize(session, messages),
+        matches: matches.slice(0, MATCHES_PER_SESSION),
+        matchCount: matches.length,
+      });
+    }
+    total = hits.length;
+    summaries = hits.slice(offset, offset + limit);
+  } else {
+    total = candidates.length;
+    summaries = candidates
+      .slice(offset, offset + limit)
+      .map((session) => summarize(session, transcriptOf(session.sessionId)));
+  }
+  return {
+    sessions: summaries,
+    total,
+    offset,
+    limit,
+    ...(offset + limit < total && { nextOffset: offset + limit }),
+  };
+}
+
+/** A stored session with its transcript and sidecar state, if it exists. */
+export function readSession(sessionId: string): SessionDetail | undefined {
+  const info = listStoredSessions().find((session) => session.sessionId === sessionId);
+  if (!info) return undefined;
+  return {
+    sessionId,
+    updatedAt: info.updatedAt,
+    ...(info.metadata && { metadata: info.metadata }),
+    messages: transcriptOf(sessionId),
+    ...readStoredSessionState(sessionId),
+  };
+}
+
+const ROLE_LABELS: Record<Message['role'], string> = {
+  system: 'System',
+  user: 'User',
+  assistant: 'Assistant',
+  tool: 'Tool',
+};
+
+function metadataLines(detail: SessionDetail): string[] {
+  const m = detail.metadata;
+  return [
+    ...(m?.createdAt ? [`Started: ${m.createdAt}`] : []),
+    `Last activity: ${detail.updatedAt}`,
+    ...(m?.profile ? [`Profile: ${m.profile}`] : []),
+    ...(m?.channel ? [`Channel: ${m.channel}`] : []),
+    ...(m?.userId ? [`User: ${m.userId}`] : []),
+    ...(m?.model ? [`Model: ${m.model}`] : []),
+  ];
+}
+
+function toMarkdown(detail: SessionDetail): string {
+  const out = [`# Session ${detail.sessionId}`, '', ...metadataLines(detail).map((l) => `- ${l}`)];
+  if (detail.summary) out.push('', '## Earlier in this conversation', '', detail.summary);
+  out.push('', '## Transcript');
+  for (const message of detail.messages) {
+    if (message.role === 'tool') {
+      out.push(
+        '',
+        `**Tool result (${message.name ?? 'tool'}):**`,
+        '',
+        '```',
+        message.content,
+        '```'
+      );
+      continue;
+    }
+    if (message.content) out.push('', `**${ROLE_LABELS[message.role]}:** ${message.content}`);
+    for (const call of message.tool_calls ?? []) {
+      out.push('', `_Called \`${call.function.name}\` with \`${call.function.arguments}\`_`);
+    }
+  }
+  return `${out.join('\n')}\n`;
+}
+
+function toText(detail: SessionDetail): string {
+  const out = [`Session ${detail.sessionId}`, ...metadataLines(detail)];
+  if (detail.summary) out.push('', `Earlier in this conversation: ${detail.summary}`);
+  for (const message of detail.messages) {
+    const label =
+      message.role === 'tool'
+        ? `Tool result (${message.name ?? 'tool'})`
+        : ROLE_LABELS[message.role];
+    if (message.content || message.role === 'tool') out.push('', `${label}: ${message.content}`);
+    for (const call of message.tool_calls ?? []) {
+      out.push('', `Assistant called ${call.function.name}(${call.function.arguments})`);
+    }
+  }
+  return `${out.join('\n')}\n`;
+}
+
+/** Render a session for download. */
+export function exportSession(detail: SessionDetail, format: ExportFormat): string {
+  if (format === 'markdown') return toMarkdown(detail);
+  if (format === 'text') return toText(detail);
+  return `${JSON.stringify(detail, null, 2)}\n`;
+}
@@ -0,0 +1,146 @@
+/**
+ * HTTP API authentication and per-key authorization.
+ *
+ * Callers present a bearer (`Authorization: Bearer <key>` or `X-API-Key`).
+ * Config holds only SHA-256 digests, so a leaked config file does not leak a
+ * usable credential. Each key is bound to the profiles, models, and session-id
+ * prefixes it may drive; an omitted list leaves that axis unrestricted.
+ */
+
+import type http from 'node:http';
+import crypto from 'node:crypto';
+import type { ApiConfig, ApiKeyConfig } from '../config/schema';
+
+/** The authenticated caller, carried into route handlers for scope checks. */
+export interface ApiPrincipal {
+  keyId: string;
+  profiles?: string[];
+  models?: string[];
+  sessionPrefixes?: string[];
+  userPrefixes?: string[];
+}
+
+export type AuthResult =
+  | { ok: true; principal?: ApiPrincipal }
+  | { ok: false; status: 401 | 403; error: string; code: string };
+
+/** SHA-256 hex digest of a raw key — the only form stored in config. */
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash('sha256').update(rawKey, 'utf8').digest('hex');
+}
+
+function presentedKey(req: http.IncomingMessage): string | undefined {
+  const authorization = req.headers['authorization'];
+  if (typeof authorization === 'string') {
+    const match = authorization.match(/^Bearer\s+(\S+)\s*$/i);
+    if (match) return match[1];
+  }
+  const headerKey = req.headers['x-api-key'];
+  return typeof headerKey === 'string' && headerKey.trim() ? headerKey.trim() : undefined;
+}
+
+/**
+ * Compare against every configured digest without short-circuiting, so the
+ * response time does not reveal how many keys exist or which one was close.
+ */
+function matchKey(rawKey: string, keys: readonly ApiKeyConfig[]): ApiKeyConfig | undefined {
+  const presented = Buffer.from(hashApiKey(rawKey), 'hex');
+  let matched: ApiKeyConfig | undefined;
+  for (const key of keys) {
+    const stored = Buffer.from(key.keyHash, 'hex');
+    if (stored.length === presented.length && crypto.timingSafeEqual(stored, presented)) {
+      matched ??= key;
+    }
+  }
+  return matched;
+}
+
+/**
+ * Resolve the caller of one request. With auth disabled every request passes
+ * with no principal, which route handlers treat as unrestricted.
+ */
+export function authenticateRequest(
+  req: http.IncomingMessage,
+  apiConfig: ApiConfig | undefined
+): AuthResult {
+  const auth = apiConfig?.auth;
+  if (!auth?.enabled) return { ok: true };
+
+  const rawKey = presentedKey(req);
+  if (!rawKey) {
+    return { ok: false, status: 401, error: 'Missing API key', code: 'unauthorized' };
+  }
+  const key = matchKey(rawKey, auth.keys ?? []);
+  if (!key) {
+    return { ok: false, status: 401, error: 'Invalid API key', code: 'unauthorized' };
+  }
+  return {
+    ok: true,
+    principal: {
+      keyId: key.id,
+      ...(key.profiles && { profiles: key.profiles }),
+      ...(key.models && { models: key.models }),
+      ...(key.sessionPrefixes && { sessionPrefixes: key.sessionPrefixes }),
+      ...(key.userPrefixes && { userPrefixes: key.userPrefixes }),
+    },
+  };
+}
+
+/** What a request is about to touch, checked against the caller's bindings. */
+export interface ApiRequestScope {
+  sessionId?: string;
+  profile?: string;
+  model?: string;
+  userId?: string;
+}
+
+/**
+ * Check a resolved request against the principal's bindings. Absent profile
+ * means the `default` profile, so a key limited to named profiles cannot reach
+ * the global persona by simply omitting the field.
+ */
+export function authorizeScope(
+  principal: ApiPrincipal | undefined,
+  scope: ApiRequestScope
+): AuthResult {
+  if (!principal) return { ok: true };
+  if (
+    principal.sessionPrefixes &&
+    scope.sessionId !== undefined &&
+    !principal.sessionPrefixes.some((prefix) => scope.sessionId!.startsWith(prefix))
+  ) {
+    return forbidden('API key is not permitted for this session');
+  }
+  if (
+    principal.userPrefixes &&
+    scope.userId !== undefined &&
+    !principal.userPrefixes.some((prefix) => scope.userId!.startsWith(prefix))
+  ) {
+    return forbidden('API key is not permitted for this user');
+  }
+  if (principal.profiles && !principal.profiles.includes(scope.profile ?? 'default')) {
+    return forbidden('API key is not permitted for this profile');
+  }
+  if (principal.models && scope.model !== undefined && !principal.models.includes(scope.model)) {
+    return forbidden('API key is not permitted for this model');
+  }
+  return { ok: true, principal };
+}
+
+function forbidden(error: string): AuthResult {
+  return { ok: false, status: 403, error, code: 'forbidden' };
+}
+
+/**
+ * The `Access-Control-Allow-Origin` value for one request, or undefined when
+ * the origin is not allowlisted. No allowlist keeps the historical wildcard.
+ */
+export function corsOriginFor(
+  origin: string | undefined,
+  apiConfig: ApiConfig | undefined
+): string | undefined {
+  const allowed = apiConfig?.cors?.allowedOrigins;
+  if (allowed === undefined) return '*';
+  if (!origin) return undefined;
+  return allowed.includes('*') || allowed.includes(origin) ? origin : undefined;
+}
@@ -0,0 +1,85 @@
+import type { AgentConfig, Message, ToolCall } from '../types';
+import type { ProviderRequestOptions } from '../providers/index';
+import { listPendingApprovalSessions } from '../agent/memory';
+import { getSessionStore } from '../storage/index';
+import { logger } from '../utils/logger';
+
+/**
+ * Stored copy of the tool calls waiting on an approval card.
+ *
+ * Kept as the session's `pending` state beside its transcript, rewritten
+ * whenever the session's pending set changes and removed when it empties. The
+ * Memory object itself is not stored: the transcript is already persisted and
+ * is re-attached by session id on restore.
+ */
+
+export interface PersistedPendingApproval {
+  requestId: string;
+  /** Epoch ms when the card was issued; the TTL runs from here across restarts. */
+  createdAt: number;
+  toolCalls: ToolCall[];
+  /** Results of the batch's calls the policy settled; absent in older records. */
+  settled?: Message[];
+  assistantContent: string;
+  iteration: number;
+  agentConfig: AgentConfig;
+  evalTrace: boolean;
+  providerOptions?: ProviderRequestOptions;
+}
+
+const STORE_VERSION = 1;
+
+export function savePendingApprovals(
+  sessionId: string,
+  approvals: PersistedPendingApproval[]
+): void {
+  try {
+    getSessionStore().writeState(
+      sessionId,
+      'pending',
+      approvals.length === 0 ? undefined : { version: STORE_VERSION, approvals }
+    );
+  } catch (error) {
+    logger.error({ error, sessionId }, 'Failed to save pending approvals');
+  }
+}
+
+function isPersistedApproval(value: unknown): value is PersistedPendingApproval {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Partial<PersistedPendingApproval>;
+  return (
+    typeof entry.requestId === 'string' &&
+    typeof entry.createdAt === 'number' &&
+    Array.isArray(entry.toolCalls) &&
+    typeof entry.assistantContent === 'string' &&
+    typeof entry.iteration === 'number' &&
+    typeof entry.agentConfig?.model === 'string'
+  );
+}
+
+export function loadPendingApprovals(sessionId: string): PersistedPendingApproval[] {
+  try {
+    const raw = getSessionStore().readState(sessionId, 'pending') as
+      { version?: unknown; approvals?: unknown } | undefined;
+    if (raw === undefined) return [];
+    if (raw.version !== STORE_VERSION || !Array.isArray(raw.approvals)) {
+      throw new Error('unrecognized pending approvals file');
+    }
+    return raw.approvals.filter(isPersistedApproval).map((entry) => ({
+      ...entry,
+      evalTrace: entry.evalTrace === true,
+    }));
+  } catch (error) {
+    logger.warn({ error, sessionId }, 'Failed to load pending approvals');
+    return [];
+  }
+}
+
+/** Every persisted approval, keyed by session id. */
+export function loadAllPendingApprovals(): Map<string, PersistedPendingApproval[]> {
+  const all = new Map<string, PersistedPendingApproval[]>();
+  for (const sessionId of listPendingApprovalSessions()) {
+    all.set(sessionId, loadPendingApprovals(sessionId));
+  }
+  return all;
+}
@@ -3,9 +3,12 @@
  *
  * Exposes the agent loop over HTTP with tool confirmation:
  * - POST /api/chat         — start agent loop, returns text or pending tools
- * - POST /api/chat/approve — approve pending tools, continue loop
+ * - POST /api/chat/approve — approve pending tools (optionally per call), continue loop
  * - POST /api/chat/reject  — reject tools, LLM retries without them
  * - GET  /api/health       — health check
+ *
+ * Every route except the health check passes through the API-key gate in
+ * ./auth when `api.auth.enabled` is set.
  */
 
 import http from 'node:http';
@@ -13,32 +16,60 @@ import crypto from 'node:crypto';
 import {
   AgentConfig,
   AnalysisStyle,
+  Message,
   ToolCall,
   StreamEvent,
   LLMResponse,
   RuntimeSettings,
 } from '../types';
 import { ProviderManager, type ProviderRequestOptions } from '../providers/index';
-import {
-  Memory,
-  assertValidSessionId,
-  deleteMemoryFile,
-  isEphemeralSessionId,
-  isValidSessionId,
-  sweepEphemeralMemory,
-} from '../agent/memory';
+import { Memory, isEphemeralSessionId, isValidSessionId } from '../agent/memory';
 import { ContextBuilder, guardCoverageDisclaimer, isCoverageQuestion } from '../agent/context';
 import { configureDecisionShadow, shadowDecide } from '../agent/decision-shadow';
 import { resolveKnowledgeFiles } from '../agent/knowledge';
+import { prepareUndoTurn, type PreparedUndo } from '../agent/rewind';
 import { SkillsLoader } from '../agent/skills';
-import { ToolRegistry } from '../agent/tools/registry';
+import { ToolRegistry, toolCallErrorMessage } from '../agent/tools/registry';
+import { executeToolCalls, ToolExecution, toolExecutionOptions } from '../agent/tools/executor';
+import { closeMcpServers, registerMcpTools } from '../agent/tools/mcp';
+import { POLICY_DENIED_MESSAGE, resolveToolPolicy } from '../agent/tools/policy';
 import { ShellTool } from '../agent/tools/shell';
-import { ReadFileTool, WriteFileTool } from '../agent/tools/file';
-import { Config } from '../config/schema';
+import { ReadFileTool, WriteFileTool, fileToolOptions } from '../agent/tools/file';
+import { ApplyPatchTool, EditFileTool } from '../agent/tools/file-edit';
+import { GlobTool, GrepFilesTool, ListDirTool } from '../agent/tools/file-search';
+import { resolveWorkspaceRoots } from '../agent/tools/workspace';
+import { CheckSubagentTool, SpawnSubagentTool } from '../agent/tools/subagent';
+import { Config, CostsConfigSchema, LongTermMemorySchema } from '../config/schema';
 import { getConfig, createDefaultConfig, mergeEnvConfig } from '../config/index';
+import { getSessionManager } from '../session/index';
+import {
+  authenticateRequest,
+  authorizeScope,
+  corsOriginFor,
+  type ApiPrincipal,
+  type AuthResult,
+} from './auth';
+import {
+  loadAllPendingApprovals,
+  savePendingApprovals,
+  type PersistedPendingApproval,
+} from './pending-store';
+import { ProviderError, SessionError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { MODEL_CATALOG, modelsWithAvailability, DEFAULT_MODEL } from '../agent/models';
 import { retrieveTurnEvidence } from '../agent/intelligence';
+import { CostLedger, budgetExceededMessage, type BudgetCheck } from '../agent/cost-ledger';
+import { compactHistory } from '../agent/compaction';
+import { LongTermMemory, isValidUserId } from '../agent/long-term-memory';
+import { RememberTool } from '../agent/tools/remember';
+import {
+  EXPORT_FORMATS,
+  exportSession,
+  listSessions,
+  readSession,
+  type ExportFormat,
+} from '../agent/transcripts';
+import type { CallCost, Usage } from '../agent/pricing';
 import {
   collectionScopeKey,
   prepareCollectionScopeTurn,
@@ -86,6 +117,8 @@ interface DebugInfo {
     cacheRead?: number;
     cacheWrite?: number;
   };
+  /** What this model call cost, from the cost ledger's price table. */
+  cost?: CallCost;
   durationMs: number;
   firstTokenMs?: number;
   finishReason?: string;
@@ -128,12 +161,28 @@ interface DebugInfo {
     collectionIds: string[];
   };
   evalTrace?: CrossSourceEvalTrace;
+  /** Tool calls the approval policy settled without asking, in call order. */
+  toolPolicy?: ToolPolicyDecision[];
 }
 
+interface ToolPolicyDecision {
+  name: string;
+  toolCallId: string;
+  action: 'auto' | 'deny' | 'invalid';
+  success?: boolean;
+  durationMs?: number;
+}
+
+/**
+ * A paused batch. It names its session rather than holding its Memory: the
+ * session manager may have reloaded the session since (see
+ * SessionManager.getMemory), and answers must land in the live instance.
+ */
 interface PendingToolState {
   sessionId: string;
-  memory: Memory;
   toolCalls: ToolCall[];
+  /** `tool` messages for the batch's auto and denied calls, written with the user's answers. */
+  settled: Message[];
   assistantContent: string;
   iteration: number;
   agentConfig: AgentConfig;
@@ -146,7 +195,8 @@ type ApiResponse =
   | {
       type: 'tool_pending';
       requestId: string;
-      tools: { name: string; args: Record<string, unknown> }[];
+      /** `id` is the tool call id a per-call approval decision refers to. */
+      tools: { id: string; name: string; args: Record<string, unknown> }[];
       debug: DebugInfo;
     };
 
@@ -156,22 +206,81 @@ const pendingRequests = new Map<string, PendingToolState>();
 
 // Clean up stale pending requests after 10 minutes
 const PENDING_TTL_MS = 10 * 60 * 1000;
-const EPHEMERAL_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
 const pendingTimestamps = new Map<string, number>();
 
+/**
+ * The maps above are the working set; every change is mirrored to the
+ * session's pending sidecar so an approval card outlives a container roll.
+ */
+function persistPendingFor(sessionId: string): void {
+  const approvals: PersistedPendingApproval[] = [];
+  for (const [requestId, pending] of pendingRequests) {
+    if (pending.sessionId !== sessionId) continue;
+    approvals.push({
+      requestId,
+      createdAt: pendingTimestamps.get(requestId) ?? Date.now(),
+      toolCalls: pending.toolCalls,
+      settled: pending.settled,
+      assistantContent: pending.assistantContent,
+      iteration: pending.iteration,
+      agentConfig: pending.agentConfig,
+      evalTrace: pending.evalTrace,
+      ...(pending.providerOptions && { providerOptions: pending.providerOptions }),
+    });
+  }
+  savePendingApprovals(sessionId, approvals);
+}
+
+function storePending(requestId: string, state: PendingToolState, createdAt = Date.now()): void {
+  pendingRequests.set(requestId, state);
+  pendingTimestamps.set(requestId, createdAt);
+  persistPendingFor(state.sessionId);
+}
+
+/** Remove a pending request and return it, or undefined if it was unknown. */
+function takePending(requestId: string): PendingToolState | undefined {
+  const pending = pendingRequests.get(requestId);
+  pendingRequests.delete(requestId);
+  pendingTimestamps.delete(requestId);
+  if (pending) persistPendingFor(pending.sessionId);
+  return pending;
+}
+
+/** Reload approval cards persisted by a previous process, dropping expired ones. */
+function restorePendingRequests(now = Date.now()): void {
+  let restored = 0;
+  for (const [sessionId, approvals] of loadAllPendingApprovals()) {
+    const live = approvals.filter((approval) => now - approval.createdAt <= PENDING_TTL_MS);
+    if (live.length === 0) {
+      savePendingApprovals(sessionId, []);
+      continue;
+    }
+    for (const approval of live) {
+      pendingRequests.set(approval.requestId, {
+        sessionId,
+        toolCalls: approval.toolCalls,
+        settled: approval.settled ?? [],
+        assistantContent: approval.assistantContent,
+        iteration: approval.iteration,
+        agentConfig: approval.agentConfig,
+        evalTrace: approval.evalTrace,
+        providerOptions: approval.providerOptions,
+      });
+      pendingTimestamps.set(approval.requestId, approval.createdAt);
+      restored++;
+    }
+    if (live.length !== approvals.length) persistPendingFor(sessionId);
+  }
+  if (restored > 0) logger.info({ restored }, 'Restored pending tool approvals');
+}
+
 function cleanupStale(): void {
   const now = Date.now();
   for (const [id, ts] of pendingTimestamps) {
-    if (now - ts > PENDING_TTL_MS) {
-      pendingRequests.delete(id);
-      pendingTimestamps.delete(id);
-    }
+    if (now - ts > PENDING_TTL_MS) takePending(id);
   }
 
-  for (const [sessionId, lastUsed] of sessionLastUsed) {
-    if (now - lastUsed > EPHEMERAL_SESSION_TTL_MS) deleteSession(sessionId);
-  }
-  sweepEphemeralMemory(new Set(sessionMemories.keys()), EPHEMERAL_SESSION_TTL_MS, now);
+  for (const sessionId of getSessionManager().sweepExpired(now)) dropPendingFor(sessionId);
 }
 
 // ── Shared instances ─────────────────────────────────────────
@@ -179,6 +288,8 @@ function cleanupStale(): void {
 let config: Config;
 let providerManager: ProviderManager;
 let skillsLoader: SkillsLoader;
+let costLedger: CostLedger;
+let longTermMemory: LongTermMemory;
 
 let sharedInitialized = false;
 
@@ -210,7 +321,10 @@ function initShared(): void {
   // Preserve a test-injected provider manager (see
   // __setProviderManagerForTest) instead of clobbering it.
   if (!providerManager) providerManager = new ProviderManager(config);
+  costLedger = new CostLedger(config.costs ?? CostsConfigSchema.parse({}));
+  longTermMemory = new LongTermMemory(config.longTermMemory ?? LongTermMemorySchema.parse({}));
   skillsLoader = new SkillsLoader();
+  restorePendingRequests();
   sharedInitialized = true;
 }
 
@@ -219,8 +333,69 @@ export function __setProviderManagerForTest(pm: unknown): void {
   providerManager = pm as ProviderManager;
 }
 
+/** Add one model call to the cost ledger under the turn's session and profile. */
+function recordCost(
+  memory: Memory,
+  agentConfig: AgentConfig,
+  model: string,
+  usage: Usage | undefined
+): CallCost | undefined {
+  if (!usage) return undefined;
+  return costLedger.record({
+    sessionId: memory.getSessionId(),
+    profile: agentConfig.profileId ?? 'default',
+    model,
+    usage,
+  });
+}
+
+/** Refuse a turn whose hard budget is spent; true when the request must stop here. */
+function rejectOverBudget(res: http.ServerResponse, budget: BudgetCheck): boolean {
+  if (budget.level !== 'hard') return false;
+  logger.warn({ ...budget }, 'Hard budget reached; refusing turn');
+  sendJson(res, 402, {
+    error: budgetExceededMessage(budget),
+    code: 'budget_exceeded',
+    budget,
+  });
+  return true;
+}
+
+/** Past a soft budget a turn runs on the configured cheaper model, if any. */
+function budgetedConfig(agentConfig: AgentConfig, budget: BudgetCheck): AgentConfig {
+  if (budget.level !== 'soft') return agentConfig;
+  const downgradeModel = config.costs?.downgradeModel;
+  logger.warn({ ...budget, model: agentConfig.model, downgradeModel }, 'Soft budget reached');
+  return downgradeModel ? { ...agentConfig, model: downgradeModel } : agentConfig;
+}
+
+/** Fold the oldest turns into the rolling summary once the history outgrows its budget. */
+async function compactMemory(
+  memory: Memory,
+  agentConfig: AgentConfig,
+  providerOptions?: ProviderRequestOptions
+): Promise<void> {
+  const result = await compactHistory(
+    memory,
+    agentConfig.model,
+    config.agents?.defaults?.compaction,
+    (messages, model, maxTokens) =>
+      providerManager.complete(messages, model, 0, maxTokens, [], providerOptions)
+  );
+  if (result) recordCost(memory, agentConfig, result.model, result.usage);
+}
+
+/** Long-term facts relevant to the latest user message, for the system prompt. */
+function recallFacts(agentConfig: AgentConfig, messages: Message[]): string[] | undefined {
+  if (!agentConfig.userId || !longTermMemory.enabled) return undefined;
+  const query = messages.filter((m) => m.role === 'user').pop()?.content ?? '';
+  const scope = { userId: agentConfig.userId, profile: agentConfig.profileId ?? 'default' };
+  return longTermMemory.recall(scope, query).map((fact) => fact.text);
+}
+
 /** Fast-model completion used by the reflect-hydrate-affirm gate (task 063). */
 function hydrationCompleter(
+  memory: Memory,
   agentConfig: AgentConfig,
   providerOptions?: ProviderRequestOptions
 ): HydrationComplete {
@@ -236,11 +411,12 @@ function hydrationCompleter(
       [],
       providerOptions
     );
+    recordCost(memory, agentConfig, response.model ?? agentConfig.model, response.usage);
     return response.content;
   };
 }
 
-function createToolRegistry(): ToolRegistry {
+async function createToolRegistry(memory: Memory, agentConfig: AgentConfig): Promise<ToolRegistry> {
   const registry = new ToolRegistry();
   const toolsConfig = config.tools;
   // Knowledge-only mode: no tools registered → no tools offered to the LLM,
@@ -250,11 +426,39 @@ function createToolRegistry(): ToolRegistry {
     new ShellTool(
       toolsConfig?.restrictToWorkspace,
       toolsConfig?.allowedCommands,
-      toolsConfig?.deniedCommands
+      toolsConfig?.deniedCommands,
+      {
+        ...toolsConfig?.shell,
+        workspaceRoots: toolsConfig?.workspaceRoots,
+        deniedPaths: toolsConfig?.deniedPaths,
+      }
     )
   );
-  registry.register(new ReadFileTool());
-  registry.register(new WriteFileTool());
+  const fileOptions = fileToolOptions(toolsConfig);
+  for (const tool of [
+    new ReadFileTool(fileOptions),
+    new WriteFileTool(fileOptions),
+    new EditFileTool(fileOptions),
+    new ApplyPatchTool(fileOptions),
+    new ListDirTool(fileOptions),
+    new GlobTool(fileOptions),
+    new GrepFilesTool(fileOptions),
+  ]) {
+    registry.register(tool);
+  }
+  const parent = { memory, agentConfig, getTools: () => registry.getDefinitions() };
+  registry.register(new SpawnSubagentTool(parent));
+  registry.register(new CheckSubagentTool(parent));
+  if (agentConfig.userId && longTermMemory.enabled) {
+    registry.register(
+      new RememberTool(
+        longTermMemory,
+        { userId: agentConfig.userId, profile: agentConfig.profileId ?? 'default' },
+        memory.getSessionId()
+      )
+    );
+  }
+  await registerMcpTools(registry, toolsConfig?.mcpServers);
   return registry;
 }
 
@@ -447,6 +651,7 @@ export function getAgentConfig(
     }),
     ...(responseMode && { responseMode }),
     ...(runtimeSettings && { runtimeSettings }),
+    profileId: knownProfile,
   };
 }
 
@@ -533,6 +738,126 @@ function providerPolicyDebug(
 // ── Stepped agent loop ───────────────────────────────────────
 
 const MAX_ITERATIONS = 10;
+
+/** An executed call's result as the matching `tool` message. */
+function toolResultMessage(execution: ToolExecution): Message {
+  const { toolCall, result, durationMs } = execution;
+  const toolName = toolCall.function.name;
+  logger.info(
+    {
+      tool: toolName,
+      success: result.success,
+      durationMs,
+      ...(result.error && { error: result.error }),
+    },
+    'Tool execution complete'
+  );
+
+  return {
+    role: 'tool',
+    content: result.success ? result.output : `Error: ${result.error}`,
+    name: toolName,
+    tool_call_id: toolCall.id,
+  };
+}
+
+/**
+ * Settle the calls the approval policy decides on its own: `auto` runs now,
+ * `deny` is answered with a refusal. Calls whose arguments fail the tool's
+ * schema are answered with the validation error before the policy is
+ * consulted, so the model retries them instead of the user approving them.
+ * Returns the calls still waiting for the user and the `tool` messages for
+ * the rest, both in call order. Nothing is written: when calls are waiting,
+ * the messages are held until the user answers (see recordBatchResults).
+ */
+async function settleByPolicy(
+  toolRegistry: ToolRegistry,
+  toolCalls: ToolCall[],
+  decisions: ToolPolicyDecision[]
+): Promise<{ waiting: ToolCall[]; settled: Message[] }> {
+  const needsApproval: ToolCall[] = [];
+  const autoCalls: ToolCall[] = [];
+  const settled: Message[] = [];
+  const refusals = new Map<string, { content: string; action: 'deny' | 'invalid' }>();
+  for (const toolCall of toolCalls) {
+    const name = toolCall.function.name;
+    const check = toolRegistry.checkToolCall(toolCall);
+    if (!check.ok) {
+      refusals.set(toolCall.id, { content: toolCallErrorMessage(name, check), action: 'invalid' });
+      logger.info({ tool: name, issues: check.issues }, 'Tool call arguments rejected');
+      continue;
+    }
+    const action = resolveToolPolicy(
+      name,
+      check.args,
+      config.tools?.approval,
+      resolveWorkspaceRoots(config.tools?.workspaceRoots)[0]
+    );
+    if (action === 'ask') {
+      needsApproval.push(toolCall);
+    } else if (action === 'deny') {
+      refusals.set(toolCall.id, { content: POLICY_DENIED_MESSAGE, action });
+    } else {
+      autoCalls.push(toolCall);
+    }
+  }
+
+  const executions = await executeToolCalls(
+    toolRegistry,
+    autoCalls,
+    toolExecutionOptions(config.tools)
+  );
+  const executed = new Map(executions.map((execution) => [execution.toolCall.id, execution]));
+  for (const toolCall of toolCalls) {
+    const name = toolCall.function.name;
+    const execution = executed.get(toolCall.id);
+    const refusal = refusals.get(toolCall.id);
+    if (execution) {
+      settled.push(toolResultMessage(execution));
+      decisions.push({
+        name,
+        toolCallId: toolCall.id,
+        action: 'auto',
+        success: execution.result.success,
+        durationMs: execution.durationMs,
+      });
+    } else if (refusal) {
+      settled.push({ role: 'tool', content: refusal.content, name, tool_call_id: toolCall.id });
+      decisions.push({ name, toolCallId: toolCall.id, action: refusal.action });
+    }
+  }
+  if (decisions.length > 0) {
+    logger.info(
+      { settled: toolCalls.length - needsApproval.length, waiting: needsApproval.length },
+      'Tool approval policy applied'
+    );
+  }
+  return { waiting: needsApproval, settled };
+}
+
+/**
+ * Write a paused batch's `tool` messages once the user has answered the card:
+ * the ones the policy settled before the pause and `answers` for the calls on
+ * the card, in the order the model made the calls.
+ */
+function recordBatchResults(memory: Memory, pending: PendingToolState, answers: Message[]): void {
+  const firstId = pending.toolCalls[0]?.id;
+  const batch = [...memory.getMessages()]
+    .reverse()
+    .find((message) => message.tool_calls?.some((call) => call.id === firstId));
+  const order = (batch?.tool_calls ?? []).map((call) => call.id);
+  const rank = (message: Message) => {
+    const index = order.indexOf(message.tool_call_id ?? '');
+    return index === -1 ? order.length : index;
+  };
+  for (const message of [...pending.settled, ...answers].sort((a, b) => rank(a) - rank(b))) {
+    memory.addMessage(message);
+  }
+}
+
+function toolPolicyDebug(decisions: ToolPolicyDecision[]): Pick<DebugInfo, 'toolPolicy'> {
+  return decisions.length > 0 ? { toolPolicy: [...decisions] } : {};
+}
 const DEEP_FAILURE_RESPONSE =
   "I'm sorry, I couldn't complete the deeper analysis just now. Please try again.";
 
@@ -561,6 +886,28 @@ function deepDebug(
   };
 }
 
+/** The reply to an undo command. Like the command, it is not stored. */
+function undoResponse(
+  memory: Memory,
+  agentConfig: AgentConfig,
+  undo: PreparedUndo,
+  providerOptions?: ProviderRequestOptions
+): ApiResponse {
+  discardPendingFor(memory.getSessionId());
+  return {
+    type: 'final',
+    response: undo.reply,
+    debug: {
+      iteration: 1,
+      messageCount: memory.getMessages().length,
+      ...providerPolicyDebug(providerOptions),
+      model: agentConfig.model,
+      durationMs: 0,
+      finishReason: 'undo',
+    },
+  };
+}
+
 /**
  * Run one LLM call and either return final text or pause at tool calls.
  */
@@ -572,10 +919,14 @@ async function stepLoop(
   providerOptions?: ProviderRequestOptions
 ): Promise<ApiResponse> {
   initShared();
-  const toolRegistry = createToolRegistry();
+  const toolRegistry = await createToolRegistry(memory, agentConfig);
+  const policyDecisions: ToolPolicyDecision[] = [];
 
   while (iteration < MAX_ITERATIONS) {
     iteration++;
+    const undo = iteration === 1 ? prepareUndoTurn(memory) : undefined;
+    if (undo) return undoResponse(memory, agentConfig, undo, providerOptions);
+    await compactMemory(memory, agentConfig, providerOptions);
     const messageCount = memory.getMessages().length;
     const startTime = Date.now();
 
@@ -629,7 +980,7 @@ async function stepLoop(
             messages,
             routed,
             turnConfig.intelligence,
-            hydrationCompleter(turnConfig, providerOptions)
+            hydrationCompleter(memory, turnConfig, providerOptions)
           )
         : routed.deep && !analysisTurn?.result
           ? { kind: 'run' as const, route: routed }
@@ -719,7 +1070,9 @@ async function stepLoop(
       skills,
       modelTools,
       turnEvidence,
-      deepResult
+      deepResult,
+      memory.getSummary(),
+      recallFacts(turnConfig, messages)
     );
 
     const response = await providerManager.complete(
@@ -736,11 +1089,13 @@ async function stepLoop(
       : { text: voiceGuard.text, inserted: false };
 
     const durationMs = Date.now() - startTime;
+    const cost = recordCost(memory, turnConfig, response.model ?? turnConfig.model, response.usage);
 
     const debug: DebugInfo = {
       iteration,
       messageCount,
       ...providerPolicyDebug(providerOptions),
+      ...toolPolicyDebug(policyDecisions),
       model: response.model ?? turnConfig.model,
       ...(response.model &&
         response.model !== turnConfig.model && { requestedModel: turnConfig.model }),
@@ -753,6 +1108,7 @@ async function stepLoop(
             cacheWrite: response.usage.cacheWriteTokens,
           }
         : undefined,
+      ...(cost && { cost }),
       durationMs,
       finishReason: voiceGuard.replaced ? 'analysis_voice_limit_fallback' : response.finishReason,
       ...(turnEvidence && {
@@ -815,24 +1171,35 @@ async function stepLoop(
         tool_calls: response.toolCalls,
       });
 
+      const { waiting: askCalls, settled } = await settleByPolicy(
+        toolRegistry,
+        response.toolCalls,
+        policyDecisions
+      );
+      // Every call was auto-run or denied: the model continues with the results.
+      if (askCalls.length === 0) {
+        for (const message of settled) memory.addMessage(message);
+        continue;
+      }
+
       // Pause — return tool calls for browser approval
       const requestId = crypto.randomUUID();
-      pendingRequests.set(requestId, {
+      storePending(requestId, {
         sessionId: memory.getSessionId(),
-        memory,
-        toolCalls: response.toolCalls,
+        toolCalls: askCalls,
+        settled,
         assistantContent: response.content || '',
         iteration,
         agentConfig: turnConfig,
         evalTrace,
         providerOptions,
       });
-      pendingTimestamps.set(requestId, Date.now());
 
       return {
         type: 'tool_pending',
         requestId,
-        tools: response.toolCalls.map((tc) => ({
+        tools: askCalls.map((tc) => ({
+          id: tc.id,
           name: tc.function.name,
           args: safeParseToolArgs(tc.function.arguments),
         })),
@@ -856,6 +1223,7 @@ async function stepLoop(
       iteration: MAX_ITERATIONS,
       messageCount: memory.getMessages().length,
       ...providerPolicyDebug(providerOptions),
+      ...toolPolicyDebug(policyDecisions),
       model: agentConfig.model,
       durationMs: 0,
       finishReason: 'max_iterations',
@@ -876,10 +1244,18 @@ export async function* stepLoopStream(
   providerOptions?: ProviderRequestOptions
 ): AsyncGenerator<StreamEvent | ApiResponse> {
   initShared();
-  const toolRegistry = createToolRegistry();
+  const toolRegistry = await createToolRegistry(memory, agentConfig);
+  const policyDecisions: ToolPolicyDecision[] = [];
 
   while (iteration < MAX_ITERATIONS) {
     iteration++;
+    const undo = iteration === 1 ? prepareUndoTurn(memory) : undefined;
+    if (undo) {
+      yield { type: 'text', delta: undo.reply };
+      yield undoResponse(memory, agentConfig, undo, providerOptions);
+      return;
+    }
+    await compactMemory(memory, agentConfig, providerOptions);
     const messageCount = memory.getMessages().length;
     const startTime = Date.now();
     const skills = skillsLoader.getSkills();
@@ -939,7 +1315,7 @@ export async function* stepLoopStream(
             messages,
             routed,
             turnConfig.intelligence,
-            hydrationCompleter(turnConfig, providerOptions)
+            hydrationCompleter(memory, turnConfig, providerOptions)
           )
         : routed.deep && !analysisTurn?.result
           ? { kind: 'run' as const, route: routed }
@@ -1067,7 +1443,9 @@ export async function* stepLoopStream(
       skills,
       modelTools,
       turnEvidence,
-      deepResult
+      deepResult,
+      memory.getSummary(),
+      recallFacts(turnConfig, messages)
     );
 
     let text = '';
@@ -1112,11 +1490,13 @@ export async function* stepLoopStream(
       yield { type: 'text', delta: text, held: true };
     }
     if (voiceGuard.replaced) finishReason = 'analysis_voice_limit_fallback';
+    const cost = recordCost(memory, turnConfig, servedModel ?? turnConfig.model, usage);
 
     const debug: DebugInfo = {
       iteration,
       messageCount,
       ...providerPolicyDebug(providerOptions),
+      ...toolPolicyDebug(policyDecisions),
       model: servedModel ?? turnConfig.model,
       ...(servedModel &&
         servedModel !== turnConfig.model && { requestedModel: turnConfig.model }),
@@ -1129,6 +1509,7 @@ export async function* stepLoopStream(
             cacheWrite: usage.cacheWriteTokens,
           }
         : undefined,
+      ...(cost && { cost }),
       durationMs: Date.now() - startTime,
       firstTokenMs: firstTokenAt !== undefined ? firstTokenAt - startTime : undefined,
       finishReason,
@@ -1173,22 +1554,31 @@ export async function* stepLoopStream(
 
     if (toolCalls && toolCalls.length > 0) {
       memory.addMessage({ role: 'assistant', content: text, tool_calls: toolCalls });
+      const { waiting: askCalls, settled } = await settleByPolicy(
+        toolRegistry,
+        toolCalls,
+        policyDecisions
+      );
+      if (askCalls.length === 0) {
+        for (const message of settled) memory.addMessage(message);
+        continue;
+      }
       const requestId = crypto.randomUUID();
-      pendingRequests.set(requestId, {
+      storePending(requestId, {
         sessionId: memory.getSessionId(),
-        memory,
-        toolCalls,
+        toolCalls: askCalls,
+        settled,
         assistantContent: text,
         iteration,
         agentConfig: turnConfig,
         evalTrace,
         providerOptions,
       });
-      pendingTimestamps.set(requestId, Date.now());
       yield {
         type: 'tool_pending',
         requestId,
-        tools: toolCalls.map((tc) => ({
+        tools: askCalls.map((tc) => ({
+          id: tc.id,
           name: tc.function.name,
           args: safeParseToolArgs(tc.function.arguments),
         })),
@@ -1209,6 +1599,7 @@ export async function* stepLoopStream(
       iteration: MAX_ITERATIONS,
       messageCount: memory.getMessages().length,
       ...providerPolicyDebug(providerOptions),
+      ...toolPolicyDebug(policyDecisions),
       model: agentConfig.model,
       durationMs: 0,
       finishReason: 'max_iterations',
@@ -1216,50 +1607,74 @@ export async function* stepLoopStream(
   };
 }
 
-// ── Session memory cache ─────────────────────────────────────
-
-const sessionMemories = new Map<string, Memory>();
-const sessionLastUsed = new Map<string, number>();
+// ── Sessions ─────────────────────────────────────────────────
 
+/** The session's live Memory, shared with the gateway, cron and CLI (see session/). */
 export function getMemory(sessionId: string): Memory {
-  assertValidSessionId(sessionId);
-  let memory = sessionMemories.get(sessionId);
-  if (!memory) {
-    memory = new Memory(sessionId);
-    sessionMemories.set(sessionId, memory);
-  }
-  if (isEphemeralSessionId(sessionId)) sessionLastUsed.set(sessionId, Date.now());
-  return memory;
+  return getSessionManager().getMemory(sessionId);
+}
+
+/** The profile recorded on a stored session, for scope checks against it. */
+function storedSessionProfile(sessionId: string): string | undefined {
+  if (!isValidSessionId(sessionId) || !getSessionManager().hasSession(sessionId)) return undefined;
+  return getMemory(sessionId).getMetadata()?.profile;
 }
 
 function deleteSession(sessionId: string): void {
-  const memory = sessionMemories.get(sessionId);
-  if (memory) memory.delete();
-  else deleteMemoryFile(sessionId);
-  sessionMemories.delete(sessionId);
-  sessionLastUsed.delete(sessionId);
+  getSessionManager().deleteSession(sessionId);
+  dropPendingFor(sessionId);
+}
 
+function dropPendingFor(sessionId: string): boolean {
+  let dropped = false;
   for (const [requestId, pending] of pendingRequests) {
     if (pending.sessionId !== sessionId) continue;
     pendingRequests.delete(requestId);
     pendingTimestamps.delete(requestId);
+    dropped = true;
   }
+  return dropped;
+}
+
+/** Drop approvals after a rewind: their tool calls were in the turns it cut. */
+function discardPendingFor(sessionId: string): void {
+  if (dropPendingFor(sessionId)) persistPendingFor(sessionId);
 }
 
 // ── HTTP helpers ─────────────────────────────────────────────
 
-function setCorsHeaders(res: http.ServerResponse): void {
-  res.setHeader('Access-Control-Allow-Origin', '*');
+/**
+ * Set once per request, before routing, so JSON and SSE responses carry the
+ * same grant. An origin outside a configured allowlist gets no
+ * Access-Control-Allow-Origin at all, which the browser treats as a denial.
+ */
+function setCorsHeaders(req: http.IncomingMessage, res: http.ServerResponse): void {
+  const allowOrigin = corsOriginFor(req.headers['origin'], config.api);
+  if (allowOrigin) res.setHeader('Access-Control-Allow-Origin', allowOrigin);
+  if (allowOrigin !== '*') res.setHeader('Vary', 'Origin');
   res.setHeader('Access-Control-Allow-Methods', 'GET, POST, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization, X-API-Key');
 }
 
 function sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
-  setCorsHeaders(res);
   res.writeHead(statusCode, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify(body));
 }
 
+/** Error body for a failed turn; provider failures carry their classification. */
+function errorBody(error: unknown, fallback = 'Internal error'): { error: string; code?: string } {
+  const message = error instanceof Error ? error.message : fallback;
+  return error instanceof ProviderError ? { error: message, code: error.code } : { error: message };
+}
+
+/** Send a failed auth decision; true when the request must stop here. */
+function rejectUnauthorized(res: http.ServerResponse, result: AuthResult): boolean {
+  if (result.ok) return false;
+  if (result.status === 401) res.setHeader('WWW-Authenticate', 'Bearer');
+  sendJson(res, result.status, { error: result.error, code: result.code });
+  return true;
+}
+
 const STREAM_ENABLED =
   process.env.NANO_CLAW_STREAM !== '0' && process.env.NANO_CLAW_STREAM !== 'false';
 
@@ -1280,7 +1695,6 @@ async function streamLoopToSSE(
     'Content-Type': 'text/event-stream',
     'Cache-Control': 'no-cache',
     Connection: 'keep-alive',
-    'Access-Control-Allow-Origin': '*',
   });
   try {
     for await (const ev of gen) {
@@ -1297,7 +1711,7 @@ async function streamLoopToSSE(
       else if ((ev as ApiResponse).type === 'final') sseWrite(res, 'final', ev);
     }
   } catch (err) {
-    sseWrite(res, 'error', { error: err instanceof Error ? err.message : 'stream error' });
+    sseWrite(res, 'error', errorBody(err, 'stream error'));
   } finally {
     res.end();
   }
@@ -1339,6 +1753,69 @@ function safeParseToolArgs(argsJson: string): Record<string, unknown> {
   }
 }
 
+/** One entry of the approve endpoint's optional `decisions` list. */
+interface ToolDecision {
+  toolCallId: string;
+  action: 'approve' | 'reject';
+  /** Replacement arguments for an approved call. */
+  args?: Record<string, unknown>;
+}
+
+const USER_REJECTED_MESSAGE = 'Tool execution was rejected by the user.';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check a per-call decision list against the pending batch. Every pending
+ * call needs exactly one decision, and edited arguments must satisfy the
+ * tool's parameter schema and must not be ones the approval policy denies
+ * (an edit cannot route around a `deny` rule); a string return is the 400
+ * message.
+ */
+function parseToolDecisions(
+  raw: unknown,
+  toolCalls: ToolCall[],
+  toolRegistry: ToolRegistry
+): Map<string, ToolDecision> | string {
+  const byId = new Map(toolCalls.map((toolCall) => [toolCall.id, toolCall]));
+  if (!Array.isArray(raw)) return '"decisions" must be an array';
+  const decisions = new Map<string, ToolDecision>();
+  for (const entry of raw) {
+    if (!isPlainObject(entry) || typeof entry.toolCallId !== 'string') {
+      return 'Each decision needs a "toolCallId"';
+    }
+    const { toolCallId, action, args } = entry;
+    const toolCall = byId.get(toolCallId);
+    if (!toolCall) return `Unknown toolCallId: ${toolCallId}`;
+    if (decisions.has(toolCallId)) return `Duplicate decision for ${toolCallId}`;
+    if (action !== 'approve' && action !== 'reject') {
+      return `Decision for ${toolCallId} must be "approve" or "reject"`;
+    }
+    if (args !== undefined && (action !== 'approve' || !isPlainObject(args))) {
+      return `"args" for ${toolCallId} must be an object on an approve decision`;
+    }
+    if (args !== undefined) {
+      const problem = toolRegistry.validateArgs(toolCall.function.name, args);
+      if (problem) return `Invalid args for ${toolCallId} (${toolCall.function.name}): ${problem}`;
+      const action = resolveToolPolicy(
+        toolCall.function.name,
+        args,
+        config.tools?.approval,
+        resolveWorkspaceRoots(config.tools?.workspaceRoots)[0]
+      );
+      if (action === 'deny') {
+        return `Edited args for ${toolCallId} (${toolCall.function.name}) are denied by policy`;
+      }
+    }
+    decisions.set(toolCallId, { toolCallId, action, ...(args !== undefined && { args }) });
+  }
+  const missing = toolCalls.find((toolCall) => !decisions.has(toolCall.id));
+  if (missing) return `Missing decision for ${missing.id}`;
+  return decisions;
+}
+
 // ── Route handlers ───────────────────────────────────────────
 
 function handleModels(res: http.ServerResponse): void {
@@ -1351,7 +1828,263 @@ function handleModels(res: http.ServerResponse): void {
   });
 }
 
-async function handleChat(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+/** Rolling per-model health and circuit-breaker state of the provider chain. */
+function handleProviderHealth(res: http.ServerResponse): void {
+  initShared();
+  sendJson(res, 200, providerManager.healthSnapshot());
+}
+
+/** Spend totals and budgets, limited to the sessions and profiles the key may use. */
+function handleCosts(res: http.ServerResponse, principal?: ApiPrincipal): void {
+  initShared();
+  sendJson(
+    res,
+    200,
+    costLedger.snapshot({
+      sessionPrefixes: principal?.sessionPrefixes,
+      profiles: principal?.profiles,
+    })
+  );
+}
+
+/**
+ * Scope check for the memories routes. Without a profile the request covers
+ * only the key's own profiles (the results are narrowed to them), so it is
+ * checked as one of those rather than as `default`.
+ */
+function authorizeMemories(principal: ApiPrincipal | undefined, userId: string, profile?: string) {
+  return authorizeScope(principal, { userId, profile: profile ?? principal?.profiles?.[0] });
+}
+
+/** `GET /api/memories?userId=<id>[&profile=<id>]`: a user's long-term facts. */
+function handleListMemories(url: string, res: http.ServerResponse, principal?: ApiPrincipal): void {
+  initShared();
+  const params = new URL(url, 'http://localhost').searchParams;
+  const userId = params.get('userId');
+  const profile = params.get('profile') ?? undefined;
+  if (!isValidUserId(userId)) {
+    sendJson(res, 400, { error: 'Missing or invalid "userId" parameter' });
+    return;
+  }
+  if (rejectUnauthorized(res, authorizeMemories(principal, userId, profile))) return;
+  const profiles = profile !== undefined ? [profile] : principal?.profiles;
+  sendJson(res, 200, { facts: longTermMemory.list(userId, profiles) });
+}
+
+/** `DELETE /api/memories` with `{userId, id}`, or `{userId, all: true}` to forget everything. */
+async function handleForgetMemories(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  principal?: ApiPrincipal
+): Promise<void> {
+  initShared();
+  const body = parseJsonBody(await readBody(req)) as {
+    userId?: unknown;
+    id?: unknown;
+    all?: unknown;
+  } | null;
+  if (!body || !isValidUserId(body.userId)) {
+    sendJson(res, 400, { error: 'Missing or invalid "userId" field' });
+    return;
+  }
+  if (typeof body.id !== 'string' && body.all !== true) {
+    sendJson(res, 400, { error: 'Give a fact "id", or "all": true' });
+    return;
+  }
+  if (rejectUnauthorized(res, authorizeMemories(principal, body.userId))) return;
+  const id = typeof body.id === 'string' ? body.id : undefined;
+  // A key bound to profiles can only forget facts it could have read.
+  const removed = longTermMemory.forget(body.userId, id, principal?.profiles);
+  if (id !== undefined && !removed) {
+    sendJson(res, 404, { error: 'Unknown fact id' });
+    return;
+  }
+  sendJson(res, 200, { deleted: removed });
+}
+
+function parseDate(value: string | null): number | undefined | null {
+  if (value === null) return undefined;
+  const time = Date.parse(value);
+  return Number.isNaN(time) ? null : time;
+}
+
+function parseCount(value: string | null, fallback: number, max: number): number | null {
+  if (value === null) return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  return Math.min(Number(value), max);
+}
+
+/**
+ * `GET /api/sessions`: stored sessions, newest first. Filters: `profile`,
+ * `channel`, `userId`, `from`/`to` (ISO dates), and `q` for full-text search;
+ * paged with `limit` and `offset`. A scoped key only sees its own sessions.
+ */
+function handleListSessions(url: string, res: http.ServerResponse, principal?: ApiPrincipal): void {
+  const params = new URL(url, 'http://localhost').searchParams;
+  const from = parseDate(params.get('from'));
+  const to = parseDate(params.get('to'));
+  if (from === null || to === null) {
+    sendJson(res, 400, { error: 'Invalid "from" or "to" date' });
+    return;
+  }
+  const limit = parseCount(params.get('limit'), 50, 200);
+  const offset = parseCount(params.get('offset'), 0, Number.MAX_SAFE_INTEGER);
+  if (!limit || offset === null) {
+    sendJson(res, 400, { error: 'Invalid "limit" or "offset" parameter' });
+    return;
+  }
+  const text = (key: string) => params.get(key) ?? undefined;
+  sendJson(
+    res,
+    200,
+    listSessions(
+      {
+        profile: text('profile'),
+        channel: text('channel'),
+        userId: text('userId'),
+        from,
+        to,
+        query: text('q'),
+        sessionPrefixes: principal?.sessionPrefixes,
+        profiles: principal?.profiles,
+      },
+      offset,
+      limit
+    )
+  );
+}
+
+/**
+ * `GET /api/sessions/<id>` for the transcript and stored state, or
+ * `GET /api/sessions/<id>/export?format=json|markdown|text` for a download.
+ */
+function handleGetSession(url: string, res: http.ServerResponse, principal?: ApiPrincipal): void {
+  const [path, search] = url.split('?');
+  const match = /^\/api\/sessions\/([^/]+)(\/export)?$/.exec(path);
+  const sessionId = match?.[1];
+  if (!match || !isValidSessionId(sessionId)) {
+    sendJson(res, 400, { error: 'Invalid session id' });
+    return;
+  }
+  const format = new URLSearchParams(search).get('format') ?? 'json';
+  if (match[2] && !EXPORT_FORMATS.includes(format as ExportFormat)) {
+    sendJson(res, 400, { error: `"format" must be one of: ${EXPORT_FORMATS.join(', ')}` });
+    return;
+  }
+  const detail = readSession(sessionId);
+  const scope = { sessionId, profile: detail?.metadata?.profile };
+  if (rejectUnauthorized(res, authorizeScope(principal, scope))) return;
+  if (!detail) {
+    sendJson(res, 404, { error: 'Unknown session' });
+    return;
+  }
+  if (!match[2]) {
+    sendJson(res, 200, detail);
+    return;
+  }
+  const exportFormat = format as ExportFormat;
+  const extension = { json: 'json', markdown: 'md', text: 'txt' }[exportFormat];
+  const contentType = {
+    json: 'application/json',
+    markdown: 'text/markdown',
+    text: 'text/plain',
+  }[exportFormat];
+  res.setHeader('Content-Disposition', `attachment; filename="${sessionId}.${extension}"`);
+  res.writeHead(200, { 'Content-Type': `${contentType}; charset=utf-8` });
+  res.end(exportSession(detail, exportFormat));
+}
+
+/**
+ * `POST /api/sessions/<id>/rewind` with `{ index }` cuts the transcript before
+ * message `index`; `POST /api/sessions/<id>/fork` with optional `index` and
+ * `sessionId` copies it up to there into a new session, by default under a
+ * fresh id. Either way the cut must fall before a user message.
+ */
+async function handleSessionAction(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  url: string,
+  principal?: ApiPrincipal
+): Promise<void> {
+  const match = /^\/api\/sessions\/([^/]+)\/(rewind|fork)$/.exec(url);
+  if (!match) {
+    sendJson(res, 404, { error: 'Not found' });
+    return;
+  }
+  const [, sessionId, action] = match;
+  const body = parseJsonBody(await readBody(req)) as {
+    index?: unknown;
+    sessionId?: unknown;
+  } | null;
+  if (!isValidSessionId(sessionId)) {
+    sendJson(res, 400, { error: 'Invalid session id' });
+    return;
+  }
+  if (!body) {
+    sendJson(res, 400, { error: 'Invalid JSON body' });
+    return;
+  }
+  const index = body.index;
+  if (index !== undefined ? typeof index !== 'number' : action === 'rewind') {
+    sendJson(res, 400, { error: 'Invalid "index" field' });
+    return;
+  }
+  if (action === 'fork' && body.sessionId !== undefined && !isValidSessionId(body.sessionId)) {
+    sendJson(res, 400, { error: 'Invalid "sessionId" field' });
+    return;
+  }
+  const sessions = getSessionManager();
+  const exists = sessions.hasSession(sessionId);
+  const profile = exists ? getMemory(sessionId).getMetadata()?.profile : undefined;
+  if (rejectUnauthorized(res, authorizeScope(principal, { sessionId, profile }))) return;
+  if (!exists) {
+    sendJson(res, 404, { error: 'Unknown session' });
+    return;
+  }
+
+  if (action === 'rewind') {
+    const memory = getMemory(sessionId);
+    try {
+      const removed = memory.rewind(index as number);
+      if (removed > 0) discardPendingFor(sessionId);
+      sendJson(res, 200, { sessionId, removed, messageCount: memory.getMessages().length });
+    } catch (error) {
+      if (!(error instanceof SessionError)) throw error;
+      sendJson(res, 400, { error: error.message });
+    }
+    return;
+  }
+
+  const targetId =
+    (body.sessionId as string | undefined) ??
+    (isEphemeralSessionId(sessionId)
+      ? `voice-${crypto.randomBytes(16).toString('hex')}`
+      : `fork-${crypto.randomBytes(8).toString('hex')}`);
+  if (rejectUnauthorized(res, authorizeScope(principal, { sessionId: targetId, profile }))) {
+    return;
+  }
+  if (sessions.hasSession(targetId)) {
+    sendJson(res, 409, { error: `Session ${targetId} already exists` });
+    return;
+  }
+  try {
+    const fork = sessions.forkSession(sessionId, targetId, index as number | undefined);
+    sendJson(res, 201, {
+      sessionId: targetId,
+      forkedFrom: sessionId,
+      messageCount: fork.getMessages().length,
+    });
+  } catch (error) {
+    if (!(error instanceof SessionError)) throw error;
+    sendJson(res, 400, { error: error.message });
+  }
+}
+
+async function handleChat(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  principal?: ApiPrincipal
+): Promise<void> {
   const body = parseJsonBody(await readBody(req)) as {
     message?: string;
     sessionId?: string;
@@ -1364,6 +2097,8 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
     documentScope?: unknown;
     fallbacks?: unknown;
     firstTokenTimeoutMs?: unknown;
+    userId?: unknown;
+    channel?: unknown;
   } | null;
   if (!body || typeof body.message !== 'string' || !body.message.trim()) {
     sendJson(res, 400, { error: 'Missing or empty "message" field' });
@@ -1373,6 +2108,14 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
     sendJson(res, 400, { error: 'Invalid "sessionId" field' });
     return;
   }
+  if (body.userId !== undefined && !isValidUserId(body.userId)) {
+    sendJson(res, 400, { error: 'Invalid "userId" field' });
+    return;
+  }
+  if (body.channel !== undefined && !isValidSessionId(body.channel)) {
+    sendJson(res, 400, { error: 'Invalid "channel" field' });
+    return;
+  }
   if (
     body.analysisStyle !== undefined &&
     body.analysisStyle !== 'topic_map' &&
@@ -1414,7 +2157,44 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
     return;
   }
   const sessionId = body.sessionId ?? 'default';
+  const profile = typeof body.profile === 'string' ? body.profile : undefined;
+  const agentConfig = {
+    ...getAgentConfig(
+      body.model,
+      profile,
+      body.analysisStyle as AnalysisStyle | undefined,
+      body.responseMode as 'text' | 'voice' | undefined,
+      sanitizeRuntimeSettings(body.runtimeSettings),
+      parseDocumentScope(body.documentScope)
+    ),
+    ...(body.userId !== undefined && { userId: body.userId }),
+  };
+  // Checked against the model that will actually run, not the requested id:
+  // an unavailable override silently resolves to the default model.
+  if (
+    rejectUnauthorized(
+      res,
+      authorizeScope(principal, {
+        sessionId,
+        profile,
+        model: agentConfig.model,
+        userId: agentConfig.userId,
+      })
+    )
+  ) {
+    return;
+  }
+  const budget = costLedger.check(sessionId, agentConfig.profileId ?? 'default');
+  if (rejectOverBudget(res, budget)) return;
+  const turnConfig = budgetedConfig(agentConfig, budget);
+
   const memory = getMemory(sessionId);
+  getSessionManager().recordActivity(sessionId, {
+    profile: agentConfig.profileId ?? 'default',
+    channel: body.channel ?? memory.getMetadata()?.channel ?? 'api',
+    userId: agentConfig.userId,
+    model: agentConfig.model,
+  });
 
   memory.addMessage({ role: 'user', content: body.message });
 
@@ -1424,15 +2204,6 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
   // (found on the first in-container verification, 2026-08-04).
   shadowDecide(sessionId, body.message);
 
-  const profile = typeof body.profile === 'string' ? body.profile : undefined;
-  const agentConfig = getAgentConfig(
-    body.model,
-    profile,
-    body.analysisStyle as AnalysisStyle | undefined,
-    body.responseMode as 'text' | 'voice' | undefined,
-    sanitizeRuntimeSettings(body.runtimeSettings),
-    parseDocumentScope(body.documentScope)
-  );
   const providerOptions: ProviderRequestOptions | undefined =
     body.fallbacks === false || body.firstTokenTimeoutMs !== undefined
       ? {
@@ -1449,7 +2220,7 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
       res,
       stepLoopStream(
         memory,
-        agentConfig,
+        turnConfig,
         0,
         controller.signal,
         body.evalTrace === true,
@@ -1458,58 +2229,110 @@ async function handleChat(req: http.IncomingMessage, res: http.ServerResponse):
     );
     return;
   }
-  const result = await stepLoop(memory, agentConfig, 0, body.evalTrace === true, providerOptions);
+  const result = await stepLoop(memory, turnConfig, 0, body.evalTrace === true, providerOptions);
   sendJson(res, 200, result);
 }
 
-async function handleApprove(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+async function handleApprove(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  principal?: ApiPrincipal
+): Promise<void> {
   const body = parseJsonBody(await readBody(req)) as {
     requestId?: string;
     sessionId?: string;
+    decisions?: unknown;
   } | null;
   if (!body || typeof body.requestId !== 'string' || typeof body.sessionId !== 'string') {
     sendJson(res, 400, { error: 'Missing "requestId" or "sessionId" field' });
     return;
   }
   const pending = pendingRequests.get(body.requestId);
+  const profile =
+    pending?.sessionId === body.sessionId
+      ? pending.agentConfig.profileId
+      : storedSessionProfile(body.sessionId);
+  if (rejectUnauthorized(res, authorizeScope(principal, { sessionId: body.sessionId, profile }))) {
+    return;
+  }
 
   if (!pending || pending.sessionId !== body.sessionId) {
     sendJson(res, 404, { error: 'Unknown or expired requestId' });
     return;
   }
 
-  pendingRequests.delete(body.requestId);
-  pendingTimestamps.delete(body.requestId);
-  if (isEphemeralSessionId(pending.sessionId)) {
-    sessionLastUsed.set(pending.sessionId, Date.now());
+  // Without `decisions` the whole batch is approved as before. A malformed
+  // list, or edited arguments the tool's schema or the policy rejects, leaves
+  // the card pending so the client can correct and resend it.
+  const memory = getMemory(pending.sessionId);
+  const toolRegistry = await createToolRegistry(memory, pending.agentConfig);
+  // A concurrent approve or reject may have settled the card meanwhile.
+  if (pendingRequests.get(body.requestId) !== pending) {
+    sendJson(res, 404, { error: 'Unknown or expired requestId' });
+    return;
+  }
+  let decisions: Map<string, ToolDecision> | undefined;
+  if (body.decisions !== undefined) {
+    const parsed = parseToolDecisions(body.decisions, pending.toolCalls, toolRegistry);
+    if (typeof parsed === 'string') {
+      sendJson(res, 400, { error: parsed });
+      return;
+    }
+    decisions = parsed;
   }
 
-  // Execute approved tools
-  const toolRegistry = createToolRegistry();
-  for (const toolCall of pending.toolCalls) {
-    const toolName = toolCall.function.name;
-    const toolArgs = safeParseToolArgs(toolCall.function.arguments);
+  takePending(body.requestId);
 
-    const toolStart = Date.now();
-    const toolResult = await toolRegistry.execute(toolName, toolArgs);
-    const toolDuration = Date.now() - toolStart;
+  // Apply edits first so the transcript shows the calls that actually run.
+  const approvedCalls: ToolCall[] = [];
+  for (const toolCall of pending.toolCalls) {
+    const decision = decisions?.get(toolCall.id);
+    if (decision?.action === 'reject') continue;
+    if (!decision?.args) {
+      approvedCalls.push(toolCall);
+      continue;
+    }
+    const argumentsJson = JSON.stringify(decision.args);
+    memory.replaceToolCallArguments(toolCall.id, argumentsJson);
+    approvedCalls.push({
+      ...toolCall,
+      function: { ...toolCall.function, arguments: argumentsJson },
+    });
+  }
 
+  // Read-only calls run concurrently; results and refusals are recorded in call order.
+  const executions = await executeToolCalls(
+    toolRegistry,
+    approvedCalls,
+    toolExecutionOptions(config.tools)
+  );
+  const executed = new Map(executions.map((execution) => [execution.toolCall.id, execution]));
+  recordBatchResults(
+    memory,
+    pending,
+    pending.toolCalls.map((toolCall) => {
+      const execution = executed.get(toolCall.id);
+      return execution
+        ? toolResultMessage(execution)
+        : {
+            role: 'tool',
+            content: USER_REJECTED_MESSAGE,
+            name: toolCall.function.name,
+            tool_call_id: toolCall.id,
+          };
+    })
+  );
+  if (decisions) {
+    const rejected = [...decisions.values()].filter((d) => d.action === 'reject').length;
     logger.info(
       {
-        tool: toolName,
-        success: toolResult.success,
-        durationMs: toolDuration,
-        ...(toolResult.error && { error: toolResult.error }),
+        requestId: body.requestId,
+        approved: decisions.size - rejected,
+        rejected,
+        edited: [...decisions.values()].filter((d) => d.args).length,
       },
-      'Tool execution complete'
+      'Tool decisions applied'
     );
-
-    pending.memory.addMessage({
-      role: 'tool',
-      content: toolResult.success ? toolResult.output : `Error: ${toolResult.error}`,
-      name: toolName,
-      tool_call_id: toolCall.id,
-    });
   }
 
   // Continue the loop
@@ -1517,7 +2340,7 @@ async function handleApprove(req: http.IncomingMessage, res: http.ServerResponse
     await streamLoopToSSE(
       res,
       stepLoopStream(
-        pending.memory,
+        memory,
         pending.agentConfig,
         pending.iteration,
         undefined,
@@ -1528,7 +2351,7 @@ async function handleApprove(req: http.IncomingMessage, res: http.ServerResponse
     return;
   }
   const result = await stepLoop(
-    pending.memory,
+    memory,
     pending.agentConfig,
     pending.iteration,
     pending.evalTrace,
@@ -1537,7 +2360,11 @@ async function handleApprove(req: http.IncomingMessage, res: http.ServerResponse
   sendJson(res, 200, result);
 }
 
-async function handleReject(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+async function handleReject(
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+  principal?: ApiPrincipal
+): Promise<void> {
   const body = parseJsonBody(await readBody(req)) as {
     requestId?: string;
     sessionId?: string;
@@ -1547,34 +2374,40 @@ async function handleReject(req: http.IncomingMessage, res: http.ServerResponse)
     return;
   }
   const pending = pendingRequests.get(body.requestId);
+  const profile =
+    pending?.sessionId === body.sessionId
+      ? pending.agentConfig.profileId
+      : storedSessionProfile(body.sessionId);
+  if (rejectUnauthorized(res, authorizeScope(principal, { sessionId: body.sessionId, profile }))) {
+    return;
+  }
 
   if (!pending || pending.sessionId !== body.sessionId) {
     sendJson(res, 404, { error: 'Unknown or expired requestId' });
     return;
   }
 
-  pendingRequests.delete(body.requestId);
-  pendingTimestamps.delete(body.requestId);
-  if (isEphemeralSessionId(pending.sessionId)) {
-    sessionLastUsed.set(pending.sessionId, Date.now());
-  }
+  takePending(body.requestId);
+  const memory = getMemory(pending.sessionId);
 
   // Add tool rejection messages so LLM knows tools were denied
-  for (const toolCall of pending.toolCalls) {
-    pending.memory.addMessage({
+  recordBatchResults(
+    memory,
+    pending,
+    pending.toolCalls.map((toolCall) => ({
       role: 'tool',
-      content: 'Tool execution was rejected by the user.',
+      content: USER_REJECTED_MESSAGE,
       name: toolCall.function.name,
       tool_call_id: toolCall.id,
-    });
-  }
+    }))
+  );
 
   // Continue loop — LLM will respond without tool results
   if (wantsStream(req)) {
     await streamLoopToSSE(
       res,
       stepLoopStream(
-        pending.memory,
+        memory,
         pending.agentConfig,
         pending.iteration,
         undefined,
@@ -1585,7 +2418,7 @@ async function handleReject(req: http.IncomingMessage, res: http.ServerResponse)
     return;
   }
   const result = await stepLoop(
-    pending.memory,
+    memory,
     pending.agentConfig,
     pending.iteration,
     pending.evalTrace,
@@ -1596,13 +2429,18 @@ async function handleReject(req: http.IncomingMessage, res: http.ServerResponse)
 
 async function handleDeleteSession(
   req: http.IncomingMessage,
-  res: http.ServerResponse
+  res: http.ServerResponse,
+  principal?: ApiPrincipal
 ): Promise<void> {
   const body = parseJsonBody(await readBody(req)) as { sessionId?: string } | null;
   if (!body || typeof body.sessionId !== 'string' || !isEphemeralSessionId(body.sessionId)) {
     sendJson(res, 400, { error: 'Invalid anonymous sessionId' });
     return;
   }
+  const profile = storedSessionProfile(body.sessionId);
+  if (rejectUnauthorized(res, authorizeScope(principal, { sessionId: body.sessionId, profile }))) {
+    return;
+  }
 
   deleteSession(body.sessionId);
   sendJson(res, 200, { deleted: true });
@@ -1613,10 +2451,9 @@ async function handleDeleteSession(
 export function createServer(): http.Server {
   initShared();
 
-  // Sweep anonymous files that outlived their cleanup callback. The age bound
-  // avoids deleting a live conversation owned by another API process during a
-  // rolling restart; periodic cleanup applies the same explicit 24-hour TTL.
-  sweepEphemeralMemory(new Set(sessionMemories.keys()), EPHEMERAL_SESSION_TTL_MS);
+  // Sweep anonymous sessions that outlived their cleanup callback; periodic
+  // cleanup applies the same 24-hour TTL (see SessionManager.sweepExpired).
+  getSessionManager().sweepExpired();
 
   // Periodic cleanup of stale pending requests
   const cleanupInterval = setInterval(cleanupStale, 60_000);
@@ -1626,20 +2463,52 @@ export function createServer(): http.Server {
       const url = req.url || '';
       const method = req.method || '';
 
+      setCorsHeaders(req, res);
+
       // CORS preflight
       if (method === 'OPTIONS') {
-        setCorsHeaders(res);
         res.writeHead(204);
         res.end();
         return;
       }
 
       try {
+        // The health check stays open: the container healthcheck and the
+        // voice watchdog probe it without credentials.
         if (method === 'GET' && url === '/api/health') {
           sendJson(res, 200, { status: 'ok' });
-        } else if (method === 'GET' && url === '/api/models') {
-          setCorsHeaders(res);
+          return;
+        }
+        const auth = authenticateRequest(req, config.api);
+        if (rejectUnauthorized(res, auth)) return;
+        const principal = auth.ok ? auth.principal : undefined;
+
+        if (method === 'GET' && url === '/api/models') {
           handleModels(res);
+        } else if (method === 'GET' && url === '/api/providers/health') {
+          handleProviderHealth(res);
+        } else if (method === 'GET' && url === '/api/costs') {
+          handleCosts(res, principal);
+        } else if (method === 'GET' && url.split('?')[0] === '/api/memories') {
+          handleListMemories(url, res, principal);
+        } else if (method === 'GET' && url.split('?')[0] === '/api/sessions') {
+          handleListSessions(url, res, principal);
+        } else if (method === 'GET' && url.startsWith('/api/sessions/')) {
+          handleGetSession(url, res, principal);
+        } else if (method === 'POST' && url.startsWith('/api/sessions/')) {
+          const ct = req.headers['content-type'] || '';
+          if (!ct.includes('application/json')) {
+            sendJson(res, 415, { error: 'Content-Type must be application/json' });
+            return;
+          }
+          await handleSessionAction(req, res, url, principal);
+        } else if (method === 'DELETE' && url === '/api/memories') {
+          const ct = req.headers['content-type'] || '';
+          if (!ct.includes('application/json')) {
+            sendJson(res, 415, { error: 'Content-Type must be application/json' });
+            return;
+          }
+          await handleForgetMemories(req, res, principal);
         } else if (
           method === 'POST' &&
           (url === '/api/chat' || url === '/api/chat/approve' || url === '/api/chat/reject')
@@ -1649,27 +2518,30 @@ export function createServer(): http.Server {
             sendJson(res, 415, { error: 'Content-Type must be application/json' });
             return;
           }
-          if (url === '/api/chat') await handleChat(req, res);
-          else if (url === '/api/chat/approve') await handleApprove(req, res);
-          else await handleReject(req, res);
+          if (url === '/api/chat') await handleChat(req, res, principal);
+          else if (url === '/api/chat/approve') await handleApprove(req, res, principal);
+          else await handleReject(req, res, principal);
         } else if (method === 'DELETE' && url === '/api/session') {
           const ct = req.headers['content-type'] || '';
           if (!ct.includes('application/json')) {
             sendJson(res, 415, { error: 'Content-Type must be application/json' });
             return;
           }
-          await handleDeleteSession(req, res);
+          await handleDeleteSession(req, res, principal);
         } else {
           sendJson(res, 404, { error: 'Not found' });
         }
       } catch (error) {
         logger.error({ error, url, method }, 'API error');
-        sendJson(res, 500, { error: (error as Error).message });
+        sendJson(res, 500, errorBody(error));
       }
     })();
   });
 
-  server.on('close', () => clearInterval(cleanupInterval));
+  server.on('close', () => {
+    clearInterval(cleanupInterval);
+    closeMcpServers();
+  });
 
   return server;
 }
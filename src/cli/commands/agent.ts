@@ -2,6 +2,7 @@ import * as readline from 'readline';
 import chalk from 'chalk';
 import { getConfig } from '../../config/index';
 import { AgentLoop } from '../../agent/loop';
+import { getSessionManager } from '../../session/index';
 
 /**
  * Agent command - chat with the AI agent
@@ -13,6 +14,7 @@ export async function agentCommand(options: { message?: string; session?: string
   const config = getConfig();
 
   // Create agent loop
+  getSessionManager().recordActivity(sessionId, { channel: 'cli' });
   const agent = new AgentLoop(sessionId, config);
 
   // Single message mode
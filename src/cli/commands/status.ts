@@ -2,7 +2,7 @@ import chalk from 'chalk';
 import Table from 'cli-table3';
 import { getConfig } from '../../config/index';
 import { ProviderConfig } from '../../types';
-import { PROVIDERS } from '../../providers/registry';
+import { PROVIDERS, hasProviderCredentials } from '../../providers/registry';
 
 /**
  * Status command - show system status
@@ -25,12 +25,13 @@ export async function statusCommand(): Promise<void> {
 
     for (const spec of PROVIDERS) {
       const providerConfig = providersConfig?.[spec.name];
-      const hasKey = !!(providerConfig && providerConfig.apiKey);
+      const configured = hasProviderCredentials(spec.name, providerConfig);
       const enabled = providerConfig?.enabled !== false;
 
-      const status = hasKey && enabled ? chalk.green('✓ Configured') : chalk.gray('Not configured');
-      const apiKey = hasKey
-        ? chalk.gray(`${providerConfig.apiKey?.substring(0, 8)}...`)
+      const status =
+        configured && enabled ? chalk.green('✓ Configured') : chalk.gray('Not configured');
+      const apiKey = providerConfig?.apiKey
+        ? chalk.gray(`${providerConfig.apiKey.substring(0, 8)}...`)
         : chalk.gray('-');
 
       providerTable.push([spec.displayName, status, apiKey]);
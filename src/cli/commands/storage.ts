@@ -0,0 +1,46 @@
+import chalk from 'chalk';
+import { getConfig } from '../../config/index';
+import {
+  FileSessionStore,
+  SqliteSessionStore,
+  defaultSqlitePath,
+  migrateFileStore,
+} from '../../storage/index';
+import { getMemoryDir } from '../../utils/helpers';
+
+/**
+ * Storage migrate command - import the JSON session files into SQLite
+ */
+export function storageMigrateCommand(options: { db?: string; overwrite?: boolean }): void {
+  try {
+    const config = getConfig();
+    const dbPath = options.db ?? config.storage.path ?? defaultSqlitePath();
+    const target = new SqliteSessionStore(dbPath);
+    try {
+      const result = migrateFileStore(new FileSessionStore(), target, options.overwrite === true);
+
+      console.log(chalk.green(`\n✓ Imported ${result.imported} session(s) into ${dbPath}\n`));
+      if (result.skipped > 0) {
+        console.log(
+          chalk.gray(`  Skipped ${result.skipped} already in the database (use --overwrite).`)
+        );
+      }
+      for (const failure of result.failed) {
+        console.log(
+          chalk.yellow(`  ${failure.sessionId}: unreadable ${failure.kind} (${failure.error})`)
+        );
+      }
+      if (config.storage.backend !== 'sqlite') {
+        console.log(
+          chalk.gray('\n  Set "storage": {"backend": "sqlite"} in config.json to use it.')
+        );
+      }
+      console.log(chalk.gray(`  The JSON files in ${getMemoryDir()} were left in place.\n`));
+    } finally {
+      target.close();
+    }
+  } catch (error) {
+    console.error(chalk.red(`\nError: ${(error as Error).message}\n`));
+    process.exit(1);
+  }
+}
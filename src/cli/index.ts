@@ -14,6 +14,7 @@ import {
   cronEnableCommand,
   cronDisableCommand,
 } from './commands/cron';
+import { storageMigrateCommand } from './commands/storage';
 import { logger } from '../utils/logger';
 
 const program = new Command();
@@ -175,6 +176,24 @@ cron
     }
   });
 
+// Storage commands
+const storage = program.command('storage').description('Manage conversation storage');
+
+storage
+  .command('migrate')
+  .description('Import JSON session files into the SQLite store')
+  .option('--db <path>', 'SQLite database path (default: storage.path or ~/.nano-claw/sessions.db)')
+  .option('--overwrite', 'Replace sessions already in the database')
+  .action((options: { db?: string; overwrite?: boolean }) => {
+    try {
+      storageMigrateCommand(options);
+    } catch (error) {
+      logger.error({ error }, 'Storage migrate failed');
+      console.error(chalk.red(`Error: ${(error as Error).message}`));
+      process.exit(1);
+    }
+  });
+
 // Parse arguments
 program.parse(process.argv);
 
@@ -9,7 +9,18 @@ export { getConfigDir } from '../utils/helpers';
 
 const EXPLICIT_TRUE_VALUES = new Set(['1', 'true', 'yes', 'on']);
 const EXPLICIT_FALSE_VALUES = new Set(['0', 'false', 'no', 'off']);
-const BUILT_IN_TOOL_NAMES = ['shell', 'read_file', 'write_file'] as const;
+const BUILT_IN_TOOL_NAMES = [
+  'shell',
+  'read_file',
+  'write_file',
+  'edit_file',
+  'apply_patch',
+  'list_dir',
+  'glob',
+  'grep_files',
+  'spawn_subagent',
+  'check_subagent',
+] as const;
 
 /**
  * Parse an environment flag that gates a dangerous capability.
@@ -128,7 +139,7 @@ function envInt(name: string): number | undefined {
  */
 export function mergeEnvConfig(config: Config): Config {
   // Check for provider API keys in environment variables
-  const envProviders: Record<string, { apiKey?: string; apiBase?: string }> = {};
+  const envProviders: Record<string, { apiKey?: string; apiBase?: string; fixtures?: string }> = {};
 
   // Ollama needs no key, but its endpoint IS deployment-specific: the local
   // Docker host, or a bigger box on the LAN holding models this machine has no
@@ -141,6 +152,12 @@ export function mergeEnvConfig(config: Config): Config {
     envProviders.ollama = { apiBase: ollamaBase };
   }
 
+  // Setting a fixture file is enough to enable the keyless mock provider.
+  const mockFixtures = process.env.NANO_CLAW_MOCK_FIXTURES?.trim();
+  if (mockFixtures) {
+    envProviders.mock = { fixtures: mockFixtures };
+  }
+
   if (process.env.OPENROUTER_API_KEY) {
     envProviders.openrouter = { apiKey: process.env.OPENROUTER_API_KEY };
   }
@@ -9,10 +9,19 @@ export const ProviderConfigSchema = z.object({
   enabled: z.boolean().optional().default(true),
 });
 
+/**
+ * Offline mock provider: scripted turns replayed from a fixture file. Needs
+ * no API key; `fixtures` defaults to ~/.nano-claw/mock-fixtures.json.
+ */
+export const MockProviderConfigSchema = ProviderConfigSchema.extend({
+  fixtures: z.string().optional(),
+});
+
 /**
  * Providers configuration schema
  */
 export const ProvidersConfigSchema = z.object({
+  mock: MockProviderConfigSchema.optional(),
   openrouter: ProviderConfigSchema.optional(),
   anthropic: ProviderConfigSchema.optional(),
   openai: ProviderConfigSchema.optional(),
@@ -72,6 +81,54 @@ export const IntelligenceConfigSchema = z
     path: ['candidatePool'],
   });
 
+/** Per-model circuit breaker over the fallback chain (see providers/health.ts). */
+export const CircuitBreakerSchema = z.object({
+  enabled: z.boolean().default(true),
+  /** Outcomes kept per model for error rate and latency. */
+  windowSize: z.number().int().min(1).max(1000).default(20),
+  /** Outcomes required before the failure rate can open the breaker. */
+  minSamples: z.number().int().min(1).default(5),
+  /** Errors plus timeouts, as a fraction of the window, that open the breaker. */
+  failureRate: z.number().gt(0).max(1).default(0.5),
+  /** Failures in a row that open the breaker regardless of the window. */
+  consecutiveFailures: z.number().int().min(1).default(3),
+  /** How long an open breaker waits before letting one probe through. */
+  openMs: z.number().int().positive().default(30000),
+});
+
+/**
+ * Same-model retries for rate limits, 5xx and dropped connections
+ */
+export const RetrySchema = z.object({
+  /** Retries after the first try; 0 disables retrying. */
+  maxRetries: z.number().int().min(0).max(10).default(2),
+  /** First backoff ceiling; doubles per retry, with jitter. */
+  baseDelayMs: z.number().int().min(0).default(250),
+  maxDelayMs: z.number().int().min(0).default(4000),
+});
+
+/**
+ * Token-budgeted history compaction (see agent/compaction.ts)
+ */
+export const CompactionSchema = z
+  .object({
+    enabled: z.boolean().default(true),
+    /** History may use this share of the model's context window before older
+     * turns are folded into the rolling summary. */
+    historyShare: z.number().gt(0).max(1).default(0.5),
+    /** Share of the window kept verbatim after a compaction. */
+    keepShare: z.number().gt(0).max(1).default(0.25),
+    /** Model that writes the summary; defaults to the turn's model. */
+    summaryModel: z.string().optional(),
+    summaryMaxTokens: z.number().int().positive().default(600),
+    /** Context window in tokens by model id, over the built-in table. */
+    contextTokens: z.record(z.number().int().positive()).default({}),
+  })
+  .refine((v) => v.keepShare < v.historyShare, {
+    message: 'keepShare must be less than historyShare',
+    path: ['keepShare'],
+  });
+
 /**
  * Agent defaults configuration schema
  */
@@ -98,6 +155,9 @@ export const AgentDefaultsSchema = z.object({
    * fallbackTimeoutMs wait on every turn where the primary is slow. Unset =
    * sequential fallback (unchanged behavior). */
   fallbackHedgeMs: z.number().positive().optional(),
+  circuitBreaker: CircuitBreakerSchema.optional(),
+  retry: RetrySchema.optional(),
+  compaction: CompactionSchema.optional(),
 });
 
 /**
@@ -121,14 +181,109 @@ export const AgentsConfigSchema = z.object({
 /**
  * Tools configuration schema
  */
+/**
+ * Tool approval policy. `auto` runs the call without asking, `ask` pauses for
+ * approval (the API's approval card), `deny` refuses it. First matching rule
+ * wins; see src/agent/tools/policy.ts for pattern syntax.
+ */
+export const ToolPolicyActionSchema = z.enum(['auto', 'ask', 'deny']);
+
+export const ToolPolicyRuleSchema = z.object({
+  /** Tool name, or `*` for any tool. */
+  tool: z.string().min(1),
+  action: ToolPolicyActionSchema,
+  /** Glob per argument name; every listed argument must match. */
+  args: z.record(z.string()).optional(),
+});
+
+export const ToolApprovalConfigSchema = z.object({
+  default: ToolPolicyActionSchema.optional().default('ask'),
+  rules: z.array(ToolPolicyRuleSchema).optional().default([]),
+});
+
+/**
+ * Shell tool sandbox. `shell` mode validates every segment of a command line
+ * and then runs it through /bin/sh; `argv` mode spawns a single command with
+ * no shell at all. Limits apply to the whole process group.
+ */
+export const ShellSandboxSchema = z.object({
+  mode: z.enum(['shell', 'argv']).optional().default('shell'),
+  timeoutMs: z.number().int().positive().optional().default(30000),
+  maxOutputBytes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(1024 * 1024),
+  /** CPU-seconds ceiling (`ulimit -t`). */
+  cpuSeconds: z.number().int().positive().optional(),
+  /** Address-space ceiling in MB (`ulimit -v`); runtimes like node need several GB. */
+  memoryMb: z.number().int().positive().optional(),
+  /** Extra environment variables passed through; everything else is dropped. */
+  envAllowlist: z.array(z.string()).optional().default([]),
+});
+
+/**
+ * How a batch of tool calls runs. Consecutive read-only calls run side by
+ * side, at most `maxConcurrency` at once; anything with side effects runs
+ * alone, in call order. A call still running after its timeout is answered
+ * with a timeout error.
+ */
+export const ToolExecutionSchema = z.object({
+  maxConcurrency: z.number().int().positive().optional().default(4),
+  timeoutMs: z.number().int().positive().optional().default(60000),
+  /** Per-tool overrides of `timeoutMs`, keyed by tool name. */
+  toolTimeoutsMs: z.record(z.number().int().positive()).optional().default({}),
+});
+
+/**
+ * An external MCP server whose tools are offered to the agent. Exactly one
+ * of `command` (spawned, JSON-RPC over stdio) or `url` (JSON-RPC over HTTP
+ * POST) is set. Its tools are registered as `mcp__<server>__<tool>`.
+ */
+export const McpServerSchema = z
+  .object({
+    enabled: z.boolean().optional().default(true),
+    command: z.string().min(1).optional(),
+    args: z.array(z.string()).optional().default([]),
+    /** Extra environment for a stdio server; the rest of ours is not passed. */
+    env: z.record(z.string()).optional().default({}),
+    cwd: z.string().optional(),
+    url: z.string().url().optional(),
+    headers: z.record(z.string()).optional().default({}),
+    /** Per-request ceiling for `tools/call` and the handshake. */
+    timeoutMs: z.number().int().positive().optional().default(30000),
+    /** Only register these tools (their MCP names); all when unset. */
+    tools: z.array(z.string()).optional(),
+  })
+  .refine((server) => !!server.command !== !!server.url, {
+    message: 'Set exactly one of "command" or "url"',
+  });
+
 export const ToolsConfigSchema = z.object({
   /** Dangerous built-in tools default off. NANO_CLAW_ENABLE_TOOLS=true is
    * required at the process boundary; NANO_CLAW_DISABLE_TOOLS=true remains a
    * temporary legacy kill switch. */
   enabled: z.boolean().optional().default(false),
   restrictToWorkspace: z.boolean().optional().default(false),
+  /** Directories the tools are confined to under restrictToWorkspace; defaults to the working directory. */
+  workspaceRoots: z.array(z.string()).optional(),
+  /** Paths the file tools always refuse (globs, `~` allowed); replaces the built-in list. */
+  deniedPaths: z.array(z.string()).optional(),
+  /** Largest chunk one read_file call returns; larger files need offset/limit. */
+  maxReadBytes: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .default(256 * 1024),
   allowedCommands: z.array(z.string()).optional(),
   deniedCommands: z.array(z.string()).optional(),
+  approval: ToolApprovalConfigSchema.optional().default({}),
+  shell: ShellSandboxSchema.optional().default({}),
+  execution: ToolExecutionSchema.optional().default({}),
+  /** External MCP servers, keyed by the name used in their tools' prefix. */
+  mcpServers: z.record(McpServerSchema).optional().default({}),
 });
 
 /**
@@ -268,6 +423,109 @@ export const DecisionCoreConfigSchema = z.object({
   domainPins: z.record(z.string()).optional().default({}),
 });
 
+/**
+ * One HTTP API credential. Only the SHA-256 hex digest of the bearer is
+ * stored; the raw key is shown to its holder once and never written here.
+ * Each omitted list means "unrestricted" on that axis.
+ */
+export const ApiKeySchema = z.object({
+  /** Tenant/label reported in logs — never the key itself. */
+  id: z.string().min(1),
+  keyHash: z.string().regex(/^[0-9a-f]{64}$/, 'keyHash must be a lowercase SHA-256 hex digest'),
+  profiles: z.array(z.string().min(1)).optional(),
+  models: z.array(z.string().min(1)).optional(),
+  sessionPrefixes: z.array(z.string().min(1)).optional(),
+  /** User ids (long-term memory owners) the key may act for, by prefix. */
+  userPrefixes: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * HTTP API configuration schema
+ */
+export const ApiConfigSchema = z.object({
+  auth: z
+    .object({
+      /** Fail-closed once on: enabled with no keys rejects every request. */
+      enabled: z.boolean().optional().default(false),
+      keys: z.array(ApiKeySchema).optional().default([]),
+    })
+    .optional()
+    .default({}),
+  cors: z
+    .object({
+      /** Origins allowed to call the API from a browser. Unset keeps the
+       * historical `*`; an empty list sends no CORS grant at all. */
+      allowedOrigins: z.array(z.string().min(1)).optional(),
+    })
+    .optional()
+    .default({}),
+});
+
+/** USD per million tokens for one model. Cache tiers default to the input price. */
+export const ModelPriceSchema = z.object({
+  input: z.number().min(0),
+  output: z.number().min(0),
+  cacheRead: z.number().min(0).optional(),
+  cacheWrite: z.number().min(0).optional(),
+});
+
+/** Spend limits in USD. Past `softUsd` turns move to the downgrade model; past
+ * `hardUsd` they are refused. */
+export const BudgetLimitSchema = z
+  .object({
+    softUsd: z.number().positive().optional(),
+    hardUsd: z.number().positive().optional(),
+  })
+  .refine((v) => v.softUsd === undefined || v.hardUsd === undefined || v.softUsd <= v.hardUsd, {
+    message: 'softUsd must not exceed hardUsd',
+    path: ['softUsd'],
+  });
+
+/**
+ * Cost accounting and budgets (see agent/cost-ledger.ts)
+ */
+export const CostsConfigSchema = z.object({
+  /** Prices by model id, merged over the built-in table. */
+  pricing: z.record(ModelPriceSchema).optional().default({}),
+  budgets: z
+    .object({
+      /** Everything a session has spent. */
+      session: BudgetLimitSchema.optional(),
+      /** What one profile has spent today (UTC). */
+      profile: BudgetLimitSchema.optional(),
+      /** What all traffic has spent today (UTC). */
+      day: BudgetLimitSchema.optional(),
+    })
+    .optional()
+    .default({}),
+  /** Cheaper model used once a soft budget is passed. Unset = warn only. */
+  downgradeModel: z.string().optional(),
+  /** Days of per-day totals, and of idle session totals, kept in the ledger. */
+  retentionDays: z.number().int().min(1).optional().default(90),
+});
+
+/**
+ * Long-term user memory (see agent/long-term-memory.ts)
+ */
+export const LongTermMemorySchema = z.object({
+  enabled: z.boolean().optional().default(true),
+  /** Facts recalled into the system prompt per turn. */
+  topK: z.number().int().min(1).max(50).optional().default(5),
+  /** Oldest facts are dropped past this many per user. */
+  maxFactsPerUser: z.number().int().min(1).optional().default(200),
+  maxFactChars: z.number().int().min(1).optional().default(500),
+});
+
+/**
+ * Where conversations and their per-session state are stored (see storage/)
+ */
+export const StorageSchema = z.object({
+  /** `file`: one JSON file per session and kind of state; `sqlite`: one database. */
+  backend: z.enum(['file', 'sqlite']).optional().default('file'),
+  /** SQLite database path; defaults to `~/.nano-claw/sessions.db`. */
+  path: z.string().optional(),
+});
+
 /**
  * Main configuration schema
  */
@@ -277,6 +535,10 @@ export const ConfigSchema = z.object({
   tools: ToolsConfigSchema.optional().default({}),
   channels: ChannelsConfigSchema.optional().default({}),
   decisionCore: DecisionCoreConfigSchema.optional().default({}),
+  api: ApiConfigSchema.optional().default({}),
+  costs: CostsConfigSchema.optional().default({}),
+  longTermMemory: LongTermMemorySchema.optional().default({}),
+  storage: StorageSchema.optional().default({}),
 });
 
 /**
@@ -289,5 +551,17 @@ export type ProvidersConfig = z.infer<typeof ProvidersConfigSchema>;
 export type AgentProfile = z.infer<typeof AgentProfileSchema>;
 export type AgentsConfig = z.infer<typeof AgentsConfigSchema>;
 export type ToolsConfig = z.infer<typeof ToolsConfigSchema>;
+export type McpServerConfig = z.infer<typeof McpServerSchema>;
+export type ToolPolicyAction = z.infer<typeof ToolPolicyActionSchema>;
+export type ToolPolicyRule = z.infer<typeof ToolPolicyRuleSchema>;
+export type ToolApprovalConfig = z.infer<typeof ToolApprovalConfigSchema>;
 export type ChannelsConfig = z.infer<typeof ChannelsConfigSchema>;
 export type DecisionCoreConfig = z.infer<typeof DecisionCoreConfigSchema>;
+export type ApiConfig = z.infer<typeof ApiConfigSchema>;
+export type ApiKeyConfig = z.infer<typeof ApiKeySchema>;
+export type ModelPrice = z.infer<typeof ModelPriceSchema>;
+export type BudgetLimit = z.infer<typeof BudgetLimitSchema>;
+export type CostsConfig = z.infer<typeof CostsConfigSchema>;
+export type CompactionConfig = z.infer<typeof CompactionSchema>;
+export type LongTermMemoryConfig = z.infer<typeof LongTermMemorySchema>;
+export type StorageConfig = z.infer<typeof StorageSchema>;
@@ -1,10 +1,11 @@
-import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { CronJob } from '../types';
 import { getCronJobsPath } from '../utils/helpers';
 import { generateId } from '../utils/helpers';
 import { logger } from '../utils/logger';
+import { readJsonFile, writeJsonFile } from '../utils/persist';
 import { CronScheduler } from './scheduler';
 import { AgentLoop } from '../agent/loop';
+import { getSessionManager } from '../session/index';
 import { Config } from '../config/schema';
 
 /**
@@ -25,13 +26,12 @@ export class CronManager {
    * Load cron jobs from file
    */
   loadJobs(): CronJob[] {
-    if (!existsSync(this.cronJobsPath)) {
-      return [];
-    }
-
     try {
-      const data = readFileSync(this.cronJobsPath, 'utf-8');
-      const jobs = JSON.parse(data) as CronJob[];
+      const jobs = readJsonFile(this.cronJobsPath, (parsed) => {
+        if (!Array.isArray(parsed)) throw new Error('cron jobs file is not an array');
+        return parsed as CronJob[];
+      });
+      if (!jobs) return [];
 
       // Parse dates
       for (const job of jobs) {
@@ -56,8 +56,7 @@ export class CronManager {
    */
   saveJobs(jobs: CronJob[]): void {
     try {
-      const data = JSON.stringify(jobs, null, 2);
-      writeFileSync(this.cronJobsPath, data, 'utf-8');
+      writeJsonFile(this.cronJobsPath, jobs);
       logger.debug({ count: jobs.length }, 'Saved cron jobs');
     } catch (error) {
       logger.error({ error }, 'Failed to save cron jobs');
@@ -176,12 +175,15 @@ export class CronManager {
 
       // Execute the task using agent with unique session ID
       const sessionId = `cron-${job.id}-${Date.now()}`;
+      getSessionManager().recordActivity(sessionId, { channel: 'cron' });
       const agent = new AgentLoop(sessionId, this.config);
 
       try {
         await agent.processMessage(currentJob.task);
       } catch (error) {
         logger.error({ error, jobId: job.id }, 'Failed to execute cron job task');
+      } finally {
+        getSessionManager().release(sessionId);
       }
 
       // Update job in storage with fresh data
@@ -34,9 +34,8 @@ export class GatewayServer {
   async initialize(): Promise<void> {
     logger.info('Initializing gateway server...');
 
-    // Initialize session manager
-    await getSessionManager();
-    logger.info('Session manager initialized');
+    // Sessions live in the session store; fold in records from older versions
+    getSessionManager().importLegacySessions();
 
     // Load configuration
     const config = await getConfig();
@@ -151,19 +150,17 @@ export class GatewayServer {
     logger.info(`Handling message from ${message.channelType} (user: ${message.userId})`);
 
     try {
-      // Get or create session
-      const sessionManager = await getSessionManager();
-      await sessionManager.getOrCreateSession(
-        message.sessionId,
-        message.userId,
-        message.channelType
-      );
+      // Record the channel, so the session can be found and resumed over HTTP
+      getSessionManager().recordActivity(message.sessionId, { channel: message.channelType });
 
       // Get config
       const config = await getConfig();
 
       // Create agent loop for this session and message
-      const agentLoop = new AgentLoop(message.sessionId, config);
+      // Long-term memory is keyed per channel: ids from different platforms can collide.
+      const agentLoop = new AgentLoop(message.sessionId, config, {
+        userId: `${message.channelType}:${message.userId}`,
+      });
 
       // Process the message
       const result = await agentLoop.processMessage(message.content);
@@ -191,6 +188,10 @@ export class GatewayServer {
       } catch (sendError) {
         logger.error('Failed to send error message', sendError);
       }
+    } finally {
+      // Like cron, keep nothing cached between turns: the next one loads the
+      // session fresh, including any turns taken over HTTP meanwhile.
+      getSessionManager().release(message.sessionId);
     }
   }
 
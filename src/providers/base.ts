@@ -5,6 +5,7 @@ import { Message, LLMResponse, ToolDefinition, ToolCall, StreamEvent, SYSTEM_CAC
 import { ProviderError } from '../utils/errors';
 import { logger } from '../utils/logger';
 import { PROVIDERS } from './registry';
+import { providerErrorFrom } from './retry';
 
 /** Per-call transport controls supplied by ProviderManager. */
 export interface ProviderCallOptions {
@@ -22,6 +23,8 @@ export async function* readSSEFrames(
   const decoder = new StringDecoder('utf8');
   for await (const chunk of stream) {
     buffer += decoder.write(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+    // Servers may end lines with CRLF; a CR split from its LF waits for the next chunk.
+    buffer = buffer.replace(/\r\n/g, '\n');
     let sep: number;
     while ((sep = buffer.indexOf('\n\n')) !== -1) {
       const frame = buffer.slice(0, sep);
@@ -157,6 +160,23 @@ export async function* parseAnthropicEvents(stream: Readable): AsyncGenerator<St
   };
 }
 
+/** One `chat.completion.chunk` frame, or an error frame sent mid-stream. */
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    finish_reason?: string | null;
+    delta?: {
+      content?: string | null;
+      tool_calls?: Array<{
+        index?: number;
+        id?: string;
+        function?: { name?: string; arguments?: string };
+      }>;
+    };
+  }>;
+  usage?: { prompt_tokens: number; completion_tokens: number; total_tokens: number } | null;
+  error?: { message?: string };
+}
+
 /** Parse OpenAI-compatible /chat/completions streaming events into StreamEvents. */
 export async function* parseOpenAIEvents(stream: Readable): AsyncGenerator<StreamEvent> {
   let finishReason: string | undefined;
@@ -165,11 +185,15 @@ export async function* parseOpenAIEvents(stream: Readable): AsyncGenerator<Strea
 
   for await (const { data } of readSSEFrames(stream)) {
     if (data === '[DONE]') break;
-    let evt: any;
-    try { evt = JSON.parse(data); } catch {
+    let evt: OpenAIStreamChunk;
+    try { evt = JSON.parse(data) as OpenAIStreamChunk; } catch {
       logger.debug({ frame: data.slice(0, 120) }, 'Skipping unparseable SSE frame');
       continue;
     }
+    // Gateways report failures after a 200 as an error frame mid-stream.
+    if (evt.error) {
+      throw new ProviderError(`Stream error: ${evt.error.message ?? JSON.stringify(evt.error)}`);
+    }
     const choice = evt.choices?.[0];
     if (evt.usage) {
       usage = { promptTokens: evt.usage.prompt_tokens, completionTokens: evt.usage.completion_tokens, totalTokens: evt.usage.total_tokens };
@@ -186,6 +210,13 @@ export async function* parseOpenAIEvents(stream: Readable): AsyncGenerator<Strea
         if (tc.function?.name) acc.name = tc.function.name;
         if (tc.function?.arguments) acc.args += tc.function.arguments;
         toolAcc.set(idx, acc);
+        yield {
+          type: 'tool_call_delta',
+          index: idx,
+          ...(tc.id && { id: tc.id }),
+          ...(tc.function?.name && { name: tc.function.name }),
+          argumentsDelta: tc.function?.arguments ?? '',
+        };
       }
     }
   }
@@ -199,6 +230,49 @@ export async function* parseOpenAIEvents(stream: Readable): AsyncGenerator<Strea
   yield { type: 'done', finishReason, usage };
 }
 
+/** Drain a streamed error body so its JSON `error.message` can be reported. */
+async function streamedErrorMessage(data: unknown): Promise<string | undefined> {
+  if (!data || typeof (data as Readable)[Symbol.asyncIterator] !== 'function') {
+    return (data as { error?: { message?: string } } | undefined)?.error?.message;
+  }
+  let body = '';
+  try {
+    for await (const chunk of data as AsyncIterable<Buffer | string>) body += chunk.toString();
+    const parsed = JSON.parse(body) as { error?: { message?: string } };
+    return parsed.error?.message ?? (body || undefined);
+  } catch {
+    /* health-ok: a non-JSON error body is reported as raw text */
+    return body || undefined;
+  }
+}
+
+/**
+ * POST an OpenAI-compatible `/chat/completions` request with `stream: true`
+ * and yield parsed events. With `responseType: 'stream'` axios hands back the
+ * error body as a stream too, so it is drained to surface the real message.
+ */
+async function* streamChatCompletions(
+  client: AxiosInstance,
+  requestData: Record<string, unknown>,
+  options: ProviderCallOptions | undefined,
+  label: string
+): AsyncGenerator<StreamEvent> {
+  let response;
+  try {
+    response = await client.post('/chat/completions', requestData, {
+      responseType: 'stream',
+      ...(options?.timeoutMs !== undefined && { timeout: options.timeoutMs }),
+    });
+  } catch (error) {
+    logger.error({ error }, `${label} API error`);
+    const message = axios.isAxiosError(error)
+      ? await streamedErrorMessage(error.response?.data)
+      : undefined;
+    throw providerErrorFrom(error, label, message);
+  }
+  yield* parseOpenAIEvents(response.data as Readable);
+}
+
 /**
  * Base class for LLM providers
  */
@@ -347,14 +421,35 @@ export class OpenRouterProvider extends BaseProvider {
       };
     } catch (error) {
       logger.error({ error }, 'OpenRouter API error');
-      if (axios.isAxiosError(error)) {
-        throw new ProviderError(
-          `OpenRouter API error: ${error.response?.data?.error?.message || error.message}`
-        );
-      }
-      throw new ProviderError(`OpenRouter API error: ${(error as Error).message}`);
+      throw providerErrorFrom(error, 'OpenRouter');
     }
   }
+
+  async *completeStream(
+    messages: Message[],
+    model: string,
+    temperature = 0.7,
+    maxTokens = 4096,
+    tools?: ToolDefinition[],
+    options?: ProviderCallOptions
+  ): AsyncGenerator<StreamEvent> {
+    const requestData: Record<string, unknown> = {
+      model: this.formatModelName(model),
+      messages: messages.map((m) => ({
+        role: m.role,
+        content: m.role === 'system' ? stripCacheMarker(m.content) : m.content,
+        ...(m.name && { name: m.name }),
+        ...(m.tool_calls && { tool_calls: m.tool_calls }),
+        ...(m.tool_call_id && { tool_call_id: m.tool_call_id }),
+      })),
+      temperature,
+      max_tokens: maxTokens,
+      stream: true,
+      stream_options: { include_usage: true },
+    };
+    if (tools && tools.length > 0) requestData.tools = tools;
+    yield* streamChatCompletions(this.client, requestData, options, 'OpenRouter');
+  }
 }
 
 /**
@@ -519,12 +614,7 @@ export class AnthropicProvider extends BaseProvider {
       };
     } catch (error) {
       logger.error({ error }, 'Anthropic API error');
-      if (axios.isAxiosError(error)) {
-        throw new ProviderError(
-          `Anthropic API error: ${error.response?.data?.error?.message || error.message}`
-        );
-      }
-      throw new ProviderError(`Anthropic API error: ${(error as Error).message}`);
+      throw providerErrorFrom(error, 'Anthropic');
     }
   }
 
@@ -565,12 +655,10 @@ export class AnthropicProvider extends BaseProvider {
       });
     } catch (error) {
       logger.error({ error }, 'Anthropic API error');
-      if (axios.isAxiosError(error)) {
-        throw new ProviderError(
-          `Anthropic API error: ${error.response?.data?.error?.message || error.message}`
-        );
-      }
-      throw new ProviderError(`Anthropic API error: ${(error as Error).message}`);
+      const message = axios.isAxiosError(error)
+        ? await streamedErrorMessage(error.response?.data)
+        : undefined;
+      throw providerErrorFrom(error, 'Anthropic', message);
     }
     yield* parseAnthropicEvents(response.data as Readable);
   }
@@ -653,12 +741,7 @@ export class OpenAIProvider extends BaseProvider {
       };
     } catch (error) {
       logger.error({ error }, 'OpenAI API error');
-      if (axios.isAxiosError(error)) {
-        throw new ProviderError(
-          `OpenAI API error: ${error.response?.data?.error?.message || error.message}`
-        );
-      }
-      throw new ProviderError(`OpenAI API error: ${(error as Error).message}`);
+      throw providerErrorFrom(error, 'OpenAI');
     }
   }
 
@@ -683,20 +766,7 @@ export class OpenAIProvider extends BaseProvider {
       ...this.extraRequestParams(),
     };
     if (tools && tools.length > 0) requestData.tools = tools;
-    let response;
-    try {
-      response = await this.client.post('/chat/completions', requestData, {
-        responseType: 'stream',
-        ...(options?.timeoutMs !== undefined && { timeout: options.timeoutMs }),
-      });
-    } catch (error) {
-      logger.error({ error }, 'OpenAI API error');
-      if (axios.isAxiosError(error)) {
-        throw new ProviderError(`OpenAI API error: ${error.response?.data?.error?.message || error.message}`);
-      }
-      throw new ProviderError(`OpenAI API error: ${(error as Error).message}`);
-    }
-    yield* parseOpenAIEvents(response.data as Readable);
+    yield* streamChatCompletions(this.client, requestData, options, 'OpenAI');
   }
 }
 
@@ -1,4 +1,5 @@
 import type { StreamEvent } from '../types';
+import { ProviderError } from '../utils/errors';
 import { logger } from '../utils/logger';
 
 /**
@@ -13,8 +14,16 @@ import { logger } from '../utils/logger';
  *
  * The logic is kept pure (takes attempt thunks, not providers) so it is fully
  * unit-testable without real network providers.
+ *
+ * A fatal ProviderError (bad credentials, malformed request) is surfaced at
+ * once instead of falling back: another model would mask a problem the
+ * caller has to fix.
  */
 
+function isFatal(error: unknown): boolean {
+  return error instanceof ProviderError && error.fatal;
+}
+
 /** Sentinel returned by raceTimeout when the deadline wins the race. */
 export const TIMED_OUT = Symbol('timed-out');
 
@@ -84,7 +93,7 @@ export async function completeWithFallback<T>(
         { model: label, error: (error as Error).message, isLast },
         'Model attempt failed',
       );
-      if (isLast) throw error;
+      if (isLast || isFatal(error)) throw error;
     }
   }
   throw lastError;
@@ -96,8 +105,8 @@ export interface StreamAttempt {
 }
 
 /** A first meaningful token — text or a tool call — commits us to a stream. */
-function isFirstToken(ev: StreamEvent): boolean {
-  return ev.type === 'text' || ev.type === 'tool_calls';
+export function isFirstToken(ev: StreamEvent): boolean {
+  return ev.type === 'text' || ev.type === 'tool_call_delta' || ev.type === 'tool_calls';
 }
 
 /**
@@ -227,6 +236,12 @@ export async function* streamWithHedge(
         { model: racer.label, error: (error as Error).message },
         'Hedge attempt failed before first token',
       );
+      if (isFatal(error)) {
+        decided = true;
+        if (timer) clearTimeout(timer);
+        decideFail(error);
+        return;
+      }
     }
     racer.settled = true;
     settledCount++;
@@ -316,7 +331,8 @@ export async function* streamWithFallback(
         { model: label, error: (error as Error).message, emittedFirst, isLast },
         'Stream attempt failed',
       );
-      if (emittedFirst || isLast) throw error; // committed, or out of options
+      // Committed, out of options, or an error no other model would fix.
+      if (emittedFirst || isLast || isFatal(error)) throw error;
       // otherwise fall through to the next attempt
     } finally {
       // Close an abandoned (uncommitted) stream so its request can clean up.
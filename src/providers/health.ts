@@ -0,0 +1,266 @@
+import { logger } from '../utils/logger';
+
+/**
+ * Rolling per-model health and a circuit breaker for the model chain.
+ *
+ * Every provider call is observed through a probe: it ends as a success, an
+ * error, or a timeout (no first token within the request's deadline — the
+ * same window the fallback chain gives it). The last `windowSize` outcomes per
+ * model drive the breaker:
+ *
+ * - closed: normal. Opens after `consecutiveFailures` failures in a row, or
+ *   once `minSamples` are in and the failure rate reaches `failureRate`.
+ * - open: the model is moved to the end of the chain, so healthy fallbacks
+ *   answer without first waiting out its deadline. It stays reachable as a
+ *   last resort.
+ * - half_open: after `openMs`, one request probes the model in its normal
+ *   position. Success closes the breaker; failure opens it again.
+ */
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+export type CallOutcome = 'success' | 'error' | 'timeout';
+
+export interface CircuitBreakerOptions {
+  enabled?: boolean;
+  windowSize?: number;
+  minSamples?: number;
+  failureRate?: number;
+  consecutiveFailures?: number;
+  openMs?: number;
+}
+
+const DEFAULTS: Required<CircuitBreakerOptions> = {
+  enabled: true,
+  windowSize: 20,
+  minSamples: 5,
+  failureRate: 0.5,
+  consecutiveFailures: 3,
+  openMs: 30000,
+};
+
+interface Sample {
+  outcome: CallOutcome;
+  firstTokenMs?: number;
+}
+
+interface ModelEntry {
+  model: string;
+  provider: string;
+  samples: Sample[];
+  state: BreakerState;
+  openedAt: number;
+  consecutiveFailures: number;
+  probeInFlight: boolean;
+  lastError?: string;
+}
+
+export interface HealthStats {
+  samples: number;
+  errorRate: number;
+  timeoutRate: number;
+  /** Nearest-rank p95 over calls that produced a first token; null when none did. */
+  p95FirstTokenMs: number | null;
+}
+
+export interface ModelHealthSnapshot extends HealthStats {
+  model: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  lastError?: string;
+  /** When an open breaker next lets a probe through (ISO time). */
+  retryAt?: string;
+}
+
+export interface ProviderHealthSnapshot extends HealthStats {
+  provider: string;
+  models: ModelHealthSnapshot[];
+}
+
+export interface HealthSnapshot {
+  breaker: Required<CircuitBreakerOptions>;
+  providers: ProviderHealthSnapshot[];
+}
+
+/** Observes one provider call. Only the first settlement counts. */
+export interface HealthProbe {
+  /** The first text or tool-call event arrived. */
+  firstToken(): void;
+  /** The call finished without error (also marks the first token if unseen). */
+  succeed(): void;
+  fail(error: unknown): void;
+}
+
+function stats(samples: Sample[]): HealthStats {
+  const count = samples.length;
+  const errors = samples.filter((s) => s.outcome === 'error').length;
+  const timeouts = samples.filter((s) => s.outcome === 'timeout').length;
+  const latencies = samples
+    .map((s) => s.firstTokenMs)
+    .filter((ms): ms is number => ms !== undefined)
+    .sort((a, b) => a - b);
+  return {
+    samples: count,
+    errorRate: count ? errors / count : 0,
+    timeoutRate: count ? timeouts / count : 0,
+    p95FirstTokenMs: latencies.length ? latencies[Math.ceil(latencies.length * 0.95) - 1] : null,
+  };
+}
+
+export class ProviderHealth {
+  private options: Required<CircuitBreakerOptions>;
+  private entries = new Map<string, ModelEntry>();
+
+  constructor(
+    options: CircuitBreakerOptions = {},
+    private now: () => number = Date.now
+  ) {
+    this.options = { ...DEFAULTS, ...options };
+  }
+
+  private entry(model: string, provider = 'unknown'): ModelEntry {
+    let entry = this.entries.get(model);
+    if (!entry) {
+      entry = {
+        model,
+        provider,
+        samples: [],
+        state: 'closed',
+        openedAt: 0,
+        consecutiveFailures: 0,
+        probeInFlight: false,
+      };
+      this.entries.set(model, entry);
+    }
+    if (provider !== 'unknown') entry.provider = provider;
+    return entry;
+  }
+
+  /** Whether `model` may take its normal place in the chain right now. */
+  isAvailable(model: string): boolean {
+    if (!this.options.enabled) return true;
+    const entry = this.entries.get(model);
+    if (!entry || entry.state === 'closed') return true;
+    if (entry.state === 'half_open') return !entry.probeInFlight;
+    if (this.now() - entry.openedAt < this.options.openMs) return false;
+    entry.state = 'half_open';
+    logger.info({ model }, 'Circuit half-open; probing model');
+    return true;
+  }
+
+  /**
+   * Available models keep their order; unavailable ones move to the end,
+   * still in order. A chain with nothing available is returned unchanged.
+   */
+  order(models: string[]): string[] {
+    const available = models.filter((model) => this.isAvailable(model));
+    if (available.length === models.length || available.length === 0) return models;
+    const skipped = models.filter((model) => !available.includes(model));
+    logger.warn({ skipped }, 'Circuit open; trying healthier models first');
+    return [...available, ...skipped];
+  }
+
+  /**
+   * Start observing a call. If no first token arrives within `timeoutMs` the
+   * call counts as a timeout, whatever it does later.
+   */
+  begin(model: string, provider: string, timeoutMs: number): HealthProbe {
+    const entry = this.entry(model, provider);
+    if (entry.state === 'half_open') entry.probeInFlight = true;
+    const start = this.now();
+    let firstTokenMs: number | undefined;
+    let settled = false;
+    const settle = (outcome: CallOutcome, error?: unknown) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      this.record(entry, { outcome, firstTokenMs }, error);
+    };
+    const timer = setTimeout(() => settle('timeout'), timeoutMs);
+    timer.unref?.();
+    const firstToken = () => {
+      if (firstTokenMs !== undefined || settled) return;
+      firstTokenMs = this.now() - start;
+      clearTimeout(timer);
+    };
+    return {
+      firstToken,
+      succeed: () => {
+        firstToken();
+        settle('success');
+      },
+      fail: (error: unknown) => settle('error', error),
+    };
+  }
+
+  private record(entry: ModelEntry, sample: Sample, error?: unknown): void {
+    entry.samples.push(sample);
+    if (entry.samples.length > this.options.windowSize) entry.samples.shift();
+    const failed = sample.outcome !== 'success';
+    if (failed) {
+      entry.consecutiveFailures++;
+      entry.lastError =
+        sample.outcome === 'timeout'
+          ? 'no first token before the deadline'
+          : error instanceof Error
+            ? error.message
+            : String(error);
+    } else {
+      entry.consecutiveFailures = 0;
+    }
+    if (!this.options.enabled) return;
+
+    if (entry.state === 'half_open' && entry.probeInFlight) {
+      entry.probeInFlight = false;
+      if (failed) {
+        this.open(entry, 'probe failed');
+      } else {
+        entry.state = 'closed';
+        logger.info({ model: entry.model }, 'Circuit closed; model recovered');
+      }
+      return;
+    }
+    if (entry.state !== 'closed' || !failed) return;
+    const { samples, errorRate, timeoutRate } = stats(entry.samples);
+    if (entry.consecutiveFailures >= this.options.consecutiveFailures) {
+      this.open(entry, `${entry.consecutiveFailures} consecutive failures`);
+    } else if (
+      samples >= this.options.minSamples &&
+      errorRate + timeoutRate >= this.options.failureRate
+    ) {
+      this.open(entry, `failure rate ${Math.round((errorRate + timeoutRate) * 100)}%`);
+    }
+  }
+
+  private open(entry: ModelEntry, reason: string): void {
+    entry.state = 'open';
+    entry.openedAt = this.now();
+    logger.warn(
+      { model: entry.model, provider: entry.provider, reason, openMs: this.options.openMs },
+      'Circuit opened'
+    );
+  }
+
+  snapshot(): HealthSnapshot {
+    const byProvider = new Map<string, ModelEntry[]>();
+    for (const entry of this.entries.values()) {
+      const list = byProvider.get(entry.provider) ?? [];
+      list.push(entry);
+      byProvider.set(entry.provider, list);
+    }
+    const providers = [...byProvider.entries()].map(([provider, entries]) => ({
+      provider,
+      ...stats(entries.flatMap((entry) => entry.samples)),
+      models: entries.map((entry) => ({
+        model: entry.model,
+        state: entry.state,
+        ...stats(entry.samples),
+        consecutiveFailures: entry.consecutiveFailures,
+        ...(entry.lastError && { lastError: entry.lastError }),
+        ...(entry.state === 'open' && {
+          retryAt: new Date(entry.openedAt + this.options.openMs).toISOString(),
+        }),
+      })),
+    }));
+    return { breaker: { ...this.options }, providers };
+  }
+}
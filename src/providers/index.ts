@@ -10,14 +10,18 @@ import {
   OllamaProvider,
   type ProviderCallOptions,
 } from './base';
-import { findProviderByModel } from './registry';
+import { MockProvider } from './mock';
+import { findProviderByModel, hasProviderCredentials } from './registry';
 import {
   completeWithDeadline,
   completeWithFallback,
+  isFirstToken,
   streamWithDeadline,
   streamWithFallback,
   streamWithHedge,
 } from './fallback';
+import { ProviderHealth, type HealthProbe, type HealthSnapshot } from './health';
+import { completeWithRetry, streamWithRetry } from './retry';
 
 /** Gateway providers that can route an arbitrary model id (so a fallback model
  * is reachable even without its own direct provider key). */
@@ -39,9 +43,16 @@ export interface ProviderRequestOptions {
 export class ProviderManager {
   private config: Config;
   private providerCache: Map<string, BaseProvider> = new Map();
+  private health: ProviderHealth;
 
   constructor(config: Config) {
     this.config = config;
+    this.health = new ProviderHealth(config.agents?.defaults?.circuitBreaker);
+  }
+
+  /** Rolling health and breaker state for every model called so far. */
+  healthSnapshot(): HealthSnapshot {
+    return this.health.snapshot();
   }
 
   /**
@@ -56,61 +67,65 @@ export class ProviderManager {
       providerName
     ];
 
-    if (!providerConfig || !providerConfig.apiKey) {
+    if (!hasProviderCredentials(providerName, providerConfig)) {
       throw new ProviderError(`Provider ${providerName} is not configured`);
     }
+    const apiKey = providerConfig.apiKey ?? '';
 
     let provider: BaseProvider;
 
     switch (providerName) {
+      case 'mock':
+        provider = new MockProvider(providerConfig.fixtures);
+        break;
       case 'openrouter':
-        provider = new OpenRouterProvider(providerConfig.apiKey, providerConfig.apiBase);
+        provider = new OpenRouterProvider(apiKey, providerConfig.apiBase);
         break;
       case 'anthropic':
-        provider = new AnthropicProvider(providerConfig.apiKey, providerConfig.apiBase);
+        provider = new AnthropicProvider(apiKey, providerConfig.apiBase);
         break;
       case 'openai':
-        provider = new OpenAIProvider(providerConfig.apiKey, providerConfig.apiBase);
+        provider = new OpenAIProvider(apiKey, providerConfig.apiBase);
         break;
       case 'deepseek':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://api.deepseek.com/v1'
         );
         break;
       case 'groq':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://api.groq.com/openai/v1'
         );
         break;
       case 'gemini':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://generativelanguage.googleapis.com/v1beta/openai'
         );
         break;
       case 'minimax':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://api.minimax.chat/v1'
         );
         break;
       case 'dashscope':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://dashscope.aliyuncs.com/compatible-mode/v1'
         );
         break;
       case 'moonshot':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://api.moonshot.cn/v1'
         );
         break;
       case 'zhipu':
         provider = new OpenAIProvider(
-          providerConfig.apiKey,
+          apiKey,
           providerConfig.apiBase || 'https://open.bigmodel.cn/api/paas/v4'
         );
         break;
@@ -118,10 +133,10 @@ export class ProviderManager {
         if (!providerConfig.apiBase) {
           throw new ProviderError('vLLM provider requires apiBase configuration');
         }
-        provider = new OpenAIProvider(providerConfig.apiKey, providerConfig.apiBase);
+        provider = new OpenAIProvider(apiKey, providerConfig.apiBase);
         break;
       case 'ollama':
-        provider = new OllamaProvider(providerConfig.apiKey, providerConfig.apiBase);
+        provider = new OllamaProvider(apiKey, providerConfig.apiBase);
         break;
       default:
         throw new ProviderError(`Unknown provider: ${providerName}`);
@@ -141,7 +156,7 @@ export class ProviderManager {
       const providerConfig = (this.config.providers as Record<string, ProviderConfig>)?.[
         providerSpec.name
       ];
-      if (providerConfig && providerConfig.apiKey) {
+      if (hasProviderCredentials(providerSpec.name, providerConfig)) {
         logger.debug({ provider: providerSpec.name, model }, 'Provider detected from model name');
         return providerSpec.name;
       }
@@ -181,14 +196,15 @@ export class ProviderManager {
   private isModelRoutable(model: string): boolean {
     const providers = (this.config.providers as Record<string, ProviderConfig>) || {};
     const spec = findProviderByModel(model);
-    if (spec && providers[spec.name]?.apiKey) return true;
+    if (spec && hasProviderCredentials(spec.name, providers[spec.name])) return true;
     return GATEWAY_PROVIDERS.some((g) => providers[g]?.apiKey);
   }
 
   /**
-   * Ordered model chain: the requested model first (always tried, preserving
-   * prior behavior), then each configured fallback whose provider is routable.
-   * Duplicates and unroutable fallbacks are dropped.
+   * Ordered model chain: the requested model first, then each configured
+   * fallback whose provider is routable. Duplicates and unroutable fallbacks
+   * are dropped. Models with an open circuit move to the end, so a degraded
+   * primary no longer costs every turn its full deadline.
    */
   private resolveModelChain(model: string): string[] {
     const fallbacks = this.config.agents?.defaults?.fallbackModels || [];
@@ -203,7 +219,7 @@ export class ProviderManager {
         logger.debug({ model: m }, 'Fallback model skipped (provider not configured)');
       }
     }
-    return chain;
+    return this.health.order(chain);
   }
 
   private fallbackTimeoutMs(): number {
@@ -236,7 +252,8 @@ export class ProviderManager {
   /**
    * Complete a chat conversation, falling back through the configured model
    * chain on error or timeout. With no fallbacks configured the chain is just
-   * the requested model, so behavior is unchanged.
+   * the requested model, so behavior is unchanged. Transient errors are
+   * retried on the same model first; auth and bad-request errors end the chain.
    */
   async complete(
     messages: Message[],
@@ -258,15 +275,21 @@ export class ProviderManager {
           { provider: providerName, model: m, messageCount: messages.length },
           'Completing chat'
         );
-        const response = await this.getProviderInstance(providerName).complete(
-          messages,
-          m,
-          temperature,
-          maxTokens,
-          tools,
-          callOptions
-        );
-        return { ...response, model: m };
+        const provider = this.getProviderInstance(providerName);
+        const probe = this.health.begin(m, providerName, timeoutMs);
+        try {
+          const response = await completeWithRetry(
+            () => provider.complete(messages, m, temperature, maxTokens, tools, callOptions),
+            m,
+            timeoutMs,
+            this.config.agents?.defaults?.retry
+          );
+          probe.succeed();
+          return { ...response, model: m };
+        } catch (error) {
+          probe.fail(error);
+          throw error;
+        }
       },
     }));
     if (!fallbacksEnabled) return completeWithDeadline(attempts[0], timeoutMs);
@@ -299,14 +322,17 @@ export class ProviderManager {
           { provider: providerName, model: m, messageCount: messages.length },
           'Completing chat (stream)'
         );
+        const provider = this.getProviderInstance(providerName);
         return tagDoneWithModel(
-          this.getProviderInstance(providerName).completeStream(
-            messages,
-            m,
-            temperature,
-            maxTokens,
-            tools,
-            callOptions
+          observeStream(
+            streamWithRetry(
+              () =>
+                provider.completeStream(messages, m, temperature, maxTokens, tools, callOptions),
+              m,
+              timeoutMs,
+              this.config.agents?.defaults?.retry
+            ),
+            this.health.begin(m, providerName, timeoutMs)
           ),
           m
         );
@@ -330,6 +356,25 @@ export class ProviderManager {
   }
 }
 
+/** Report a stream's first token and outcome to its health probe. A stream
+ * closed by its consumer after the first token counts as a success. */
+async function* observeStream(
+  gen: AsyncGenerator<StreamEvent>,
+  probe: HealthProbe
+): AsyncGenerator<StreamEvent> {
+  try {
+    for await (const event of gen) {
+      if (isFirstToken(event)) probe.firstToken();
+      yield event;
+    }
+  } catch (error) {
+    probe.fail(error);
+    throw error;
+  } finally {
+    probe.succeed();
+  }
+}
+
 /** Stamp `done` events with the model that streamed them so consumers can
  * attribute the turn even after a fallback switch. Pass-through otherwise. */
 async function* tagDoneWithModel(
@@ -0,0 +1,200 @@
+import { existsSync, readFileSync } from 'fs';
+import { isAbsolute, join, resolve } from 'path';
+import { homedir } from 'os';
+import { z } from 'zod';
+import { BaseProvider } from './base';
+import type { LLMResponse, Message, StreamEvent, ToolCall } from '../types';
+import { PROVIDER_ERROR_CODES, ProviderError } from '../utils/errors';
+import { getHomeDir, sleep } from '../utils/helpers';
+
+/**
+ * Offline provider that replays scripted turns from a fixture file.
+ *
+ * Selected by model id `mock/<scenario>`. A scenario is a list of turns; the
+ * turn replayed is the number of assistant messages since the last user
+ * message, so a tool-call turn followed by its result advances to the next
+ * turn, and a new user message starts the scenario over. Past the last turn
+ * the final one repeats. Fixtures are re-read on every call, so a test can
+ * rewrite the file between requests.
+ */
+
+const MockToolCallSchema = z.object({
+  id: z.string().optional(),
+  name: z.string().min(1),
+  arguments: z.union([z.string(), z.record(z.unknown())]).default({}),
+});
+
+const MockTurnSchema = z.object({
+  text: z.string().optional(),
+  /** Explicit stream chunks; defaults to `text` split after each space. */
+  chunks: z.array(z.string()).optional(),
+  toolCalls: z.array(MockToolCallSchema).optional(),
+  /** Wait before the first event (or before the response, when not streaming). */
+  firstTokenLatencyMs: z.number().int().min(0).default(0),
+  /** Wait between stream chunks. */
+  chunkDelayMs: z.number().int().min(0).default(0),
+  /** Fail with this message instead of answering. */
+  error: z.string().optional(),
+  /** With `error`: how the failure is classified, e.g. `rate_limited` to exercise retries. */
+  errorCode: z.enum(PROVIDER_ERROR_CODES).optional(),
+  /** With `error`: stream this many chunks first, so the failure lands mid-stream. */
+  errorAfterChunks: z.number().int().min(0).default(0),
+  finishReason: z.string().optional(),
+});
+
+export const MockFixtureSchema = z.object({
+  scenarios: z.record(z.array(MockTurnSchema).min(1)),
+});
+
+export type MockTurn = z.infer<typeof MockTurnSchema>;
+export type MockFixture = z.infer<typeof MockFixtureSchema>;
+
+/** Always available, fixture or not: replies with the last user message. */
+const ECHO_SCENARIO = 'echo';
+
+export function defaultMockFixturesPath(): string {
+  return join(getHomeDir(), 'mock-fixtures.json');
+}
+
+function resolveFixturesPath(path: string | undefined): string {
+  if (!path) return defaultMockFixturesPath();
+  const expanded = path === '~' || path.startsWith('~/') ? homedir() + path.slice(1) : path;
+  return isAbsolute(expanded) ? expanded : resolve(expanded);
+}
+
+export function loadMockFixture(path: string): MockFixture {
+  if (!existsSync(path)) return { scenarios: {} };
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, 'utf-8'));
+  } catch (error) {
+    throw new ProviderError(`Mock fixture ${path} is not valid JSON: ${(error as Error).message}`);
+  }
+  const parsed = MockFixtureSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    throw new ProviderError(
+      `Invalid mock fixture ${path}: ${issue.path.join('.') || '(root)'}: ${issue.message}`
+    );
+  }
+  return parsed.data;
+}
+
+/** Which turn of the scenario this request is: assistant replies since the last user message. */
+function turnIndex(messages: Message[]): number {
+  let count = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === 'user') break;
+    if (messages[i].role === 'assistant') count++;
+  }
+  return count;
+}
+
+function splitChunks(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [];
+}
+
+function toToolCalls(turn: MockTurn, turnNo: number): ToolCall[] | undefined {
+  if (!turn.toolCalls?.length) return undefined;
+  return turn.toolCalls.map((call, i) => ({
+    id: call.id ?? `mock_call_${turnNo}_${i}`,
+    type: 'function',
+    function: {
+      name: call.name,
+      arguments:
+        typeof call.arguments === 'string' ? call.arguments : JSON.stringify(call.arguments),
+    },
+  }));
+}
+
+function turnError(turn: MockTurn): ProviderError {
+  return new ProviderError(`Mock provider error: ${turn.error}`, { code: turn.errorCode });
+}
+
+/** Rough token count so cost and usage telemetry have something to show. */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class MockProvider extends BaseProvider {
+  private fixturesPath: string;
+
+  constructor(fixturesPath?: string) {
+    super('mock');
+    this.fixturesPath = resolveFixturesPath(fixturesPath);
+  }
+
+  protected getDefaultApiBase(): string {
+    return 'mock://local';
+  }
+
+  protected formatModelName(model: string): string {
+    return model.startsWith('mock/') ? model.slice('mock/'.length) : model;
+  }
+
+  /** The turn to replay for `messages` under `model`'s scenario. */
+  private resolveTurn(messages: Message[], model: string): { turn: MockTurn; index: number } {
+    const scenario = this.formatModelName(model);
+    const turns = loadMockFixture(this.fixturesPath).scenarios[scenario];
+    const index = turnIndex(messages);
+    if (turns) return { turn: turns[Math.min(index, turns.length - 1)], index };
+    if (scenario === ECHO_SCENARIO) {
+      const lastUser = [...messages].reverse().find((m) => m.role === 'user');
+      return { turn: MockTurnSchema.parse({ text: lastUser?.content ?? '' }), index };
+    }
+    throw new ProviderError(
+      `Mock scenario not found: ${scenario} (fixtures: ${this.fixturesPath})`
+    );
+  }
+
+  private usage(messages: Message[], text: string): NonNullable<LLMResponse['usage']> {
+    const promptTokens = estimateTokens(messages.map((m) => m.content).join('\n'));
+    const completionTokens = estimateTokens(text);
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+
+  async complete(messages: Message[], model: string): Promise<LLMResponse> {
+    const { turn, index } = this.resolveTurn(messages, model);
+    if (turn.firstTokenLatencyMs) await sleep(turn.firstTokenLatencyMs);
+    if (turn.error) throw turnError(turn);
+    const toolCalls = toToolCalls(turn, index);
+    const content = turn.text ?? turn.chunks?.join('') ?? '';
+    return {
+      content,
+      toolCalls,
+      finishReason: turn.finishReason ?? (toolCalls ? 'tool_calls' : 'stop'),
+      usage: this.usage(messages, content),
+    };
+  }
+
+  async *completeStream(messages: Message[], model: string): AsyncGenerator<StreamEvent> {
+    const { turn, index } = this.resolveTurn(messages, model);
+    if (turn.firstTokenLatencyMs) await sleep(turn.firstTokenLatencyMs);
+    const chunks = turn.chunks ?? splitChunks(turn.text ?? '');
+    const streamed = turn.error ? chunks.slice(0, turn.errorAfterChunks) : chunks;
+    for (let i = 0; i < streamed.length; i++) {
+      if (i > 0 && turn.chunkDelayMs) await sleep(turn.chunkDelayMs);
+      yield { type: 'text', delta: streamed[i] };
+    }
+    if (turn.error) throw turnError(turn);
+
+    const toolCalls = toToolCalls(turn, index);
+    if (toolCalls) {
+      for (const [i, call] of toolCalls.entries()) {
+        yield {
+          type: 'tool_call_delta',
+          index: i,
+          id: call.id,
+          name: call.function.name,
+          argumentsDelta: call.function.arguments,
+        };
+      }
+      yield { type: 'tool_calls', toolCalls };
+    }
+    yield {
+      type: 'done',
+      finishReason: turn.finishReason ?? (toolCalls ? 'tool_calls' : 'stop'),
+      usage: this.usage(messages, chunks.join('')),
+    };
+  }
+}
@@ -16,12 +16,23 @@ export interface ProviderSpec {
   detectByKeyPrefix?: string;
   detectByBaseKeyword?: string;
   stripModelPrefix?: boolean;
+  /** Usable without an API key once its config block is present. */
+  keyless?: boolean;
 }
 
 /**
  * Provider registry - single source of truth for all providers
  */
 export const PROVIDERS: ProviderSpec[] = [
+  // First, so a scenario name that happens to contain another provider's
+  // keyword ("mock/gpt-tool-call") still routes to the mock.
+  {
+    name: 'mock',
+    keywords: ['mock/'],
+    envKey: 'NANO_CLAW_MOCK_FIXTURES',
+    displayName: 'Mock (Offline)',
+    keyless: true,
+  },
   {
     name: 'openrouter',
     keywords: ['openrouter'],
@@ -146,6 +157,18 @@ export function findProviderByModel(model: string): ProviderSpec | undefined {
   return PROVIDERS.find((p) => p.keywords.some((keyword) => lowerModel.includes(keyword)));
 }
 
+/**
+ * True when a provider has what it needs to make calls: an API key, or just a
+ * config block for keyless providers.
+ */
+export function hasProviderCredentials(
+  name: string,
+  config: ProviderConfig | undefined
+): config is ProviderConfig {
+  if (!config) return false;
+  return !!config.apiKey || !!findProviderByName(name)?.keyless;
+}
+
 /**
  * Get all configured providers
  */
@@ -154,6 +177,6 @@ export function getConfiguredProviders(
 ): ProviderSpec[] {
   return PROVIDERS.filter((spec) => {
     const config = providersConfig[spec.name];
-    return config && config.enabled !== false && config.apiKey;
+    return config && config.enabled !== false && hasProviderCredentials(spec.name, config);
   });
 }
@@ -0,0 +1,173 @@
+import axios from 'axios';
+import type { StreamEvent } from '../types';
+import { ProviderError, type ProviderErrorCode } from '../utils/errors';
+import { sleep } from '../utils/helpers';
+import { logger } from '../utils/logger';
+
+/**
+ * Provider failure classification and same-model retries.
+ *
+ * Rate limits, 5xx and dropped connections are transient, so they are
+ * retried on the same model with jittered exponential backoff (or the
+ * server's `retry-after`) before the fallback chain moves on; a rate limit
+ * should not hand the turn to a worse model. Retries only happen while the
+ * attempt's time budget allows, so the chain's first-token deadline still
+ * holds. Auth and bad-request errors are never retried.
+ */
+
+export interface RetryOptions {
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+const DEFAULT_MAX_RETRIES = 2;
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 4000;
+
+const CONNECTION_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'ERR_SOCKET_CONNECTION_TIMEOUT',
+]);
+
+const CONTEXT_LENGTH_RE =
+  /context[ _-]?(length|window)|maximum context|too many tokens|prompt is too long|input is too long/i;
+
+/** `retry-after` as seconds or an HTTP date; `retry-after-ms` wins when present. */
+export function parseRetryAfter(headers: Record<string, unknown> | undefined): number | undefined {
+  const ms = Number(headers?.['retry-after-ms']);
+  if (headers?.['retry-after-ms'] !== undefined && Number.isFinite(ms) && ms >= 0) return ms;
+  const raw = headers?.['retry-after'];
+  if (typeof raw !== 'string' || !raw.trim()) return undefined;
+  const seconds = Number(raw);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(raw);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function codeForStatus(status: number, message: string, apiCode?: unknown): ProviderErrorCode {
+  if (apiCode === 'insufficient_quota') return 'quota_exceeded';
+  if (apiCode === 'context_length_exceeded') return 'context_length';
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 402) return 'quota_exceeded';
+  if (status === 413) return 'context_length';
+  if (status === 408 || status === 425 || status >= 500) return 'server_error';
+  if (status >= 400) return CONTEXT_LENGTH_RE.test(message) ? 'context_length' : 'bad_request';
+  return 'unknown';
+}
+
+/**
+ * A classified ProviderError for a failed call, keeping the usual
+ * `<label> API error: <message>` text. `message` overrides the body's
+ * message (streamed error bodies have to be read by the caller).
+ */
+export function providerErrorFrom(error: unknown, label: string, message?: string): ProviderError {
+  if (error instanceof ProviderError) return error;
+  if (!axios.isAxiosError(error)) {
+    return new ProviderError(`${label} API error: ${(error as Error).message}`);
+  }
+  const data = error.response?.data as
+    { error?: { message?: string; code?: unknown; type?: unknown } } | undefined;
+  const text = message || data?.error?.message || error.message;
+  const status = error.response?.status;
+  if (status === undefined) {
+    const code = CONNECTION_CODES.has(error.code ?? '') ? 'connection' : 'unknown';
+    return new ProviderError(`${label} API error: ${text}`, { code });
+  }
+  const apiCode = data?.error?.code ?? data?.error?.type;
+  return new ProviderError(`${label} API error: ${text}`, {
+    code: codeForStatus(status, text, apiCode),
+    status,
+    retryAfterMs: parseRetryAfter(error.response?.headers as Record<string, unknown> | undefined),
+  });
+}
+
+/** Jittered exponential backoff, or the server's requested wait. */
+export function retryDelayMs(error: ProviderError, retry: number, options: RetryOptions): number {
+  if (error.retryAfterMs !== undefined) return error.retryAfterMs;
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const cap = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const ceiling = Math.min(cap, base * 2 ** retry);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** The wait before the next try, or undefined when `error` should be thrown now. */
+function nextDelay(
+  error: unknown,
+  retry: number,
+  deadline: number,
+  options: RetryOptions
+): number | undefined {
+  if (!(error instanceof ProviderError) || !error.retryable) return undefined;
+  if (retry >= (options.maxRetries ?? DEFAULT_MAX_RETRIES)) return undefined;
+  const delay = retryDelayMs(error, retry, options);
+  return Date.now() + delay < deadline ? delay : undefined;
+}
+
+function logRetry(label: string, error: ProviderError, retry: number, delayMs: number): void {
+  logger.warn(
+    { model: label, code: error.code, status: error.status, retry: retry + 1, delayMs },
+    'Retrying provider call'
+  );
+}
+
+/** Run `run`, retrying retryable failures while `budgetMs` allows. */
+export async function completeWithRetry<T>(
+  run: () => Promise<T>,
+  label: string,
+  budgetMs: number,
+  options: RetryOptions = {}
+): Promise<T> {
+  const deadline = Date.now() + budgetMs;
+  for (let retry = 0; ; retry++) {
+    try {
+      return await run();
+    } catch (error) {
+      const delay = nextDelay(error, retry, deadline, options);
+      if (delay === undefined) throw error;
+      logRetry(label, error as ProviderError, retry, delay);
+      await sleep(delay);
+    }
+  }
+}
+
+/**
+ * Streaming counterpart: a stream that fails before its first event is
+ * restarted; once anything has been yielded, errors propagate as before.
+ */
+export async function* streamWithRetry(
+  run: () => AsyncGenerator<StreamEvent>,
+  label: string,
+  budgetMs: number,
+  options: RetryOptions = {}
+): AsyncGenerator<StreamEvent> {
+  const deadline = Date.now() + budgetMs;
+  for (let retry = 0; ; retry++) {
+    const gen = run();
+    let first: IteratorResult<StreamEvent>;
+    try {
+      first = await gen.next();
+    } catch (error) {
+      const delay = nextDelay(error, retry, deadline, options);
+      if (delay === undefined) throw error;
+      logRetry(label, error as ProviderError, retry, delay);
+      await sleep(delay);
+      continue;
+    }
+    if (first.done) return;
+    try {
+      yield first.value;
+      yield* gen;
+    } finally {
+      await gen.return(undefined);
+    }
+    return;
+  }
+}
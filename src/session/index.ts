@@ -2,4 +2,9 @@
  * Session module exports
  */
 
-export { SessionManager, getSessionManager } from './manager';
+export {
+  EPHEMERAL_SESSION_TTL_MS,
+  SessionManager,
+  getSessionManager,
+  type SessionDetails,
+} from './manager';
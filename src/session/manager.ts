@@ -1,187 +1,188 @@
 /**
  * Session Management
- * Manages conversation sessions for different users and channels
+ *
+ * One service for every conversation, whichever surface it arrives on (API,
+ * gateway channels, cron, CLI): it caches the live Memory, records who the
+ * session belongs to and where and how it runs, applies the anonymous-session
+ * TTL and deletes sessions. All of it lives in the session store, so a
+ * conversation started on Telegram can be listed, read or continued over HTTP.
  */
 
-import { Session } from '../types';
+import { existsSync, readdirSync } from 'fs';
 import path from 'path';
-import fs from 'fs/promises';
+import {
+  Memory,
+  assertValidSessionId,
+  deleteMemoryFile,
+  isEphemeralSessionId,
+  isValidSessionId,
+  sweepEphemeralMemory,
+  type SessionMetadata,
+} from '../agent/memory';
 import { getConfigDir } from '../config';
+import { getSessionStore, type SessionStore } from '../storage/index';
+import { SessionError } from '../utils/errors';
 import { logger } from '../utils/logger';
+import { readJsonFile, removeJsonFile } from '../utils/persist';
+
+/** Anonymous browser sessions idle this long are deleted. */
+export const EPHEMERAL_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+
+/** What a turn records about its session; unset fields keep their stored value. */
+export type SessionDetails = Omit<SessionMetadata, 'createdAt'>;
+
+/** A record written by the gateway before sessions moved into the store. */
+interface LegacySessionRecord {
+  id: string;
+  userId?: string;
+  channelType?: string;
+  createdAt?: string;
+}
 
 export class SessionManager {
-  private sessionsDir: string;
-  private sessions: Map<string, Session>;
+  private memories = new Map<string, Memory>();
+  /** Last use of each cached anonymous session, for the TTL. */
+  private lastUsed = new Map<string, number>();
 
-  constructor() {
-    this.sessionsDir = path.join(getConfigDir(), 'sessions');
-    this.sessions = new Map();
-  }
+  constructor(
+    readonly store: SessionStore,
+    private ephemeralTtlMs = EPHEMERAL_SESSION_TTL_MS
+  ) {}
 
   /**
-   * Initialize session manager
+   * The live Memory for a session, loaded from the store on first use. Every
+   * caller in the process shares it; a second instance would overwrite the
+   * first one's writes on its next save. A cached copy is reloaded when
+   * another process (the gateway, another API replica) has written the
+   * transcript since, so its next save does not drop their turns.
    */
-  async initialize(): Promise<void> {
-    try {
-      await fs.mkdir(this.sessionsDir, { recursive: true });
-      await this.loadSessions();
-      logger.info('Session manager initialized');
-    } catch (error) {
-      logger.error('Failed to initialize session manager', error);
-      throw error;
+  getMemory(sessionId: string): Memory {
+    assertValidSessionId(sessionId);
+    let memory = this.memories.get(sessionId);
+    if (memory?.isStale()) {
+      logger.debug({ sessionId }, 'Reloading session written by another process');
+      memory = undefined;
     }
-  }
-
-  /**
-   * Load existing sessions from disk
-   */
-  private async loadSessions(): Promise<void> {
-    try {
-      const files = await fs.readdir(this.sessionsDir);
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          const filePath = path.join(this.sessionsDir, file);
-          const content = await fs.readFile(filePath, 'utf-8');
-          const session: Session = JSON.parse(content);
-          // Convert date strings back to Date objects
-          session.createdAt = new Date(session.createdAt);
-          session.lastActivity = new Date(session.lastActivity);
-          this.sessions.set(session.id, session);
-        }
-      }
-      logger.info(`Loaded ${this.sessions.size} sessions`);
-    } catch (error) {
-      logger.error('Failed to load sessions', error);
+    if (!memory) {
+      memory = new Memory(sessionId);
+      this.memories.set(sessionId, memory);
     }
+    this.touch(sessionId);
+    return memory;
   }
 
-  /**
-   * Get or create a session
-   */
-  async getOrCreateSession(
-    sessionId: string,
-    userId: string,
-    channelType: string = 'cli'
-  ): Promise<Session> {
-    let session = this.sessions.get(sessionId);
-
-    if (!session) {
-      session = {
-        id: sessionId,
-        userId,
-        channelType,
-        createdAt: new Date(),
-        lastActivity: new Date(),
-        metadata: {},
-      };
-      this.sessions.set(sessionId, session);
-      await this.saveSession(session);
-      logger.info(`Created new session: ${sessionId}`);
-    } else {
-      // Update last activity
-      session.lastActivity = new Date();
-      await this.saveSession(session);
-    }
-
-    return session;
+  /** Mark an anonymous session as in use without loading it (e.g. an approval). */
+  touch(sessionId: string, now = Date.now()): void {
+    if (isEphemeralSessionId(sessionId)) this.lastUsed.set(sessionId, now);
   }
 
   /**
-   * Get a session by ID
+   * Record a turn on the session: its user, channel, profile and model. The
+   * creation time is stamped on the first turn; the last activity is the
+   * store's own write time.
    */
-  getSession(sessionId: string): Session | undefined {
-    return this.sessions.get(sessionId);
+  recordActivity(sessionId: string, details: SessionDetails): Memory {
+    const memory = this.getMemory(sessionId);
+    memory.setMetadata(details);
+    return memory;
   }
 
-  /**
-   * Get all sessions for a user
-   */
-  getUserSessions(userId: string): Session[] {
-    return Array.from(this.sessions.values()).filter((session) => session.userId === userId);
+  /** Whether the session is live here or has a transcript or metadata stored. */
+  hasSession(sessionId: string): boolean {
+    assertValidSessionId(sessionId);
+    return (
+      this.memories.has(sessionId) ||
+      this.store.loadMessages(sessionId) !== undefined ||
+      this.store.readState(sessionId, 'meta') !== undefined
+    );
   }
 
   /**
-   * Get all active sessions (active in last 24 hours)
+   * Copy a session's first `index` messages (default: all) into a new session
+   * and return its Memory. Throws a SessionError when the target exists.
    */
-  getActiveSessions(hours: number = 24): Session[] {
-    const cutoff = new Date(Date.now() - hours * 60 * 60 * 1000);
-    return Array.from(this.sessions.values()).filter((session) => session.lastActivity > cutoff);
+  forkSession(sourceId: string, targetId: string, index?: number): Memory {
+    if (this.hasSession(targetId)) throw new SessionError(`Session ${targetId} already exists`);
+    this.getMemory(sourceId).forkTo(targetId, index);
+    return this.getMemory(targetId);
   }
 
-  /**
-   * Update session metadata
-   */
-  async updateSessionMetadata(sessionId: string, metadata: Record<string, unknown>): Promise<void> {
-    const session = this.sessions.get(sessionId);
-    if (session) {
-      session.metadata = { ...session.metadata, ...metadata };
-      session.lastActivity = new Date();
-      await this.saveSession(session);
-    }
+  /** Forget the cached Memory of a finished one-off session; its store copy stays. */
+  release(sessionId: string): void {
+    this.memories.delete(sessionId);
+    this.lastUsed.delete(sessionId);
   }
 
-  /**
-   * Delete a session
-   */
-  async deleteSession(sessionId: string): Promise<void> {
-    this.sessions.delete(sessionId);
-    const filePath = path.join(this.sessionsDir, `${sessionId}.json`);
-    try {
-      await fs.unlink(filePath);
-      logger.info(`Deleted session: ${sessionId}`);
-    } catch (error) {
-      logger.warn(`Failed to delete session file: ${sessionId}`, error);
-    }
+  /** Delete a session's transcript and state, cached or not. */
+  deleteSession(sessionId: string): void {
+    assertValidSessionId(sessionId);
+    const memory = this.memories.get(sessionId);
+    if (memory) memory.delete();
+    else deleteMemoryFile(sessionId);
+    this.memories.delete(sessionId);
+    this.lastUsed.delete(sessionId);
   }
 
   /**
-   * Clean up old sessions
+   * Apply the anonymous-session TTL: delete cached sessions idle past it, then
+   * stored ones nobody wrote within it. The age bound protects a conversation
+   * live in another API process during a rolling restart. Returns the cached
+   * sessions deleted so callers can drop state of their own.
    */
-  async cleanupOldSessions(days: number = 30): Promise<number> {
-    const cutoff = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
-    const toDelete: string[] = [];
-
-    for (const [sessionId, session] of this.sessions.entries()) {
-      if (session.lastActivity < cutoff) {
-        toDelete.push(sessionId);
-      }
-    }
-
-    for (const sessionId of toDelete) {
-      await this.deleteSession(sessionId);
+  sweepExpired(now = Date.now()): string[] {
+    const expired: string[] = [];
+    for (const [sessionId, lastUsed] of this.lastUsed) {
+      if (now - lastUsed > this.ephemeralTtlMs) expired.push(sessionId);
     }
-
-    logger.info(`Cleaned up ${toDelete.length} old sessions`);
-    return toDelete.length;
+    for (const sessionId of expired) this.deleteSession(sessionId);
+    sweepEphemeralMemory(new Set(this.memories.keys()), this.ephemeralTtlMs, now);
+    return expired;
   }
 
   /**
-   * Save session to disk
+   * Fold the gateway's old `~/.nano-claw/sessions/<id>.json` records into the
+   * session metadata and remove them. A session that already has metadata
+   * keeps it. Returns how many records were imported.
    */
-  private async saveSession(session: Session): Promise<void> {
-    const filePath = path.join(this.sessionsDir, `${session.id}.json`);
-    try {
-      await fs.writeFile(filePath, JSON.stringify(session, null, 2));
-    } catch (error) {
-      logger.error(`Failed to save session: ${session.id}`, error);
+  importLegacySessions(dir = path.join(getConfigDir(), 'sessions')): number {
+    if (!existsSync(dir)) return 0;
+    let imported = 0;
+    for (const file of readdirSync(dir)) {
+      if (!file.endsWith('.json')) continue;
+      const filePath = path.join(dir, file);
+      try {
+        const record = readJsonFile<LegacySessionRecord>(filePath);
+        if (record && isValidSessionId(record.id) && !this.store.readState(record.id, 'meta')) {
+          const channel = record.channelType;
+          this.store.writeState(record.id, 'meta', {
+            version: 1,
+            createdAt: record.createdAt ?? new Date().toISOString(),
+            ...(channel && { channel }),
+            // The gateway keys users per channel, as AgentLoop records them.
+            ...(channel && record.userId && { userId: `${channel}:${record.userId}` }),
+          });
+          imported++;
+        }
+        removeJsonFile(filePath);
+      } catch (error) {
+        logger.warn({ error, file: filePath }, 'Failed to import legacy session record');
+      }
     }
-  }
-
-  /**
-   * Get all sessions
-   */
-  getAllSessions(): Session[] {
-    return Array.from(this.sessions.values());
+    if (imported > 0) logger.info({ imported }, 'Imported legacy gateway sessions');
+    return imported;
   }
 }
 
 // Singleton instance
-let sessionManager: SessionManager | null = null;
+let sessionManager: SessionManager | undefined;
 
-export async function getSessionManager(): Promise<SessionManager> {
-  if (!sessionManager) {
-    sessionManager = new SessionManager();
-    await sessionManager.initialize();
-  }
+/**
+ * The process-wide session service. It is rebuilt when the session store is
+ * replaced (see `__setSessionStoreForTest`), so no cached Memory outlives its
+ * backend.
+ */
+export function getSessionManager(): SessionManager {
+  const store = getSessionStore();
+  if (sessionManager?.store !== store) sessionManager = new SessionManager(store);
   return sessionManager;
 }
@@ -0,0 +1,74 @@
+import type { Message } from '../types';
+
+const SAFE_SESSION_RE = /^[A-Za-z0-9_-]{1,64}$/;
+
+/** Whether a session id is safe to use as a memory filename. */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SAFE_SESSION_RE.test(sessionId);
+}
+
+/** Reject unsafe ids before any memory path or filesystem operation occurs. */
+export function assertValidSessionId(sessionId: string): void {
+  if (!isValidSessionId(sessionId)) throw new Error('Invalid session id');
+}
+
+/**
+ * Per-session state kept beside the transcript. Values are the JSON envelopes
+ * the owners already version (`{version, ...}`); stores treat them as opaque.
+ */
+export type SessionStateKind = 'analysis' | 'scope' | 'pending' | 'summary' | 'meta';
+
+export const SESSION_STATE_KINDS: readonly SessionStateKind[] = [
+  'analysis',
+  'scope',
+  'pending',
+  'summary',
+  'meta',
+];
+
+export interface StoredSessionStamp {
+  sessionId: string;
+  /** Epoch ms of the last write. */
+  updatedAt: number;
+}
+
+/**
+ * Persistence for conversations. Memory owns the in-process copy and calls
+ * these on every change; implementations must make each call atomic on its
+ * own and safe against other processes using the same store.
+ *
+ * Reads throw on unreadable data so callers can log and fall back; writes
+ * throw on failure for the same reason.
+ */
+export interface SessionStore {
+  readonly backend: 'file' | 'sqlite';
+
+  /** The stored transcript, or undefined when the session has none. */
+  loadMessages(sessionId: string): Message[] | undefined;
+  /** Replace the whole transcript. */
+  saveMessages(sessionId: string, messages: readonly Message[]): void;
+  /**
+   * Save a transcript whose last message is the only change since the last
+   * save. Stores that keep messages individually write just that one.
+   */
+  appendMessage(sessionId: string, messages: readonly Message[]): void;
+  /**
+   * Epoch ms of the transcript's last write, or undefined when none is
+   * stored. Every write moves it, so a process can tell its copy is stale.
+   */
+  transcriptStamp(sessionId: string): number | undefined;
+
+  readState(sessionId: string, kind: SessionStateKind): unknown;
+  /** Store a state envelope; `undefined` removes it. */
+  writeState(sessionId: string, kind: SessionStateKind, value: unknown): void;
+
+  /** Remove the transcript and all state. Returns whether anything existed. */
+  deleteSession(sessionId: string): boolean;
+
+  /** Sessions with a transcript, stamped with its last write. */
+  listSessions(): StoredSessionStamp[];
+  /** Session ids holding state of one kind. */
+  listSessionsWithState(kind: SessionStateKind): string[];
+  /** Every session with anything stored, stamped with its latest write of any kind. */
+  listAllSessions(): StoredSessionStamp[];
+}
@@ -0,0 +1,142 @@
+import { existsSync, readdirSync, statSync } from 'fs';
+import { join } from 'path';
+import type { Message } from '../types';
+import { getMemoryDir } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { readJsonFile, removeJsonFile, writeJsonFile } from '../utils/persist';
+import {
+  SESSION_STATE_KINDS,
+  assertValidSessionId,
+  isValidSessionId,
+  type SessionStateKind,
+  type SessionStore,
+  type StoredSessionStamp,
+} from './base';
+
+const STATE_SUFFIXES: Record<SessionStateKind, string> = {
+  analysis: '.analysis.json',
+  scope: '.scope.json',
+  pending: '.pending.json',
+  summary: '.summary.json',
+  meta: '.meta.json',
+};
+
+/**
+ * The original layout: `<memoryDir>/<session>.json` for the transcript and a
+ * sidecar file per kind of state. Every write replaces the whole file
+ * atomically (see utils/persist.ts).
+ */
+export class FileSessionStore implements SessionStore {
+  readonly backend = 'file';
+
+  /** `dir` is resolved on each call so `NANO_CLAW_MEMORY_DIR` changes apply. */
+  constructor(private dir?: string) {}
+
+  private get memoryDir(): string {
+    return this.dir ?? getMemoryDir();
+  }
+
+  private transcriptPath(sessionId: string): string {
+    assertValidSessionId(sessionId);
+    return join(this.memoryDir, `${sessionId}.json`);
+  }
+
+  private statePath(sessionId: string, kind: SessionStateKind): string {
+    assertValidSessionId(sessionId);
+    return join(this.memoryDir, `${sessionId}${STATE_SUFFIXES[kind]}`);
+  }
+
+  loadMessages(sessionId: string): Message[] | undefined {
+    return readJsonFile(this.transcriptPath(sessionId), (parsed) => {
+      if (!Array.isArray(parsed)) throw new Error('transcript is not an array');
+      return parsed as Message[];
+    });
+  }
+
+  saveMessages(sessionId: string, messages: readonly Message[]): void {
+    writeJsonFile(this.transcriptPath(sessionId), messages);
+  }
+
+  appendMessage(sessionId: string, messages: readonly Message[]): void {
+    this.saveMessages(sessionId, messages);
+  }
+
+  transcriptStamp(sessionId: string): number | undefined {
+    const path = this.transcriptPath(sessionId);
+    try {
+      return statSync(path).mtimeMs;
+    } catch {
+      /* health-ok: no transcript file means no stamp */
+      return undefined;
+    }
+  }
+
+  readState(sessionId: string, kind: SessionStateKind): unknown {
+    return readJsonFile(this.statePath(sessionId, kind));
+  }
+
+  writeState(sessionId: string, kind: SessionStateKind, value: unknown): void {
+    const path = this.statePath(sessionId, kind);
+    if (value !== undefined) writeJsonFile(path, value);
+    else removeJsonFile(path);
+  }
+
+  deleteSession(sessionId: string): boolean {
+    const paths = [
+      this.transcriptPath(sessionId),
+      ...SESSION_STATE_KINDS.map((kind) => this.statePath(sessionId, kind)),
+    ];
+    let deleted = false;
+    for (const path of paths) {
+      try {
+        if (removeJsonFile(path)) deleted = true;
+      } catch (error) {
+        logger.error({ error, sessionId, path }, 'Failed to delete session file');
+      }
+    }
+    return deleted;
+  }
+
+  /** Session files in the directory, as `[sessionId, kind | 'messages', mtimeMs]`. */
+  private scan(): Array<[string, SessionStateKind | 'messages', number]> {
+    if (!existsSync(this.memoryDir)) return [];
+    const found: Array<[string, SessionStateKind | 'messages', number]> = [];
+    for (const filename of readdirSync(this.memoryDir)) {
+      if (!filename.endsWith('.json')) continue;
+      const kind = SESSION_STATE_KINDS.find((k) => filename.endsWith(STATE_SUFFIXES[k]));
+      const sessionId = filename.slice(0, -(kind ? STATE_SUFFIXES[kind] : '.json').length);
+      if (!isValidSessionId(sessionId)) continue;
+      try {
+        found.push([
+          sessionId,
+          kind ?? 'messages',
+          statSync(join(this.memoryDir, filename)).mtimeMs,
+        ]);
+      } catch (error) {
+        /* health-ok: a file deleted mid-scan is simply not listed */
+        logger.debug({ error, sessionId }, 'Session file vanished while listing');
+      }
+    }
+    return found;
+  }
+
+  listSessions(): StoredSessionStamp[] {
+    return this.scan()
+      .filter(([, kind]) => kind === 'messages')
+      .map(([sessionId, , updatedAt]) => ({ sessionId, updatedAt }));
+  }
+
+  listSessionsWithState(kind: SessionStateKind): string[] {
+    return this.scan()
+      .filter(([, found]) => found === kind)
+      .map(([sessionId]) => sessionId);
+  }
+
+  listAllSessions(): StoredSessionStamp[] {
+    const latest = new Map<string, number>();
+    for (const [sessionId, , updatedAt] of this.scan()) {
+      latest.set(sessionId, Math.max(updatedAt, latest.get(sessionId) ?? 0));
+    }
+    return [...latest].map(([sessionId, updatedAt]) => ({ sessionId, updatedAt }));
+  }
+}
@@ -0,0 +1,99 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadConfig } from '../config/index';
+import { StorageSchema, type StorageConfig } from '../config/schema';
+import { getConfigPath, getHomeDir } from '../utils/helpers';
+import { logger } from '../utils/logger';
+import { SESSION_STATE_KINDS, type SessionStateKind, type SessionStore } from './base';
+import { FileSessionStore } from './file';
+import { SqliteSessionStore } from './sqlite';
+
+export * from './base';
+export { FileSessionStore } from './file';
+export { SqliteSessionStore } from './sqlite';
+
+let store: SessionStore | undefined;
+
+export function defaultSqlitePath(): string {
+  return join(getHomeDir(), 'sessions.db');
+}
+
+export function createSessionStore(config: StorageConfig): SessionStore {
+  if (config.backend === 'sqlite') {
+    return new SqliteSessionStore(config.path ?? defaultSqlitePath());
+  }
+  return new FileSessionStore();
+}
+
+/**
+ * Storage settings from the config file. Memory is constructed in places that
+ * never see the loaded config (CLI, cron, subagents), so the store reads it
+ * itself; without a config file the JSON layout is used.
+ */
+function configuredStorage(): StorageConfig {
+  if (!existsSync(getConfigPath())) return StorageSchema.parse({});
+  try {
+    return loadConfig().storage;
+  } catch (error) {
+    logger.warn({ error }, 'Unreadable config; storing sessions as JSON files');
+    return StorageSchema.parse({});
+  }
+}
+
+/** The process-wide session store, created from config on first use. */
+export function getSessionStore(): SessionStore {
+  store ??= createSessionStore(configuredStorage());
+  return store;
+}
+
+/** Test hook: replace (or with `undefined`, reset) the process-wide store. */
+export function __setSessionStoreForTest(next: SessionStore | undefined): void {
+  store = next;
+}
+
+export interface MigrationResult {
+  imported: number;
+  /** Already in the target and not overwritten. */
+  skipped: number;
+  /** Unreadable files; the session is imported without them. */
+  failed: Array<{ sessionId: string; kind: SessionStateKind | 'messages'; error: string }>;
+}
+
+/**
+ * Copy every session from the JSON layout into a SQLite store, keeping the
+ * last-write times. Sessions the target already holds are skipped unless
+ * `overwrite` is set. The JSON files are left in place.
+ */
+export function migrateFileStore(
+  source: FileSessionStore,
+  target: SqliteSessionStore,
+  overwrite = false
+): MigrationResult {
+  const result: MigrationResult = { imported: 0, skipped: 0, failed: [] };
+  const transcripts = new Map(source.listSessions().map((s) => [s.sessionId, s.updatedAt]));
+  for (const { sessionId, updatedAt } of source.listAllSessions()) {
+    if (!overwrite && target.hasSession(sessionId)) {
+      result.skipped++;
+      continue;
+    }
+    const attempt = <T>(kind: SessionStateKind | 'messages', read: () => T): T | undefined => {
+      try {
+        return read();
+      } catch (error) {
+        result.failed.push({ sessionId, kind, error: (error as Error).message });
+        return undefined;
+      }
+    };
+    const state: Partial<Record<SessionStateKind, unknown>> = {};
+    for (const kind of SESSION_STATE_KINDS) {
+      state[kind] = attempt(kind, () => source.readState(sessionId, kind));
+    }
+    target.importSession(sessionId, {
+      messages: attempt('messages', () => source.loadMessages(sessionId)),
+      state,
+      updatedAt: transcripts.get(sessionId) ?? updatedAt,
+    });
+    result.imported++;
+  }
+  return result;
+}
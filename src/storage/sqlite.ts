@@ -0,0 +1,239 @@
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+import Database from 'better-sqlite3';
+import type { Message } from '../types';
+import {
+  assertValidSessionId,
+  type SessionStateKind,
+  type SessionStore,
+  type StoredSessionStamp,
+} from './base';
+
+const SCHEMA_VERSION = 1;
+
+const SCHEMA = `
+CREATE TABLE IF NOT EXISTS sessions (
+  id TEXT PRIMARY KEY,
+  -- Last transcript write (epoch ms); NULL while the session has no transcript.
+  updated_at INTEGER,
+  -- Last write of anything, for TTL sweeps.
+  touched_at INTEGER NOT NULL,
+  created_at TEXT,
+  profile TEXT,
+  channel TEXT,
+  user_id TEXT
+);
+CREATE INDEX IF NOT EXISTS sessions_by_update ON sessions (updated_at);
+CREATE INDEX IF NOT EXISTS sessions_by_user ON sessions (user_id, updated_at);
+CREATE TABLE IF NOT EXISTS messages (
+  session_id TEXT NOT NULL,
+  seq INTEGER NOT NULL,
+  body TEXT NOT NULL,
+  PRIMARY KEY (session_id, seq)
+) WITHOUT ROWID;
+CREATE TABLE IF NOT EXISTS session_state (
+  session_id TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  body TEXT NOT NULL,
+  updated_at INTEGER NOT NULL,
+  PRIMARY KEY (session_id, kind)
+) WITHOUT ROWID;
+CREATE INDEX IF NOT EXISTS session_state_by_kind ON session_state (kind);
+`;
+
+/** A session as read from the JSON layout, for `importSession`. */
+export interface ImportedSession {
+  messages?: readonly Message[];
+  state: Partial<Record<SessionStateKind, unknown>>;
+  /** Epoch ms to record as the last write. */
+  updatedAt: number;
+}
+
+function metadataColumns(value: unknown): Array<string | null> {
+  const raw = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  return ['createdAt', 'profile', 'channel', 'userId'].map((key) =>
+    typeof raw[key] === 'string' ? raw[key] : null
+  );
+}
+
+/**
+ * One SQLite database for every session: a row per message, a row per kind of
+ * state, and a `sessions` row indexed by user and time. Runs in WAL mode with
+ * a busy timeout, so API processes overlapping in a rolling restart can share
+ * the file; every call is a single transaction.
+ */
+export class SqliteSessionStore implements SessionStore {
+  readonly backend = 'sqlite';
+  private db: Database.Database;
+  private statements: Record<string, Database.Statement>;
+
+  constructor(path: string) {
+    if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+    this.db = new Database(path);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('busy_timeout = 5000');
+    this.db.pragma('synchronous = NORMAL');
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    if (version > SCHEMA_VERSION) {
+      throw new Error(`Session database ${path} has a newer schema (v${version})`);
+    }
+    this.db.exec(SCHEMA);
+    this.db.pragma(`user_version = ${SCHEMA_VERSION}`);
+
+    const prepare = (sql: string) => this.db.prepare(sql);
+    this.statements = {
+      touch: prepare(
+        `INSERT INTO sessions (id, touched_at) VALUES (?, ?)
+         ON CONFLICT (id) DO UPDATE SET touched_at = excluded.touched_at`
+      ),
+      // Two writes in the same millisecond still get distinct stamps.
+      stampTranscript: prepare(
+        `INSERT INTO sessions (id, updated_at, touched_at) VALUES (?, ?, ?)
+         ON CONFLICT (id) DO UPDATE SET
+           updated_at = MAX(excluded.updated_at, COALESCE(sessions.updated_at, 0) + 1),
+           touched_at = excluded.touched_at`
+      ),
+      setMetadata: prepare(
+        'UPDATE sessions SET created_at = ?, profile = ?, channel = ?, user_id = ? WHERE id = ?'
+      ),
+      transcriptStamp: prepare('SELECT updated_at FROM sessions WHERE id = ?'),
+      messages: prepare('SELECT body FROM messages WHERE session_id = ? ORDER BY seq'),
+      putMessage: prepare(
+        'INSERT OR REPLACE INTO messages (session_id, seq, body) VALUES (?, ?, ?)'
+      ),
+      trimMessages: prepare('DELETE FROM messages WHERE session_id = ? AND seq >= ?'),
+      state: prepare('SELECT body FROM session_state WHERE session_id = ? AND kind = ?'),
+      putState: prepare(
+        `INSERT OR REPLACE INTO session_state (session_id, kind, body, updated_at)
+         VALUES (?, ?, ?, ?)`
+      ),
+      dropState: prepare('DELETE FROM session_state WHERE session_id = ? AND kind = ?'),
+      dropAllState: prepare('DELETE FROM session_state WHERE session_id = ?'),
+      dropSession: prepare('DELETE FROM sessions WHERE id = ?'),
+      withTranscript: prepare('SELECT id, updated_at FROM sessions WHERE updated_at IS NOT NULL'),
+      withState: prepare('SELECT session_id FROM session_state WHERE kind = ?'),
+      all: prepare('SELECT id, touched_at FROM sessions'),
+    };
+  }
+
+  loadMessages(sessionId: string): Message[] | undefined {
+    assertValidSessionId(sessionId);
+    const stamp = this.statements.transcriptStamp.get(sessionId) as
+      { updated_at: number | null } | undefined;
+    if (stamp?.updated_at == null) return undefined;
+    const rows = this.statements.messages.all(sessionId) as Array<{ body: string }>;
+    return rows.map((row) => JSON.parse(row.body) as Message);
+  }
+
+  saveMessages(sessionId: string, messages: readonly Message[]): void {
+    assertValidSessionId(sessionId);
+    this.db.transaction(() => {
+      this.statements.trimMessages.run(sessionId, 0);
+      messages.forEach((message, seq) =>
+        this.statements.putMessage.run(sessionId, seq, JSON.stringify(message))
+      );
+      const now = Date.now();
+      this.statements.stampTranscript.run(sessionId, now, now);
+    })();
+  }
+
+  appendMessage(sessionId: string, messages: readonly Message[]): void {
+    assertValidSessionId(sessionId);
+    const seq = messages.length - 1;
+    if (seq < 0) {
+      this.saveMessages(sessionId, messages);
+      return;
+    }
+    this.db.transaction(() => {
+      // Drops anything past the end that another process wrote meanwhile.
+      this.statements.trimMessages.run(sessionId, seq);
+      this.statements.putMessage.run(sessionId, seq, JSON.stringify(messages[seq]));
+      const now = Date.now();
+      this.statements.stampTranscript.run(sessionId, now, now);
+    })();
+  }
+
+  transcriptStamp(sessionId: string): number | undefined {
+    assertValidSessionId(sessionId);
+    const row = this.statements.transcriptStamp.get(sessionId) as
+      { updated_at: number | null } | undefined;
+    return row?.updated_at ?? undefined;
+  }
+
+  readState(sessionId: string, kind: SessionStateKind): unknown {
+    assertValidSessionId(sessionId);
+    const row = this.statements.state.get(sessionId, kind) as { body: string } | undefined;
+    return row ? (JSON.parse(row.body) as unknown) : undefined;
+  }
+
+  writeState(sessionId: string, kind: SessionStateKind, value: unknown): void {
+    assertValidSessionId(sessionId);
+    const now = Date.now();
+    this.db.transaction(() => {
+      if (value === undefined) {
+        if (this.statements.dropState.run(sessionId, kind).changes > 0) {
+          this.statements.touch.run(sessionId, now);
+        }
+        return;
+      }
+      this.statements.putState.run(sessionId, kind, JSON.stringify(value), now);
+      this.statements.touch.run(sessionId, now);
+      if (kind === 'meta') this.statements.setMetadata.run(...metadataColumns(value), sessionId);
+    })();
+  }
+
+  deleteSession(sessionId: string): boolean {
+    assertValidSessionId(sessionId);
+    return this.db.transaction(() => {
+      const changes =
+        this.statements.trimMessages.run(sessionId, 0).changes +
+        this.statements.dropAllState.run(sessionId).changes +
+        this.statements.dropSession.run(sessionId).changes;
+      return changes > 0;
+    })();
+  }
+
+  listSessions(): StoredSessionStamp[] {
+    const rows = this.statements.withTranscript.all() as Array<{ id: string; updated_at: number }>;
+    return rows.map((row) => ({ sessionId: row.id, updatedAt: row.updated_at }));
+  }
+
+  listSessionsWithState(kind: SessionStateKind): string[] {
+    const rows = this.statements.withState.all(kind) as Array<{ session_id: string }>;
+    return rows.map((row) => row.session_id);
+  }
+
+  listAllSessions(): StoredSessionStamp[] {
+    const rows = this.statements.all.all() as Array<{ id: string; touched_at: number }>;
+    return rows.map((row) => ({ sessionId: row.id, updatedAt: row.touched_at }));
+  }
+
+  /** Whether the session has a transcript or any state here. */
+  hasSession(sessionId: string): boolean {
+    return this.statements.transcriptStamp.get(sessionId) !== undefined;
+  }
+
+  /** Write a whole session in one transaction, keeping its original timestamps. */
+  importSession(sessionId: string, session: ImportedSession): void {
+    assertValidSessionId(sessionId);
+    this.db.transaction(() => {
+      this.deleteSession(sessionId);
+      this.statements.touch.run(sessionId, session.updatedAt);
+      if (session.messages) {
+        session.messages.forEach((message, seq) =>
+          this.statements.putMessage.run(sessionId, seq, JSON.stringify(message))
+        );
+        this.statements.stampTranscript.run(sessionId, session.updatedAt, session.updatedAt);
+      }
+      for (const [kind, value] of Object.entries(session.state)) {
+        if (value === undefined) continue;
+        this.statements.putState.run(sessionId, kind, JSON.stringify(value), session.updatedAt);
+        if (kind === 'meta') this.statements.setMetadata.run(...metadataColumns(value), sessionId);
+      }
+    })();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
@@ -71,6 +71,10 @@ export interface AgentConfig {
   responseMode?: 'text' | 'voice';
   /** Live pipeline configuration for this session, rendered into the base layer. */
   runtimeSettings?: RuntimeSettings;
+  /** Profile the config was resolved from (`default` when none); keys cost totals. */
+  profileId?: string;
+  /** Owner of long-term memory facts; without one, long-term memory is off. */
+  userId?: string;
 }
 
 /**
@@ -142,18 +146,6 @@ export interface DeepReasoningConfig {
   analysisStyle: AnalysisStyle;
 }
 
-/**
- * Session information
- */
-export interface Session {
-  id: string;
-  userId: string;
-  channelType: string;
-  createdAt: Date;
-  lastActivity: Date;
-  metadata?: Record<string, unknown>;
-}
-
 /**
  * Skill definition
  */
@@ -171,6 +163,8 @@ export interface ProviderConfig {
   apiKey?: string;
   apiBase?: string;
   enabled?: boolean;
+  /** Mock provider only: path of the scenario fixture file. */
+  fixtures?: string;
 }
 
 /**
@@ -270,11 +264,21 @@ export type StreamEvent =
       phaseStartedAt?: string;
       heartbeatAt?: string;
     }
+  | {
+      /** A fragment of a tool call as it streams. `index` identifies the call
+       * within the reply; `id` and `name` arrive with its first fragment.
+       * The assembled calls still follow as one `tool_calls` event. */
+      type: 'tool_call_delta';
+      index: number;
+      id?: string;
+      name?: string;
+      argumentsDelta: string;
+    }
   | { type: 'tool_calls'; toolCalls: ToolCall[] }
   | {
       type: 'done';
       finishReason?: string;
-      usage?: { promptTokens: number; completionTokens: number; totalTokens: number };
+      usage?: LLMResponse['usage'];
       /** Model that actually streamed this reply (fallback-aware). */
       model?: string;
     };
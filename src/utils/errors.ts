@@ -16,10 +16,51 @@ export class ConfigError extends NanoClawError {
   }
 }
 
+/** Why a provider call failed; decides between retry, fallback and giving up. */
+export const PROVIDER_ERROR_CODES = [
+  'rate_limited',
+  'server_error',
+  'connection',
+  'auth',
+  'bad_request',
+  'context_length',
+  'quota_exceeded',
+  'unknown',
+] as const;
+
+export type ProviderErrorCode = (typeof PROVIDER_ERROR_CODES)[number];
+
+export interface ProviderErrorDetails {
+  code?: ProviderErrorCode;
+  /** HTTP status of the failed response, when there was one. */
+  status?: number;
+  /** Server-requested wait before retrying (`retry-after`). */
+  retryAfterMs?: number;
+}
+
 export class ProviderError extends NanoClawError {
-  constructor(message: string) {
+  readonly code: ProviderErrorCode;
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string, details: ProviderErrorDetails = {}) {
     super(message);
     this.name = 'ProviderError';
+    this.code = details.code ?? 'unknown';
+    this.status = details.status;
+    this.retryAfterMs = details.retryAfterMs;
+  }
+
+  /** Transient: worth another try on the same model. */
+  get retryable(): boolean {
+    return (
+      this.code === 'rate_limited' || this.code === 'server_error' || this.code === 'connection'
+    );
+  }
+
+  /** The caller must fix something; trying other models would only hide it. */
+  get fatal(): boolean {
+    return this.code === 'auth' || this.code === 'bad_request';
   }
 }
 
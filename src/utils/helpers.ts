@@ -52,6 +52,13 @@ export function getCronJobsPath(): string {
   return join(getHomeDir(), 'cron.json');
 }
 
+/**
+ * Get the subagent task state directory path
+ */
+export function getSubagentsDir(): string {
+  return join(getHomeDir(), 'subagents');
+}
+
 /**
  * Sleep for a given number of milliseconds
  */
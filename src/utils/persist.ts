@@ -0,0 +1,140 @@
+import {
+  closeSync,
+  copyFileSync,
+  existsSync,
+  fsyncSync,
+  mkdirSync,
+  openSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeSync,
+} from 'fs';
+import { copyFile, mkdir, open, rename, rm } from 'fs/promises';
+import { randomBytes } from 'crypto';
+import { dirname } from 'path';
+import { logger } from './logger';
+
+/**
+ * Crash-safe persistence for the JSON state files.
+ *
+ * A write goes to a temp file in the same directory, is fsynced, and is then
+ * renamed over the target, so readers see either the old or the new content,
+ * never a torn file. Before the rename the current file is copied to
+ * `<path>.bak`; a reader that finds the main file unparseable falls back to
+ * it and logs a warning instead of starting from nothing.
+ */
+
+export function backupPathFor(path: string): string {
+  return `${path}.bak`;
+}
+
+function fsyncDirectory(dir: string): void {
+  let fd: number | undefined;
+  try {
+    fd = openSync(dir, 'r');
+    fsyncSync(fd);
+  } catch (error) {
+    /* health-ok: some platforms cannot fsync a directory; the rename is still atomic */
+    logger.debug({ error, dir }, 'Directory fsync unsupported');
+  } finally {
+    if (fd !== undefined) closeSync(fd);
+  }
+}
+
+/** Replace `path` with `data` atomically, keeping the previous version as `.bak`. */
+export function writeFileAtomic(path: string, data: string): void {
+  const dir = dirname(path);
+  mkdirSync(dir, { recursive: true });
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  const fd = openSync(tempPath, 'w', 0o600);
+  try {
+    writeSync(fd, data, null, 'utf-8');
+    fsyncSync(fd);
+  } catch (error) {
+    closeSync(fd);
+    unlinkSync(tempPath);
+    throw error;
+  }
+  closeSync(fd);
+  try {
+    if (existsSync(path)) copyFileSync(path, backupPathFor(path));
+    renameSync(tempPath, path);
+  } catch (error) {
+    if (existsSync(tempPath)) unlinkSync(tempPath);
+    throw error;
+  }
+  fsyncDirectory(dir);
+}
+
+export function writeJsonFile(path: string, value: unknown): void {
+  writeFileAtomic(path, JSON.stringify(value, null, 2));
+}
+
+/** `writeJsonFile` for async callers; the same temp, fsync, backup and rename steps. */
+export async function writeJsonFileAsync(path: string, value: unknown): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tempPath = `${path}.${process.pid}.${randomBytes(4).toString('hex')}.tmp`;
+  try {
+    const handle = await open(tempPath, 'w', 0o600);
+    try {
+      await handle.writeFile(JSON.stringify(value, null, 2), 'utf-8');
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    if (existsSync(path)) await copyFile(path, backupPathFor(path));
+    await rename(tempPath, path);
+  } catch (error) {
+    await rm(tempPath, { force: true });
+    throw error;
+  }
+  fsyncDirectory(dirname(path));
+}
+
+/**
+ * Read a JSON file written by `writeJsonFile`. `validate` may reject a parsed
+ * value by throwing. When the main file fails, the backup is tried; a good
+ * backup is restored over the main file. Returns undefined when the file does
+ * not exist and throws the original error when neither copy is usable.
+ */
+export function readJsonFile<T = unknown>(
+  path: string,
+  validate: (value: unknown) => T = (value) => value as T
+): T | undefined {
+  const backupPath = backupPathFor(path);
+  if (!existsSync(path)) return undefined;
+  try {
+    return validate(JSON.parse(readFileSync(path, 'utf-8')) as unknown);
+  } catch (error) {
+    if (!existsSync(backupPath)) throw error;
+    let recovered: T;
+    try {
+      recovered = validate(JSON.parse(readFileSync(backupPath, 'utf-8')) as unknown);
+    } catch {
+      throw error;
+    }
+    logger.warn({ error, path }, 'Unreadable state file; recovered the previous version');
+    try {
+      copyFileSync(backupPath, path);
+    } catch (restoreError) {
+      logger.error({ error: restoreError, path }, 'Failed to restore state file from backup');
+    }
+    return recovered;
+  }
+}
+
+/** Delete a file written by `writeJsonFile` and its backup. Returns whether it existed. */
+export function removeJsonFile(path: string): boolean {
+  const existed = existsSync(path);
+  for (const candidate of [path, backupPathFor(path)]) {
+    if (existsSync(candidate)) unlinkSync(candidate);
+  }
+  return existed;
+}
+
+/** `removeJsonFile` for async callers; rejects when the file is missing. */
+export async function removeJsonFileAsync(path: string): Promise<void> {
+  await rm(path);
+  await rm(backupPathFor(path), { force: true });
+}
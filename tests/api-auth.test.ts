@@ -0,0 +1,301 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import { hashApiKey } from '../src/api/auth';
+
+const TENANT_KEY = 'tenant-a-secret';
+const ADMIN_KEY = 'admin-secret';
+const SALES_KEY = 'sales-secret';
+
+interface FakeResponse {
+  status: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+async function request(
+  server: Server,
+  method: string,
+  url: string,
+  headers: Record<string, string> = {},
+  body?: Record<string, unknown>
+): Promise<FakeResponse> {
+  const req = Readable.from(body ? [Buffer.from(JSON.stringify(body))] : []) as any;
+  req.method = method;
+  req.url = url;
+  req.headers = body ? { 'content-type': 'application/json', ...headers } : headers;
+
+  return new Promise((resolve, reject) => {
+    const result: FakeResponse = { status: 0, headers: {}, body: null };
+    let raw = '';
+    const res: any = {
+      setHeader(name: string, value: string) {
+        result.headers[name.toLowerCase()] = value;
+      },
+      writeHead(statusCode: number, extra?: Record<string, string>) {
+        result.status = statusCode;
+        for (const [name, value] of Object.entries(extra ?? {})) {
+          result.headers[name.toLowerCase()] = value;
+        }
+        return res;
+      },
+      end(chunk?: string | Buffer) {
+        if (chunk) raw += chunk.toString();
+        try {
+          result.body = raw ? JSON.parse(raw) : null;
+          resolve(result);
+        } catch (error) {
+          reject(error);
+        }
+        return res;
+      },
+    };
+    const listener = server.listeners('request')[0] as (
+      request: typeof req,
+      response: typeof res
+    ) => void;
+    listener(req, res);
+  });
+}
+
+describe('HTTP API authentication', () => {
+  const originalHome = process.env.HOME;
+  let testHome: string;
+  let server: Server;
+  let providerCalls: number;
+
+  beforeEach(async () => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-api-auth-'));
+    process.env.HOME = testHome;
+    const defaults = createDefaultConfig();
+    const config = {
+      ...defaults,
+      agents: {
+        ...defaults.agents,
+        profiles: { sales: { label: 'Sales', systemPrompt: 'You sell.', knowledgeFiles: [] } },
+      },
+      api: {
+        auth: {
+          enabled: true,
+          keys: [
+            {
+              id: 'tenant-a',
+              keyHash: hashApiKey(TENANT_KEY),
+              profiles: ['default'],
+              sessionPrefixes: ['tenant-a-'],
+              userPrefixes: ['tenant-a-'],
+            },
+            { id: 'admin', keyHash: hashApiKey(ADMIN_KEY) },
+            { id: 'sales', keyHash: hashApiKey(SALES_KEY), profiles: ['sales'] },
+          ],
+        },
+        cors: { allowedOrigins: ['http://lan-ui.local:3000'] },
+      },
+    };
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(join(testHome, '.nano-claw', 'config.json'), JSON.stringify(config));
+
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    providerCalls = 0;
+    api.__setProviderManagerForTest({
+      async complete() {
+        providerCalls++;
+        return { content: 'ok', finishReason: 'stop' };
+      },
+    });
+    server = api.createServer();
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  it('keeps the health check open but rejects unauthenticated routes with 401', async () => {
+    expect((await request(server, 'GET', '/api/health')).status).toBe(200);
+
+    const missing = await request(server, 'GET', '/api/models');
+    expect(missing.status).toBe(401);
+    expect(missing.body).toEqual({ error: 'Missing API key', code: 'unauthorized' });
+    expect(missing.headers['www-authenticate']).toBe('Bearer');
+
+    const wrong = await request(
+      server,
+      'POST',
+      '/api/chat',
+      { 'x-api-key': 'nope' },
+      {
+        message: 'hi',
+      }
+    );
+    expect(wrong.status).toBe(401);
+    expect(wrong.body.error).toBe('Invalid API key');
+    expect(providerCalls).toBe(0);
+  });
+
+  it('accepts Bearer and X-API-Key credentials', async () => {
+    const bearer = await request(server, 'GET', '/api/models', {
+      authorization: `Bearer ${ADMIN_KEY}`,
+    });
+    expect(bearer.status).toBe(200);
+
+    const chat = await request(
+      server,
+      'POST',
+      '/api/chat',
+      { 'x-api-key': TENANT_KEY },
+      {
+        message: 'hi',
+        sessionId: 'tenant-a-call-1',
+      }
+    );
+    expect(chat.status).toBe(200);
+    expect(chat.body.type).toBe('final');
+    expect(providerCalls).toBe(1);
+  });
+
+  it('returns 403 before touching memory when a key is used outside its bindings', async () => {
+    const auth = { authorization: `Bearer ${TENANT_KEY}` };
+
+    const otherSession = await request(server, 'POST', '/api/chat', auth, {
+      message: 'hi',
+      sessionId: 'tenant-b-call-1',
+    });
+    expect(otherSession.status).toBe(403);
+    expect(otherSession.body.code).toBe('forbidden');
+
+    const otherProfile = await request(server, 'POST', '/api/chat', auth, {
+      message: 'hi',
+      sessionId: 'tenant-a-call-1',
+      profile: 'sales',
+    });
+    expect(otherProfile.status).toBe(403);
+
+    const otherUser = await request(server, 'POST', '/api/chat', auth, {
+      message: 'hi',
+      sessionId: 'tenant-a-call-1',
+      userId: 'tenant-b-caller',
+    });
+    expect(otherUser.status).toBe(403);
+    expect(otherUser.body.error).toBe('API key is not permitted for this user');
+    const otherUserFacts = await request(
+      server,
+      'GET',
+      '/api/memories?userId=tenant-b-caller',
+      auth
+    );
+    expect(otherUserFacts.status).toBe(403);
+    const ownFacts = await request(server, 'GET', '/api/memories?userId=tenant-a-caller', auth);
+    expect(ownFacts.body).toEqual({ facts: [] });
+
+    const approve = await request(server, 'POST', '/api/chat/approve', auth, {
+      requestId: 'r1',
+      sessionId: 'tenant-b-call-1',
+    });
+    expect(approve.status).toBe(403);
+    expect(providerCalls).toBe(0);
+
+    const { getMemory } = await import('../src/api/server');
+    expect(getMemory('tenant-b-call-1').getMessages()).toEqual([]);
+  });
+
+  it('limits session history to the sessions a key is bound to', async () => {
+    const admin = { authorization: `Bearer ${ADMIN_KEY}` };
+    const tenant = { authorization: `Bearer ${TENANT_KEY}` };
+    await request(server, 'POST', '/api/chat', tenant, { message: 'hi', sessionId: 'tenant-a-1' });
+    await request(server, 'POST', '/api/chat', admin, { message: 'hi', sessionId: 'tenant-b-1' });
+
+    const listed = await request(server, 'GET', '/api/sessions', tenant);
+    expect(listed.body.sessions.map((s: { sessionId: string }) => s.sessionId)).toEqual([
+      'tenant-a-1',
+    ]);
+    expect((await request(server, 'GET', '/api/sessions', admin)).body.total).toBe(2);
+    expect((await request(server, 'GET', '/api/sessions/tenant-b-1', tenant)).status).toBe(403);
+    expect((await request(server, 'GET', '/api/sessions/tenant-a-1', tenant)).status).toBe(200);
+  });
+
+  it('lets a key bound to another profile approve, reject and delete its own sessions', async () => {
+    const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    try {
+      vi.resetModules();
+      const api = await import('../src/api/server');
+      let pause = true;
+      api.__setProviderManagerForTest({
+        async complete() {
+          if (!pause) return { content: 'done', finishReason: 'stop' };
+          pause = false;
+          const args = JSON.stringify({ path: join(testHome, 'out.txt'), content: 'x' });
+          return {
+            content: '',
+            toolCalls: [
+              { id: 'c1', type: 'function', function: { name: 'write_file', arguments: args } },
+            ],
+            finishReason: 'tool_calls',
+          };
+        },
+      });
+      const sales = { authorization: `Bearer ${SALES_KEY}` };
+      const salesServer = api.createServer();
+      const chat = (sessionId: string) =>
+        request(salesServer, 'POST', '/api/chat', sales, {
+          message: 'hi',
+          sessionId,
+          profile: 'sales',
+        });
+
+      const first = await chat('sales-1');
+      expect(first.body.type).toBe('tool_pending');
+      const rejected = await request(salesServer, 'POST', '/api/chat/reject', sales, {
+        requestId: first.body.requestId,
+        sessionId: 'sales-1',
+      });
+      expect(rejected.status).toBe(200);
+
+      pause = true;
+      const second = await chat('sales-2');
+      const approved = await request(salesServer, 'POST', '/api/chat/approve', sales, {
+        requestId: second.body.requestId,
+        sessionId: 'sales-2',
+      });
+      expect(approved.status).toBe(200);
+      expect(approved.body.response).toBe('done');
+      const expired = await request(salesServer, 'POST', '/api/chat/approve', sales, {
+        requestId: second.body.requestId,
+        sessionId: 'sales-2',
+      });
+      expect(expired.status).toBe(404);
+
+      const anonymous = `voice-${'c'.repeat(32)}`;
+      await chat(anonymous);
+      const deleted = await request(salesServer, 'DELETE', '/api/session', sales, {
+        sessionId: anonymous,
+      });
+      expect(deleted.body).toEqual({ deleted: true });
+    } finally {
+      if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+      else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    }
+  });
+
+  it('echoes only allowlisted origins', async () => {
+    const allowed = await request(server, 'OPTIONS', '/api/chat', {
+      origin: 'http://lan-ui.local:3000',
+    });
+    expect(allowed.status).toBe(204);
+    expect(allowed.headers['access-control-allow-origin']).toBe('http://lan-ui.local:3000');
+    expect(allowed.headers['vary']).toBe('Origin');
+
+    const foreign = await request(server, 'OPTIONS', '/api/chat', {
+      origin: 'http://evil.example',
+    });
+    expect(foreign.headers['access-control-allow-origin']).toBeUndefined();
+  });
+});
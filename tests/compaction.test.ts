@@ -0,0 +1,170 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CompactionSchema } from '../src/config/schema';
+import type { LLMResponse, Message } from '../src/types';
+
+let dir: string;
+const originalHome = process.env.HOME;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-compaction-'));
+  process.env.HOME = dir;
+  vi.resetModules();
+});
+
+afterEach(() => {
+  if (originalHome === undefined) delete process.env.HOME;
+  else process.env.HOME = originalHome;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const text = (tokens: number) => 'x'.repeat(tokens * 4);
+
+/** One user turn whose answer needed a tool call. */
+function toolTurn(n: number, tokens: number): Message[] {
+  const call = {
+    id: `c${n}`,
+    type: 'function' as const,
+    function: { name: 'read', arguments: '{}' },
+  };
+  return [
+    { role: 'user', content: `q${n} ${text(tokens)}` },
+    { role: 'assistant', content: '', tool_calls: [call] },
+    { role: 'tool', content: text(tokens), tool_call_id: `c${n}`, name: 'read' },
+    { role: 'assistant', content: `a${n}` },
+  ];
+}
+
+async function load() {
+  const { Memory } = await import('../src/agent/memory');
+  const compaction = await import('../src/agent/compaction');
+  return { Memory, ...compaction };
+}
+
+describe('compaction helpers', () => {
+  it('looks up context windows, with exact-id overrides', async () => {
+    const { contextWindowFor } = await load();
+    expect(contextWindowFor('anthropic/claude-haiku-4-5')).toBe(200_000);
+    expect(contextWindowFor('openrouter/meta-llama/llama-4-scout')).toBe(128_000);
+    expect(contextWindowFor('ollama/llama3.2')).toBe(8192);
+    expect(contextWindowFor('mystery/model')).toBe(32_000);
+    expect(contextWindowFor('ollama/llama3.2', { 'ollama/llama3.2': 65_536 })).toBe(65_536);
+  });
+
+  it('cuts only where a user turn starts', async () => {
+    const { compactionCut } = await load();
+    const messages = [...toolTurn(1, 100), ...toolTurn(2, 100), ...toolTurn(3, 100)];
+    // The last turn (~220 tokens) fits in 300; the cut lands on its user message.
+    expect(compactionCut(messages, 300)).toBe(8);
+    // Not even the last turn fits: it is still kept whole.
+    expect(compactionCut(messages, 10)).toBe(8);
+    // Everything fits.
+    expect(compactionCut(messages, 1000)).toBe(0);
+    expect(compactionCut(toolTurn(1, 100), 10)).toBe(0);
+  });
+});
+
+describe('compactHistory', () => {
+  const settings = (overrides: Record<string, unknown> = {}) =>
+    CompactionSchema.parse({ contextTokens: { 'test/model': 1000 }, ...overrides });
+
+  it('leaves history under budget alone', async () => {
+    const { Memory, compactHistory } = await load();
+    const memory = new Memory('small');
+    for (const m of toolTurn(1, 50)) memory.addMessage(m);
+    const complete = vi.fn();
+    expect(await compactHistory(memory, 'test/model', settings(), complete)).toBeUndefined();
+    expect(complete).not.toHaveBeenCalled();
+  });
+
+  it('folds old turns and the previous summary into a persisted rolling summary', async () => {
+    const { Memory, compactHistory } = await load();
+    const memory = new Memory('long');
+    for (let n = 1; n <= 4; n++) for (const m of toolTurn(n, 80)) memory.addMessage(m);
+    const prompts: Message[][] = [];
+    const complete = async (messages: Message[], model: string): Promise<LLMResponse> => {
+      prompts.push(messages);
+      return {
+        content: `summary ${prompts.length}`,
+        model,
+        usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 },
+      };
+    };
+
+    const options = settings({ summaryModel: 'test/cheap' });
+    const result = await compactHistory(memory, 'test/model', options, complete);
+    expect(result).toMatchObject({ compactedCount: 12, model: 'test/cheap' });
+    expect(memory.getMessages()).toHaveLength(4);
+    expect(memory.getMessages()[0]).toMatchObject({ role: 'user' });
+    expect(memory.getSummary()).toBe('summary 1');
+    expect(prompts[0][1].content).toContain('Tool result (read)');
+    expect(prompts[0][1].content).not.toContain('Earlier summary');
+
+    for (let n = 5; n <= 7; n++) for (const m of toolTurn(n, 80)) memory.addMessage(m);
+    await compactHistory(memory, 'test/model', options, complete);
+    expect(prompts[1][1].content).toContain('Earlier summary:\nsummary 1');
+
+    const reloaded = new (await load()).Memory('long');
+    expect(reloaded.getSummary()).toBe('summary 2');
+    expect(reloaded.getMessages()).toEqual(memory.getMessages());
+
+    reloaded.delete();
+    expect(existsSync(join(dir, '.nano-claw', 'memory', 'long.summary.json'))).toBe(false);
+  });
+
+  it('summarizes short turns before the message cap would drop them', async () => {
+    const { Memory, compactHistory } = await load();
+    const memory = new Memory('chatty', 20);
+    for (let n = 1; n <= 3; n++) for (const m of toolTurn(n, 1)) memory.addMessage(m);
+    const complete = async (): Promise<LLMResponse> => ({ content: 'They asked three things.' });
+
+    // 12 messages pass half the cap of 20; at most a quarter (5) stay, cut at a turn start.
+    const result = await compactHistory(memory, 'test/model', settings(), complete);
+    expect(result).toMatchObject({ compactedCount: 8 });
+    expect(memory.getMessages().map((m) => m.content)[0]).toMatch(/^q3/);
+    expect(memory.getSummary()).toBe('They asked three things.');
+  });
+
+  it('keeps the full history when the summarizer fails', async () => {
+    const { Memory, compactHistory } = await load();
+    const memory = new Memory('flaky');
+    for (let n = 1; n <= 4; n++) for (const m of toolTurn(n, 80)) memory.addMessage(m);
+    const complete = async (): Promise<LLMResponse> => {
+      throw new Error('provider down');
+    };
+    expect(await compactHistory(memory, 'test/model', settings(), complete)).toBeUndefined();
+    expect(memory.getMessages()).toHaveLength(16);
+    expect(memory.getSummary()).toBeUndefined();
+  });
+});
+
+describe('Memory message cap', () => {
+  it('trims whole turns so tool results keep their calls', async () => {
+    const { Memory } = await load();
+    const memory = new Memory('capped', 6);
+    for (let n = 1; n <= 3; n++) for (const m of toolTurn(n, 1)) memory.addMessage(m);
+    const messages = memory.getMessages();
+    expect(messages[0]).toMatchObject({ role: 'user' });
+    expect(messages[0].content).toMatch(/^q3/);
+    expect(messages).toHaveLength(4);
+  });
+});
+
+describe('ContextBuilder summary', () => {
+  it('renders the summary below the cache marker', async () => {
+    const { ContextBuilder } = await import('../src/agent/context');
+    const { SYSTEM_CACHE_MARKER } = await import('../src/types');
+    const prompt = new ContextBuilder({ model: 'test/model' }).buildSystemPrompt(
+      [],
+      [],
+      undefined,
+      undefined,
+      'They agreed on Tuesday.'
+    );
+    const marker = prompt.indexOf(SYSTEM_CACHE_MARKER);
+    expect(prompt.indexOf('## Earlier in this conversation')).toBeGreaterThan(marker);
+    expect(prompt).toContain('They agreed on Tuesday.');
+  });
+});
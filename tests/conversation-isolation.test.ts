@@ -1,12 +1,21 @@
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { Server } from 'node:http';
-import { existsSync, mkdtempSync, readFileSync, rmSync, utimesSync } from 'node:fs';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  utimesSync,
+  writeFileSync,
+} from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
 import { Readable } from 'node:stream';
 import { Memory } from '../src/agent/memory';
 import { createServer, getMemory, __setProviderManagerForTest } from '../src/api/server';
 import { getMemoryDir } from '../src/utils/helpers';
+import { createDefaultConfig } from '../src/config/index';
 
 async function jsonRequest(
   server: Server,
@@ -183,7 +192,18 @@ describe('anonymous conversation isolation', () => {
   it('binds a pending tool decision to its originating session', async () => {
     const ownerSession = `voice-${'d'.repeat(32)}`;
     const otherSession = `voice-${'e'.repeat(32)}`;
-    __setProviderManagerForTest({
+    // Calls to unregistered tools never reach an approval card, so this
+    // needs a server that actually offers `shell`.
+    const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(
+      join(testHome, '.nano-claw', 'config.json'),
+      JSON.stringify({ ...createDefaultConfig(), tools: { enabled: true } })
+    );
+    vi.resetModules();
+    const server = await import('../src/api/server');
+    server.__setProviderManagerForTest({
       async complete(messages: Array<{ role: string; content: string }>) {
         if (messages[messages.length - 1]?.role === 'user') {
           return {
@@ -202,7 +222,7 @@ describe('anonymous conversation isolation', () => {
       },
     });
 
-    const api = createServer();
+    const api = server.createServer();
     try {
       const pending = await jsonRequest(api, '/api/chat', 'POST', {
         message: 'request a tool',
@@ -228,6 +248,8 @@ describe('anonymous conversation isolation', () => {
       await jsonRequest(api, '/api/session', 'DELETE', { sessionId: otherSession });
     } finally {
       api.emit('close');
+      if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+      else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
     }
   });
 });
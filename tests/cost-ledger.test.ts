@@ -0,0 +1,244 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import { CostsConfigSchema } from '../src/config/schema';
+import { CostLedger, type DayTotals } from '../src/agent/cost-ledger';
+import { priceFor, priceUsage } from '../src/agent/pricing';
+import type { Message } from '../src/types';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-costs-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const usage = (promptTokens: number, completionTokens: number) => ({
+  promptTokens,
+  completionTokens,
+  totalTokens: promptTokens + completionTokens,
+});
+
+describe('pricing', () => {
+  it('prices cache reads and writes at their own rates', () => {
+    const cost = priceUsage('anthropic/claude-haiku-4-5', {
+      ...usage(1000, 100),
+      cacheReadTokens: 600,
+      cacheWriteTokens: 200,
+    });
+    // 200 fresh input at $1, 600 cached at $0.10, 200 written at $1.25, 100 out at $5.
+    expect(cost.usd).toBeCloseTo((200 * 1 + 600 * 0.1 + 200 * 1.25 + 100 * 5) / 1e6, 12);
+    expect(cost.unpriced).toBeUndefined();
+  });
+
+  it('resolves gateway and bare ids, free local models, and overrides', () => {
+    const haiku = priceFor('anthropic/claude-haiku-4-5');
+    expect(priceFor('openrouter/anthropic/claude-haiku-4-5')).toEqual(haiku);
+    expect(priceFor('claude-haiku-4-5')).toEqual(haiku);
+    expect(priceFor('openrouter/meta-llama/llama-4-scout')).toMatchObject({ input: 0.08 });
+    expect(priceFor('ollama/gemma4:26b')).toEqual({ input: 0, output: 0 });
+    expect(priceFor('openai/gpt-4o')).toBeUndefined();
+    expect(priceFor('openai/gpt-4o', { 'openai/gpt-4o': { input: 2.5, output: 10 } })).toEqual({
+      input: 2.5,
+      output: 10,
+    });
+    expect(priceUsage('openai/gpt-4o', usage(10, 10))).toEqual({ usd: 0, unpriced: true });
+  });
+});
+
+describe('CostLedger', () => {
+  function clock(iso: string) {
+    let t = Date.parse(iso);
+    return { now: () => t, advanceDays: (days: number) => (t += days * 86_400_000) };
+  }
+
+  function ledger(costs: Record<string, unknown> = {}, now = clock('2026-10-19T12:00:00Z').now) {
+    return new CostLedger(CostsConfigSchema.parse(costs), join(dir, 'costs.json'), now);
+  }
+
+  it('adds each call to its session, profile and day, and persists them', () => {
+    const first = ledger();
+    first.record({
+      sessionId: 's1',
+      profile: 'sales',
+      model: 'openai/gpt-4o-mini',
+      usage: usage(1_000_000, 0),
+    });
+    first.record({
+      sessionId: 's2',
+      profile: 'default',
+      model: 'openai/gpt-4o',
+      usage: usage(10, 10),
+    });
+
+    const snapshot = ledger().snapshot();
+    expect(snapshot.sessions.s1).toMatchObject({ usd: 0.15, calls: 1, promptTokens: 1_000_000 });
+    const day = snapshot.days['2026-10-19'] as DayTotals;
+    expect(day).toMatchObject({ usd: 0.15, calls: 2, unpricedCalls: 1 });
+    expect(day.models['openai/gpt-4o']).toEqual({ usd: 0, calls: 1 });
+    expect(Object.keys(day.profiles)).toEqual(['sales', 'default']);
+  });
+
+  it('adds to the totals another instance wrote since it last read them', () => {
+    const api = ledger();
+    const gateway = ledger();
+    expect(api.check('s1', 'default')).toEqual({ level: 'ok' });
+    gateway.record({
+      sessionId: 's1',
+      profile: 'default',
+      model: 'openai/gpt-4o-mini',
+      usage: usage(1_000_000, 0),
+    });
+    api.record({
+      sessionId: 's1',
+      profile: 'default',
+      model: 'openai/gpt-4o-mini',
+      usage: usage(1_000_000, 0),
+    });
+    expect(ledger().snapshot().sessions.s1).toMatchObject({ usd: 0.3, calls: 2 });
+  });
+
+  it('reports the first hard budget, else the first soft one', () => {
+    const l = ledger({
+      budgets: { session: { softUsd: 0.1, hardUsd: 1 }, day: { hardUsd: 0.2 } },
+    });
+    const call = { profile: 'default', model: 'openai/gpt-4o-mini', usage: usage(1_000_000, 0) };
+    expect(l.check('s1', 'default')).toEqual({ level: 'ok' });
+    l.record({ ...call, sessionId: 's1' });
+    expect(l.check('s1', 'default')).toEqual({
+      level: 'soft',
+      scope: 'session',
+      spentUsd: 0.15,
+      limitUsd: 0.1,
+    });
+    expect(l.check('s2', 'default').level).toBe('ok');
+    l.record({ ...call, sessionId: 's2' });
+    expect(l.check('s3', 'default')).toMatchObject({ level: 'hard', scope: 'day', limitUsd: 0.2 });
+  });
+
+  it('resets profile and day budgets at midnight UTC and prunes old days', () => {
+    const time = clock('2026-10-19T23:00:00Z');
+    const l = ledger({ budgets: { profile: { hardUsd: 0.1 } }, retentionDays: 2 }, time.now);
+    l.record({
+      sessionId: 's1',
+      profile: 'default',
+      model: 'openai/gpt-4o-mini',
+      usage: usage(1_000_000, 0),
+    });
+    expect(l.check('s1', 'default').level).toBe('hard');
+    time.advanceDays(1);
+    expect(l.check('s1', 'default').level).toBe('ok');
+    time.advanceDays(2);
+    l.record({ sessionId: 's2', profile: 'default', model: 'ollama/x', usage: usage(1, 1) });
+    expect(Object.keys(l.snapshot().days)).toEqual(['2026-10-22']);
+    expect(Object.keys(l.snapshot().sessions)).toEqual(['s2']);
+  });
+
+  it('shows a scoped key only its sessions and profiles', () => {
+    const l = ledger();
+    const call = { model: 'openai/gpt-4o-mini', usage: usage(100, 100) };
+    l.record({ ...call, sessionId: 'desk-1', profile: 'sales' });
+    l.record({ ...call, sessionId: 'other', profile: 'default' });
+    const snapshot = l.snapshot({ sessionPrefixes: ['desk-'], profiles: ['sales'] });
+    expect(Object.keys(snapshot.sessions)).toEqual(['desk-1']);
+    expect(snapshot.days['2026-10-19']).toEqual({
+      profiles: { sales: expect.objectContaining({ calls: 1 }) },
+    });
+  });
+});
+
+describe('budgets on /api/chat', () => {
+  const originalHome = process.env.HOME;
+
+  beforeEach(() => {
+    process.env.HOME = dir;
+    const defaults = createDefaultConfig();
+    const config = {
+      ...defaults,
+      agents: {
+        ...defaults.agents,
+        defaults: { ...defaults.agents.defaults, model: 'anthropic/claude-sonnet-4-5' },
+      },
+      costs: {
+        budgets: { session: { softUsd: 0.01, hardUsd: 0.02 } },
+        downgradeModel: 'anthropic/claude-haiku-4-5',
+      },
+    };
+    mkdirSync(join(dir, '.nano-claw'), { recursive: true });
+    writeFileSync(join(dir, '.nano-claw', 'config.json'), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    vi.resetModules();
+  });
+
+  async function call(
+    server: import('node:http').Server,
+    method: string,
+    url: string,
+    body?: Record<string, unknown>
+  ): Promise<{ status: number; body: any }> {
+    const req = Readable.from(body ? [Buffer.from(JSON.stringify(body))] : []) as any;
+    req.method = method;
+    req.url = url;
+    req.headers = { 'content-type': 'application/json' };
+    return new Promise((resolve) => {
+      let status = 0;
+      const res: any = {
+        setHeader() {},
+        writeHead(code: number) {
+          status = code;
+          return res;
+        },
+        end(chunk?: string) {
+          resolve({ status, body: JSON.parse(chunk ?? 'null') });
+          return res;
+        },
+      };
+      (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+    });
+  }
+
+  it('downgrades past the soft budget, refuses past the hard one, and reports spend', async () => {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const models: string[] = [];
+    api.__setProviderManagerForTest({
+      async complete(_messages: Message[], model: string) {
+        models.push(model);
+        // Sonnet: 2000 in at $3 + 400 out at $15 = $0.012; Haiku: $0.004.
+        return { content: 'ok', usage: usage(2000, 400) };
+      },
+    });
+    const server = api.createServer();
+    const chat = () => call(server, 'POST', '/api/chat', { message: 'hi', sessionId: 'b1' });
+
+    const first = await chat();
+    expect(first.body.debug.cost.usd).toBeCloseTo(0.012, 9);
+    await chat();
+    expect(models).toEqual(['anthropic/claude-sonnet-4-5', 'anthropic/claude-haiku-4-5']);
+
+    await chat(); // $0.016 before this turn: still soft
+    const refused = await chat();
+    expect(refused.status).toBe(402);
+    expect(refused.body).toMatchObject({
+      code: 'budget_exceeded',
+      budget: { level: 'hard', scope: 'session', limitUsd: 0.02 },
+    });
+    expect(models).toHaveLength(3);
+
+    const costs = await call(server, 'GET', '/api/costs');
+    expect(costs.status).toBe(200);
+    expect(costs.body.sessions.b1).toMatchObject({ usd: 0.02, calls: 3 });
+    expect(costs.body.budgets.session).toEqual({ softUsd: 0.01, hardUsd: 0.02 });
+    expect(existsSync(join(dir, '.nano-claw', 'costs.json'))).toBe(true);
+  });
+});
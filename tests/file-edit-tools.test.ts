@@ -0,0 +1,323 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  readdirSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { FileToolOptions } from '../src/agent/tools/file';
+import { ApplyPatchTool, EditFileTool } from '../src/agent/tools/file-edit';
+import { GlobTool, GrepFilesTool, ListDirTool } from '../src/agent/tools/file-search';
+import { applyHunks, parsePatch, unifiedDiff } from '../src/agent/tools/patch';
+
+function parsed(output: string): Record<string, unknown> {
+  return JSON.parse(output) as Record<string, unknown>;
+}
+
+describe('patch helpers', () => {
+  it('applies hunks whose context has drifted from the stated line', () => {
+    const [file] = parsePatch(
+      ['--- a/x.txt', '+++ b/x.txt', '@@ -2,3 +2,3 @@', ' b', '-c', '+C', ' d'].join('\n')
+    );
+    expect(applyHunks('new\na\nb\nc\nd\ne\n', file.hunks, 'x.txt')).toBe('new\na\nb\nC\nd\ne\n');
+  });
+
+  it('refuses a hunk whose context is missing', () => {
+    const [file] = parsePatch(['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-zzz', '+y'].join('\n'));
+    expect(() => applyHunks('a\nb\n', file.hunks, 'x')).toThrow(/Hunk 1 of x does not apply/);
+  });
+
+  it('honours the no-newline marker', () => {
+    const [file] = parsePatch(
+      ['--- a/x', '+++ b/x', '@@ -1 +1 @@', '-a', '+b', '\\ No newline at end of file'].join('\n')
+    );
+    expect(applyHunks('a\n', file.hunks, 'x')).toBe('b');
+  });
+
+  it('renders a round-trippable diff', () => {
+    const before = 'one\ntwo\nthree\nfour\nfive\nsix\nseven\neight\n';
+    const after = before.replace('five', 'FIVE');
+    const diff = unifiedDiff('f.txt', before, after);
+    expect(diff).toBe(
+      [
+        '--- a/f.txt',
+        '+++ b/f.txt',
+        '@@ -2,7 +2,7 @@',
+        ' two',
+        ' three',
+        ' four',
+        '-five',
+        '+FIVE',
+        ' six',
+        ' seven',
+        ' eight',
+      ].join('\n')
+    );
+    const [file] = parsePatch(diff);
+    expect(applyHunks(before, file.hunks, 'f.txt')).toBe(after);
+  });
+});
+
+describe('editing and search tools', () => {
+  let workspace: string;
+  let outside: string;
+  let options: FileToolOptions;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'nano-claw-edit-ws-'));
+    outside = mkdtempSync(join(tmpdir(), 'nano-claw-edit-out-'));
+    options = { restrictToWorkspace: true, workspaceRoots: [workspace] };
+    mkdirSync(join(workspace, 'src', 'lib'), { recursive: true });
+    mkdirSync(join(workspace, 'node_modules', 'dep'), { recursive: true });
+    writeFileSync(
+      join(workspace, 'src', 'app.ts'),
+      'const a = 1;\nconst b = 2;\nexport { a, b };\n'
+    );
+    writeFileSync(join(workspace, 'src', 'lib', 'util.ts'), 'export const twice = 2;\n');
+    writeFileSync(join(workspace, 'README.md'), '# demo\n');
+    writeFileSync(join(workspace, 'node_modules', 'dep', 'index.ts'), 'const a = 1;\n');
+    writeFileSync(join(workspace, '.env'), 'const a = 1;\n');
+    writeFileSync(join(outside, 'secret.ts'), 'const a = 1;\n');
+    symlinkSync(outside, join(workspace, 'escape'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  describe('edit_file', () => {
+    it('replaces a unique match and returns the diff', async () => {
+      const result = await new EditFileTool(options).execute({
+        path: 'src/app.ts',
+        old_string: 'const b = 2;',
+        new_string: 'const b = 3;',
+      });
+      expect(result.success).toBe(true);
+      expect(parsed(result.output)).toMatchObject({ path: 'src/app.ts', replacements: 1 });
+      expect(parsed(result.output).diff).toContain('-const b = 2;\n+const b = 3;');
+      expect(readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8')).toContain('const b = 3;');
+    });
+
+    it('refuses ambiguous and missing matches without touching the file', async () => {
+      const edit = new EditFileTool(options);
+      const before = readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8');
+
+      const ambiguous = await edit.execute({
+        path: 'src/app.ts',
+        old_string: 'const',
+        new_string: 'let',
+      });
+      expect(ambiguous.error).toMatch(/appears 2 times/);
+      const missing = await edit.execute({
+        path: 'src/app.ts',
+        old_string: 'nope',
+        new_string: 'x',
+      });
+      expect(missing.error).toMatch(/not found/);
+      expect(readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8')).toBe(before);
+
+      const all = await edit.execute({
+        path: 'src/app.ts',
+        old_string: 'const',
+        new_string: 'let',
+        replace_all: true,
+      });
+      expect(parsed(all.output).replacements).toBe(2);
+    });
+
+    it('obeys confinement and the deny list', async () => {
+      const edit = new EditFileTool(options);
+      const escaped = await edit.execute({
+        path: 'escape/secret.ts',
+        old_string: 'a',
+        new_string: 'b',
+      });
+      expect(escaped.error).toMatch(/outside the workspace/);
+      const denied = await edit.execute({ path: '.env', old_string: 'a', new_string: 'b' });
+      expect(denied.error).toMatch(/Access denied/);
+    });
+  });
+
+  describe('apply_patch', () => {
+    it('modifies, creates and deletes files in one patch', async () => {
+      const patch = [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -1,3 +1,3 @@',
+        ' const a = 1;',
+        '-const b = 2;',
+        '+const b = 20;',
+        ' export { a, b };',
+        '--- /dev/null',
+        '+++ b/src/new.ts',
+        '@@ -0,0 +1,2 @@',
+        '+export const fresh = true;',
+        '+',
+        '--- a/README.md',
+        '+++ /dev/null',
+        '@@ -1 +0,0 @@',
+        '-# demo',
+        '',
+      ].join('\n');
+
+      const result = await new ApplyPatchTool(options).execute({ patch });
+      expect(result.success).toBe(true);
+      const files = parsed(result.output).files as Array<{ path: string; status: string }>;
+      expect(files.map(({ path, status }) => [path, status])).toEqual([
+        ['src/app.ts', 'modified'],
+        ['src/new.ts', 'created'],
+        ['README.md', 'deleted'],
+      ]);
+      expect(readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8')).toContain('const b = 20;');
+      expect(readFileSync(join(workspace, 'src', 'new.ts'), 'utf-8')).toBe(
+        'export const fresh = true;\n\n'
+      );
+      expect(existsSync(join(workspace, 'README.md'))).toBe(false);
+    });
+
+    it('writes nothing when any file fails', async () => {
+      const patch = [
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -2 +2 @@',
+        '-const b = 2;',
+        '+const b = 20;',
+        '--- a/src/lib/util.ts',
+        '+++ b/src/lib/util.ts',
+        '@@ -1 +1 @@',
+        '-export const thrice = 3;',
+        '+export const thrice = 4;',
+      ].join('\n');
+
+      const result = await new ApplyPatchTool(options).execute({ patch });
+      expect(result.error).toMatch(/Patch not applied: Hunk 1 of src\/lib\/util.ts/);
+      expect(readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8')).toContain('const b = 2;');
+    });
+
+    it('leaves every file as it was when a write fails', async () => {
+      const patch = [
+        '--- a/README.md',
+        '+++ b/docs/README.md',
+        '@@ -1 +1 @@',
+        '-# demo',
+        '+# demo docs',
+        '--- a/src/app.ts',
+        '+++ b/src/app.ts',
+        '@@ -2 +2 @@',
+        '-const b = 2;',
+        '+const b = 20;',
+        // The hunks apply, but a file cannot be created below another file.
+        '--- /dev/null',
+        '+++ b/src/lib/util.ts/extra.ts',
+        '@@ -0,0 +1 @@',
+        '+x',
+      ].join('\n');
+
+      const result = await new ApplyPatchTool(options).execute({ patch });
+      expect(result.error).toMatch(/^Failed to apply patch/);
+      expect(readFileSync(join(workspace, 'README.md'), 'utf-8')).toBe('# demo\n');
+      expect(existsSync(join(workspace, 'docs'))).toBe(false);
+      expect(readFileSync(join(workspace, 'src', 'app.ts'), 'utf-8')).toContain('const b = 2;');
+      expect(readdirSync(join(workspace, 'src'))).toEqual(['app.ts', 'lib']);
+    });
+
+    it('refuses files outside the workspace', async () => {
+      const patch = ['--- /dev/null', '+++ b/escape/dropped.ts', '@@ -0,0 +1 @@', '+x'].join('\n');
+      const result = await new ApplyPatchTool(options).execute({ patch });
+      expect(result.error).toMatch(/outside the workspace/);
+      expect(existsSync(join(outside, 'dropped.ts'))).toBe(false);
+    });
+  });
+
+  describe('list_dir', () => {
+    it('lists one level by default without hidden or denied entries', async () => {
+      const result = await new ListDirTool(options).execute({});
+      expect(parsed(result.output).entries).toEqual([
+        { path: 'escape', type: 'symlink' },
+        { path: 'node_modules', type: 'dir' },
+        { path: 'README.md', type: 'file', size: 7 },
+        { path: 'src', type: 'dir' },
+      ]);
+
+      const hidden = await new ListDirTool(options).execute({ include_hidden: true });
+      const paths = (parsed(hidden.output).entries as Array<{ path: string }>).map((e) => e.path);
+      expect(paths).not.toContain('.env');
+    });
+
+    it('descends to the requested depth and reports truncation', async () => {
+      const result = await new ListDirTool(options).execute({
+        path: 'src',
+        depth: 2,
+        max_entries: 2,
+      });
+      expect(parsed(result.output)).toMatchObject({
+        entries: [
+          { path: 'app.ts', type: 'file' },
+          { path: 'lib', type: 'dir' },
+        ],
+        truncated: true,
+      });
+    });
+
+    it('refuses to list outside the workspace', async () => {
+      const result = await new ListDirTool(options).execute({ path: outside });
+      expect(result.error).toMatch(/outside the workspace/);
+    });
+  });
+
+  describe('glob', () => {
+    it('matches at any depth, skipping node_modules and symlinks', async () => {
+      const result = await new GlobTool(options).execute({ pattern: '**/*.ts' });
+      expect(parsed(result.output).files).toEqual(['src/app.ts', 'src/lib/util.ts']);
+    });
+
+    it('keeps * within one segment', async () => {
+      const result = await new GlobTool(options).execute({ pattern: 'src/*.ts' });
+      expect(parsed(result.output).files).toEqual(['src/app.ts']);
+    });
+
+    it('reports truncation when the walk hits its entry limit', async () => {
+      const full = await new GlobTool(options).execute({ pattern: '**/*.ts' });
+      expect(parsed(full.output)).not.toHaveProperty('note');
+
+      const capped = await new GlobTool({ ...options, maxWalkEntries: 4 }).execute({
+        pattern: '**/*.ts',
+      });
+      expect(parsed(capped.output)).toEqual({
+        pattern: '**/*.ts',
+        files: [],
+        truncated: true,
+        note: 'Stopped after scanning 4 entries; search a narrower path for the rest',
+      });
+    });
+  });
+
+  describe('grep_files', () => {
+    it('returns matching lines with paths and line numbers', async () => {
+      const result = await new GrepFilesTool(options).execute({ pattern: 'const [ab] =' });
+      expect(parsed(result.output)).toMatchObject({
+        matches: [
+          { path: 'src/app.ts', line: 1, text: 'const a = 1;' },
+          { path: 'src/app.ts', line: 2, text: 'const b = 2;' },
+        ],
+        truncated: false,
+      });
+    });
+
+    it('filters by glob and rejects invalid patterns', async () => {
+      const grep = new GrepFilesTool(options);
+      const filtered = await grep.execute({ pattern: 'export', glob: '**/lib/*.ts' });
+      expect(parsed(filtered.output).matches).toEqual([
+        { path: 'src/lib/util.ts', line: 1, text: 'export const twice = 2;' },
+      ]);
+      expect((await grep.execute({ pattern: '(' })).error).toMatch(/Invalid pattern/);
+    });
+  });
+});
@@ -0,0 +1,202 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  existsSync,
+  mkdirSync,
+  mkdtempSync,
+  readFileSync,
+  rmSync,
+  symlinkSync,
+  writeFileSync,
+} from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, relative } from 'node:path';
+import { ReadFileTool, WriteFileTool, type FileToolOptions } from '../src/agent/tools/file';
+
+describe('file tools', () => {
+  let workspace: string;
+  let outside: string;
+  let home: string;
+  const originalHome = process.env.HOME;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'nano-claw-files-ws-'));
+    outside = mkdtempSync(join(tmpdir(), 'nano-claw-files-out-'));
+    home = mkdtempSync(join(tmpdir(), 'nano-claw-files-home-'));
+    process.env.HOME = home;
+    writeFileSync(join(workspace, 'notes.txt'), 'inside\n');
+    writeFileSync(join(outside, 'secret.txt'), 'secret\n');
+    symlinkSync(outside, join(workspace, 'escape'));
+  });
+
+  afterEach(() => {
+    process.env.HOME = originalHome;
+    for (const dir of [workspace, outside, home]) rmSync(dir, { recursive: true, force: true });
+  });
+
+  const confined = (): FileToolOptions => ({
+    restrictToWorkspace: true,
+    workspaceRoots: [workspace],
+  });
+
+  describe('confinement', () => {
+    it('resolves relative paths from the workspace root', async () => {
+      const result = await new ReadFileTool(confined()).execute({ path: 'notes.txt' });
+      expect(result).toEqual({ success: true, output: 'inside\n' });
+    });
+
+    it('refuses paths outside the workspace, including via ../', async () => {
+      const read = new ReadFileTool(confined());
+      for (const path of [
+        join(outside, 'secret.txt'),
+        relative(workspace, join(outside, 'secret.txt')),
+      ]) {
+        const result = await read.execute({ path });
+        expect(result.success).toBe(false);
+        expect(result.error).toMatch(/outside the workspace/);
+      }
+    });
+
+    it('follows symlinks before deciding', async () => {
+      const read = await new ReadFileTool(confined()).execute({ path: 'escape/secret.txt' });
+      expect(read.error).toMatch(/outside the workspace/);
+
+      const write = await new WriteFileTool(confined()).execute({
+        path: 'escape/new.txt',
+        content: 'x',
+      });
+      expect(write.error).toMatch(/outside the workspace/);
+      expect(existsSync(join(outside, 'new.txt'))).toBe(false);
+    });
+
+    it('writes new files and directories inside the workspace', async () => {
+      const result = await new WriteFileTool(confined()).execute({
+        path: 'deep/dir/out.txt',
+        content: 'hello',
+      });
+      expect(result.success).toBe(true);
+      expect(readFileSync(join(workspace, 'deep/dir/out.txt'), 'utf-8')).toBe('hello');
+    });
+
+    it('is not applied when restrictToWorkspace is off', async () => {
+      const result = await new ReadFileTool().execute({ path: join(outside, 'secret.txt') });
+      expect(result.output).toBe('secret\n');
+    });
+  });
+
+  describe('denied paths', () => {
+    it('always refuses the nano-claw config, even unconfined', async () => {
+      mkdirSync(join(home, '.nano-claw'));
+      writeFileSync(join(home, '.nano-claw', 'config.json'), '{"apiKey":"sk-x"}');
+
+      const read = await new ReadFileTool().execute({ path: '~/.nano-claw/config.json' });
+      expect(read.error).toMatch(/Access denied/);
+      const absolute = await new ReadFileTool().execute({
+        path: join(home, '.nano-claw', 'config.json'),
+      });
+      expect(absolute.error).toMatch(/Access denied/);
+    });
+
+    it('refuses anything under a denied directory and .env files at any depth', async () => {
+      mkdirSync(join(home, '.ssh'));
+      writeFileSync(join(home, '.ssh', 'id_rsa'), 'key');
+      writeFileSync(join(workspace, '.env'), 'TOKEN=1');
+      writeFileSync(join(workspace, '.env.local'), 'TOKEN=2');
+
+      const read = new ReadFileTool(confined());
+      expect((await read.execute({ path: join(home, '.ssh', 'id_rsa') })).error).toMatch(
+        /Access denied/
+      );
+      expect((await read.execute({ path: '.env' })).error).toMatch(/Access denied/);
+      expect((await read.execute({ path: '.env.local' })).error).toMatch(/Access denied/);
+      const write = await new WriteFileTool(confined()).execute({ path: '.env', content: '' });
+      expect(write.error).toMatch(/Access denied/);
+    });
+
+    it('catches a symlink pointing at a denied file', async () => {
+      writeFileSync(join(workspace, '.env'), 'TOKEN=1');
+      symlinkSync(join(workspace, '.env'), join(workspace, 'innocent.txt'));
+      const result = await new ReadFileTool(confined()).execute({ path: 'innocent.txt' });
+      expect(result.error).toMatch(/Access denied/);
+    });
+
+    it('uses the configured list instead of the defaults', async () => {
+      writeFileSync(join(workspace, '.env'), 'TOKEN=1');
+      const options = { ...confined(), deniedPaths: ['**/*.pem'] };
+      writeFileSync(join(workspace, 'cert.pem'), 'pem');
+
+      const read = new ReadFileTool(options);
+      expect((await read.execute({ path: '.env' })).output).toBe('TOKEN=1');
+      expect((await read.execute({ path: 'cert.pem' })).error).toMatch(/Access denied/);
+    });
+  });
+
+  describe('read windows', () => {
+    const lines = Array.from({ length: 10 }, (_, i) => `line ${i + 1}\n`).join('');
+
+    it('returns the requested line range', async () => {
+      writeFileSync(join(workspace, 'ten.txt'), lines);
+      const result = await new ReadFileTool(confined()).execute({
+        path: 'ten.txt',
+        offset: 3,
+        limit: 2,
+      });
+      expect(result.output).toBe(
+        'line 3\nline 4\n[showing lines 3-4; more follows, continue with offset 5]'
+      );
+    });
+
+    it('returns the tail without a note when the range reaches the end', async () => {
+      writeFileSync(join(workspace, 'ten.txt'), lines);
+      const result = await new ReadFileTool(confined()).execute({ path: 'ten.txt', offset: 9 });
+      expect(result.output).toBe('line 9\nline 10\n');
+    });
+
+    it('caps output at maxReadBytes and points at the next offset', async () => {
+      writeFileSync(join(workspace, 'ten.txt'), lines);
+      const result = await new ReadFileTool({ ...confined(), maxReadBytes: 20 }).execute({
+        path: 'ten.txt',
+      });
+      expect(result.output).toBe(
+        'line 1\nline 2\n[showing lines 1-2; more follows, continue with offset 3]'
+      );
+    });
+
+    it('rejects an offset past the end and malformed ranges', async () => {
+      writeFileSync(join(workspace, 'ten.txt'), lines);
+      const read = new ReadFileTool(confined());
+      expect((await read.execute({ path: 'ten.txt', offset: 50 })).error).toMatch(
+        /past the end of the file \(10 lines\)/
+      );
+      expect((await read.execute({ path: 'ten.txt', offset: 0 })).error).toMatch(/offset/);
+      expect((await read.execute({ path: 'ten.txt', limit: 1.5 })).error).toMatch(/limit/);
+    });
+  });
+
+  describe('binary files', () => {
+    const bytes = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00, 0x01, 0x02, 0x03]);
+
+    it('refuses to dump binary content as text', async () => {
+      writeFileSync(join(workspace, 'image.png'), bytes);
+      const result = await new ReadFileTool(confined()).execute({ path: 'image.png' });
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/Binary file \(8 bytes\).*base64/);
+    });
+
+    it('returns base64 on request, windowed by bytes', async () => {
+      writeFileSync(join(workspace, 'image.png'), bytes);
+      const read = new ReadFileTool(confined());
+      const whole = await read.execute({ path: 'image.png', encoding: 'base64' });
+      expect(whole.output).toBe(bytes.toString('base64'));
+
+      const part = await read.execute({
+        path: 'image.png',
+        encoding: 'base64',
+        offset: 0,
+        limit: 4,
+      });
+      expect(part.output).toBe(
+        `${bytes.subarray(0, 4).toString('base64')}\n[bytes 0-4 of 8; continue with offset 4]`
+      );
+    });
+  });
+});
@@ -0,0 +1,72 @@
+// Minimal MCP stdio server for tests/mcp-tools.test.ts. Tools are listed
+// over two pages to exercise cursor pagination.
+import { createInterface } from 'node:readline';
+
+const PAGES = [
+  [
+    {
+      name: 'echo',
+      description: 'Echo text back',
+      inputSchema: {
+        type: 'object',
+        properties: { text: { type: 'string' } },
+        required: ['text'],
+      },
+      annotations: { readOnlyHint: true },
+    },
+  ],
+  [
+    {
+      name: 'fail',
+      description: 'Always fails',
+      inputSchema: { type: 'object', properties: {} },
+    },
+    { name: 'env', inputSchema: { type: 'object', properties: {} } },
+  ],
+];
+
+function send(message) {
+  process.stdout.write(JSON.stringify({ jsonrpc: '2.0', ...message }) + '\n');
+}
+
+function call(name, args) {
+  if (name === 'echo') return { content: [{ type: 'text', text: `echo: ${args.text}` }] };
+  if (name === 'env') {
+    return {
+      content: [],
+      structuredContent: { secret: process.env.OPENAI_API_KEY ?? null, extra: process.env.EXTRA },
+    };
+  }
+  return { content: [{ type: 'text', text: 'it broke' }], isError: true };
+}
+
+process.stderr.write('mock server starting\n');
+createInterface({ input: process.stdin }).on('line', (line) => {
+  const message = JSON.parse(line);
+  if (message.id === undefined) return;
+  switch (message.method) {
+    case 'initialize':
+      send({
+        id: message.id,
+        result: {
+          protocolVersion: message.params.protocolVersion,
+          capabilities: { tools: {} },
+          serverInfo: { name: 'mock', version: '1.0.0' },
+        },
+      });
+      break;
+    case 'tools/list': {
+      const page = message.params?.cursor ? 1 : 0;
+      send({
+        id: message.id,
+        result: { tools: PAGES[page], ...(page === 0 && { nextCursor: 'page-2' }) },
+      });
+      break;
+    }
+    case 'tools/call':
+      send({ id: message.id, result: call(message.params.name, message.params.arguments) });
+      break;
+    default:
+      send({ id: message.id, error: { code: -32601, message: 'Method not found' } });
+  }
+});
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { formatSchemaIssues, validateAgainstSchema } from '../src/agent/tools/json-schema';
+
+const schema = {
+  type: 'object',
+  properties: {
+    path: { type: 'string', minLength: 1 },
+    depth: { type: 'integer', minimum: 1, maximum: 5 },
+    mode: { type: 'string', enum: ['read', 'write'] },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+  },
+  required: ['path'],
+  additionalProperties: false,
+};
+
+describe('validateAgainstSchema', () => {
+  it('accepts conforming arguments', () => {
+    expect(validateAgainstSchema({ path: 'a', depth: 2, tags: ['x'] }, schema)).toEqual([]);
+  });
+
+  it('reports every problem with its path', () => {
+    const issues = validateAgainstSchema(
+      { depth: 1.5, mode: 'delete', tags: ['x', 3, 'z'], extra: true },
+      schema
+    );
+    expect(formatSchemaIssues(issues)).toBe(
+      [
+        'path: is required',
+        'depth: expected integer, got number',
+        'mode: must be one of "read", "write"',
+        'tags: must have at most 2 items',
+        'tags[1]: expected string, got number',
+        'extra: is not an allowed property',
+      ].join('; ')
+    );
+  });
+
+  it('handles type lists and combinators', () => {
+    expect(validateAgainstSchema(null, { type: ['string', 'null'] })).toEqual([]);
+    const either = { anyOf: [{ type: 'string' }, { type: 'number' }] };
+    expect(formatSchemaIssues(validateAgainstSchema(true, either))).toBe(
+      '(arguments): does not match any allowed shape'
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { appendFileSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import { LongTermMemorySchema } from '../src/config/schema';
+import { LongTermMemory } from '../src/agent/long-term-memory';
+import type { LLMResponse, Message, ToolDefinition } from '../src/types';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-ltm-'));
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+const sam = { userId: 'u-sam', profile: 'default' };
+
+function store(options: Record<string, unknown> = {}) {
+  return new LongTermMemory(LongTermMemorySchema.parse(options), join(dir, 'facts.jsonl'));
+}
+
+describe('LongTermMemory', () => {
+  it('recalls the facts that match the query, scoped by user and profile', () => {
+    const ltm = store();
+    ltm.remember(sam, 'Prefers to be called Sam.');
+    ltm.remember(sam, 'Is allergic to peanuts.');
+    ltm.remember(sam, 'Wants   answers in Spanish.');
+    ltm.remember({ ...sam, profile: 'sales' }, 'Is allergic to shellfish.');
+    ltm.remember({ userId: 'u-other', profile: 'default' }, 'Is allergic to cats.');
+
+    const allergies = ltm.recall(sam, 'Any allergies? I think I am allergic to something');
+    expect(allergies.map((f) => f.text)).toEqual(['Is allergic to peanuts.']);
+    expect(ltm.recall(sam, 'which language?').map((f) => f.text)).toEqual([]);
+    expect(ltm.recall(sam, 'answers in spanish please')[0].text).toBe('Wants answers in Spanish.');
+    expect(ltm.recall(sam, 'the a of')).toEqual([]);
+  });
+
+  it('dedupes, caps facts per user, and shares the file across instances', () => {
+    const ltm = store({ maxFactsPerUser: 2, maxFactChars: 40 });
+    const first = ltm.remember(sam, 'Likes jazz.');
+    expect(ltm.remember(sam, ' likes  JAZZ. ').id).toBe(first.id);
+    expect(() => ltm.remember(sam, 'x'.repeat(41))).toThrow(/longer than 40/);
+
+    const other = store({ maxFactsPerUser: 2 });
+    other.remember(sam, 'Lives in Lisbon.');
+    ltm.remember(sam, 'Works nights.');
+    expect(other.list(sam.userId).map((f) => f.text)).toEqual([
+      'Lives in Lisbon.',
+      'Works nights.',
+    ]);
+  });
+
+  it('forgets one fact or all, within the allowed profiles, and skips torn lines', () => {
+    const ltm = store();
+    const jazz = ltm.remember(sam, 'Likes jazz.');
+    ltm.remember({ ...sam, profile: 'sales' }, 'Budget is tight.');
+    appendFileSync(join(dir, 'facts.jsonl'), '{"id": "torn');
+
+    expect(ltm.forget(sam.userId, 'no-such-id')).toBe(0);
+    expect(ltm.forget(sam.userId, jazz.id, ['sales'])).toBe(0);
+    expect(ltm.forget(sam.userId, jazz.id)).toBe(1);
+    expect(ltm.forget(sam.userId, undefined, ['default'])).toBe(0);
+    expect(ltm.forget(sam.userId)).toBe(1);
+    expect(store().list(sam.userId)).toEqual([]);
+  });
+});
+
+describe('long-term memory over the API', () => {
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+
+  beforeEach(() => {
+    process.env.HOME = dir;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const config = {
+      ...createDefaultConfig(),
+      tools: { enabled: true, approval: { rules: [{ tool: 'remember', action: 'auto' }] } },
+    };
+    mkdirSync(join(dir, '.nano-claw'), { recursive: true });
+    writeFileSync(join(dir, '.nano-claw', 'config.json'), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    vi.resetModules();
+  });
+
+  async function call(
+    server: Server,
+    method: string,
+    url: string,
+    body?: Record<string, unknown>
+  ): Promise<{ status: number; body: any }> {
+    const req = Readable.from(body ? [Buffer.from(JSON.stringify(body))] : []) as any;
+    req.method = method;
+    req.url = url;
+    req.headers = { 'content-type': 'application/json' };
+    return new Promise((resolve) => {
+      let status = 0;
+      const res: any = {
+        setHeader() {},
+        writeHead(code: number) {
+          status = code;
+          return res;
+        },
+        end(chunk?: string) {
+          resolve({ status, body: JSON.parse(chunk ?? 'null') });
+          return res;
+        },
+      };
+      (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+    });
+  }
+
+  it('saves with the remember tool, recalls in a new session, and lists and forgets', async () => {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const prompts: Message[][] = [];
+    const offered: string[][] = [];
+    const turns: LLMResponse[] = [
+      {
+        content: '',
+        toolCalls: [
+          {
+            id: 'r1',
+            type: 'function',
+            function: { name: 'remember', arguments: '{"fact":"Prefers tea over coffee."}' },
+          },
+        ],
+        finishReason: 'tool_calls',
+      },
+      { content: 'Noted.', finishReason: 'stop' },
+      { content: 'Tea, as usual?', finishReason: 'stop' },
+      { content: 'Hello.', finishReason: 'stop' },
+    ];
+    api.__setProviderManagerForTest({
+      complete(
+        messages: Message[],
+        _model: string,
+        _temperature: number,
+        _maxTokens: number,
+        tools: ToolDefinition[] = []
+      ) {
+        prompts.push(messages);
+        offered.push(tools.map((tool) => tool.function.name));
+        return Promise.resolve(turns.shift());
+      },
+    });
+    const server = api.createServer();
+
+    const first = await call(server, 'POST', '/api/chat', {
+      message: 'I always drink tea, never coffee.',
+      sessionId: 's-one',
+      userId: 'u-1',
+    });
+    expect(first.body).toMatchObject({ type: 'final', response: 'Noted.' });
+
+    await call(server, 'POST', '/api/chat', {
+      message: 'Could I get a coffee or tea?',
+      sessionId: 's-two',
+      userId: 'u-1',
+    });
+    expect(prompts[2][0].content).toContain('What you remember about this user');
+    expect(prompts[2][0].content).toContain('- Prefers tea over coffee.');
+    expect(offered[0]).toContain('remember');
+
+    // Without a user id there is no tool and nothing is recalled.
+    await call(server, 'POST', '/api/chat', { message: 'tea or coffee?', sessionId: 's-three' });
+    expect(offered[3]).not.toContain('remember');
+    expect(prompts[3][0].content).not.toContain('Prefers tea');
+
+    const listed = await call(server, 'GET', '/api/memories?userId=u-1');
+    expect(listed.body.facts).toEqual([
+      expect.objectContaining({ text: 'Prefers tea over coffee.', sessionId: 's-one' }),
+    ]);
+    const id = listed.body.facts[0].id as string;
+
+    expect((await call(server, 'GET', '/api/memories')).status).toBe(400);
+    expect((await call(server, 'DELETE', '/api/memories', { userId: 'u-1' })).status).toBe(400);
+    const gone = await call(server, 'DELETE', '/api/memories', { userId: 'u-1', id });
+    expect(gone.body).toEqual({ deleted: 1 });
+    expect((await call(server, 'DELETE', '/api/memories', { userId: 'u-1', id })).status).toBe(404);
+    expect((await call(server, 'GET', '/api/memories?userId=u-1')).body.facts).toEqual([]);
+  });
+
+  it('lists and forgets the facts of a channel user, keyed as the gateway keys them', async () => {
+    new LongTermMemory(LongTermMemorySchema.parse({})).remember(
+      { userId: 'telegram:42', profile: 'default' },
+      'Lives in Porto.'
+    );
+    vi.resetModules();
+    const server = (await import('../src/api/server')).createServer();
+
+    const listed = await call(server, 'GET', '/api/memories?userId=telegram%3A42');
+    expect(listed.body.facts).toEqual([expect.objectContaining({ text: 'Lives in Porto.' })]);
+    const gone = await call(server, 'DELETE', '/api/memories', {
+      userId: 'telegram:42',
+      all: true,
+    });
+    expect(gone.body).toEqual({ deleted: 1 });
+    for (const userId of ['telegram:', 'a:b:c', ':42']) {
+      const res = await call(server, 'GET', `/api/memories?userId=${encodeURIComponent(userId)}`);
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it('rejects an invalid user id', async () => {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const res = await call(api.createServer(), 'POST', '/api/chat', {
+      message: 'hi',
+      userId: '../etc',
+    });
+    expect(res.status).toBe(400);
+  });
+});
@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { fileURLToPath } from 'node:url';
+import { McpServerSchema } from '../src/config/schema';
+import { closeMcpServers, mcpToolName, registerMcpTools } from '../src/agent/tools/mcp';
+import { resolveToolPolicy } from '../src/agent/tools/policy';
+import { ToolRegistry } from '../src/agent/tools/registry';
+
+const FIXTURE = fileURLToPath(new URL('./fixtures/mcp-stdio-server.mjs', import.meta.url));
+
+function stdioServer(extra: Record<string, unknown> = {}) {
+  return McpServerSchema.parse({ command: process.execPath, args: [FIXTURE], ...extra });
+}
+
+async function readJson(req: IncomingMessage): Promise<any> {
+  let raw = '';
+  for await (const chunk of req) raw += chunk;
+  return JSON.parse(raw);
+}
+
+describe('MCP client tools', () => {
+  const originalKey = process.env.OPENAI_API_KEY;
+  let httpServer: Server | undefined;
+
+  afterEach(async () => {
+    closeMcpServers();
+    if (originalKey === undefined) delete process.env.OPENAI_API_KEY;
+    else process.env.OPENAI_API_KEY = originalKey;
+    if (httpServer) await new Promise((resolve) => httpServer!.close(resolve));
+    httpServer = undefined;
+  });
+
+  it('registers every listed tool of a stdio server under a namespaced name', async () => {
+    const registry = new ToolRegistry();
+    await registerMcpTools(registry, { mock: stdioServer() });
+
+    expect(registry.getDefinitions().map((d) => d.function.name)).toEqual([
+      'mcp__mock__echo',
+      'mcp__mock__fail',
+      'mcp__mock__env',
+    ]);
+    expect(registry.isReadOnly('mcp__mock__echo')).toBe(true);
+    expect(registry.isReadOnly('mcp__mock__fail')).toBe(false);
+    expect(await registry.execute('mcp__mock__echo', { text: 'hi' })).toEqual({
+      success: true,
+      output: 'echo: hi',
+    });
+    expect(await registry.execute('mcp__mock__fail', {})).toMatchObject({
+      success: false,
+      error: 'it broke',
+    });
+  });
+
+  it('validates arguments against the server-declared schema', async () => {
+    const registry = new ToolRegistry();
+    await registerMcpTools(registry, { mock: stdioServer() });
+
+    const check = registry.checkToolCall({
+      id: 'c1',
+      type: 'function',
+      function: { name: 'mcp__mock__echo', arguments: '{}' },
+    });
+    expect(check).toMatchObject({ ok: false, issues: [{ path: 'text', message: 'is required' }] });
+  });
+
+  it('passes only the configured environment to a stdio server', async () => {
+    process.env.OPENAI_API_KEY = 'sk-should-not-leak';
+    const registry = new ToolRegistry();
+    await registerMcpTools(registry, { mock: stdioServer({ env: { EXTRA: 'yes' } }) });
+
+    const result = await registry.execute('mcp__mock__env', {});
+    expect(JSON.parse(result.output)).toEqual({ secret: null, extra: 'yes' });
+  });
+
+  it('honours the tool allowlist and skips disabled or unavailable servers', async () => {
+    const registry = new ToolRegistry();
+    await registerMcpTools(registry, {
+      mock: stdioServer({ tools: ['echo'] }),
+      off: stdioServer({ enabled: false }),
+      broken: McpServerSchema.parse({ command: '/nonexistent/mcp-server', timeoutMs: 2000 }),
+    });
+
+    expect(registry.getDefinitions().map((d) => d.function.name)).toEqual(['mcp__mock__echo']);
+  });
+
+  it('talks to an HTTP server, keeping its session and reading SSE replies', async () => {
+    const seenSessions: Array<string | undefined> = [];
+    httpServer = createServer((req, res) => {
+      void readJson(req).then((message) => {
+        seenSessions.push(req.headers['mcp-session-id'] as string | undefined);
+        if (message.id === undefined) {
+          res.writeHead(202).end();
+          return;
+        }
+        if (message.method === 'initialize') {
+          res.writeHead(200, { 'content-type': 'application/json', 'mcp-session-id': 's-1' });
+          res.end(JSON.stringify({ jsonrpc: '2.0', id: message.id, result: {} }));
+          return;
+        }
+        const result =
+          message.method === 'tools/list'
+            ? {
+                tools: [
+                  {
+                    name: 'lookup.user',
+                    inputSchema: { type: 'object', properties: { id: { type: 'string' } } },
+                  },
+                ],
+              }
+            : { content: [{ type: 'text', text: `user ${message.params.arguments.id}` }] };
+        res.writeHead(200, { 'content-type': 'text/event-stream' });
+        res.end(
+          `: keep-alive\n\nevent: message\ndata: ${JSON.stringify({ jsonrpc: '2.0', id: message.id, result })}\n\n`
+        );
+      });
+    });
+    await new Promise<void>((resolve) => httpServer!.listen(0, '127.0.0.1', resolve));
+    const { port } = httpServer.address() as AddressInfo;
+
+    const registry = new ToolRegistry();
+    await registerMcpTools(registry, {
+      crm: McpServerSchema.parse({ url: `http://127.0.0.1:${port}/mcp` }),
+    });
+
+    expect(await registry.execute('mcp__crm__lookup_user', { id: '7' })).toEqual({
+      success: true,
+      output: 'user 7',
+    });
+    expect(seenSessions).toEqual([undefined, 's-1', 's-1', 's-1']);
+  });
+
+  it('is governed by the approval policy like a built-in tool', () => {
+    const approval = {
+      default: 'ask' as const,
+      rules: [{ tool: 'mcp__mock__*', action: 'auto' as const }],
+    };
+    expect(resolveToolPolicy('mcp__mock__echo', {}, approval)).toBe('auto');
+    expect(resolveToolPolicy('mcp__other__echo', {}, approval)).toBe('ask');
+  });
+
+  it('requires exactly one transport and keeps names provider-safe', () => {
+    expect(McpServerSchema.safeParse({}).success).toBe(false);
+    expect(McpServerSchema.safeParse({ command: 'x', url: 'http://127.0.0.1:1/mcp' }).success).toBe(
+      false
+    );
+    expect(mcpToolName('my server', 'a'.repeat(80))).toMatch(/^mcp__my_server__a+$/);
+    expect(mcpToolName('my server', 'a'.repeat(80))).toHaveLength(64);
+  });
+});
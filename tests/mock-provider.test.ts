@@ -0,0 +1,251 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import type { Config } from '../src/config/schema';
+import { ProviderManager } from '../src/providers';
+import { MockProvider } from '../src/providers/mock';
+import type { Message, StreamEvent } from '../src/types';
+
+const messages: Message[] = [{ role: 'user', content: 'hello there' }];
+
+let dir: string;
+let fixtures: string;
+
+function writeFixtures(scenarios: Record<string, unknown[]>): void {
+  writeFileSync(fixtures, JSON.stringify({ scenarios }));
+}
+
+async function collect(gen: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const out: StreamEvent[] = [];
+  for await (const e of gen) out.push(e);
+  return out;
+}
+
+const texts = (events: StreamEvent[]) =>
+  events
+    .filter((e) => e.type === 'text')
+    .map((e) => (e as { delta: string }).delta)
+    .join('');
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-mock-'));
+  fixtures = join(dir, 'fixtures.json');
+});
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('MockProvider', () => {
+  it('streams scripted text chunk by chunk and reports usage', async () => {
+    writeFixtures({ greet: [{ chunks: ['Hi ', 'there', '.'] }] });
+    const events = await collect(new MockProvider(fixtures).completeStream(messages, 'mock/greet'));
+    expect(events.slice(0, 3)).toEqual([
+      { type: 'text', delta: 'Hi ' },
+      { type: 'text', delta: 'there' },
+      { type: 'text', delta: '.' },
+    ]);
+    expect(events[3]).toMatchObject({ type: 'done', finishReason: 'stop' });
+    expect((events[3] as { usage: { completionTokens: number } }).usage.completionTokens).toBe(3);
+  });
+
+  it('advances one turn per assistant reply since the last user message', async () => {
+    writeFixtures({
+      tool: [
+        { toolCalls: [{ id: 'c1', name: 'read_file', arguments: { path: 'a.txt' } }] },
+        { text: 'The file says hi.' },
+      ],
+    });
+    const provider = new MockProvider(fixtures);
+
+    const first = await provider.complete(messages, 'mock/tool');
+    expect(first.finishReason).toBe('tool_calls');
+    expect(first.toolCalls).toEqual([
+      {
+        id: 'c1',
+        type: 'function',
+        function: { name: 'read_file', arguments: '{"path":"a.txt"}' },
+      },
+    ]);
+
+    const afterTool: Message[] = [
+      ...messages,
+      { role: 'assistant', content: '', tool_calls: first.toolCalls },
+      { role: 'tool', content: 'hi', tool_call_id: 'c1' },
+    ];
+    expect((await provider.complete(afterTool, 'mock/tool')).content).toBe('The file says hi.');
+    // A new user message starts the scenario over.
+    const next = await provider.complete(
+      [...afterTool, { role: 'assistant', content: 'ok' }, { role: 'user', content: 'again' }],
+      'mock/tool'
+    );
+    expect(next.toolCalls).toHaveLength(1);
+  });
+
+  it('streams tool-call deltas before the assembled call', async () => {
+    writeFixtures({ tool: [{ toolCalls: [{ name: 'list_dir', arguments: '{"path":"."}' }] }] });
+    const events = await collect(new MockProvider(fixtures).completeStream(messages, 'mock/tool'));
+    expect(events.map((e) => e.type)).toEqual(['tool_call_delta', 'tool_calls', 'done']);
+    expect(events[0]).toMatchObject({ name: 'list_dir', argumentsDelta: '{"path":"."}' });
+  });
+
+  it('fails before or part way through a stream', async () => {
+    writeFixtures({
+      down: [{ error: 'overloaded' }],
+      flaky: [{ text: 'one two three', error: 'connection reset', errorAfterChunks: 2 }],
+    });
+    const provider = new MockProvider(fixtures);
+    await expect(provider.complete(messages, 'mock/down')).rejects.toThrow(
+      'Mock provider error: overloaded'
+    );
+
+    const seen: StreamEvent[] = [];
+    await expect(
+      (async () => {
+        for await (const e of provider.completeStream(messages, 'mock/flaky')) seen.push(e);
+      })()
+    ).rejects.toThrow('connection reset');
+    expect(texts(seen)).toBe('one two ');
+  });
+
+  it('echoes the last user message without a fixture and rejects unknown scenarios', async () => {
+    const provider = new MockProvider(join(dir, 'missing.json'));
+    expect((await provider.complete(messages, 'mock/echo')).content).toBe('hello there');
+    await expect(provider.complete(messages, 'mock/nope')).rejects.toThrow(
+      /Mock scenario not found: nope/
+    );
+  });
+
+  it('rejects a malformed fixture with the offending path', async () => {
+    writeFileSync(fixtures, JSON.stringify({ scenarios: { bad: [{ chunkDelayMs: -1 }] } }));
+    await expect(new MockProvider(fixtures).complete(messages, 'mock/bad')).rejects.toThrow(
+      /Invalid mock fixture .*scenarios\.bad\.0\.chunkDelayMs/
+    );
+  });
+});
+
+describe('ProviderManager with the mock provider', () => {
+  function manager(defaults: Record<string, unknown> = {}): ProviderManager {
+    return new ProviderManager({
+      providers: { mock: { fixtures } },
+      agents: { defaults },
+    } as unknown as Config);
+  }
+
+  it('routes mock/<scenario> without an API key, even when the name looks like another model', async () => {
+    writeFixtures({ 'gpt-tool-call': [{ text: 'from the mock' }] });
+    const res = await manager().complete(messages, 'mock/gpt-tool-call');
+    expect(res).toMatchObject({ content: 'from the mock', model: 'mock/gpt-tool-call' });
+  });
+
+  it('falls back when the primary misses its first-token deadline', async () => {
+    writeFixtures({
+      slow: [{ text: 'too late', firstTokenLatencyMs: 500 }],
+      fast: [{ text: 'fallback answer' }],
+    });
+    const pm = manager({ fallbackModels: ['mock/fast'], fallbackTimeoutMs: 40 });
+    const events = await collect(pm.completeStream(messages, 'mock/slow'));
+    expect(texts(events)).toBe('fallback answer');
+    expect(events[events.length - 1]).toMatchObject({ type: 'done', model: 'mock/fast' });
+  });
+
+  it('hedges a slow primary with the next model', async () => {
+    writeFixtures({
+      slow: [{ text: 'slow answer', firstTokenLatencyMs: 300 }],
+      fast: [{ text: 'hedged answer' }],
+    });
+    const pm = manager({ fallbackModels: ['mock/fast'], fallbackHedgeMs: 20 });
+    const events = await collect(pm.completeStream(messages, 'mock/slow'));
+    expect(texts(events)).toBe('hedged answer');
+  });
+});
+
+async function post(server: Server, url: string, body: Record<string, unknown>): Promise<any> {
+  const req = Readable.from([Buffer.from(JSON.stringify(body))]) as any;
+  req.method = 'POST';
+  req.url = url;
+  req.headers = { 'content-type': 'application/json' };
+
+  return new Promise((resolve, reject) => {
+    let status = 0;
+    let raw = '';
+    const res: any = {
+      setHeader() {},
+      writeHead(statusCode: number) {
+        status = statusCode;
+        return res;
+      },
+      end(chunk?: string | Buffer) {
+        if (chunk) raw += chunk.toString();
+        try {
+          resolve({ status, body: raw ? JSON.parse(raw) : null });
+        } catch (error) {
+          reject(error);
+        }
+        return res;
+      },
+    };
+    (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+  });
+}
+
+describe('tool approval end-to-end on the mock provider', () => {
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+
+  beforeEach(() => {
+    process.env.HOME = dir;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const defaults = createDefaultConfig();
+    const config = {
+      ...defaults,
+      providers: { mock: { fixtures } },
+      agents: {
+        ...defaults.agents,
+        defaults: { ...defaults.agents.defaults, model: 'mock/write' },
+      },
+      tools: { enabled: true },
+    };
+    mkdirSync(join(dir, '.nano-claw'), { recursive: true });
+    writeFileSync(join(dir, '.nano-claw', 'config.json'), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    vi.resetModules();
+  });
+
+  it('pauses on the scripted write and finishes after approval', async () => {
+    const target = join(dir, 'out.txt');
+    writeFixtures({
+      write: [
+        {
+          toolCalls: [{ id: 'w1', name: 'write_file', arguments: { path: target, content: 'hi' } }],
+        },
+        { text: 'Wrote the file.' },
+      ],
+    });
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const server = api.createServer();
+
+    const chat = await post(server, '/api/chat', { message: 'write hi', sessionId: 'mock-e2e' });
+    expect(chat.body.type).toBe('tool_pending');
+    expect(chat.body.tools.map((tool: { id: string }) => tool.id)).toEqual(['w1']);
+    expect(existsSync(target)).toBe(false);
+
+    const approve = await post(server, '/api/chat/approve', {
+      requestId: chat.body.requestId,
+      sessionId: 'mock-e2e',
+    });
+    expect(approve.body).toMatchObject({ type: 'final', response: 'Wrote the file.' });
+    expect(readFileSync(target, 'utf-8')).toBe('hi');
+  });
+});
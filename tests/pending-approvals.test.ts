@@ -0,0 +1,165 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import type { LLMResponse } from '../src/types';
+
+const SESSION_ID = 'restart-session';
+
+async function post(server: Server, url: string, body: Record<string, unknown>): Promise<any> {
+  const req = Readable.from([Buffer.from(JSON.stringify(body))]) as any;
+  req.method = 'POST';
+  req.url = url;
+  req.headers = { 'content-type': 'application/json' };
+
+  return new Promise((resolve, reject) => {
+    let status = 0;
+    let raw = '';
+    const res: any = {
+      setHeader() {},
+      writeHead(statusCode: number) {
+        status = statusCode;
+        return res;
+      },
+      end(chunk?: string | Buffer) {
+        if (chunk) raw += chunk.toString();
+        try {
+          resolve({ status, body: raw ? JSON.parse(raw) : null });
+        } catch (error) {
+          reject(error);
+        }
+        return res;
+      },
+    };
+    (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+  });
+}
+
+describe('pending tool approvals across restarts', () => {
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+  let testHome: string;
+  let sidecar: string;
+
+  beforeEach(() => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-pending-'));
+    process.env.HOME = testHome;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const config = { ...createDefaultConfig(), tools: { enabled: true } };
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(join(testHome, '.nano-claw', 'config.json'), JSON.stringify(config));
+    writeFileSync(join(testHome, 'notes.txt'), 'remember the milk');
+    sidecar = join(testHome, '.nano-claw', 'memory', `${SESSION_ID}.pending.json`);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  /** A fresh module graph stands in for a fresh process. */
+  async function boot(turns: LLMResponse[]) {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    api.__setProviderManagerForTest({
+      complete() {
+        const next = turns.shift();
+        if (!next) throw new Error('unexpected provider call');
+        return Promise.resolve(next);
+      },
+    });
+    return { api, server: api.createServer() };
+  }
+
+  async function pauseOnReadFile(): Promise<string> {
+    const { server } = await boot([
+      {
+        content: '',
+        toolCalls: [
+          {
+            id: 'c1',
+            type: 'function',
+            function: {
+              name: 'read_file',
+              arguments: JSON.stringify({ path: join(testHome, 'notes.txt') }),
+            },
+          },
+        ],
+        finishReason: 'tool_calls',
+      },
+    ]);
+    const chat = await post(server, '/api/chat', {
+      message: 'what is in my notes?',
+      sessionId: SESSION_ID,
+    });
+    expect(chat.body.type).toBe('tool_pending');
+    return chat.body.requestId as string;
+  }
+
+  it('persists the pending card next to the session memory', async () => {
+    const requestId = await pauseOnReadFile();
+
+    const stored = JSON.parse(readFileSync(sidecar, 'utf-8'));
+    expect(stored.approvals).toHaveLength(1);
+    expect(stored.approvals[0]).toMatchObject({
+      requestId,
+      iteration: 1,
+      toolCalls: [expect.objectContaining({ id: 'c1' })],
+    });
+  });
+
+  it('approves a request issued before a restart', async () => {
+    const requestId = await pauseOnReadFile();
+
+    const { api, server } = await boot([
+      { content: 'Your notes say: remember the milk.', finishReason: 'stop' },
+    ]);
+    const approve = await post(server, '/api/chat/approve', { requestId, sessionId: SESSION_ID });
+
+    expect(approve.status).toBe(200);
+    expect(approve.body).toMatchObject({
+      type: 'final',
+      response: 'Your notes say: remember the milk.',
+    });
+    const toolMessages = api
+      .getMemory(SESSION_ID)
+      .getMessages()
+      .filter((m) => m.role === 'tool');
+    expect(toolMessages.map((m) => [m.tool_call_id, m.content])).toEqual([
+      ['c1', 'remember the milk'],
+    ]);
+    expect(existsSync(sidecar)).toBe(false);
+  });
+
+  it('rejects a request issued before a restart', async () => {
+    const requestId = await pauseOnReadFile();
+
+    const { server } = await boot([{ content: 'Okay, I will not.', finishReason: 'stop' }]);
+    const reject = await post(server, '/api/chat/reject', { requestId, sessionId: SESSION_ID });
+
+    expect(reject.status).toBe(200);
+    expect(reject.body.type).toBe('final');
+    expect(existsSync(sidecar)).toBe(false);
+  });
+
+  it('still expires cards after PENDING_TTL_MS, counted from when they were issued', async () => {
+    const requestId = await pauseOnReadFile();
+
+    const issuedAt = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(issuedAt + 11 * 60 * 1000);
+    const { server } = await boot([]);
+    const approve = await post(server, '/api/chat/approve', { requestId, sessionId: SESSION_ID });
+
+    expect(approve.status).toBe(404);
+    expect(approve.body.error).toBe('Unknown or expired requestId');
+    expect(existsSync(sidecar)).toBe(false);
+  });
+});
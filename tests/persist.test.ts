@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Memory } from '../src/agent/memory';
+import { __setSessionStoreForTest } from '../src/storage/index';
+import {
+  readJsonFile,
+  removeJsonFile,
+  writeJsonFile,
+  writeJsonFileAsync,
+} from '../src/utils/persist';
+
+let dir: string;
+const originalMemoryDir = process.env.NANO_CLAW_MEMORY_DIR;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-persist-'));
+});
+
+afterEach(() => {
+  __setSessionStoreForTest(undefined);
+  if (originalMemoryDir === undefined) delete process.env.NANO_CLAW_MEMORY_DIR;
+  else process.env.NANO_CLAW_MEMORY_DIR = originalMemoryDir;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('atomic JSON files', () => {
+  it('replaces the file, keeps the previous version and leaves no temp files', async () => {
+    const path = join(dir, 'nested', 'state.json');
+    writeJsonFile(path, { n: 1 });
+    expect(existsSync(`${path}.bak`)).toBe(false);
+    await writeJsonFileAsync(path, { n: 2 });
+    expect(readJsonFile(path)).toEqual({ n: 2 });
+    expect(JSON.parse(readFileSync(`${path}.bak`, 'utf-8'))).toEqual({ n: 1 });
+    expect(readdirSync(join(dir, 'nested')).sort()).toEqual(['state.json', 'state.json.bak']);
+  });
+
+  it('recovers a torn or invalid file from the backup and restores it', () => {
+    const path = join(dir, 'jobs.json');
+    writeJsonFile(path, [1]);
+    writeJsonFile(path, [1, 2]);
+    writeFileSync(path, '[1, 2, 3');
+    expect(readJsonFile(path)).toEqual([1]);
+    expect(JSON.parse(readFileSync(path, 'utf-8'))).toEqual([1]);
+
+    const asArray = (value: unknown) => {
+      if (!Array.isArray(value)) throw new Error('not an array');
+      return value;
+    };
+    writeJsonFile(path, { not: 'an array' });
+    expect(readJsonFile(path, asArray)).toEqual([1]);
+  });
+
+  it('throws when neither copy is usable, and removes both', () => {
+    const path = join(dir, 'state.json');
+    expect(readJsonFile(path)).toBeUndefined();
+    writeFileSync(path, '{');
+    expect(() => readJsonFile(path)).toThrow(SyntaxError);
+    writeFileSync(`${path}.bak`, '{');
+    expect(() => readJsonFile(path)).toThrow(SyntaxError);
+    expect(removeJsonFile(path)).toBe(true);
+    expect(existsSync(`${path}.bak`)).toBe(false);
+    expect(removeJsonFile(path)).toBe(false);
+  });
+});
+
+describe('Memory after a crash mid-write', () => {
+  it('reloads the previous transcript instead of starting empty', () => {
+    process.env.NANO_CLAW_MEMORY_DIR = dir;
+    __setSessionStoreForTest(undefined);
+    const memory = new Memory('s-crash');
+    memory.addMessage({ role: 'user', content: 'first' });
+    memory.addMessage({ role: 'assistant', content: 'second' });
+    writeFileSync(join(dir, 's-crash.json'), '[{"role": "user", "content": "fir');
+
+    expect(new Memory('s-crash').getMessages().map((m) => m.content)).toEqual(['first']);
+    memory.delete();
+    expect(readdirSync(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,252 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import type { Config } from '../src/config/schema';
+import { ProviderManager } from '../src/providers';
+import { ProviderHealth } from '../src/providers/health';
+import type { LLMResponse, Message, StreamEvent } from '../src/types';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function clock() {
+  let t = 1_000_000;
+  return { now: () => t, advance: (ms: number) => (t += ms) };
+}
+
+function fail(health: ProviderHealth, model: string, times = 1): void {
+  for (let i = 0; i < times; i++) health.begin(model, 'p', 60_000).fail(new Error('boom'));
+}
+
+function modelState(health: ProviderHealth, model: string) {
+  return health
+    .snapshot()
+    .providers.flatMap((p) => p.models)
+    .find((m) => m.model === model);
+}
+
+describe('ProviderHealth', () => {
+  it('opens after consecutive failures and moves the model to the end of the chain', () => {
+    const health = new ProviderHealth({ consecutiveFailures: 3 });
+    fail(health, 'a', 2);
+    expect(health.order(['a', 'b'])).toEqual(['a', 'b']);
+    fail(health, 'a');
+    expect(modelState(health, 'a')).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: 'boom',
+    });
+    expect(health.order(['a', 'b', 'c'])).toEqual(['b', 'c', 'a']);
+  });
+
+  it('opens on the failure rate once enough samples are in', () => {
+    const health = new ProviderHealth({ minSamples: 4, failureRate: 0.5, consecutiveFailures: 10 });
+    for (const ok of [false, true, false]) {
+      const probe = health.begin('a', 'p', 60_000);
+      if (ok) probe.succeed();
+      else probe.fail(new Error('x'));
+    }
+    expect(modelState(health, 'a')?.state).toBe('closed');
+    fail(health, 'a');
+    expect(modelState(health, 'a')).toMatchObject({ state: 'open', errorRate: 0.75 });
+  });
+
+  it('lets one probe through after the cool-down and closes on success', () => {
+    const time = clock();
+    const health = new ProviderHealth({ consecutiveFailures: 1, openMs: 1000 }, time.now);
+    fail(health, 'a');
+    time.advance(999);
+    expect(health.isAvailable('a')).toBe(false);
+    time.advance(1);
+    expect(health.order(['a', 'b'])).toEqual(['a', 'b']);
+    expect(modelState(health, 'a')?.state).toBe('half_open');
+
+    const probe = health.begin('a', 'p', 60_000);
+    // While the probe is out, other requests keep routing around the model.
+    expect(health.order(['a', 'b'])).toEqual(['b', 'a']);
+    probe.succeed();
+    expect(modelState(health, 'a')).toMatchObject({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('re-opens when the half-open probe fails', () => {
+    const time = clock();
+    const health = new ProviderHealth({ consecutiveFailures: 1, openMs: 1000 }, time.now);
+    fail(health, 'a');
+    time.advance(1000);
+    expect(health.isAvailable('a')).toBe(true);
+    fail(health, 'a');
+    expect(modelState(health, 'a')?.state).toBe('open');
+    expect(health.isAvailable('a')).toBe(false);
+  });
+
+  it('counts a call with no first token before its deadline as a timeout', async () => {
+    const health = new ProviderHealth();
+    const slow = health.begin('a', 'p', 20);
+    const fast = health.begin('a', 'p', 20);
+    fast.firstToken();
+    await delay(40);
+    slow.succeed(); // too late: the timeout already counted
+    fast.succeed();
+    expect(modelState(health, 'a')).toMatchObject({
+      samples: 2,
+      timeoutRate: 0.5,
+      errorRate: 0,
+      lastError: 'no first token before the deadline',
+    });
+  });
+
+  it('reports nearest-rank p95 first-token latency grouped by provider', () => {
+    const time = clock();
+    const health = new ProviderHealth({}, time.now);
+    for (let ms = 10; ms <= 200; ms += 10) {
+      const probe = health.begin('m1', 'anthropic', 60_000);
+      time.advance(ms);
+      probe.succeed();
+    }
+    health.begin('m2', 'gemini', 60_000).succeed();
+    const snapshot = health.snapshot();
+    expect(snapshot.providers.map((p) => p.provider)).toEqual(['anthropic', 'gemini']);
+    expect(snapshot.providers[0]).toMatchObject({ samples: 20, p95FirstTokenMs: 190 });
+    expect(snapshot.breaker).toMatchObject({ enabled: true, windowSize: 20 });
+  });
+
+  it('never reorders when disabled', () => {
+    const health = new ProviderHealth({ enabled: false, consecutiveFailures: 1 });
+    fail(health, 'a', 5);
+    expect(health.order(['a', 'b'])).toEqual(['a', 'b']);
+    expect(modelState(health, 'a')?.state).toBe('closed');
+  });
+});
+
+describe('ProviderManager circuit breaker', () => {
+  const messages: Message[] = [{ role: 'user', content: 'hi' }];
+
+  function seeded() {
+    const pm = new ProviderManager({
+      providers: { ollama: { apiKey: 'local' }, gemini: { apiKey: 'key' } },
+      agents: {
+        defaults: {
+          fallbackModels: ['gemini/gemini-flash-lite-latest'],
+          fallbackTimeoutMs: 1000,
+          circuitBreaker: { consecutiveFailures: 3, openMs: 60_000 },
+        },
+      },
+    } as unknown as Config);
+    const calls = { primary: 0, fallback: 0 };
+    const cache = (pm as unknown as { providerCache: Map<string, unknown> }).providerCache;
+    cache.set('ollama', {
+      async complete(): Promise<LLMResponse> {
+        calls.primary++;
+        throw new Error('primary down');
+      },
+      async *completeStream(): AsyncGenerator<StreamEvent> {
+        calls.primary++;
+        throw new Error('primary down');
+      },
+    });
+    cache.set('gemini', {
+      async complete(): Promise<LLMResponse> {
+        calls.fallback++;
+        return { content: 'B' };
+      },
+      async *completeStream(): AsyncGenerator<StreamEvent> {
+        calls.fallback++;
+        yield { type: 'text', delta: 'B' };
+        yield { type: 'done', finishReason: 'stop' };
+      },
+    });
+    return { pm, calls };
+  }
+
+  it('stops trying a failing primary first once its breaker opens', async () => {
+    const { pm, calls } = seeded();
+    for (let i = 0; i < 3; i++) {
+      expect((await pm.complete(messages, 'ollama/gemma4:e2b')).content).toBe('B');
+    }
+    expect(calls.primary).toBe(3);
+
+    const events: StreamEvent[] = [];
+    for await (const e of pm.completeStream(messages, 'ollama/gemma4:e2b')) events.push(e);
+    expect(events[0]).toEqual({ type: 'text', delta: 'B' });
+    expect(calls.primary).toBe(3);
+
+    const ollama = pm.healthSnapshot().providers.find((p) => p.provider === 'ollama');
+    expect(ollama?.models[0]).toMatchObject({
+      model: 'ollama/gemma4:e2b',
+      state: 'open',
+      errorRate: 1,
+      lastError: 'primary down',
+    });
+  });
+
+  it('keeps a pinned request on its model even with the breaker open', async () => {
+    const { pm, calls } = seeded();
+    for (let i = 0; i < 3; i++) await pm.complete(messages, 'ollama/gemma4:e2b');
+    await expect(
+      pm.complete(messages, 'ollama/gemma4:e2b', undefined, undefined, undefined, {
+        fallbacks: false,
+      })
+    ).rejects.toThrow('primary down');
+    expect(calls.primary).toBe(4);
+  });
+});
+
+describe('GET /api/providers/health', () => {
+  const originalHome = process.env.HOME;
+  let testHome: string;
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  it('returns the breaker settings and per-provider health', async () => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-health-'));
+    process.env.HOME = testHome;
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(
+      join(testHome, '.nano-claw', 'config.json'),
+      JSON.stringify(createDefaultConfig())
+    );
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const server = api.createServer();
+
+    const req = Readable.from([]) as any;
+    req.method = 'GET';
+    req.url = '/api/providers/health';
+    req.headers = {};
+    const response = await new Promise<{ status: number; body: any }>((resolve) => {
+      let status = 0;
+      const res: any = {
+        setHeader() {},
+        writeHead(code: number) {
+          status = code;
+          return res;
+        },
+        end(chunk?: string) {
+          resolve({ status, body: JSON.parse(chunk ?? 'null') });
+          return res;
+        },
+      };
+      (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+    });
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      breaker: {
+        enabled: true,
+        windowSize: 20,
+        minSamples: 5,
+        failureRate: 0.5,
+        consecutiveFailures: 3,
+        openMs: 30000,
+      },
+      providers: [],
+    });
+  });
+});
@@ -0,0 +1,213 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { ProviderManager } from '../src/providers';
+import { parseRetryAfter, retryDelayMs } from '../src/providers/retry';
+import type { Config } from '../src/config/schema';
+import type { LLMResponse, Message, StreamEvent } from '../src/types';
+import { ProviderError } from '../src/utils/errors';
+
+const messages: Message[] = [{ role: 'user', content: 'hi' }];
+
+type Reply = (res: ServerResponse) => void;
+
+let server: Server;
+let baseUrl: string;
+let replies: Reply[] = [];
+let hits = 0;
+
+function json(status: number, body: unknown, headers: Record<string, string> = {}): Reply {
+  return (res) => {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  };
+}
+
+const ok = (content: string) =>
+  json(200, { choices: [{ message: { content }, finish_reason: 'stop' }] });
+
+const apiError = (status: number, message: string, headers?: Record<string, string>) =>
+  json(status, { error: { message } }, headers);
+
+function sse(content: string): Reply {
+  return (res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.write(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`);
+    res.write(
+      `data: ${JSON.stringify({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] })}\n\n`
+    );
+    res.end('data: [DONE]\n\n');
+  };
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    req.resume();
+    req.on('end', () => {
+      hits++;
+      const reply = replies.shift();
+      if (reply) reply(res);
+      else res.writeHead(500).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+beforeEach(() => {
+  replies = [];
+  hits = 0;
+});
+
+/** OpenAI against the scripted server, with a stubbed Gemini fallback. */
+function manager(apiBase = baseUrl) {
+  const pm = new ProviderManager({
+    providers: { openai: { apiKey: 'sk-test', apiBase }, gemini: { apiKey: 'key' } },
+    agents: {
+      defaults: {
+        fallbackModels: ['gemini/gemini-flash-lite-latest'],
+        fallbackTimeoutMs: 2000,
+        retry: { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 },
+        circuitBreaker: { enabled: false },
+      },
+    },
+  } as unknown as Config);
+  const fallback = { calls: 0 };
+  (pm as unknown as { providerCache: Map<string, unknown> }).providerCache.set('gemini', {
+    async complete(): Promise<LLMResponse> {
+      fallback.calls++;
+      return { content: 'fallback' };
+    },
+    async *completeStream(): AsyncGenerator<StreamEvent> {
+      fallback.calls++;
+      yield { type: 'text', delta: 'fallback' };
+      yield { type: 'done', finishReason: 'stop' };
+    },
+  });
+  return { pm, fallback };
+}
+
+async function rejection(promise: Promise<unknown>): Promise<ProviderError> {
+  const error = await promise.then(
+    () => undefined,
+    (e: unknown) => e
+  );
+  expect(error).toBeInstanceOf(ProviderError);
+  return error as ProviderError;
+}
+
+describe('parseRetryAfter', () => {
+  it('reads seconds, HTTP dates and retry-after-ms', () => {
+    expect(parseRetryAfter({ 'retry-after': '2' })).toBe(2000);
+    expect(parseRetryAfter({ 'retry-after': '1.5', 'retry-after-ms': '300' })).toBe(300);
+    const inOneMinute = new Date(Date.now() + 60_000).toUTCString();
+    expect(parseRetryAfter({ 'retry-after': inOneMinute })).toBeGreaterThan(50_000);
+    expect(parseRetryAfter({ 'retry-after': 'soon' })).toBeUndefined();
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+  });
+
+  it('falls back to jittered exponential backoff, capped', () => {
+    const error = new ProviderError('x', { code: 'server_error' });
+    for (let retry = 0; retry < 6; retry++) {
+      const ceiling = Math.min(1000, 100 * 2 ** retry);
+      const delay = retryDelayMs(error, retry, { baseDelayMs: 100, maxDelayMs: 1000 });
+      expect(delay).toBeGreaterThanOrEqual(ceiling / 2);
+      expect(delay).toBeLessThanOrEqual(ceiling);
+    }
+    const limited = new ProviderError('x', { code: 'rate_limited', retryAfterMs: 1234 });
+    expect(retryDelayMs(limited, 0, {})).toBe(1234);
+  });
+});
+
+describe('provider error classification and retries', () => {
+  it('retries a rate limit on the same model instead of falling back', async () => {
+    replies = [apiError(429, 'slow down', { 'retry-after': '0' }), ok('primary')];
+    const { pm, fallback } = manager();
+    const res = await pm.complete(messages, 'openai/gpt-4o');
+    expect(res).toMatchObject({ content: 'primary', model: 'openai/gpt-4o' });
+    expect(hits).toBe(2);
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('retries 5xx up to maxRetries, then falls back', async () => {
+    replies = [apiError(503, 'busy'), apiError(502, 'busy'), apiError(500, 'busy')];
+    const { pm, fallback } = manager();
+    expect((await pm.complete(messages, 'openai/gpt-4o')).content).toBe('fallback');
+    expect(hits).toBe(3);
+    expect(fallback.calls).toBe(1);
+  });
+
+  it('does not wait past the budget for a long retry-after', async () => {
+    replies = [apiError(429, 'slow down', { 'retry-after': '30' })];
+    const { pm, fallback } = manager();
+    expect((await pm.complete(messages, 'openai/gpt-4o')).content).toBe('fallback');
+    expect(hits).toBe(1);
+    expect(fallback.calls).toBe(1);
+  });
+
+  it('surfaces an auth error at once with its code', async () => {
+    replies = [apiError(401, 'Incorrect API key provided')];
+    const { pm, fallback } = manager();
+    const error = await rejection(pm.complete(messages, 'openai/gpt-4o'));
+    expect(error).toMatchObject({ code: 'auth', status: 401, retryable: false, fatal: true });
+    expect(error.message).toBe('OpenAI API error: Incorrect API key provided');
+    expect(hits).toBe(1);
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('surfaces a bad request from a stream without trying other models', async () => {
+    replies = [apiError(400, 'Invalid value for temperature')];
+    const { pm, fallback } = manager();
+    const error = await rejection(
+      (async () => {
+        for await (const _ of pm.completeStream(messages, 'openai/gpt-4o')) void _;
+      })()
+    );
+    expect(error).toMatchObject({ code: 'bad_request', status: 400 });
+    expect(error.message).toContain('Invalid value for temperature');
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('classifies a context-length error and lets a larger fallback model try', async () => {
+    replies = [apiError(400, "This model's maximum context length is 8192 tokens")];
+    const { pm, fallback } = manager();
+    expect((await pm.complete(messages, 'openai/gpt-4o')).content).toBe('fallback');
+    expect(hits).toBe(1);
+    expect(fallback.calls).toBe(1);
+
+    replies = [apiError(400, "This model's maximum context length is 8192 tokens")];
+    const pinned = pm.complete(messages, 'openai/gpt-4o', undefined, undefined, undefined, {
+      fallbacks: false,
+    });
+    expect((await rejection(pinned)).code).toBe('context_length');
+  });
+
+  it('restarts a stream that is rate limited before its first token', async () => {
+    replies = [apiError(429, 'slow down', { 'retry-after-ms': '5' }), sse('streamed')];
+    const { pm, fallback } = manager();
+    const events: StreamEvent[] = [];
+    for await (const e of pm.completeStream(messages, 'openai/gpt-4o')) events.push(e);
+    expect(events[0]).toEqual({ type: 'text', delta: 'streamed' });
+    expect(hits).toBe(2);
+    expect(fallback.calls).toBe(0);
+  });
+
+  it('classifies a refused connection as retryable', async () => {
+    const closed = createServer();
+    await new Promise<void>((resolve) => closed.listen(0, '127.0.0.1', resolve));
+    const port = (closed.address() as AddressInfo).port;
+    await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+    const { pm } = manager(`http://127.0.0.1:${port}/v1`);
+    const pinned = pm.complete(messages, 'openai/gpt-4o', undefined, undefined, undefined, {
+      fallbacks: false,
+    });
+    const error = await rejection(pinned);
+    expect(error).toMatchObject({ code: 'connection', retryable: true });
+    expect(error.status).toBeUndefined();
+  });
+});
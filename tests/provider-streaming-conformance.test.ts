@@ -0,0 +1,241 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import type { AddressInfo } from 'net';
+import { ProviderManager } from '../src/providers';
+import type { Config } from '../src/config/schema';
+import type { Message, StreamEvent, ToolDefinition } from '../src/types';
+
+// Every OpenAI-compatible provider ProviderManager builds (OpenRouter plus the
+// OpenAIProvider-backed gateways) must stream natively: text and tool-call
+// argument fragments arrive as they are produced, not as one final blob.
+
+const PROVIDERS = [
+  'openrouter',
+  'openai',
+  'deepseek',
+  'groq',
+  'gemini',
+  'minimax',
+  'dashscope',
+  'moonshot',
+  'zhipu',
+  'vllm',
+  'ollama',
+];
+
+const messages: Message[] = [{ role: 'user', content: 'hi' }];
+const tools: ToolDefinition[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a file',
+      parameters: { type: 'object', properties: { path: { type: 'string' } } },
+    },
+  },
+];
+
+interface Exchange {
+  body: Record<string, unknown>;
+  res: ServerResponse;
+}
+
+let server: Server;
+let baseUrl: string;
+let waiting: Array<(exchange: Exchange) => void> = [];
+
+/** Resolves with the next request the mock server receives. */
+function nextExchange(): Promise<Exchange> {
+  return new Promise((resolve) => waiting.push(resolve));
+}
+
+function frame(data: unknown, eol = '\n'): string {
+  return `data: ${typeof data === 'string' ? data : JSON.stringify(data)}${eol}${eol}`;
+}
+
+function openStream(res: ServerResponse): void {
+  res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+}
+
+const textChunk = (content: string) => ({ choices: [{ index: 0, delta: { content } }] });
+
+beforeAll(async () => {
+  server = createServer((req: IncomingMessage, res: ServerResponse) => {
+    let raw = '';
+    req.on('data', (chunk: Buffer) => (raw += chunk.toString()));
+    req.on('end', () => {
+      const resolve = waiting.shift();
+      if (resolve) resolve({ body: JSON.parse(raw) as Record<string, unknown>, res });
+      else res.writeHead(500).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+describe.each(PROVIDERS)('%s streaming conformance', (provider) => {
+  let pm: ProviderManager;
+  const model = `${provider}/test-model`;
+
+  beforeEach(() => {
+    waiting = [];
+    pm = new ProviderManager({
+      providers: { [provider]: { apiKey: 'test-key', apiBase: baseUrl } },
+      // One request per exchange: retries are covered in provider-retry.test.ts.
+      agents: { defaults: { retry: { maxRetries: 0 } } },
+    } as unknown as Config);
+  });
+
+  function stream(withTools?: ToolDefinition[]): AsyncGenerator<StreamEvent> {
+    return pm.completeStream(messages, model, 0.2, 256, withTools, { fallbacks: false });
+  }
+
+  it('requests a stream with usage and yields text deltas as they arrive', async () => {
+    const exchange = nextExchange();
+    const gen = stream();
+    const first = gen.next();
+    const { body, res } = await exchange;
+
+    expect(body.stream).toBe(true);
+    expect(body.stream_options).toEqual({ include_usage: true });
+    expect(body.messages).toEqual([{ role: 'user', content: 'hi' }]);
+
+    openStream(res);
+    res.write(frame(textChunk('Hel')));
+    // The first delta is delivered while the response is still open.
+    expect((await first).value).toEqual({ type: 'text', delta: 'Hel' });
+
+    res.write(frame(textChunk('lo')));
+    expect((await gen.next()).value).toEqual({ type: 'text', delta: 'lo' });
+
+    res.write(frame({ choices: [{ index: 0, delta: {}, finish_reason: 'stop' }] }));
+    res.write(
+      frame({ choices: [], usage: { prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 } })
+    );
+    res.end(frame('[DONE]'));
+
+    const done = (await gen.next()).value as StreamEvent;
+    expect(done).toMatchObject({
+      type: 'done',
+      finishReason: 'stop',
+      usage: { promptTokens: 4, completionTokens: 2, totalTokens: 6 },
+      model,
+    });
+    expect((await gen.next()).done).toBe(true);
+  });
+
+  it('streams tool-call argument fragments, then the assembled call', async () => {
+    const exchange = nextExchange();
+    const gen = stream(tools);
+    const first = gen.next();
+    const { body, res } = await exchange;
+    expect(body.tools).toEqual(tools);
+
+    openStream(res);
+    res.write(
+      frame({
+        choices: [
+          {
+            index: 0,
+            delta: {
+              tool_calls: [
+                { index: 0, id: 'call_1', function: { name: 'read_file', arguments: '' } },
+              ],
+            },
+          },
+        ],
+      })
+    );
+    expect((await first).value).toEqual({
+      type: 'tool_call_delta',
+      index: 0,
+      id: 'call_1',
+      name: 'read_file',
+      argumentsDelta: '',
+    });
+
+    const fragment = (args: string) =>
+      frame({
+        choices: [
+          { index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: args } }] } },
+        ],
+      });
+    res.write(fragment('{"path":'));
+    expect((await gen.next()).value).toEqual({
+      type: 'tool_call_delta',
+      index: 0,
+      argumentsDelta: '{"path":',
+    });
+    res.write(fragment('"a.txt"}'));
+    expect((await gen.next()).value).toEqual({
+      type: 'tool_call_delta',
+      index: 0,
+      argumentsDelta: '"a.txt"}',
+    });
+
+    res.write(frame({ choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }] }));
+    res.end(frame('[DONE]'));
+
+    expect((await gen.next()).value).toEqual({
+      type: 'tool_calls',
+      toolCalls: [
+        {
+          id: 'call_1',
+          type: 'function',
+          function: { name: 'read_file', arguments: '{"path":"a.txt"}' },
+        },
+      ],
+    });
+    expect((await gen.next()).value).toMatchObject({ type: 'done', finishReason: 'tool_calls' });
+  });
+
+  it('parses CRLF-framed events', async () => {
+    const exchange = nextExchange();
+    const collected = collect(stream());
+    const { res } = await exchange;
+    openStream(res);
+    const body = frame(textChunk('a'), '\r\n') + frame(textChunk('b'), '\r\n');
+    // Split inside a CRLF pair so the parser has to carry the CR across chunks.
+    const cut = body.indexOf('\r\n') + 1;
+    res.write(body.slice(0, cut));
+    res.write(body.slice(cut));
+    res.end(frame('[DONE]', '\r\n'));
+
+    const events = await collected;
+    expect(events.filter((e) => e.type === 'text')).toEqual([
+      { type: 'text', delta: 'a' },
+      { type: 'text', delta: 'b' },
+    ]);
+  });
+
+  it('surfaces an error frame sent mid-stream', async () => {
+    const exchange = nextExchange();
+    const collected = collect(stream());
+    const { res } = await exchange;
+    openStream(res);
+    res.write(frame(textChunk('partial')));
+    res.end(frame({ error: { message: 'upstream overloaded' } }));
+
+    await expect(collected).rejects.toThrow(/upstream overloaded/);
+  });
+
+  it('reports the error message from a failed HTTP response', async () => {
+    const exchange = nextExchange();
+    const collected = collect(stream());
+    const { res } = await exchange;
+    res.writeHead(429, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ error: { message: 'rate limited' } }));
+
+    await expect(collected).rejects.toThrow(/rate limited/);
+  });
+});
+
+async function collect(gen: AsyncGenerator<StreamEvent>): Promise<StreamEvent[]> {
+  const out: StreamEvent[] = [];
+  for await (const e of gen) out.push(e);
+  return out;
+}
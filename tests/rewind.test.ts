@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { Memory } from '../src/agent/memory';
+import { matchUndoIntent, prepareUndoTurn } from '../src/agent/rewind';
+import { getSessionManager } from '../src/session/index';
+import { SqliteSessionStore, __setSessionStoreForTest } from '../src/storage/index';
+import { SessionError } from '../src/utils/errors';
+import {
+  createAnalysisConversationState,
+  parseAnalysisArtifact,
+} from '../src/agent/analysis-navigation';
+import { analysisArtifactFixture } from './fixtures/analysis-artifact';
+
+let store: SqliteSessionStore;
+
+beforeEach(() => {
+  store = new SqliteSessionStore(':memory:');
+  __setSessionStoreForTest(store);
+});
+
+afterEach(() => {
+  __setSessionStoreForTest(undefined);
+  store.close();
+});
+
+function seeded(sessionId: string): Memory {
+  const memory = new Memory(sessionId);
+  memory.addMessage({ role: 'user', content: 'Book a table for two' });
+  memory.addMessage({ role: 'assistant', content: 'Which evening?' });
+  memory.addMessage({ role: 'user', content: 'Friday at eight' });
+  memory.addMessage({
+    role: 'assistant',
+    content: '',
+    tool_calls: [{ id: 'c1', type: 'function', function: { name: 'book', arguments: '{}' } }],
+  });
+  memory.addMessage({ role: 'tool', content: 'booked', tool_call_id: 'c1' });
+  memory.addMessage({ role: 'assistant', content: 'Booked for Friday at eight.' });
+  return memory;
+}
+
+const artifact = parseAnalysisArtifact(analysisArtifactFixture())!;
+const analysis = createAnalysisConversationState(artifact, artifact.taskId);
+
+describe('Memory.rewind', () => {
+  it('truncates at a turn start and drops state derived from the cut turns', () => {
+    const memory = seeded('s-rewind');
+    memory.setCollectionScope('default', ['menus']);
+    memory.setAnalysisState(analysis);
+
+    expect(() => memory.rewind(4)).toThrow(SessionError);
+    expect(() => memory.rewind(7)).toThrow(SessionError);
+    expect(memory.rewind(6)).toBe(0);
+    expect(memory.getAnalysisState()).toBeDefined();
+
+    expect(memory.rewind(2)).toBe(4);
+    expect(memory.getAnalysisState()).toBeUndefined();
+    const reloaded = new Memory('s-rewind');
+    expect(reloaded.getMessages().map((m) => m.content)).toEqual([
+      'Book a table for two',
+      'Which evening?',
+    ]);
+    expect(reloaded.getAnalysisState()).toBeUndefined();
+    expect(reloaded.getCollectionScope('default', []).collectionIds).toEqual(['menus']);
+  });
+});
+
+describe('SessionManager.forkSession', () => {
+  it('copies the session up to a point into a new id and leaves the source alone', () => {
+    const sessions = getSessionManager();
+    seeded('s-source');
+    const source = sessions.recordActivity('s-source', { channel: 'web', profile: 'sales' });
+    source.setAnalysisState(analysis);
+
+    const fork = sessions.forkSession('s-source', 's-branch', 2);
+    expect(fork.getMessages()).toHaveLength(2);
+    expect(fork.getMetadata()).toMatchObject({
+      channel: 'web',
+      profile: 'sales',
+      forkedFrom: 's-source',
+    });
+    expect(fork.getAnalysisState()).toBeUndefined();
+    expect(sessions.getMemory('s-source').getMessages()).toHaveLength(6);
+
+    expect(sessions.forkSession('s-source', 's-whole').getAnalysisState()).toBeDefined();
+    expect(() => sessions.forkSession('s-source', 's-branch')).toThrow('already exists');
+  });
+
+  it('refuses to fork the end of a session paused on tool calls', () => {
+    const sessions = getSessionManager();
+    const source = seeded('s-paused');
+    source.addMessage({ role: 'user', content: 'And a taxi at seven' });
+    source.addMessage({
+      role: 'assistant',
+      content: '',
+      tool_calls: [{ id: 'c2', type: 'function', function: { name: 'taxi', arguments: '{}' } }],
+    });
+
+    expect(() => sessions.forkSession('s-paused', 's-paused-copy')).toThrow(SessionError);
+    expect(sessions.hasSession('s-paused-copy')).toBe(false);
+    expect(sessions.forkSession('s-paused', 's-paused-copy', 6).getMessages()).toHaveLength(6);
+  });
+});
+
+describe('undo command', () => {
+  it('matches only whole undo utterances', () => {
+    for (const text of ['undo', 'Undo that.', 'please undo the last message', 'Scratch that!']) {
+      expect(matchUndoIntent(text)).toBe(true);
+    }
+    for (const text of ['undo the booking and cancel dinner', 'how do I undo a git commit?']) {
+      expect(matchUndoIntent(text)).toBe(false);
+    }
+  });
+
+  it('removes the command and the exchange before it', () => {
+    const memory = seeded('s-undo');
+    memory.addMessage({ role: 'user', content: 'undo' });
+    expect(prepareUndoTurn(memory)).toEqual({
+      removed: 5,
+      reply: 'Okay, I took back your last message and my answer.',
+    });
+    expect(memory.getMessages().map((m) => m.content)).toEqual([
+      'Book a table for two',
+      'Which evening?',
+    ]);
+
+    const fresh = new Memory('s-empty');
+    fresh.addMessage({ role: 'user', content: 'undo' });
+    expect(prepareUndoTurn(fresh)?.reply).toBe("There's nothing to undo.");
+    expect(fresh.getMessages()).toEqual([]);
+    expect(prepareUndoTurn(seeded('s-plain'))).toBeUndefined();
+  });
+});
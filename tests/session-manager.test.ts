@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { listStoredSessions } from '../src/agent/memory';
+import { SessionManager, getSessionManager } from '../src/session/index';
+import {
+  FileSessionStore,
+  SqliteSessionStore,
+  __setSessionStoreForTest,
+  type SessionStore,
+} from '../src/storage/index';
+
+let dir: string;
+let store: SqliteSessionStore;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-session-manager-'));
+  store = new SqliteSessionStore(':memory:');
+  __setSessionStoreForTest(store);
+});
+
+afterEach(() => {
+  __setSessionStoreForTest(undefined);
+  store.close();
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SessionManager', () => {
+  it('shares one Memory per session and rebinds when the store changes', () => {
+    const sessions = getSessionManager();
+    const memory = sessions.recordActivity('discord-7', { channel: 'discord', model: 'm-1' });
+    expect(getSessionManager().getMemory('discord-7')).toBe(memory);
+    expect(memory.getMetadata()).toMatchObject({ channel: 'discord', model: 'm-1' });
+
+    sessions.recordActivity('discord-7', { profile: 'support' });
+    expect(memory.getMetadata()).toMatchObject({ channel: 'discord', profile: 'support' });
+
+    sessions.release('discord-7');
+    expect(sessions.getMemory('discord-7')).not.toBe(memory);
+
+    const other = new SqliteSessionStore(':memory:');
+    __setSessionStoreForTest(other);
+    expect(getSessionManager()).not.toBe(sessions);
+    other.close();
+  });
+
+  it('expires idle anonymous sessions and leaves named ones', () => {
+    const sessions = new SessionManager(store, 60_000);
+    const anonymous = `voice-${'b'.repeat(32)}`;
+    sessions.getMemory(anonymous).addMessage({ role: 'user', content: 'hi' });
+    sessions.getMemory('telegram-1').addMessage({ role: 'user', content: 'hi' });
+
+    expect(sessions.sweepExpired()).toEqual([]);
+    expect(sessions.sweepExpired(Date.now() + 120_000)).toEqual([anonymous]);
+    expect(store.listSessions().map((s) => s.sessionId)).toEqual(['telegram-1']);
+
+    sessions.deleteSession('telegram-1');
+    expect(store.listAllSessions()).toEqual([]);
+  });
+
+  it.each([
+    ['sqlite', () => store],
+    ['file', () => new FileSessionStore(join(dir, 'memory'))],
+  ])(
+    'reloads a session another process wrote since it cached it (%s store)',
+    (_backend, makeStore: () => SessionStore) => {
+      const shared = makeStore();
+      __setSessionStoreForTest(shared);
+      const api = new SessionManager(shared);
+      const gateway = new SessionManager(shared);
+      const onApi = api.getMemory('telegram-9');
+      onApi.addMessage({ role: 'user', content: 'Hi from the web' });
+      onApi.addMessage({ role: 'assistant', content: 'Hello.' });
+
+      const onGateway = gateway.getMemory('telegram-9');
+      onGateway.addMessage({ role: 'user', content: 'Hi from Telegram' });
+      onGateway.addMessage({ role: 'assistant', content: 'Hello again.' });
+      gateway.release('telegram-9');
+
+      const resumed = api.getMemory('telegram-9');
+      expect(resumed).not.toBe(onApi);
+      resumed.addMessage({ role: 'user', content: 'Back on the web' });
+      expect(api.getMemory('telegram-9')).toBe(resumed);
+      expect(
+        gateway
+          .getMemory('telegram-9')
+          .getMessages()
+          .map((m) => m.content)
+      ).toEqual([
+        'Hi from the web',
+        'Hello.',
+        'Hi from Telegram',
+        'Hello again.',
+        'Back on the web',
+      ]);
+    }
+  );
+
+  it('imports the gateway records from older versions once', () => {
+    const legacyDir = join(dir, 'sessions');
+    mkdirSync(legacyDir);
+    const record = (id: string, userId: string) =>
+      JSON.stringify({
+        id,
+        userId,
+        channelType: 'telegram',
+        createdAt: '2026-03-01T10:00:00.000Z',
+        lastActivity: '2026-03-02T10:00:00.000Z',
+        metadata: {},
+      });
+    writeFileSync(join(legacyDir, 'telegram-5.json'), record('telegram-5', '5'));
+    writeFileSync(join(legacyDir, 'telegram-6.json'), record('telegram-6', '6'));
+    store.saveMessages('telegram-5', [{ role: 'user', content: 'hello' }]);
+    const sessions = new SessionManager(store);
+    sessions.recordActivity('telegram-6', { channel: 'telegram', userId: 'telegram:6' });
+
+    expect(sessions.importLegacySessions(legacyDir)).toBe(1);
+    expect(readdirSync(legacyDir)).toEqual([]);
+    expect(listStoredSessions()).toEqual([
+      expect.objectContaining({
+        sessionId: 'telegram-5',
+        metadata: {
+          createdAt: '2026-03-01T10:00:00.000Z',
+          channel: 'telegram',
+          userId: 'telegram:5',
+        },
+      }),
+    ]);
+    expect(sessions.importLegacySessions(join(dir, 'missing'))).toBe(0);
+    expect(existsSync(join(dir, 'missing'))).toBe(false);
+  });
+});
@@ -0,0 +1,210 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+
+describe('session history API', () => {
+  const originalHome = process.env.HOME;
+  let dir: string;
+  let server: Server;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'nano-claw-sessions-'));
+    process.env.HOME = dir;
+    mkdirSync(join(dir, '.nano-claw'), { recursive: true });
+    writeFileSync(join(dir, '.nano-claw', 'config.json'), JSON.stringify(createDefaultConfig()));
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    api.__setProviderManagerForTest({
+      complete() {
+        return Promise.resolve({ content: 'Sure, noted.', finishReason: 'stop' });
+      },
+    });
+    server = api.createServer();
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    rmSync(dir, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  async function call(
+    method: string,
+    url: string,
+    body?: Record<string, unknown>
+  ): Promise<{ status: number; headers: Record<string, string>; text: string; body: any }> {
+    const req = Readable.from(body ? [Buffer.from(JSON.stringify(body))] : []) as any;
+    req.method = method;
+    req.url = url;
+    req.headers = { 'content-type': 'application/json' };
+    return new Promise((resolve) => {
+      let status = 0;
+      const headers: Record<string, string> = {};
+      const res: any = {
+        setHeader(name: string, value: string) {
+          headers[name.toLowerCase()] = value;
+        },
+        writeHead(code: number, extra: Record<string, string> = {}) {
+          status = code;
+          for (const [name, value] of Object.entries(extra)) headers[name.toLowerCase()] = value;
+          return res;
+        },
+        end(chunk = '') {
+          const json = headers['content-type']?.startsWith('application/json');
+          resolve({ status, headers, text: chunk, body: json ? JSON.parse(chunk) : undefined });
+          return res;
+        },
+      };
+      (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+    });
+  }
+
+  async function seed() {
+    await call('POST', '/api/chat', {
+      message: 'Plan a trip to Lisbon in May',
+      sessionId: 's-trip',
+      channel: 'web',
+      userId: 'u-1',
+    });
+    await call('POST', '/api/chat', {
+      message: 'What is the boiling point of water?',
+      sessionId: 's-water',
+    });
+    await call('POST', '/api/chat', {
+      message: 'And for the LISBON flight, a window seat',
+      sessionId: 's-trip',
+    });
+  }
+
+  it('lists sessions newest first with metadata, filters and paging', async () => {
+    await seed();
+    const all = await call('GET', '/api/sessions');
+    expect(all.body.total).toBe(2);
+    expect(all.body.sessions.map((s: any) => s.sessionId)).toEqual(['s-trip', 's-water']);
+    expect(all.body.sessions[0]).toMatchObject({
+      profile: 'default',
+      channel: 'web',
+      userId: 'u-1',
+      messageCount: 4,
+      preview: 'Plan a trip to Lisbon in May',
+    });
+    expect(all.body.sessions[1].channel).toBe('api');
+
+    expect((await call('GET', '/api/sessions?channel=api')).body.sessions).toHaveLength(1);
+    expect((await call('GET', '/api/sessions?profile=sales')).body.total).toBe(0);
+    expect((await call('GET', '/api/sessions?from=2999-01-01')).body.total).toBe(0);
+    expect((await call('GET', '/api/sessions?to=2000-01-01')).body.total).toBe(0);
+
+    const page = await call('GET', '/api/sessions?limit=1');
+    expect(page.body).toMatchObject({ total: 2, nextOffset: 1 });
+    const rest = await call('GET', '/api/sessions?limit=1&offset=1');
+    expect(rest.body.sessions[0].sessionId).toBe('s-water');
+    expect(rest.body.nextOffset).toBeUndefined();
+
+    expect((await call('GET', '/api/sessions?from=yesterday')).status).toBe(400);
+    expect((await call('GET', '/api/sessions?limit=0')).status).toBe(400);
+  });
+
+  it('searches transcripts, requiring every word in one message', async () => {
+    await seed();
+    const hits = await call('GET', '/api/sessions?q=lisbon');
+    expect(hits.body.total).toBe(1);
+    expect(hits.body.sessions[0]).toMatchObject({ sessionId: 's-trip', matchCount: 2 });
+    expect(hits.body.sessions[0].matches[1]).toEqual({
+      index: 2,
+      role: 'user',
+      snippet: 'And for the LISBON flight, a window seat',
+    });
+    expect((await call('GET', '/api/sessions?q=lisbon+water')).body.total).toBe(0);
+    expect((await call('GET', '/api/sessions?q=noted')).body.total).toBe(2);
+  });
+
+  it('returns a session with its state and exports it', async () => {
+    await seed();
+    const detail = await call('GET', '/api/sessions/s-trip');
+    expect(detail.body.metadata).toMatchObject({ channel: 'web', userId: 'u-1' });
+    expect(detail.body.messages).toHaveLength(4);
+
+    const markdown = await call('GET', '/api/sessions/s-trip/export?format=markdown');
+    expect(markdown.headers['content-type']).toBe('text/markdown; charset=utf-8');
+    expect(markdown.headers['content-disposition']).toBe('attachment; filename="s-trip.md"');
+    expect(markdown.text).toContain('# Session s-trip');
+    expect(markdown.text).toContain('**User:** Plan a trip to Lisbon in May');
+
+    const text = await call('GET', '/api/sessions/s-trip/export?format=text');
+    expect(text.text).toContain('Assistant: Sure, noted.');
+    const json = await call('GET', '/api/sessions/s-trip/export');
+    expect(json.body.messages).toHaveLength(4);
+
+    expect((await call('GET', '/api/sessions/s-trip/export?format=pdf')).status).toBe(400);
+    expect((await call('GET', '/api/sessions/nope')).status).toBe(404);
+    expect((await call('GET', '/api/sessions/..%2Fetc')).status).toBe(400);
+  });
+
+  it('inspects and resumes a session started on a chat channel', async () => {
+    const { getSessionManager } = await import('../src/session/index');
+    const memory = getSessionManager().recordActivity('telegram-42', {
+      channel: 'telegram',
+      userId: 'telegram:42',
+    });
+    memory.addMessage({ role: 'user', content: 'Remind me about the dentist' });
+    memory.addMessage({ role: 'assistant', content: 'Noted.' });
+
+    const listed = await call('GET', '/api/sessions?channel=telegram');
+    expect(listed.body.sessions).toEqual([
+      expect.objectContaining({ sessionId: 'telegram-42', userId: 'telegram:42' }),
+    ]);
+
+    await call('POST', '/api/chat', { message: 'Which day was it?', sessionId: 'telegram-42' });
+    // The API turn lands in the same live Memory the channel uses.
+    expect(memory.getMessages()).toHaveLength(4);
+    const detail = await call('GET', '/api/sessions/telegram-42');
+    expect(detail.body.metadata).toMatchObject({
+      channel: 'telegram',
+      profile: 'default',
+      model: expect.any(String),
+    });
+    expect(detail.body.messages).toHaveLength(4);
+  });
+
+  it('rewinds and forks a session, and undoes the last exchange by voice', async () => {
+    await seed();
+    expect((await call('POST', '/api/sessions/s-trip/rewind', { index: 1 })).status).toBe(400);
+    expect((await call('POST', '/api/sessions/s-trip/rewind', {})).status).toBe(400);
+    expect((await call('POST', '/api/sessions/nope/rewind', { index: 0 })).status).toBe(404);
+
+    const fork = await call('POST', '/api/sessions/s-trip/fork', { index: 2, sessionId: 's-alt' });
+    expect(fork.status).toBe(201);
+    expect(fork.body).toEqual({ sessionId: 's-alt', forkedFrom: 's-trip', messageCount: 2 });
+    const conflict = await call('POST', '/api/sessions/s-trip/fork', { sessionId: 's-alt' });
+    expect(conflict.status).toBe(409);
+    const generated = await call('POST', '/api/sessions/s-trip/fork', {});
+    expect(generated.body.sessionId).toMatch(/^fork-[0-9a-f]{16}$/);
+    expect(generated.body.messageCount).toBe(4);
+
+    const rewound = await call('POST', '/api/sessions/s-trip/rewind', { index: 2 });
+    expect(rewound.body).toEqual({ sessionId: 's-trip', removed: 2, messageCount: 2 });
+    expect((await call('GET', '/api/sessions/s-alt')).body.metadata).toMatchObject({
+      channel: 'web',
+      forkedFrom: 's-trip',
+    });
+
+    const undo = await call('POST', '/api/chat', { message: 'Undo that.', sessionId: 's-trip' });
+    expect(undo.body).toMatchObject({
+      type: 'final',
+      response: 'Okay, I took back your last message and my answer.',
+      debug: { finishReason: 'undo', messageCount: 0 },
+    });
+    expect((await call('GET', '/api/sessions/s-trip')).body.messages).toEqual([]);
+  });
+
+  it('rejects an invalid channel label', async () => {
+    const res = await call('POST', '/api/chat', { message: 'hi', channel: 'a b' });
+    expect(res.status).toBe(400);
+  });
+});
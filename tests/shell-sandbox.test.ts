@@ -0,0 +1,169 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { parseCommandLine } from '../src/agent/tools/shell-parser';
+import { ShellTool } from '../src/agent/tools/shell';
+
+describe('parseCommandLine', () => {
+  it('splits pipelines and lists into segments with their operators', () => {
+    const parsed = parseCommandLine(`git status && grep -r "a b" src | head -n 5; echo 'x;y'\n`);
+    expect(parsed.segments.map((s) => s.argv)).toEqual([
+      ['git', 'status'],
+      ['grep', '-r', 'a b', 'src'],
+      ['head', '-n', '5'],
+      ['echo', 'x;y'],
+    ]);
+    expect(parsed.operators).toEqual(['&&', '|', ';']);
+  });
+
+  it('collects redirection targets and ignores descriptor duplication', () => {
+    const [segment] = parseCommandLine('make 2>build.log >>out.txt 2>&1 < in.txt').segments;
+    expect(segment.argv).toEqual(['make']);
+    expect(segment.redirects).toEqual([
+      { op: '>', fd: 2, target: 'build.log' },
+      { op: '>>', target: 'out.txt' },
+      { op: '<', target: 'in.txt' },
+    ]);
+  });
+
+  it.each([
+    ['echo $(whoami)', /substitution/],
+    ['echo `id`', /substitution/],
+    ['cat "$HOME/.ssh/id_rsa"', /substitution/],
+    ['cat ${HOME}', /substitution/],
+    ['(cd / && ls)', /Subshells/],
+    ['sleep 100 &', /Background/],
+    ['diff <(ls) x', /Process substitution/],
+    ['cat <<EOF', /Here-documents/],
+    ['cp {/etc/passwd,x}', /Brace/],
+    ['LD_PRELOAD=x ls', /assignments/],
+    ["echo 'open", /Unterminated/],
+    ['ls | | wc', /Empty command/],
+    ['ls &&', /Empty command/],
+  ])('rejects %s', (command, message) => {
+    expect(() => parseCommandLine(command)).toThrow(message);
+  });
+});
+
+describe('ShellTool sandbox', () => {
+  let workspace: string;
+  let outside: string;
+
+  beforeEach(() => {
+    workspace = mkdtempSync(join(tmpdir(), 'nano-claw-shell-ws-'));
+    outside = mkdtempSync(join(tmpdir(), 'nano-claw-shell-out-'));
+    mkdirSync(join(workspace, 'src'));
+    writeFileSync(join(workspace, 'src', 'a.txt'), 'inside\n');
+    writeFileSync(join(outside, 'secret.txt'), 'secret\n');
+    symlinkSync(outside, join(workspace, 'escape'));
+  });
+
+  afterEach(() => {
+    rmSync(workspace, { recursive: true, force: true });
+    rmSync(outside, { recursive: true, force: true });
+  });
+
+  function confined(options: ConstructorParameters<typeof ShellTool>[3] = {}, denied?: string[]) {
+    return new ShellTool(true, undefined, denied, { workspaceRoots: [workspace], ...options });
+  }
+
+  it('checks every segment against the deny list, not just the first', async () => {
+    const tool = new ShellTool(false, undefined, ['rm -rf', 'sudo']);
+    expect((await tool.execute({ command: 'echo hi; sudo ls' })).error).toBe(
+      'Command contains denied keyword: sudo'
+    );
+    expect((await tool.execute({ command: 'true && rm -r -f build' })).error).toBe(
+      'Command contains denied keyword: rm -rf'
+    );
+  });
+
+  it('applies the allow list per segment', async () => {
+    const tool = new ShellTool(false, ['git', 'echo'], undefined);
+    expect((await tool.execute({ command: 'echo ok' })).success).toBe(true);
+    expect((await tool.execute({ command: 'echo ok && curl evil.example' })).error).toBe(
+      'Command is not in the allowed list: curl'
+    );
+  });
+
+  it('refuses paths outside the workspace, including through symlinks and redirects', async () => {
+    const tool = confined();
+    expect((await tool.execute({ command: 'cat src/a.txt' })).output).toBe('inside\n');
+    for (const command of [
+      `cat ${join(outside, 'secret.txt')}`,
+      'cat ../secret.txt',
+      'cat escape/secret.txt',
+      'echo x > ../owned.txt',
+      'ls */../../',
+      'cat ~/.bashrc',
+      `grep --file=${outside}/secret.txt x`,
+    ]) {
+      const result = await tool.execute({ command });
+      expect(result.success, command).toBe(false);
+      expect(result.error, command).toMatch(/^Path outside the workspace/);
+    }
+    expect((await tool.execute({ command: 'ls src 2>/dev/null' })).success).toBe(true);
+  });
+
+  it('closes the home-directory escapes when confined', async () => {
+    const tool = confined();
+    for (const command of ['cd && pwd', 'cd - && pwd', 'cd -P', 'ls ~root/', 'ls ~+', '~root/x']) {
+      const result = await tool.execute({ command });
+      expect(result.success, command).toBe(false);
+      expect(result.error, command).toMatch(/^(Path outside the workspace|cd needs a directory)/);
+    }
+    expect((await tool.execute({ command: 'cd src && pwd' })).success).toBe(true);
+    const env = await confined({ mode: 'argv' }).execute({ command: 'env' });
+    expect(env.output).toContain(`HOME=${workspace}\n`);
+  });
+
+  it('refuses denied paths as operands, confined or not', async () => {
+    writeFileSync(join(workspace, '.env'), 'API_KEY=x\n');
+    for (const tool of [confined(), new ShellTool(false)]) {
+      const result = await tool.execute({ command: `cat ${join(workspace, '.env')}` });
+      expect(result.error).toBe(`Access denied: ${join(workspace, '.env')} matches **/.env`);
+    }
+    expect((await confined().execute({ command: 'cat .env' })).error).toMatch(/^Access denied/);
+    const custom = confined({ deniedPaths: ['**/a.txt'] });
+    expect((await custom.execute({ command: 'cat src/a.txt' })).error).toMatch(/^Access denied/);
+    expect((await custom.execute({ command: 'cat .env' })).success).toBe(true);
+  });
+
+  it('runs argv mode without a shell', async () => {
+    const tool = confined({ mode: 'argv' });
+    const literal = await tool.execute({ command: "echo 'a;b' '*'" });
+    expect(literal.output).toBe('a;b *\n');
+    expect((await tool.execute({ command: 'echo a | cat' })).error).toMatch(/need shell mode/);
+  });
+
+  it('drops environment variables that are not allowlisted', async () => {
+    process.env.NANO_CLAW_TEST_SECRET = 'leaked';
+    process.env.NANO_CLAW_TEST_VISIBLE = 'visible';
+    try {
+      const tool = confined({ mode: 'argv', envAllowlist: ['NANO_CLAW_TEST_VISIBLE'] });
+      const output = (await tool.execute({ command: 'env' })).output;
+      expect(output).toContain('NANO_CLAW_TEST_VISIBLE=visible');
+      expect(output).not.toContain('leaked');
+    } finally {
+      delete process.env.NANO_CLAW_TEST_SECRET;
+      delete process.env.NANO_CLAW_TEST_VISIBLE;
+    }
+  });
+
+  it('enforces the timeout and the output cap', async () => {
+    const slow = await confined({ timeoutMs: 100 }).execute({ command: 'sleep 5' });
+    expect(slow.error).toMatch(/^Command timed out after 100ms/);
+
+    const noisy = await confined({ maxOutputBytes: 64 }).execute({ command: 'yes' });
+    expect(noisy.success).toBe(true);
+    expect(noisy.output).toMatch(/\[output truncated at 64 bytes\]$/);
+  });
+
+  it('applies a CPU-time ceiling', async () => {
+    const result = await confined({ cpuSeconds: 1, timeoutMs: 10000 }).execute({
+      command: 'while :; do :; done',
+    });
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/signal SIGXCPU|signal SIGKILL/);
+  });
+});
@@ -0,0 +1,114 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdtempSync, rmSync, utimesSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Memory, listStoredSessions, sweepEphemeralMemory } from '../src/agent/memory';
+import {
+  FileSessionStore,
+  SqliteSessionStore,
+  __setSessionStoreForTest,
+  migrateFileStore,
+} from '../src/storage/index';
+
+let dir: string;
+const originalMemoryDir = process.env.NANO_CLAW_MEMORY_DIR;
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'nano-claw-storage-'));
+  process.env.NANO_CLAW_MEMORY_DIR = join(dir, 'memory');
+});
+
+afterEach(() => {
+  __setSessionStoreForTest(undefined);
+  if (originalMemoryDir === undefined) delete process.env.NANO_CLAW_MEMORY_DIR;
+  else process.env.NANO_CLAW_MEMORY_DIR = originalMemoryDir;
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('SqliteSessionStore', () => {
+  it('backs Memory: transcript, trimming, state and delete', () => {
+    const store = new SqliteSessionStore(join(dir, 'sessions.db'));
+    __setSessionStoreForTest(store);
+
+    const memory = new Memory('s-1', 2);
+    memory.addMessage({ role: 'user', content: 'one' });
+    memory.addMessage({ role: 'assistant', content: 'two' });
+    memory.addMessage({ role: 'user', content: 'three' });
+    memory.setMetadata({ profile: 'sales', channel: 'web' });
+    memory.setCollectionScope('tenant:sales', ['handbook']);
+
+    const reloaded = new Memory('s-1', 2);
+    expect(reloaded.getMessages().map((m) => m.content)).toEqual(['three']);
+    expect(reloaded.getMetadata()).toMatchObject({ profile: 'sales', channel: 'web' });
+    expect(reloaded.getCollectionScope('tenant:sales', []).collectionIds).toEqual(['handbook']);
+    expect(listStoredSessions()).toEqual([
+      expect.objectContaining({
+        sessionId: 's-1',
+        metadata: expect.objectContaining({ channel: 'web' }),
+      }),
+    ]);
+
+    reloaded.delete();
+    expect(store.loadMessages('s-1')).toBeUndefined();
+    expect(store.listAllSessions()).toEqual([]);
+    store.close();
+  });
+
+  it('shares one database between processes', () => {
+    const path = join(dir, 'sessions.db');
+    const first = new SqliteSessionStore(path);
+    const second = new SqliteSessionStore(path);
+    first.appendMessage('s-1', [{ role: 'user', content: 'hi' }]);
+    second.appendMessage('s-1', [
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'hello' },
+    ]);
+    expect(first.loadMessages('s-1')?.map((m) => m.content)).toEqual(['hi', 'hello']);
+    second.writeState('s-1', 'pending', { version: 1, approvals: [] });
+    expect(first.listSessionsWithState('pending')).toEqual(['s-1']);
+    first.close();
+    second.close();
+  });
+
+  it('sweeps stale anonymous sessions by their latest write', () => {
+    const store = new SqliteSessionStore(':memory:');
+    __setSessionStoreForTest(store);
+    const anonymous = `voice-${'a'.repeat(32)}`;
+    store.writeState(anonymous, 'scope', { version: 1, scopes: {} });
+    store.saveMessages('named', []);
+
+    expect(sweepEphemeralMemory(new Set(), 60_000)).toBe(0);
+    expect(sweepEphemeralMemory(new Set(), 60_000, Date.now() + 120_000)).toBe(1);
+    expect(store.listAllSessions().map((s) => s.sessionId)).toEqual(['named']);
+    store.close();
+  });
+});
+
+describe('migrateFileStore', () => {
+  it('imports JSON sessions with their state and times, skipping existing ones', () => {
+    const memoryDir = join(dir, 'memory');
+    const files = new FileSessionStore(memoryDir);
+    files.saveMessages('s-old', [{ role: 'user', content: 'from before' }]);
+    files.writeState('s-old', 'summary', { version: 1, summary: 'Earlier talk.' });
+    files.writeState('s-old', 'meta', { version: 1, createdAt: '2026-01-01T00:00:00.000Z' });
+    const stale = new Date('2026-02-01T00:00:00.000Z');
+    utimesSync(join(memoryDir, 's-old.json'), stale, stale);
+    writeFileSync(join(memoryDir, 's-torn.json'), '[{"role": "us');
+    writeFileSync(join(memoryDir, 'not a session.json'), '[]');
+
+    const target = new SqliteSessionStore(join(dir, 'sessions.db'));
+    const result = migrateFileStore(files, target);
+    expect(result).toMatchObject({ imported: 2, skipped: 0 });
+    expect(result.failed).toEqual([
+      expect.objectContaining({ sessionId: 's-torn', kind: 'messages' }),
+    ]);
+    expect(target.loadMessages('s-old')).toEqual([{ role: 'user', content: 'from before' }]);
+    expect(target.readState('s-old', 'summary')).toEqual({ version: 1, summary: 'Earlier talk.' });
+    expect(target.listSessions()).toEqual([{ sessionId: 's-old', updatedAt: stale.getTime() }]);
+    expect(existsSync(join(memoryDir, 's-old.json'))).toBe(true);
+
+    expect(migrateFileStore(files, target)).toMatchObject({ imported: 0, skipped: 2 });
+    expect(migrateFileStore(files, target, true).imported).toBe(2);
+    target.close();
+  });
+});
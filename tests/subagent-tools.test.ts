@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Memory } from '../src/agent/memory';
+import { getSessionManager } from '../src/session/index';
+import { Subagent, __setSubagentForTest, type SubagentRunner } from '../src/agent/subagent';
+import { CheckSubagentTool, SpawnSubagentTool } from '../src/agent/tools/subagent';
+import type { ToolDefinition } from '../src/types';
+
+const shellDefinition: ToolDefinition = {
+  type: 'function',
+  function: { name: 'shell', description: 'shell', parameters: { type: 'object' } },
+};
+
+function parentFor(memory: Memory) {
+  return {
+    memory,
+    agentConfig: { model: 'test/model' },
+    getTools: () => [
+      shellDefinition,
+      new SpawnSubagentTool({
+        memory,
+        agentConfig: { model: 'x' },
+        getTools: () => [],
+      }).getDefinition(),
+    ],
+  };
+}
+
+describe('subagent tools', () => {
+  const originalHome = process.env.HOME;
+  let testHome: string;
+  let subagent: Subagent;
+  let release: (value: string) => void;
+  let ranWithTools: string[];
+
+  beforeEach(() => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-subagent-tools-'));
+    process.env.HOME = testHome;
+    ranWithTools = [];
+    const runner: SubagentRunner = (task) => {
+      ranWithTools = task.context.tools.map((tool) => tool.function.name);
+      return new Promise((resolve) => {
+        release = resolve;
+      });
+    };
+    subagent = new Subagent(3, { tasksDir: join(testHome, 'subagents'), runner });
+    __setSubagentForTest(subagent);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    __setSubagentForTest(null);
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    rmSync(testHome, { recursive: true, force: true });
+  });
+
+  it('spawns a task, reports its result into the parent memory, and exposes it to check', async () => {
+    const memory = new Memory('voice-parent-a');
+    memory.addMessage({ role: 'user', content: 'find me a plumber' });
+    const spawn = new SpawnSubagentTool(parentFor(memory));
+    const check = new CheckSubagentTool(parentFor(memory));
+
+    const spawned = await spawn.execute({ task: 'compare local plumbers' });
+    expect(spawned.success).toBe(true);
+    const { taskId } = JSON.parse(spawned.output) as { taskId: string };
+    expect(ranWithTools).toEqual(['shell']);
+
+    const running = JSON.parse((await check.execute({ task_id: taskId })).output);
+    expect(running.status).toBe('running');
+
+    release('Acme Plumbing has the best reviews.');
+    await subagent.waitForTask(taskId, 1000);
+
+    const last = memory.getMessages().at(-1);
+    expect(last?.role).toBe('assistant');
+    expect(last?.content).toContain(`[Background task ${taskId} finished`);
+    expect(last?.content).toContain('Acme Plumbing has the best reviews.');
+
+    const done = JSON.parse((await check.execute({ task_id: taskId })).output);
+    expect(done).toMatchObject({
+      status: 'completed',
+      result: 'Acme Plumbing has the best reviews.',
+    });
+    const listed = JSON.parse((await check.execute({})).output);
+    expect(listed.tasks.map((task: { taskId: string }) => task.taskId)).toEqual([taskId]);
+  });
+
+  it('hides tasks from other sessions', async () => {
+    const owner = new Memory('voice-parent-a');
+    const other = new Memory('voice-parent-b');
+    const spawned = await new SpawnSubagentTool(parentFor(owner)).execute({ task: 'research' });
+    const { taskId } = JSON.parse(spawned.output) as { taskId: string };
+
+    const probe = await new CheckSubagentTool(parentFor(other)).execute({ task_id: taskId });
+    expect(probe.success).toBe(false);
+    expect(probe.error).toBe(`Unknown task: ${taskId}`);
+    const listed = JSON.parse((await new CheckSubagentTool(parentFor(other)).execute({})).output);
+    expect(listed.tasks).toEqual([]);
+  });
+
+  it('holds the report until a pending tool-call turn has its results', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const memory = new Memory('voice-parent-c');
+    const spawned = await new SpawnSubagentTool(parentFor(memory)).execute({ task: 'research' });
+    const { taskId } = JSON.parse(spawned.output) as { taskId: string };
+    memory.addMessage({
+      role: 'assistant',
+      content: '',
+      tool_calls: [
+        { id: 'call-1', type: 'function', function: { name: 'shell', arguments: '{}' } },
+      ],
+    });
+
+    release('found it');
+    await subagent.waitForTask(taskId, 1000);
+    expect(memory.getMessages().at(-1)?.tool_calls).toBeDefined();
+
+    memory.addMessage({ role: 'tool', content: 'ok', name: 'shell', tool_call_id: 'call-1' });
+    vi.advanceTimersByTime(5000);
+    expect(memory.getMessages().at(-1)?.content).toContain('found it');
+  });
+
+  it('reports a task failed by a restart to its parent session', () => {
+    const tasksDir = join(testHome, 'restarted');
+    mkdirSync(tasksDir, { recursive: true });
+    writeFileSync(
+      join(tasksDir, 'task-9.json'),
+      JSON.stringify({
+        id: 'task-9',
+        description: 'compare plans',
+        context: { tools: [], config: { model: 'x' } },
+        status: 'running',
+        parentSessionId: 'voice-parent-r',
+        sessionId: 'subagent-task-9',
+        timeoutMs: 1000,
+        createdAt: new Date().toISOString(),
+      })
+    );
+    __setSubagentForTest(new Subagent(3, { tasksDir }));
+
+    new SpawnSubagentTool(parentFor(new Memory('voice-parent-s')));
+
+    expect(getSessionManager().getMemory('voice-parent-r').getMessages().at(-1)).toEqual({
+      role: 'assistant',
+      content: '[Background task task-9 failed: compare plans] Interrupted by restart',
+    });
+  });
+
+  it('rejects a spawn without a task description', async () => {
+    const result = await new SpawnSubagentTool(parentFor(new Memory('voice-parent-d'))).execute({});
+    expect(result).toMatchObject({ success: false, error: 'Task is required' });
+    expect(subagent.getAllTasks()).toEqual([]);
+  });
+});
@@ -0,0 +1,245 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Subagent, type SubagentRunner, type SubagentTask } from '../src/agent/subagent';
+import { UNATTENDED_APPROVAL_MESSAGE } from '../src/agent/tools/policy';
+import { WriteFileTool } from '../src/agent/tools/file';
+import { CostLedger } from '../src/agent/cost-ledger';
+import { createDefaultConfig } from '../src/config/index';
+import { CostsConfigSchema } from '../src/config/schema';
+import { SqliteSessionStore, __setSessionStoreForTest } from '../src/storage/index';
+import type { AgentContext } from '../src/types';
+
+function context(sessionId = 'voice-parent'): AgentContext {
+  return {
+    sessionId,
+    userId: 'caller',
+    channelType: 'voice',
+    messages: [],
+    skills: [],
+    tools: [],
+    config: { model: 'test/model' },
+  };
+}
+
+/** A runner whose completion each test controls. */
+function deferredRunner(): {
+  runner: SubagentRunner;
+  finish: (value: string) => void;
+  signals: AbortSignal[];
+} {
+  let finish!: (value: string) => void;
+  const signals: AbortSignal[] = [];
+  const runner: SubagentRunner = (_task, signal) => {
+    signals.push(signal);
+    return new Promise((resolve) => {
+      finish = resolve;
+    });
+  };
+  return { runner, finish: (value) => finish(value), signals };
+}
+
+describe('Subagent', () => {
+  let tasksDir: string;
+
+  beforeEach(() => {
+    tasksDir = mkdtempSync(join(tmpdir(), 'nano-claw-subagent-'));
+  });
+
+  afterEach(() => {
+    rmSync(tasksDir, { recursive: true, force: true });
+  });
+
+  it('runs the task on an isolated session and reports back to the parent', async () => {
+    const seen: SubagentTask[] = [];
+    const subagent = new Subagent(3, {
+      tasksDir,
+      runner: async (task) => `researched: ${task.description}`,
+    });
+    subagent.onTaskSettled((task) => seen.push(task));
+
+    const taskId = await subagent.spawn('compare plans', context('voice-parent'));
+    const task = await subagent.waitForTask(taskId, 1000);
+
+    expect(task.status).toBe('completed');
+    expect(task.result).toBe('researched: compare plans');
+    expect(task.parentSessionId).toBe('voice-parent');
+    expect(task.sessionId).toBe(`subagent-${taskId}`);
+    expect(seen.map((t) => t.id)).toEqual([taskId]);
+
+    const persisted = JSON.parse(readFileSync(join(tasksDir, `${taskId}.json`), 'utf-8'));
+    expect(persisted).toMatchObject({ status: 'completed', result: 'researched: compare plans' });
+  });
+
+  it('fails a task that exceeds its timeout and aborts the runner', async () => {
+    const { runner, signals } = deferredRunner();
+    const subagent = new Subagent(3, { tasksDir, runner, timeoutMs: 20 });
+
+    const taskId = await subagent.spawn('slow', context());
+    const task = await subagent.waitForTask(taskId, 1000);
+
+    expect(task.status).toBe('failed');
+    expect(task.error).toBe('Timed out after 20ms');
+    expect(signals[0].aborted).toBe(true);
+  });
+
+  it('cancels running tasks and discards their late result', async () => {
+    const { runner, finish, signals } = deferredRunner();
+    const subagent = new Subagent(3, { tasksDir, runner });
+
+    const taskId = await subagent.spawn('long', context());
+    expect(subagent.getTask(taskId)?.status).toBe('running');
+    expect(subagent.cancelTask(taskId)).toBe(true);
+    expect(signals[0].aborted).toBe(true);
+
+    finish('too late');
+    await new Promise((resolve) => setImmediate(resolve));
+    expect(subagent.getTask(taskId)).toMatchObject({ status: 'cancelled', result: undefined });
+    expect(subagent.cancelTask(taskId)).toBe(false);
+  });
+
+  it('queues beyond the concurrency cap and starts the next task when one settles', async () => {
+    const { runner, finish } = deferredRunner();
+    const subagent = new Subagent(1, { tasksDir, runner });
+
+    const first = await subagent.spawn('first', context());
+    const second = await subagent.spawn('second', context());
+    expect(subagent.getTask(first)?.status).toBe('running');
+    expect(subagent.getTask(second)?.status).toBe('pending');
+
+    finish('done');
+    await subagent.waitForTask(first, 1000);
+    expect(subagent.getTask(second)?.status).toBe('running');
+  });
+
+  it('resumes pending tasks after a restart and fails the ones that were mid-run', async () => {
+    const stored = (id: string, status: string) => ({
+      id,
+      description: id,
+      context: context(),
+      status,
+      parentSessionId: 'voice-parent',
+      sessionId: `subagent-${id}`,
+      timeoutMs: 1000,
+      createdAt: new Date().toISOString(),
+    });
+    writeFileSync(join(tasksDir, 'task-1.json'), JSON.stringify(stored('task-1', 'running')));
+    writeFileSync(join(tasksDir, 'task-2.json'), JSON.stringify(stored('task-2', 'pending')));
+
+    const subagent = new Subagent(3, { tasksDir, runner: async () => 'resumed' });
+
+    expect(subagent.getTask('task-1')).toMatchObject({
+      status: 'failed',
+      error: 'Interrupted by restart',
+    });
+    expect(subagent.takeInterruptedTasks().map((task) => task.id)).toEqual(['task-1']);
+    expect(subagent.takeInterruptedTasks()).toEqual([]);
+    const resumed = await subagent.waitForTask('task-2', 1000);
+    expect(resumed.status).toBe('completed');
+    expect(resumed.result).toBe('resumed');
+    expect(resumed.createdAt).toBeInstanceOf(Date);
+  });
+});
+
+describe('Subagent default runner', () => {
+  const originalHome = process.env.HOME;
+  const originalEnableTools = process.env.NANO_CLAW_ENABLE_TOOLS;
+  let home: string;
+  let store: SqliteSessionStore;
+
+  beforeEach(() => {
+    home = mkdtempSync(join(tmpdir(), 'nano-claw-subagent-home-'));
+    process.env.HOME = home;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    store = new SqliteSessionStore(':memory:');
+    __setSessionStoreForTest(store);
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnableTools === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnableTools;
+    __setSessionStoreForTest(undefined);
+    store.close();
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  /** Run the mock provider's `scenario` as the model, under `costs`. */
+  function writeConfig(scenario: unknown[], costs: Record<string, unknown> = {}): void {
+    const fixtures = join(home, 'fixtures.json');
+    writeFileSync(fixtures, JSON.stringify({ scenarios: { writer: scenario } }));
+    const config = createDefaultConfig();
+    config.providers = { mock: { fixtures } } as typeof config.providers;
+    config.agents.defaults.model = 'mock/writer';
+    config.tools = { ...config.tools, workspaceRoots: [home], approval: { default: 'ask' } };
+    mkdirSync(join(home, '.nano-claw'), { recursive: true });
+    writeFileSync(join(home, '.nano-claw', 'config.json'), JSON.stringify({ ...config, costs }));
+  }
+
+  it('refuses tools that need approval instead of running them unattended', async () => {
+    const target = join(home, 'notes.txt');
+    writeConfig([
+      { toolCalls: [{ name: 'write_file', arguments: { path: target, content: 'x' } }] },
+      { text: 'Could not write the notes.' },
+    ]);
+
+    const subagent = new Subagent(1, { tasksDir: join(home, 'tasks') });
+    const taskId = await subagent.spawn('write the notes', {
+      ...context(),
+      tools: [new WriteFileTool().getDefinition()],
+      config: { model: 'mock/writer' },
+    });
+    const task = await subagent.waitForTask(taskId, 5000);
+
+    expect(task).toMatchObject({ status: 'completed', result: 'Could not write the notes.' });
+    expect(existsSync(target)).toBe(false);
+    expect(store.loadMessages(task.sessionId)).toContainEqual(
+      expect.objectContaining({ role: 'tool', content: UNATTENDED_APPROVAL_MESSAGE })
+    );
+  });
+
+  it("bills the parent session and stops once the parent's budget is spent", async () => {
+    writeConfig([{ text: 'Compared.' }], { budgets: { session: { hardUsd: 0.1 } } });
+    const costsPath = join(home, '.nano-claw', 'costs.json');
+    const subagent = new Subagent(1, { tasksDir: join(home, 'tasks') });
+    const run = async () =>
+      subagent.waitForTask(
+        await subagent.spawn('compare plans', { ...context(), config: { model: 'mock/writer' } }),
+        5000
+      );
+
+    expect(await run()).toMatchObject({ status: 'completed', result: 'Compared.' });
+    const ledger = JSON.parse(readFileSync(costsPath, 'utf-8'));
+    expect(Object.keys(ledger.sessions)).toEqual(['voice-parent']);
+    expect(ledger.sessions['voice-parent'].calls).toBe(1);
+
+    // The parent's own turns spend the rest ($0.15 at gpt-4o-mini prices).
+    new CostLedger(CostsConfigSchema.parse({}), costsPath).record({
+      sessionId: 'voice-parent',
+      profile: 'default',
+      model: 'openai/gpt-4o-mini',
+      usage: { promptTokens: 1_000_000, completionTokens: 0, totalTokens: 1_000_000 },
+    });
+    expect(await run()).toMatchObject({
+      status: 'failed',
+      error: 'The session budget of $0.1 has been spent',
+    });
+  });
+
+  it("deletes an expired task's session when cleaning up", async () => {
+    writeConfig([{ text: 'Compared.' }]);
+    const subagent = new Subagent(1, { tasksDir: join(home, 'tasks') });
+    const taskId = await subagent.spawn('compare plans', {
+      ...context(),
+      config: { model: 'mock/writer' },
+    });
+    const task = await subagent.waitForTask(taskId, 5000);
+    expect(store.hasSession(task.sessionId)).toBe(true);
+
+    expect(subagent.cleanup(-1)).toBe(1);
+    expect(subagent.getTask(taskId)).toBeUndefined();
+    expect(store.hasSession(task.sessionId)).toBe(false);
+  });
+});
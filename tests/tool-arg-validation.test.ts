@@ -0,0 +1,157 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import { ReadFileTool } from '../src/agent/tools/file';
+import { ToolRegistry, toolCallErrorMessage } from '../src/agent/tools/registry';
+import type { LLMResponse, ToolCall } from '../src/types';
+
+const SESSION_ID = 'validation-session';
+
+async function post(server: Server, url: string, body: Record<string, unknown>): Promise<any> {
+  const req = Readable.from([Buffer.from(JSON.stringify(body))]) as any;
+  req.method = 'POST';
+  req.url = url;
+  req.headers = { 'content-type': 'application/json' };
+
+  return new Promise((resolve, reject) => {
+    let status = 0;
+    let raw = '';
+    const res: any = {
+      setHeader() {},
+      writeHead(statusCode: number) {
+        status = statusCode;
+        return res;
+      },
+      end(chunk?: string | Buffer) {
+        if (chunk) raw += chunk.toString();
+        try {
+          resolve({ status, body: raw ? JSON.parse(raw) : null });
+        } catch (error) {
+          reject(error);
+        }
+        return res;
+      },
+    };
+    (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+  });
+}
+
+function call(id: string, name: string, args: string): ToolCall {
+  return { id, type: 'function', function: { name, arguments: args } };
+}
+
+describe('ToolRegistry.checkToolCall', () => {
+  const registry = new ToolRegistry();
+  registry.register(new ReadFileTool());
+
+  it('returns parsed arguments that match the schema', () => {
+    expect(registry.checkToolCall(call('c1', 'read_file', '{"path":"a.txt"}'))).toEqual({
+      ok: true,
+      args: { path: 'a.txt' },
+    });
+  });
+
+  it.each([
+    ['{"path":', /is not valid JSON/],
+    ['["a.txt"]', /must be a JSON object/],
+    ['{}', /is required/],
+    ['{"path":"a","offset":"2"}', /expected number, got string/],
+  ])('rejects %s', (args, message) => {
+    const check = registry.checkToolCall(call('c1', 'read_file', args));
+    expect(check.ok).toBe(false);
+    if (check.ok) return;
+    expect(check.error).toBe('invalid_arguments');
+    expect(check.issues.map((issue) => issue.message).join('; ')).toMatch(message);
+  });
+
+  it('reports unknown tools and explains the error to the model as JSON', () => {
+    const check = registry.checkToolCall(call('c1', 'rm_rf', '{}'));
+    expect(check).toMatchObject({ ok: false, error: 'unknown_tool' });
+    if (check.ok) return;
+    expect(JSON.parse(toolCallErrorMessage('rm_rf', check))).toMatchObject({
+      error: 'unknown_tool',
+      tool: 'rm_rf',
+    });
+  });
+
+  it('refuses to execute with invalid arguments', async () => {
+    const result = await registry.execute('read_file', { path: 7 });
+    expect(result).toMatchObject({
+      success: false,
+      error: 'Invalid arguments for read_file: path: expected string, got number',
+    });
+  });
+});
+
+describe('invalid tool calls in the agent loop', () => {
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+  let testHome: string;
+
+  beforeEach(() => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-validation-'));
+    process.env.HOME = testHome;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const config = { ...createDefaultConfig(), tools: { enabled: true } };
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(join(testHome, '.nano-claw', 'config.json'), JSON.stringify(config));
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  it('answers a malformed call to the model and only shows the corrected one', async () => {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const target = join(testHome, 'out.txt');
+    const turns: LLMResponse[] = [
+      {
+        content: '',
+        toolCalls: [call('c1', 'write_file', JSON.stringify({ path: target }))],
+        finishReason: 'tool_calls',
+      },
+      {
+        content: '',
+        toolCalls: [call('c2', 'write_file', JSON.stringify({ path: target, content: 'hi' }))],
+        finishReason: 'tool_calls',
+      },
+    ];
+    const seen: string[] = [];
+    api.__setProviderManagerForTest({
+      complete(messages: Array<{ role: string }>) {
+        seen.push(messages[messages.length - 1].role);
+        const next = turns.shift();
+        if (!next) throw new Error('unexpected provider call');
+        return Promise.resolve(next);
+      },
+    });
+
+    const chat = await post(api.createServer(), '/api/chat', {
+      message: 'write hi',
+      sessionId: SESSION_ID,
+    });
+
+    expect(chat.body.type).toBe('tool_pending');
+    expect(chat.body.tools.map((tool: { id: string }) => tool.id)).toEqual(['c2']);
+    expect(seen).toEqual(['user', 'tool']);
+    const rejected = api
+      .getMemory(SESSION_ID)
+      .getMessages()
+      .find((m) => m.tool_call_id === 'c1');
+    expect(JSON.parse(rejected!.content)).toMatchObject({
+      error: 'invalid_arguments',
+      tool: 'write_file',
+      issues: [{ path: 'content', message: 'is required' }],
+    });
+  });
+});
@@ -0,0 +1,265 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Server } from 'node:http';
+import { existsSync, mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import type { LLMResponse, ToolCall } from '../src/types';
+
+const SESSION_ID = 'decisions-session';
+
+async function post(server: Server, url: string, body: Record<string, unknown>): Promise<any> {
+  const req = Readable.from([Buffer.from(JSON.stringify(body))]) as any;
+  req.method = 'POST';
+  req.url = url;
+  req.headers = { 'content-type': 'application/json' };
+
+  return new Promise((resolve, reject) => {
+    let status = 0;
+    let raw = '';
+    const res: any = {
+      setHeader() {},
+      writeHead(statusCode: number) {
+        status = statusCode;
+        return res;
+      },
+      end(chunk?: string | Buffer) {
+        if (chunk) raw += chunk.toString();
+        try {
+          resolve({ status, body: raw ? JSON.parse(raw) : null });
+        } catch (error) {
+          reject(error);
+        }
+        return res;
+      },
+    };
+    (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+  });
+}
+
+function call(id: string, name: string, args: Record<string, unknown>): ToolCall {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+}
+
+describe('per-call approval decisions', () => {
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+  let testHome: string;
+
+  beforeEach(() => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-decisions-'));
+    process.env.HOME = testHome;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const config = {
+      ...createDefaultConfig(),
+      tools: {
+        enabled: true,
+        approval: {
+          rules: [{ tool: 'read_file', args: { path: '**/secret.txt' }, action: 'deny' }],
+        },
+      },
+    };
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(join(testHome, '.nano-claw', 'config.json'), JSON.stringify(config));
+    writeFileSync(join(testHome, 'notes.txt'), 'remember the milk');
+    writeFileSync(join(testHome, 'todo.txt'), 'call the bank');
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  /** Pause on a read_file + write_file batch and return the card. */
+  async function pauseOnBatch(after: LLMResponse[]) {
+    vi.resetModules();
+    const api = await import('../src/api/server');
+    const turns: LLMResponse[] = [
+      {
+        content: '',
+        toolCalls: [
+          call('c1', 'read_file', { path: join(testHome, 'notes.txt') }),
+          call('c2', 'write_file', { path: join(testHome, 'out.txt'), content: 'x' }),
+        ],
+        finishReason: 'tool_calls',
+      },
+      ...after,
+    ];
+    api.__setProviderManagerForTest({
+      complete() {
+        const next = turns.shift();
+        if (!next) throw new Error('unexpected provider call');
+        return Promise.resolve(next);
+      },
+    });
+    const server = api.createServer();
+    const chat = await post(server, '/api/chat', { message: 'tidy up', sessionId: SESSION_ID });
+    expect(chat.body.type).toBe('tool_pending');
+    return { api, server, requestId: chat.body.requestId as string, tools: chat.body.tools };
+  }
+
+  function toolMessages(api: { getMemory(id: string): { getMessages(): any[] } }) {
+    return api
+      .getMemory(SESSION_ID)
+      .getMessages()
+      .filter((m) => m.role === 'tool')
+      .map((m) => [m.tool_call_id, m.content]);
+  }
+
+  it('lists each pending call with the id a decision refers to', async () => {
+    const { tools } = await pauseOnBatch([]);
+    expect(tools.map((tool: { id: string; name: string }) => [tool.id, tool.name])).toEqual([
+      ['c1', 'read_file'],
+      ['c2', 'write_file'],
+    ]);
+  });
+
+  it('runs approved calls and records rejected ones in call order', async () => {
+    const { api, server, requestId } = await pauseOnBatch([
+      { content: 'Read it; left the file alone.', finishReason: 'stop' },
+    ]);
+
+    const approve = await post(server, '/api/chat/approve', {
+      requestId,
+      sessionId: SESSION_ID,
+      decisions: [
+        { toolCallId: 'c2', action: 'reject' },
+        { toolCallId: 'c1', action: 'approve' },
+      ],
+    });
+
+    expect(approve.status).toBe(200);
+    expect(approve.body.type).toBe('final');
+    expect(toolMessages(api)).toEqual([
+      ['c1', 'remember the milk'],
+      ['c2', 'Tool execution was rejected by the user.'],
+    ]);
+    expect(existsSync(join(testHome, 'out.txt'))).toBe(false);
+  });
+
+  it('runs an approved call with edited arguments', async () => {
+    const { api, server, requestId } = await pauseOnBatch([
+      { content: 'Done.', finishReason: 'stop' },
+    ]);
+
+    await post(server, '/api/chat/approve', {
+      requestId,
+      sessionId: SESSION_ID,
+      decisions: [
+        { toolCallId: 'c1', action: 'approve', args: { path: join(testHome, 'todo.txt') } },
+        { toolCallId: 'c2', action: 'reject' },
+      ],
+    });
+
+    expect(toolMessages(api)[0]).toEqual(['c1', 'call the bank']);
+    const assistant = api
+      .getMemory(SESSION_ID)
+      .getMessages()
+      .find((m) => m.role === 'assistant' && m.tool_calls);
+    expect(JSON.parse(assistant!.tool_calls![0].function.arguments)).toEqual({
+      path: join(testHome, 'todo.txt'),
+    });
+  });
+
+  it('records the answers in the live session after another process wrote to it', async () => {
+    const { api, server, requestId } = await pauseOnBatch([
+      { content: 'Done.', finishReason: 'stop' },
+    ]);
+    const { getSessionStore } = await import('../src/storage/index');
+    const store = getSessionStore();
+    // The gateway appends to the same transcript while the card is open.
+    store.saveMessages(SESSION_ID, [
+      ...store.loadMessages(SESSION_ID)!,
+      { role: 'assistant', content: 'Still working on it.' },
+    ]);
+    expect(api.getMemory(SESSION_ID).getMessages().at(-1)?.content).toBe('Still working on it.');
+
+    await post(server, '/api/chat/approve', { requestId, sessionId: SESSION_ID });
+
+    const contents = api
+      .getMemory(SESSION_ID)
+      .getMessages()
+      .map((m) => m.content);
+    expect(contents).toContain('Still working on it.');
+    expect(toolMessages(api).map(([id]) => id)).toEqual(['c1', 'c2']);
+  });
+
+  it('approves the whole batch when no decisions are sent', async () => {
+    const { api, server, requestId } = await pauseOnBatch([
+      { content: 'Done.', finishReason: 'stop' },
+    ]);
+
+    await post(server, '/api/chat/approve', { requestId, sessionId: SESSION_ID });
+
+    expect(toolMessages(api).map(([id]) => id)).toEqual(['c1', 'c2']);
+    expect(existsSync(join(testHome, 'out.txt'))).toBe(true);
+  });
+
+  it.each([
+    [[{ toolCallId: 'c1', action: 'approve' }], /Missing decision for c2/],
+    [
+      [
+        { toolCallId: 'c1', action: 'approve' },
+        { toolCallId: 'c9', action: 'reject' },
+      ],
+      /Unknown toolCallId: c9/,
+    ],
+    [
+      [
+        { toolCallId: 'c1', action: 'maybe' },
+        { toolCallId: 'c2', action: 'reject' },
+      ],
+      /must be "approve" or "reject"/,
+    ],
+    [
+      [
+        { toolCallId: 'c1', action: 'reject', args: { path: 'x' } },
+        { toolCallId: 'c2', action: 'reject' },
+      ],
+      /"args" for c1/,
+    ],
+    [
+      [
+        { toolCallId: 'c1', action: 'approve', args: { path: 42 } },
+        { toolCallId: 'c2', action: 'reject' },
+      ],
+      /Invalid args for c1 \(read_file\): path: expected string/,
+    ],
+    [
+      [
+        { toolCallId: 'c1', action: 'reject' },
+        { toolCallId: 'c2', action: 'approve', args: { path: 'out.txt' } },
+      ],
+      /Invalid args for c2 \(write_file\): .*content/,
+    ],
+    [
+      [
+        { toolCallId: 'c1', action: 'approve', args: { path: 'private/secret.txt' } },
+        { toolCallId: 'c2', action: 'reject' },
+      ],
+      /Edited args for c1 \(read_file\) are denied by policy/,
+    ],
+    ['all', /must be an array/],
+  ])('rejects a malformed decision list with 400 and keeps the card', async (decisions, error) => {
+    const { api, server, requestId } = await pauseOnBatch([
+      { content: 'Done.', finishReason: 'stop' },
+    ]);
+
+    const bad = await post(server, '/api/chat/approve', {
+      requestId,
+      sessionId: SESSION_ID,
+      decisions,
+    });
+    expect(bad.status).toBe(400);
+    expect(bad.body.error).toMatch(error);
+    expect(toolMessages(api)).toEqual([]);
+
+    const retry = await post(server, '/api/chat/approve', { requestId, sessionId: SESSION_ID });
+    expect(retry.status).toBe(200);
+  });
+});
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { executeToolCalls } from '../src/agent/tools/executor';
+import { GrepFilesTool } from '../src/agent/tools/file-search';
+import { BaseTool, ToolRegistry } from '../src/agent/tools/registry';
+import type { ToolCall, ToolDefinition, ToolResult } from '../src/types';
+
+/** Records start/end events into a shared log; sleeps `ms` from its args. */
+class SleepTool extends BaseTool {
+  description = 'sleep';
+
+  constructor(
+    public name: string,
+    public readonly readOnly: boolean,
+    private log: string[]
+  ) {
+    super();
+  }
+
+  getDefinition(): ToolDefinition {
+    return {
+      type: 'function',
+      function: {
+        name: this.name,
+        description: this.description,
+        parameters: {
+          type: 'object',
+          properties: { id: { type: 'string' }, ms: { type: 'number' } },
+          required: ['id', 'ms'],
+        },
+      },
+    };
+  }
+
+  async execute(args: Record<string, unknown>): Promise<ToolResult> {
+    this.log.push(`start ${args.id as string}`);
+    await new Promise((resolve) => setTimeout(resolve, args.ms as number));
+    this.log.push(`end ${args.id as string}`);
+    return this.success(`done ${args.id as string}`);
+  }
+}
+
+function call(name: string, id: string, ms: number): ToolCall {
+  return { id, type: 'function', function: { name, arguments: JSON.stringify({ id, ms }) } };
+}
+
+function setup() {
+  const log: string[] = [];
+  const registry = new ToolRegistry();
+  registry.register(new SleepTool('read', true, log));
+  registry.register(new SleepTool('write', false, log));
+  return { log, registry };
+}
+
+describe('executeToolCalls', () => {
+  it('runs read-only calls concurrently and returns results in call order', async () => {
+    const { log, registry } = setup();
+    const executions = await executeToolCalls(registry, [
+      call('read', 'a', 40),
+      call('read', 'b', 5),
+      call('read', 'c', 20),
+    ]);
+
+    expect(executions.map((e) => [e.toolCall.id, e.result.output])).toEqual([
+      ['a', 'done a'],
+      ['b', 'done b'],
+      ['c', 'done c'],
+    ]);
+    expect(log.slice(0, 3)).toEqual(['start a', 'start b', 'start c']);
+    expect(log.indexOf('end b')).toBeLessThan(log.indexOf('end a'));
+  });
+
+  it('never has more than maxConcurrency calls in flight', async () => {
+    const { log, registry } = setup();
+    await executeToolCalls(
+      registry,
+      ['a', 'b', 'c', 'd', 'e'].map((id) => call('read', id, 5)),
+      { maxConcurrency: 2 }
+    );
+
+    let inFlight = 0;
+    let peak = 0;
+    for (const event of log) {
+      inFlight += event.startsWith('start') ? 1 : -1;
+      peak = Math.max(peak, inFlight);
+    }
+    expect(peak).toBe(2);
+  });
+
+  it('runs a call with side effects alone, between its neighbours', async () => {
+    const { log, registry } = setup();
+    await executeToolCalls(registry, [
+      call('read', 'a', 10),
+      call('write', 'w', 5),
+      call('read', 'b', 5),
+      call('read', 'c', 5),
+    ]);
+
+    expect(log.slice(0, 4)).toEqual(['start a', 'end a', 'start w', 'end w']);
+    expect(log.slice(4, 6)).toEqual(['start b', 'start c']);
+  });
+
+  it('answers calls that outlive their timeout, with per-tool overrides', async () => {
+    const { registry } = setup();
+    const executions = await executeToolCalls(
+      registry,
+      [call('read', 'slow', 200), call('write', 'w', 200)],
+      { timeoutMs: 20, toolTimeoutsMs: { write: 1000 } }
+    );
+
+    expect(executions[0].result).toMatchObject({
+      success: false,
+      error: 'read timed out after 20ms',
+    });
+    expect(executions[1].result).toMatchObject({ success: true, output: 'done w' });
+  });
+
+  it('times out the built-in file search, which does its reads asynchronously', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'nano-claw-executor-'));
+    try {
+      for (let i = 0; i < 200; i++) writeFileSync(join(dir, `f${i}.txt`), 'needle\n'.repeat(50));
+      const registry = new ToolRegistry();
+      registry.register(new GrepFilesTool());
+      const grep: ToolCall = {
+        id: 'g',
+        type: 'function',
+        function: {
+          name: 'grep_files',
+          arguments: JSON.stringify({ pattern: 'nomatch', path: dir }),
+        },
+      };
+
+      const [timedOut] = await executeToolCalls(registry, [grep], { timeoutMs: 1 });
+      expect(timedOut.result.error).toBe('grep_files timed out after 1ms');
+      const [finished] = await executeToolCalls(registry, [grep]);
+      expect(JSON.parse(finished.result.output)).toMatchObject({ filesSearched: 200 });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('reports invalid arguments without running the tool', async () => {
+    const { log, registry } = setup();
+    const [execution] = await executeToolCalls(registry, [
+      { id: 'x', type: 'function', function: { name: 'read', arguments: '{"id":"x"}' } },
+    ]);
+
+    expect(execution.result.success).toBe(false);
+    expect(JSON.parse(execution.result.error!)).toMatchObject({ error: 'invalid_arguments' });
+    expect(log).toEqual([]);
+  });
+});
@@ -121,7 +121,18 @@ describe('fail-closed tool gate', () => {
       {
         enable: 'true',
         disable: undefined,
-        expected: ['shell', 'read_file', 'write_file'],
+        expected: [
+          'shell',
+          'read_file',
+          'write_file',
+          'edit_file',
+          'apply_patch',
+          'list_dir',
+          'glob',
+          'grep_files',
+          'spawn_subagent',
+          'check_subagent',
+        ],
       },
       { enable: undefined, disable: 'true', expected: [] },
     ] as const;
@@ -0,0 +1,233 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { mkdirSync, mkdtempSync, rmSync, symlinkSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { createDefaultConfig } from '../src/config/index';
+import { ToolApprovalConfigSchema } from '../src/config/schema';
+import { POLICY_DENIED_MESSAGE, resolveToolPolicy } from '../src/agent/tools/policy';
+import type { LLMResponse, ToolCall } from '../src/types';
+
+const WORKSPACE = '/srv/agent';
+
+describe('resolveToolPolicy', () => {
+  const approval = ToolApprovalConfigSchema.parse({
+    rules: [
+      { tool: 'shell', action: 'deny' },
+      { tool: 'read_file', action: 'auto', args: { path: '{workspace}/**' } },
+      { tool: 'write_file', action: 'auto', args: { path: '{workspace}/notes/*.md' } },
+    ],
+  });
+
+  it('defaults to asking when nothing is configured', () => {
+    expect(resolveToolPolicy('shell', {}, undefined, WORKSPACE)).toBe('ask');
+    expect(resolveToolPolicy('shell', {}, ToolApprovalConfigSchema.parse({}), WORKSPACE)).toBe(
+      'ask'
+    );
+  });
+
+  it('applies the first matching rule', () => {
+    expect(resolveToolPolicy('shell', { command: 'ls' }, approval, WORKSPACE)).toBe('deny');
+    expect(resolveToolPolicy('read_file', { path: 'src/a.ts' }, approval, WORKSPACE)).toBe('auto');
+    expect(
+      resolveToolPolicy('read_file', { path: `${WORKSPACE}/deep/b.ts` }, approval, WORKSPACE)
+    ).toBe('auto');
+    expect(resolveToolPolicy('list_dir', {}, approval, WORKSPACE)).toBe('ask');
+  });
+
+  it('resolves path arguments so traversal cannot escape a workspace rule', () => {
+    expect(resolveToolPolicy('read_file', { path: '../../etc/passwd' }, approval, WORKSPACE)).toBe(
+      'ask'
+    );
+    expect(resolveToolPolicy('read_file', { path: '/etc/passwd' }, approval, WORKSPACE)).toBe(
+      'ask'
+    );
+    expect(resolveToolPolicy('read_file', { path: 42 }, approval, WORKSPACE)).toBe('ask');
+  });
+
+  it('expands ~ and follows symlinks before matching a path', () => {
+    expect(resolveToolPolicy('read_file', { path: '~/.bashrc' }, approval, WORKSPACE)).toBe('ask');
+
+    const workspace = mkdtempSync(join(tmpdir(), 'nano-claw-policy-ws-'));
+    const outside = mkdtempSync(join(tmpdir(), 'nano-claw-policy-out-'));
+    try {
+      symlinkSync(outside, join(workspace, 'escape'));
+      writeFileSync(join(outside, 'secret.txt'), 'secret\n');
+      expect(
+        resolveToolPolicy('read_file', { path: 'escape/secret.txt' }, approval, workspace)
+      ).toBe('ask');
+      expect(resolveToolPolicy('read_file', { path: 'inside.txt' }, approval, workspace)).toBe(
+        'auto'
+      );
+      const denyLink = ToolApprovalConfigSchema.parse({
+        rules: [{ tool: 'read_file', action: 'deny', args: { path: `${outside}/**` } }],
+      });
+      expect(
+        resolveToolPolicy('read_file', { path: 'escape/secret.txt' }, denyLink, workspace)
+      ).toBe('deny');
+    } finally {
+      rmSync(workspace, { recursive: true, force: true });
+      rmSync(outside, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps single-star patterns within one path segment', () => {
+    expect(resolveToolPolicy('write_file', { path: 'notes/today.md' }, approval, WORKSPACE)).toBe(
+      'auto'
+    );
+    expect(
+      resolveToolPolicy('write_file', { path: 'notes/sub/today.md' }, approval, WORKSPACE)
+    ).toBe('ask');
+  });
+});
+
+describe('stepLoop tool approval policy', () => {
+  const SESSION_ID = 'tool-policy-session';
+  const originalHome = process.env.HOME;
+  const originalEnable = process.env.NANO_CLAW_ENABLE_TOOLS;
+  let testHome: string;
+
+  beforeEach(() => {
+    testHome = mkdtempSync(join(tmpdir(), 'nano-claw-tool-policy-'));
+    process.env.HOME = testHome;
+    process.env.NANO_CLAW_ENABLE_TOOLS = 'true';
+    const config = {
+      ...createDefaultConfig(),
+      tools: {
+        enabled: true,
+        restrictToWorkspace: false,
+        approval: {
+          rules: [
+            { tool: 'read_file', action: 'auto', args: { path: `${testHome}/**` } },
+            { tool: 'write_file', action: 'deny' },
+          ],
+        },
+      },
+    };
+    mkdirSync(join(testHome, '.nano-claw'), { recursive: true });
+    writeFileSync(join(testHome, '.nano-claw', 'config.json'), JSON.stringify(config));
+    writeFileSync(join(testHome, 'notes.txt'), 'remember the milk');
+  });
+
+  afterEach(() => {
+    if (originalHome === undefined) delete process.env.HOME;
+    else process.env.HOME = originalHome;
+    if (originalEnable === undefined) delete process.env.NANO_CLAW_ENABLE_TOOLS;
+    else process.env.NANO_CLAW_ENABLE_TOOLS = originalEnable;
+    rmSync(testHome, { recursive: true, force: true });
+    vi.resetModules();
+  });
+
+  function call(id: string, name: string, args: Record<string, unknown>): ToolCall {
+    return { id, type: 'function', function: { name, arguments: JSON.stringify(args) } };
+  }
+
+  async function runChat(turns: LLMResponse[]) {
+    vi.resetModules();
+    const [{ Memory }, api] = await Promise.all([
+      import('../src/agent/memory'),
+      import('../src/api/server'),
+    ]);
+    api.__setProviderManagerForTest({
+      async complete() {
+        const next = turns.shift();
+        if (!next) throw new Error('unexpected provider call');
+        return next;
+      },
+      async *completeStream() {
+        const next = turns.shift();
+        if (!next) throw new Error('unexpected provider call');
+        if (next.content) yield { type: 'text', delta: next.content };
+        if (next.toolCalls) yield { type: 'tool_calls', toolCalls: next.toolCalls };
+        yield { type: 'done', finishReason: next.finishReason ?? 'stop' };
+      },
+    });
+    const memory = new Memory(SESSION_ID);
+    memory.addMessage({ role: 'user', content: 'what is in my notes?' });
+    let result: any;
+    for await (const event of api.stepLoopStream(memory, { model: 'test/model' }, 0)) {
+      if ('debug' in event) result = event;
+    }
+    return { result, memory, api };
+  }
+
+  it('runs auto calls inline, refuses denied ones, and records both in debug', async () => {
+    const { result, memory } = await runChat([
+      {
+        content: '',
+        toolCalls: [
+          call('c1', 'read_file', { path: join(testHome, 'notes.txt') }),
+          call('c2', 'write_file', { path: join(testHome, 'x'), content: 'x' }),
+        ],
+      },
+      { content: 'Your notes say: remember the milk.', finishReason: 'stop' },
+    ]);
+
+    expect(result.type).toBe('final');
+    expect(result.debug.toolPolicy).toEqual([
+      expect.objectContaining({
+        name: 'read_file',
+        toolCallId: 'c1',
+        action: 'auto',
+        success: true,
+      }),
+      { name: 'write_file', toolCallId: 'c2', action: 'deny' },
+    ]);
+    const toolMessages = memory.getMessages().filter((m) => m.role === 'tool');
+    expect(toolMessages.map((m) => [m.tool_call_id, m.content])).toEqual([
+      ['c1', 'remember the milk'],
+      ['c2', POLICY_DENIED_MESSAGE],
+    ]);
+  });
+
+  it('pauses only for the calls that still need approval and keeps call order', async () => {
+    const { result, memory, api } = await runChat([
+      {
+        content: '',
+        toolCalls: [
+          call('c1', 'shell', { command: 'ls' }),
+          call('c2', 'read_file', { path: join(testHome, 'notes.txt') }),
+          call('c3', 'write_file', { path: join(testHome, 'x'), content: 'x' }),
+        ],
+      },
+      { content: 'Okay, I will not list it.', finishReason: 'stop' },
+    ]);
+
+    expect(result.type).toBe('tool_pending');
+    if (result.type !== 'tool_pending') return;
+    expect(result.tools).toEqual([{ id: 'c1', name: 'shell', args: { command: 'ls' } }]);
+    const toolMessages = () =>
+      api
+        .getMemory(SESSION_ID)
+        .getMessages()
+        .filter((m) => m.role === 'tool');
+    // The settled results wait for the card, so they cannot land before c1's.
+    expect(toolMessages()).toEqual([]);
+
+    const req = Readable.from([
+      Buffer.from(JSON.stringify({ requestId: result.requestId, sessionId: SESSION_ID })),
+    ]) as any;
+    req.method = 'POST';
+    req.url = '/api/chat/reject';
+    req.headers = { 'content-type': 'application/json' };
+    const status = await new Promise<number>((resolve) => {
+      let code = 0;
+      const res: any = {
+        setHeader() {},
+        writeHead(statusCode: number) {
+          code = statusCode;
+          return res;
+        },
+        end() {
+          resolve(code);
+          return res;
+        },
+      };
+      const server = api.createServer();
+      (server.listeners('request')[0] as (a: unknown, b: unknown) => void)(req, res);
+    });
+    expect(status).toBe(200);
+    expect(toolMessages().map((m) => m.tool_call_id)).toEqual(['c1', 'c2', 'c3']);
+    expect(toolMessages()[1].content).toBe('remember the milk');
+  });
+});